@@ -0,0 +1,106 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * フォーカス指標のバックフィルスクリプト
+ *
+ * 使用方法:
+ * npx tsx scripts/backfill-focus-metrics.ts --user <userId> --from 2026-10-01 --to 2026-10-08 [--interval 1hour|1day|1week|all] [--overwrite]
+ *
+ * 指定期間内で指標が欠けているウィンドウを screen_capture_analyze の行から算出します（LLMは使いません）。
+ * --overwrite を付けると既存の指標も再計算します。
+ */
+
+// .envファイルを読み込み
+import 'dotenv/config';
+import { FOCUS_METRIC_INTERVALS, type FocusMetricInterval } from '../src/lib/analytics/focus-metrics';
+import { fillMissingFocusMetrics } from '../src/lib/analytics/focus-metrics-store';
+
+interface BackfillArgs {
+  userId: string;
+  rangeStart: Date;
+  rangeEnd: Date;
+  intervals: FocusMetricInterval[];
+  overwrite: boolean;
+}
+
+function printUsage() {
+  console.log('Usage: npx tsx scripts/backfill-focus-metrics.ts --user <userId> --from <date> --to <date> [--interval 1hour|1day|1week|all] [--overwrite]');
+}
+
+/**
+ * コマンドライン引数を解析
+ */
+function parseArgs(argv: string[]): BackfillArgs {
+  const values = new Map<string, string>();
+  let overwrite = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--overwrite') {
+      overwrite = true;
+    } else if (arg.startsWith('--')) {
+      values.set(arg.slice(2), argv[i + 1] ?? '');
+      i++;
+    }
+  }
+
+  const userId = values.get('user');
+  const from = values.get('from');
+  const to = values.get('to');
+  if (!userId || !from || !to) {
+    printUsage();
+    process.exit(1);
+  }
+
+  const rangeStart = new Date(from);
+  const rangeEnd = new Date(to);
+  if (Number.isNaN(rangeStart.getTime()) || Number.isNaN(rangeEnd.getTime()) || rangeStart >= rangeEnd) {
+    throw new Error(`Invalid date range: ${from} - ${to}`);
+  }
+
+  const intervalArg = values.get('interval') ?? 'all';
+  const intervals = intervalArg === 'all'
+    ? [...FOCUS_METRIC_INTERVALS]
+    : FOCUS_METRIC_INTERVALS.filter((interval) => interval === intervalArg);
+  if (intervals.length === 0) {
+    throw new Error(`Unknown interval: ${intervalArg}`);
+  }
+
+  return { userId, rangeStart, rangeEnd, intervals, overwrite };
+}
+
+/**
+ * メイン実行関数
+ */
+async function main() {
+  try {
+    const args = parseArgs(process.argv.slice(2));
+
+    console.log('🚀 Focus Metrics Backfill');
+    console.log('=========================');
+    console.log(`👤 User ID: ${args.userId}`);
+    console.log(`⏰ Range: ${args.rangeStart.toISOString()} - ${args.rangeEnd.toISOString()}`);
+    console.log(`🔁 Mode: ${args.overwrite ? 'recompute all windows' : 'fill missing windows'}\n`);
+
+    for (const interval of args.intervals) {
+      const saved = await fillMissingFocusMetrics({
+        userId: args.userId,
+        interval,
+        rangeStart: args.rangeStart,
+        rangeEnd: args.rangeEnd,
+        overwrite: args.overwrite,
+      });
+      console.log(`📊 ${interval}: ${saved} window(s) saved`);
+    }
+
+    console.log('\n🎉 Backfill Complete!');
+  } catch (error) {
+    console.error('❌ Backfill failed:', error);
+    process.exit(1);
+  }
+}
+
+// スクリプトとして実行された場合のみmainを呼び出し
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,119 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * インターバルサマリーのバックフィルスクリプト
+ *
+ * 使用方法:
+ * npx tsx scripts/backfill-summaries.ts --user <userId> --from 2026-10-01 --to 2026-10-08 [--interval 10min|1hour|1day|1week|all] [--overwrite]
+ *
+ * 指定期間内でサマリーが欠けているウィンドウと、サマリーの作成後に集約元が増えたウィンドウを生成します。
+ * --overwrite を付けると既存のサマリーも再生成します。
+ * --interval all（デフォルト）は 10min → 1hour → 1day → 1week の順に処理します。
+ */
+
+// .envファイルを読み込み
+import 'dotenv/config';
+import {
+  backfillIntervalSummaries,
+  type IntervalSummaryResult,
+  type TimeInterval,
+} from '../src/lib/ai/time-interval-summarizer';
+
+const ALL_INTERVALS: TimeInterval[] = ['10min', '1hour', '1day', '1week'];
+
+interface BackfillArgs {
+  userId: string;
+  rangeStart: Date;
+  rangeEnd: Date;
+  intervals: TimeInterval[];
+  overwrite: boolean;
+}
+
+function printUsage() {
+  console.log('Usage: npx tsx scripts/backfill-summaries.ts --user <userId> --from <date> --to <date> [--interval 10min|1hour|1day|1week|all] [--overwrite]');
+}
+
+/**
+ * コマンドライン引数を解析
+ */
+function parseArgs(argv: string[]): BackfillArgs {
+  const values = new Map<string, string>();
+  let overwrite = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--overwrite') {
+      overwrite = true;
+    } else if (arg.startsWith('--')) {
+      values.set(arg.slice(2), argv[i + 1] ?? '');
+      i++;
+    }
+  }
+
+  const userId = values.get('user');
+  const from = values.get('from');
+  const to = values.get('to');
+  if (!userId || !from || !to) {
+    printUsage();
+    process.exit(1);
+  }
+
+  const rangeStart = new Date(from);
+  const rangeEnd = new Date(to);
+  if (Number.isNaN(rangeStart.getTime()) || Number.isNaN(rangeEnd.getTime()) || rangeStart >= rangeEnd) {
+    throw new Error(`Invalid date range: ${from} - ${to}`);
+  }
+
+  const intervalArg = values.get('interval') ?? 'all';
+  const intervals = intervalArg === 'all'
+    ? ALL_INTERVALS
+    : ALL_INTERVALS.filter((interval) => interval === intervalArg);
+  if (intervals.length === 0) {
+    throw new Error(`Unknown interval: ${intervalArg}`);
+  }
+
+  return { userId, rangeStart, rangeEnd, intervals, overwrite };
+}
+
+/**
+ * メイン実行関数
+ */
+async function main() {
+  try {
+    const args = parseArgs(process.argv.slice(2));
+
+    console.log('🚀 Interval Summary Backfill');
+    console.log('============================');
+    console.log(`👤 User ID: ${args.userId}`);
+    console.log(`⏰ Range: ${args.rangeStart.toISOString()} - ${args.rangeEnd.toISOString()}`);
+    console.log(`🔁 Mode: ${args.overwrite ? 'regenerate all windows' : 'fill missing or stale windows'}\n`);
+
+    // 下位の階層から順に処理（上位は下位のサマリーから生成されるため）
+    for (const interval of args.intervals) {
+      const results: IntervalSummaryResult[] = await backfillIntervalSummaries({
+        userId: args.userId,
+        interval,
+        rangeStart: args.rangeStart,
+        rangeEnd: args.rangeEnd,
+        overwrite: args.overwrite,
+      });
+
+      const created = results.filter((r) => r.success && !r.skipped).length;
+      const failed = results.filter((r) => !r.success);
+      console.log(`📊 ${interval}: ${created} generated, ${failed.length} failed`);
+      for (const result of failed) {
+        console.log(`   ⚠️ ${result.timeRange.start.toISOString()}: ${result.error}`);
+      }
+    }
+
+    console.log('\n🎉 Backfill Complete!');
+  } catch (error) {
+    console.error('❌ Backfill failed:', error);
+    process.exit(1);
+  }
+}
+
+// スクリプトとして実行された場合のみmainを呼び出し
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,66 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * 個人APIトークンの発行（ブラウザ以外のキャプチャエージェント用）
+ *
+ * 使用方法:
+ * npx tsx scripts/create-api-token.ts --user <userId> [--name "Desktop agent"] [--scopes capture:write,logs:read] [--days 90]
+ *
+ * トークンはこの一度だけ表示されます（データベースにはハッシュのみ保存）。
+ * Authorization: Bearer <token> として各APIに送信してください。
+ */
+
+// .envファイルを読み込み
+import 'dotenv/config';
+import { createApiToken } from '../src/lib/auth/api-tokens';
+import { API_TOKEN_SCOPES, isApiTokenScope } from '../src/lib/auth/scopes';
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const values = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--') && argv[i + 1] && !argv[i + 1].startsWith('--')) {
+      values.set(arg.slice(2), argv[++i]);
+    }
+  }
+  return values;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const userId = args.get('user');
+  if (!userId) {
+    console.error('❌ --user <userId> を指定してください');
+    process.exit(1);
+  }
+
+  const requested = (args.get('scopes') ?? 'capture:write').split(',').map((s) => s.trim()).filter(Boolean);
+  const invalid = requested.filter((scope) => !isApiTokenScope(scope));
+  if (invalid.length > 0) {
+    console.error(`❌ 不明なスコープ: ${invalid.join(', ')}（指定可能: ${API_TOKEN_SCOPES.join(', ')}）`);
+    process.exit(1);
+  }
+
+  const days = Number(args.get('days'));
+  const expiresAt = Number.isFinite(days) && days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : null;
+
+  try {
+    const created = await createApiToken({
+      userId,
+      name: args.get('name') ?? 'Capture agent',
+      scopes: requested.filter(isApiTokenScope),
+      expiresAt,
+    });
+    console.log(`✅ APIトークンを発行しました (id: ${created.id})`);
+    console.log(`スコープ: ${requested.join(', ')}`);
+    console.log(`有効期限: ${expiresAt ? expiresAt.toISOString() : 'なし'}\n`);
+    console.log(created.token);
+  } catch (error) {
+    console.error('❌ 発行エラー:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
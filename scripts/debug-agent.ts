@@ -1,8 +1,9 @@
 #!/usr/bin/env npx tsx
 /**
- * Debug script for analyzing recordings from public URLs
- * Usage: npx tsx scripts/debug-agent.ts <URL>
- * Example: npx tsx scripts/debug-agent.ts https://ooeziwqlhmevflojdfhu.supabase.co/storage/v1/object/public/captures/recordings/1755987999895-vdofda45mj.webm
+ * Debug script for analyzing recordings from URLs or storage paths
+ * Usage: npx tsx scripts/debug-agent.ts <URL | supabase://captures/<path>>
+ * Example: npx tsx scripts/debug-agent.ts supabase://captures/<user id>/recordings/1755987999895-vdofda45mj.webm
+ * (The captures bucket is private; use a storage path or a signed URL)
  */
 
 import { analyzeVideoFromPath } from '../src/lib/ai/productivity-analyzer';
@@ -73,7 +74,7 @@ async function main() {
   // 環境変数の確認
   console.log('\n' + colors.dim + '📋 Environment Check:' + colors.reset);
   const requiredEnvVars = [
-    'GOOGLE_AI_API_KEY',
+    'GOOGLE_GENERATIVE_AI_API_KEY',
     'NEXT_PUBLIC_SUPABASE_URL',
     'NEXT_PUBLIC_SUPABASE_ANON_KEY'
   ];
@@ -140,21 +141,22 @@ async function main() {
         
         // 主要な情報を見やすく表示
         const analysis = result.analysis;
-        if (analysis.workSummary) {
+        if (analysis.summary?.mainActivity) {
           console.log('\n' + colors.bright + '📝 Work Summary:' + colors.reset);
-          console.log(analysis.workSummary);
+          console.log(analysis.summary.mainActivity);
         }
         
-        if (analysis.productivityScore) {
+        if (analysis.summary?.productivityScore) {
           console.log('\n' + colors.bright + '📈 Productivity Score:' + colors.reset);
-          console.log(`${analysis.productivityScore}/100`);
+          console.log(`${analysis.summary.productivityScore}/100`);
         }
         
-        if (analysis.topRecommendation && typeof analysis.topRecommendation === 'object' && 'title' in analysis.topRecommendation) {
+        const topRecommendation = analysis.recommendations?.[0];
+        if (topRecommendation) {
           console.log('\n' + colors.bright + '⭐ Top Recommendation:' + colors.reset);
-          console.log(`Title: ${(analysis.topRecommendation as any).title}`);
-          console.log(`Action: ${(analysis.topRecommendation as any).action}`);
-          console.log(`Expected Benefit: ${(analysis.topRecommendation as any).expectedBenefit}`);
+          console.log(`Title: ${topRecommendation.title}`);
+          console.log(`Action: ${topRecommendation.description}`);
+          console.log(`Expected Benefit: ${topRecommendation.expectedBenefit}`);
         }
         
         if (analysis.userAdvice) {
@@ -166,8 +168,8 @@ async function main() {
         console.log('\n' + colors.bright + '⏱️ Statistics:' + colors.reset);
         printInfo('Duration', `${duration} seconds`);
         printInfo('Status', 'Success');
-        if (analysis.totalTimeMinutes) {
-          printInfo('Analyzed Time', `${analysis.totalTimeMinutes} minutes`);
+        if (analysis.summary?.totalTime) {
+          printInfo('Analyzed Time', `${analysis.summary.totalTime} minutes`);
         }
       } else {
         console.log('\n' + colors.yellow + '⚠️ No analysis returned' + colors.reset);
@@ -0,0 +1,60 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * アドバイス採用判定スクリプト
+ *
+ * 使用方法:
+ * npx tsx scripts/evaluate-advice-adoption.ts [--id <recommendationId>] [--user <userId>] [--limit 50]
+ *
+ * --id を指定するとそのレコメンドだけを（期限に関係なく）判定します。
+ * 指定しない場合は判定期限に達したレコメンドをまとめて判定します。
+ */
+
+// .envファイルを読み込み
+import 'dotenv/config';
+import {
+  evaluateDueRecommendations,
+  evaluateRecommendationAdoption,
+  type AdoptionEvaluationResult,
+} from '../src/lib/ai/advice-adoption-evaluator';
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const values = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--') && argv[i + 1] && !argv[i + 1].startsWith('--')) {
+      values.set(arg.slice(2), argv[++i]);
+    }
+  }
+  return values;
+}
+
+function printResult(result: AdoptionEvaluationResult) {
+  console.log(`- ${result.recommendationId}: ${result.verdict} (confidence ${result.confidence.toFixed(2)})`);
+  console.log(`  ${result.evidence}`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  try {
+    if (args.get('id')) {
+      printResult(await evaluateRecommendationAdoption(args.get('id')!));
+      return;
+    }
+
+    const results = await evaluateDueRecommendations(new Date(), {
+      userId: args.get('user'),
+      limit: args.get('limit') ? Number(args.get('limit')) : undefined,
+    });
+    console.log(`✅ ${results.length}件のレコメンドを判定しました`);
+    results.forEach(printResult);
+  } catch (error) {
+    console.error('❌ 採用判定エラー:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
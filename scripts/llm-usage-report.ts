@@ -0,0 +1,100 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * LLM利用料金レポート
+ *
+ * 使用方法:
+ * npx tsx scripts/llm-usage-report.ts [--since 2026-10-01] [--until 2026-11-01] [--user <userId>]
+ *
+ * llm_usage をユーザー・用途・モデルごとに集計し、コストの大きい順に表示します。
+ * 期間を省略した場合は今月（UTC）を集計します。
+ */
+
+// .envファイルを読み込み
+import 'dotenv/config';
+import { getSupabaseServiceClient } from '../src/lib/supabase/server';
+import { startOfUtcMonth } from '../src/lib/usage/budget';
+
+const PAGE_SIZE = 1000;
+
+interface UsageRow {
+  user_id: string | null;
+  use_case: string;
+  model: string;
+  total_tokens: number;
+  cost_usd: number | string;
+}
+
+interface UsageGroup {
+  calls: number;
+  tokens: number;
+  cost: number;
+}
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const values = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--') && argv[i + 1] && !argv[i + 1].startsWith('--')) {
+      values.set(arg.slice(2), argv[++i]);
+    }
+  }
+  return values;
+}
+
+async function fetchUsage(since: string, until: string, userId?: string): Promise<UsageRow[]> {
+  const supabase = getSupabaseServiceClient();
+  const rows: UsageRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('llm_usage')
+      .select('user_id, use_case, model, total_tokens, cost_usd')
+      .gte('created_at', since)
+      .lt('created_at', until)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (userId) query = query.eq('user_id', userId);
+
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    rows.push(...((data ?? []) as UsageRow[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const since = args.get('since') ?? startOfUtcMonth(new Date()).toISOString();
+  const until = args.get('until') ?? new Date().toISOString();
+
+  try {
+    const rows = await fetchUsage(since, until, args.get('user'));
+    const groups = new Map<string, UsageGroup>();
+    let totalCost = 0;
+
+    for (const row of rows) {
+      const key = `${row.user_id ?? '(system)'}\t${row.use_case}\t${row.model}`;
+      const group = groups.get(key) ?? { calls: 0, tokens: 0, cost: 0 };
+      const cost = Number(row.cost_usd) || 0;
+      group.calls += 1;
+      group.tokens += row.total_tokens;
+      group.cost += cost;
+      totalCost += cost;
+      groups.set(key, group);
+    }
+
+    console.log(`📊 LLM利用料金: ${since} 〜 ${until}`);
+    console.log(`合計: $${totalCost.toFixed(4)} (${rows.length}回の呼び出し)\n`);
+    console.log('user\tuse_case\tmodel\tcalls\ttokens\tcost_usd');
+    Array.from(groups.entries())
+      .sort((a, b) => b[1].cost - a[1].cost)
+      .forEach(([key, g]) => console.log(`${key}\t${g.calls}\t${g.tokens}\t${g.cost.toFixed(4)}`));
+  } catch (error) {
+    console.error('❌ 集計エラー:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -7,10 +7,17 @@ async function testProductivityNotification() {
 
   try {
     const url = process.env.TEST_BASE_URL || 'http://localhost:3000';
+    // Personal API token with the notifications:write scope (npm run api-token:create)
+    const token = process.env.TEST_API_TOKEN;
+    if (!token) {
+      console.error('❌ TEST_API_TOKEN is required (notifications are sent to the token owner)');
+      return;
+    }
     const response = await fetch(`${url}/api/send-productivity-advice`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
       },
       body: JSON.stringify({
         title: '💡 Test: Productivity Advice',
@@ -1,23 +1,29 @@
 import { NextRequest } from 'next/server';
+import { createHash } from 'crypto';
 import OpenAI from 'openai';
+import { getUserFromRequest } from '@/lib/supabase/server';
 
 export const runtime = 'nodejs';
 
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
+// Keyed by caller + exact image bytes + prompt: a similar-looking image must never get another caller's answer
 type CacheEntry = { text: string; createdAt: number };
 const imageAnalysisCache = new Map<string, CacheEntry>();
 const CACHE_TTL_MS = 1000 * 60 * 10; // 10 minutes
+const CACHE_MAX_ENTRIES = 100;
 
-function hashBufferToKey(buffer: ArrayBuffer): string {
-  // Fast non-cryptographic hash for cache key
-  let hash = 2166136261;
-  const view = new Uint8Array(buffer);
-  for (let i = 0; i < view.length; i += Math.ceil(view.length / 1024) || 1) {
-    hash ^= view[i];
-    hash += (hash << 1) + (hash << 4) + (hash << 7) + (hash << 8) + (hash << 24);
+function cacheKey(caller: string, buffer: ArrayBuffer, prompt: string): string {
+  return createHash('sha256').update(caller).update('\0').update(Buffer.from(buffer)).update('\0').update(prompt).digest('hex');
+}
+
+function findCachedAnalysis(key: string, now: number): CacheEntry | undefined {
+  const entry = imageAnalysisCache.get(key);
+  if (entry && now - entry.createdAt >= CACHE_TTL_MS) {
+    imageAnalysisCache.delete(key);
+    return undefined;
   }
-  return `img_${(hash >>> 0).toString(16)}`;
+  return entry;
 }
 
 export async function POST(req: NextRequest) {
@@ -31,10 +37,10 @@ export async function POST(req: NextRequest) {
     }
 
     const buffer = await file.arrayBuffer();
-    const cacheKey = hashBufferToKey(buffer);
-    const now = Date.now();
-    const cached = imageAnalysisCache.get(cacheKey);
-    if (cached && now - cached.createdAt < CACHE_TTL_MS) {
+    const user = await getUserFromRequest(req);
+    const key = cacheKey(user?.id ?? 'anonymous', buffer, prompt);
+    const cached = findCachedAnalysis(key, Date.now());
+    if (cached) {
       return new Response(cached.text, {
         headers: { 'Content-Type': 'text/plain; charset=utf-8' },
       });
@@ -58,7 +64,11 @@ export async function POST(req: NextRequest) {
     });
 
     const text = completion.choices?.[0]?.message?.content ?? '';
-    imageAnalysisCache.set(cacheKey, { text, createdAt: Date.now() });
+    imageAnalysisCache.set(key, { text, createdAt: Date.now() });
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (imageAnalysisCache.size > CACHE_MAX_ENTRIES) {
+      imageAnalysisCache.delete(imageAnalysisCache.keys().next().value as string);
+    }
     return new Response(text, { headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import {
+	assembleChunks,
+	claimUpload,
+	completeUpload,
+	getCompletedUpload,
+	isUploadProcessing,
+	isValidUploadId,
+	listReceivedChunks,
+	parseCapturedAt,
+	processRecording,
+	releaseUpload,
+	storeChunk,
+} from '@/lib/capture/uploads';
+import { resolveCaptureFocusSession } from '@/lib/focus-sessions/sessions';
+import { resolveCaptureSession } from '@/lib/sessions/store';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ uploadId: string }> };
+
+// Resumable recording upload:
+//   GET                 -> chunk indexes the server already has, whether the upload is being
+//                          processed, and the result once it is done
+//   PUT ?index=N        -> store one chunk (raw body, idempotent)
+//   POST (JSON)         -> claim the upload, assemble the chunks and run the normal recording pipeline
+//                          (a repeat returns the stored result when done, or 202 while another request
+//                          is still processing it; the client then polls GET)
+async function resolveUploadId(params: Params['params']): Promise<string | null> {
+	const { uploadId } = await params;
+	return isValidUploadId(uploadId) ? uploadId : null;
+}
+
+export async function GET(request: Request, { params }: Params) {
+	const auth = await authenticateRequest(request, 'capture:write');
+	if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+	const uploadId = await resolveUploadId(params);
+	if (!uploadId) return NextResponse.json({ error: 'Invalid upload id' }, { status: 400 });
+	try {
+		const result = await getCompletedUpload(auth.userId, uploadId);
+		if (result) return NextResponse.json({ received: [], processing: false, result });
+		return NextResponse.json({
+			received: await listReceivedChunks(auth.userId, uploadId),
+			processing: await isUploadProcessing(auth.userId, uploadId),
+			result: null,
+		});
+	} catch (e) {
+		const message = e instanceof Error ? e.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
+
+export async function PUT(request: Request, { params }: Params) {
+	const auth = await authenticateRequest(request, 'capture:write');
+	if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+	const uploadId = await resolveUploadId(params);
+	if (!uploadId) return NextResponse.json({ error: 'Invalid upload id' }, { status: 400 });
+	const index = Number(new URL(request.url).searchParams.get('index'));
+	if (!Number.isInteger(index) || index < 0) {
+		return NextResponse.json({ error: 'Invalid chunk index' }, { status: 400 });
+	}
+	const chunk = Buffer.from(await request.arrayBuffer());
+	try {
+		await storeChunk(auth.userId, uploadId, index, chunk);
+		return NextResponse.json({ index, size: chunk.length });
+	} catch (e) {
+		const message = e instanceof Error ? e.message : 'Unknown error';
+		const status = message.startsWith('Chunk must be') ? 413 : 500;
+		return NextResponse.json({ error: message }, { status });
+	}
+}
+
+export async function POST(request: Request, { params }: Params) {
+	const auth = await authenticateRequest(request, 'capture:write');
+	if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+	const uploadId = await resolveUploadId(params);
+	if (!uploadId) return NextResponse.json({ error: 'Invalid upload id' }, { status: 400 });
+	const body = await request.json().catch(() => null) as {
+		chunk_count?: number;
+		file_name?: string;
+		mime_type?: string;
+		captured_at?: string;
+		focus_session_id?: string;
+		session_id?: string;
+	} | null;
+	const chunkCount = Number(body?.chunk_count);
+	if (!body || !Number.isInteger(chunkCount) || chunkCount < 1) {
+		return NextResponse.json({ error: 'Invalid chunk_count' }, { status: 400 });
+	}
+	let claimed = false;
+	try {
+		const completed = await getCompletedUpload(auth.userId, uploadId);
+		if (completed) return NextResponse.json(completed);
+		claimed = await claimUpload(auth.userId, uploadId);
+		if (!claimed) return NextResponse.json({ processing: true }, { status: 202 });
+		const { buffer, missing } = await assembleChunks(auth.userId, uploadId, chunkCount);
+		if (missing.length > 0) {
+			// The client re-sends these and completes again
+			await releaseUpload(auth.userId, uploadId);
+			return NextResponse.json({ error: 'Missing chunks', missing }, { status: 409 });
+		}
+		const capturedAt = parseCapturedAt(body.captured_at);
+		const result = await processRecording({
+			userId: auth.userId,
+			buffer,
+			fileName: body.file_name || `recording-${uploadId}.webm`,
+			mimeType: body.mime_type || 'video/webm',
+			capturedAt,
+			focusSessionId: await resolveCaptureFocusSession(auth.userId, body.focus_session_id, capturedAt),
+			sessionId: await resolveCaptureSession(auth.userId, body.session_id, capturedAt),
+		});
+		await completeUpload(auth.userId, uploadId, result);
+		return NextResponse.json(result);
+	} catch (e) {
+		if (claimed) await releaseUpload(auth.userId, uploadId);
+		const message = e instanceof Error ? e.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
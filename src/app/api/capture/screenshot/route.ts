@@ -1,87 +1,141 @@
 import { NextResponse } from 'next/server';
 import { getSupabaseServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/request';
 import { randomUUID } from 'crypto';
 import { analyzeAndSaveScreenCapture } from '@/lib/ai/screen-capture-interpreter';
+import { evaluateAlertRules } from '@/lib/alerts/evaluate';
+import { computeImageFrameHash, extendRepeatedCapture, findRepeatedCapture, type RepeatedCapture } from '@/lib/capture/dedupe';
+import { parseCapturedAt } from '@/lib/capture/uploads';
+import { createSignedCaptureUrl } from '@/lib/capture/storage';
+import { CAPTURE_BUCKET, captureObjectPath } from '@/lib/capture/storage-paths';
+import { resolveCaptureFocusSession } from '@/lib/focus-sessions/sessions';
+import { resolveCaptureSession } from '@/lib/sessions/store';
 
 export const runtime = 'nodejs';
 
+// The unchanged screen adds time to the previous row, so time-based alert rules are checked again
+async function repeatedResponse(userId: string, repeated: RepeatedCapture, capturedAt: Date) {
+	await evaluateAlertRules(userId, capturedAt);
+	return NextResponse.json({
+		action_log_id: repeated.id,
+		summary: repeated.summary,
+		context: null,
+		duplicate: true,
+		repeat_count: repeated.repeatCount,
+	});
+}
+
 export async function POST(request: Request) {
+	// The owner comes from the session or API token, never from the form
+	const auth = await authenticateRequest(request, 'capture:write');
+	if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+	const userId = auth.userId;
 	try {
 		const contentType = request.headers.get('content-type') || '';
 		if (!contentType.includes('multipart/form-data')) {
 			return NextResponse.json({ error: 'Invalid content-type' }, { status: 400 });
 		}
 		const formData = await request.formData();
+		// Queued captures are uploaded late; keep the time they were taken
+		const capturedAt = parseCapturedAt(formData.get('captured_at'));
+		const focusSessionId = await resolveCaptureFocusSession(userId, formData.get('focus_session_id'), capturedAt);
+		const sessionId = await resolveCaptureSession(userId, formData.get('session_id'), capturedAt);
+
+		// The client already decided this frame matches its previous upload: only extend that log
+		const duplicateOf = (formData.get('duplicate_of') as string) || '';
+		if (duplicateOf) {
+			const repeated = await extendRepeatedCapture(duplicateOf, userId, capturedAt, focusSessionId, sessionId);
+			if (repeated) return repeatedResponse(userId, repeated, capturedAt);
+			if (!(formData.get('file') instanceof File)) {
+				return NextResponse.json({ error: 'Previous capture not found' }, { status: 404 });
+			}
+		}
+
 		const file = formData.get('file');
 		if (!(file instanceof File)) {
 			return NextResponse.json({ error: 'Missing file' }, { status: 400 });
 		}
-		const userId = (formData.get('user_id') as string) || '';
 		const supabase = getSupabaseServiceClient();
 		const arrayBuffer = await file.arrayBuffer();
 		const buffer = Buffer.from(arrayBuffer);
+
+		// Server-side check as well (other clients, or the client's reference frame was lost)
+		const frameHash = await computeImageFrameHash(buffer);
+		if (frameHash) {
+			const previous = await findRepeatedCapture(userId, frameHash, capturedAt);
+			if (previous) {
+				const repeated = await extendRepeatedCapture(previous.id, userId, capturedAt, focusSessionId, sessionId);
+				if (repeated) return repeatedResponse(userId, repeated, capturedAt);
+			}
+		}
 		const ext = (file.name.split('.').pop() || 'png').toLowerCase();
-		const path = `screenshots/${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`;
+		const path = captureObjectPath(userId, 'screenshots', `${capturedAt.getTime()}-${Math.random().toString(36).slice(2)}.${ext}`);
 		const { data, error } = await supabase.storage
-			.from('captures')
+			.from(CAPTURE_BUCKET)
 			.upload(path, buffer, { contentType: file.type || 'image/png', upsert: false });
 		if (error) return NextResponse.json({ error: error.message }, { status: 500 });
-		const { data: publicUrlData } = supabase.storage.from('captures').getPublicUrl(data.path);
+		// The bucket is private: the uploader gets a short-lived link, viewers sign their own via /api/capture/signed-urls
+		const url = await createSignedCaptureUrl(data.path);
 
 		// Create action log, insert images row, then analyze
 		try {
-			if (userId) {
-				const actionLogId = randomUUID();
-				const startedAt = new Date().toISOString();
-				const { data: insertedLog, error: logErr } = await supabase
-					.from('action_logs')
-					.insert({
-						id: actionLogId,
-						user_id: userId,
-						type: 'screen_capture_analyze',
-						started_at: startedAt,
-						details: { storage_path: data.path },
-						tags: ['capture','screenshot'],
-					})
-					.select('id')
-					.single();
-				if (logErr || !insertedLog) {
-					console.error('action_logs insert failed', logErr);
-					return NextResponse.json({ error: 'Failed to create action log' }, { status: 500 });
-				}
-				// Link image to action_log
-				const { error: imgErr } = await supabase.from('images').insert({
+			const actionLogId = randomUUID();
+			const startedAt = capturedAt.toISOString();
+			const { data: insertedLog, error: logErr } = await supabase
+				.from('action_logs')
+				.insert({
+					id: actionLogId,
 					user_id: userId,
-					storage_path: data.path,
-					mime_type: file.type || 'image/png',
-					size_bytes: buffer.length,
-					captured_at: startedAt,
-					action_log_id: actionLogId,
-				});
-				if (imgErr) {
-					console.error('images insert failed', imgErr);
-					return NextResponse.json({ error: 'Failed to save image row' }, { status: 500 });
-				}
-				// Run analysis + embedding save synchronously to ensure DB update before returning
-				const analysisResult = await analyzeAndSaveScreenCapture({
-					image: Buffer.from(buffer),
-					timestamp: Date.now(),
-					userId,
-					actionLogId,
-				});
-				return NextResponse.json({
-					path: data.path,
-					url: publicUrlData.publicUrl,
-					action_log_id: actionLogId,
-					summary: analysisResult.analysis?.description ?? null,
-				});
+					type: 'screen_capture_analyze',
+					parent_id: sessionId,
+					started_at: startedAt,
+					details: {
+						storage_path: data.path,
+						frame_hash: frameHash,
+						repeat_count: 1,
+						...(focusSessionId ? { focus_session_id: focusSessionId } : {}),
+						...(sessionId ? { session_id: sessionId } : {}),
+					},
+					tags: ['capture','screenshot'],
+				})
+				.select('id')
+				.single();
+			if (logErr || !insertedLog) {
+				console.error('action_logs insert failed', logErr);
+				return NextResponse.json({ error: 'Failed to create action log' }, { status: 500 });
 			}
+			// Link image to action_log
+			const { error: imgErr } = await supabase.from('images').insert({
+				user_id: userId,
+				storage_path: data.path,
+				mime_type: file.type || 'image/png',
+				size_bytes: buffer.length,
+				captured_at: startedAt,
+				action_log_id: actionLogId,
+			});
+			if (imgErr) {
+				console.error('images insert failed', imgErr);
+				return NextResponse.json({ error: 'Failed to save image row' }, { status: 500 });
+			}
+			// Run analysis + embedding save synchronously to ensure DB update before returning
+			const analysisResult = await analyzeAndSaveScreenCapture({
+				image: Buffer.from(buffer),
+				timestamp: capturedAt.getTime(),
+				userId,
+				actionLogId,
+			});
+			return NextResponse.json({
+				path: data.path,
+				url,
+				action_log_id: actionLogId,
+				summary: analysisResult.analysis?.description ?? null,
+				context: analysisResult.analysis?.context ?? null,
+				frame_hash: frameHash,
+			});
 		} catch (e) {
 			console.error('screenshot handler error', e);
 			return NextResponse.json({ error: 'Failed during DB linkage' }, { status: 500 });
 		}
-
-		return NextResponse.json({ path: data.path, url: publicUrlData.publicUrl });
 	} catch (e) {
 		const message = e instanceof Error ? e.message : 'Unknown error';
 		return NextResponse.json({ error: message }, { status: 500 });
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/supabase/server';
+import { createSignedCaptureUrls, filterOwnedCapturePaths, SIGNED_URL_TTL_SECONDS } from '@/lib/capture/storage';
+import { MAX_SIGNED_URLS_PER_REQUEST } from '@/lib/capture/storage-paths';
+
+export const runtime = 'nodejs';
+
+// Short-lived URLs for the signed-in user's own captures; paths owned by someone else are left out
+export async function POST(req: NextRequest) {
+	const user = await getUserFromRequest(req);
+	if (!user) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const body = await req.json().catch(() => null) as { paths?: unknown } | null;
+		const paths = Array.isArray(body?.paths) ? body.paths.filter((p): p is string => typeof p === 'string') : [];
+		if (paths.length === 0 || paths.length > MAX_SIGNED_URLS_PER_REQUEST) {
+			return NextResponse.json(
+				{ error: `paths must contain 1-${MAX_SIGNED_URLS_PER_REQUEST} storage paths` },
+				{ status: 400 }
+			);
+		}
+		const owned = await filterOwnedCapturePaths(user.id, paths);
+		const urls = await createSignedCaptureUrls(owned);
+		return NextResponse.json({
+			urls: Object.fromEntries(urls),
+			expiresAt: new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000).toISOString(),
+		});
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/supabase/server';
+import { getConversation, getConversationMessages } from '@/lib/supabase/chat';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+	const user = await getUserFromRequest(request);
+	if (!user) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+	const { id } = await params;
+	const conversation = await getConversation(id, user.id);
+	if (!conversation) {
+		return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+	}
+	const messages = await getConversationMessages(id, user.id);
+	return NextResponse.json({ conversation, messages });
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/supabase/server';
+import { listConversations } from '@/lib/supabase/chat';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+	const user = await getUserFromRequest(request);
+	if (!user) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+	const conversations = await listConversations(user.id);
+	return NextResponse.json({ conversations });
+}
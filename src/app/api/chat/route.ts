@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import type { ModelMessage } from 'ai';
+import { getUserFromRequest } from '@/lib/supabase/server';
+import { appendChatMessage, createConversation, getConversation, getConversationMessages } from '@/lib/supabase/chat';
+import { collectCitations, streamActivityChat, type ChatStreamEvent } from '@/lib/ai/activity-chat';
+
+export const runtime = 'nodejs';
+
+// Number of previous messages sent back to the model as context
+const HISTORY_LIMIT = 20;
+
+// The browser's IANA time zone, or UTC when it is missing or unknown to this runtime
+function resolveTimeZone(value: unknown): string {
+	if (typeof value !== 'string' || !value) return 'UTC';
+	try {
+		return new Intl.DateTimeFormat('en-US', { timeZone: value }).resolvedOptions().timeZone;
+	} catch {
+		return 'UTC';
+	}
+}
+
+export async function POST(request: Request) {
+	const user = await getUserFromRequest(request);
+	if (!user) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const body = await request.json().catch(() => ({}));
+	const message: string = typeof body.message === 'string' ? body.message.trim() : '';
+	// Checked before anything is saved: an invalid zone would otherwise throw after the message is stored
+	const timeZone = resolveTimeZone(body.timeZone);
+	if (!message) {
+		return NextResponse.json({ error: 'Missing message' }, { status: 400 });
+	}
+
+	try {
+		const conversation = typeof body.conversationId === 'string'
+			? await getConversation(body.conversationId, user.id)
+			: await createConversation(user.id, message);
+		if (!conversation) {
+			return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+		}
+
+		const history = await getConversationMessages(conversation.id, user.id);
+		await appendChatMessage({ conversationId: conversation.id, userId: user.id, role: 'user', content: message });
+
+		const messages: ModelMessage[] = [
+			...history.slice(-HISTORY_LIMIT).map((m) => ({
+				role: m.role === 'assistant' ? ('assistant' as const) : ('user' as const),
+				content: m.content,
+			})),
+			{ role: 'user', content: message },
+		];
+
+		const result = await streamActivityChat({ userId: user.id, messages, timeZone });
+		const encoder = new TextEncoder();
+
+		const stream = new ReadableStream<Uint8Array>({
+			async start(controller) {
+				const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+				send({ type: 'conversation', conversationId: conversation.id });
+				try {
+					let text = '';
+					for await (const part of result.fullStream) {
+						if (part.type === 'text-delta') {
+							text += part.text;
+							send({ type: 'text', text: part.text });
+						} else if (part.type === 'tool-call') {
+							send({ type: 'tool', toolName: part.toolName });
+						} else if (part.type === 'error') {
+							throw part.error;
+						}
+					}
+
+					const steps = await result.steps;
+					const toolOutputs = steps.flatMap((step) => step.toolResults.map((r) => r.output));
+					const citations = await collectCitations(toolOutputs, user.id);
+					const saved = await appendChatMessage({
+						conversationId: conversation.id,
+						userId: user.id,
+						role: 'assistant',
+						content: text || 'No answer was generated.',
+						citations,
+					});
+					send({ type: 'done', messageId: saved.id, citations });
+				} catch (error) {
+					console.error('❌ Chat stream error:', error);
+					send({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+				} finally {
+					controller.close();
+				}
+			},
+		});
+
+		return new Response(stream, {
+			headers: { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' },
+		});
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import { endFocusSession } from '@/lib/focus-sessions/sessions';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ sessionId: string }> };
+
+// Builds and stores the end-of-session report; ending an ended session returns it unchanged
+export async function POST(request: Request, { params }: Params) {
+	const auth = await authenticateRequest(request, 'capture:write');
+	if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+	const { sessionId } = await params;
+
+	try {
+		const session = await endFocusSession(auth.userId, sessionId);
+		if (!session) {
+			return NextResponse.json({ error: 'Focus session not found' }, { status: 404 });
+		}
+		return NextResponse.json({ session });
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
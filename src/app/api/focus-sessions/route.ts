@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import { getActiveFocusSession, startFocusSession } from '@/lib/focus-sessions/sessions';
+import { FocusSessionPlanSchema } from '@/lib/focus-sessions/timer';
+
+export const runtime = 'nodejs';
+
+// Focus sessions tag captures, so capture clients (and their API tokens) can follow and start them
+export async function GET(request: Request) {
+	const auth = await authenticateRequest(request, 'capture:write');
+	if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+	try {
+		return NextResponse.json({ session: await getActiveFocusSession(auth.userId) });
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
+
+// A running session is ended (with its report) before the new one starts
+export async function POST(request: Request) {
+	const auth = await authenticateRequest(request, 'capture:write');
+	if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+	const parsed = FocusSessionPlanSchema.safeParse(await request.json().catch(() => null));
+	if (!parsed.success) {
+		const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+		return NextResponse.json({ error: 'Invalid focus session', issues }, { status: 400 });
+	}
+
+	try {
+		return NextResponse.json({ session: await startFocusSession(auth.userId, parsed.data) }, { status: 201 });
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/supabase/server';
+import { notifyUser } from '@/lib/notifications/notify';
+import { NOTIFICATION_CATEGORIES, type NotificationCategory } from '@/lib/notifications/preferences';
+
+export const runtime = 'nodejs';
+
+// Client-originated notifications (e.g. recording started/stopped) for the signed-in user
+export async function POST(req: NextRequest) {
+	const user = await getUserFromRequest(req);
+	if (!user) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const { category, title, body } = await req.json();
+		if (!NOTIFICATION_CATEGORIES.includes(category)) {
+			return NextResponse.json({ error: 'Invalid category' }, { status: 400 });
+		}
+		if (!title || !body) {
+			return NextResponse.json({ error: 'Missing title or body' }, { status: 400 });
+		}
+
+		const result = await notifyUser(user.id, category as NotificationCategory, { title, body });
+		return NextResponse.json({ ok: true, ...result });
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
@@ -1,9 +1,23 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/supabase/server';
+import { getBudgetStatus } from '@/lib/usage/accounting';
+import { REALTIME_MODEL } from '@/lib/ai/lm-models';
 
 export const runtime = 'nodejs';
 
-export async function POST() {
+export async function POST(req: NextRequest) {
+  // Sessions are billed to a user, so anonymous callers cannot open one
+  const user = await getUserFromRequest(req);
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
   try {
+    // There is no cheaper realtime model to degrade to, so any exceeded budget blocks new sessions
+    const budget = await getBudgetStatus(user.id);
+    if (budget.state !== 'ok') {
+      return NextResponse.json({ error: `LLM budget exceeded: ${budget.reason}` }, { status: 429 });
+    }
+
     const res = await fetch('https://api.openai.com/v1/realtime/sessions', {
       method: 'POST',
       headers: {
@@ -11,7 +25,7 @@ export async function POST() {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        model: 'gpt-4o-realtime-preview-2024-12-17',
+        model: REALTIME_MODEL,
         modalities: ['text', 'audio'],
         voice: 'alloy',
         output_audio_format: 'pcm16',
@@ -27,11 +41,10 @@ export async function POST() {
     return NextResponse.json({
       sessionId: data.id,
       clientSecret: data.client_secret?.value ?? null,
+      model: REALTIME_MODEL,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     return NextResponse.json({ error: message }, { status: 500 });
   }
 }
-
-
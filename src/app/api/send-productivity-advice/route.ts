@@ -1,49 +1,32 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from 'next/server';
-import webPush from 'web-push';
-import { getSubscriptions, getSubscriptionCount } from '@/lib/notifications/subscriptions';
-// NextApiRequestは現在使用していないためコメントアウト
-// import type { NextApiRequest } from 'next';
+import { isPushConfigured } from '@/lib/notifications/push';
+import { notifyUser } from '@/lib/notifications/notify';
+import { authenticateRequest } from '@/lib/auth/request';
 
-const VAPID_PUBLIC = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || '';
-const VAPID_PRIVATE = process.env.VAPID_PRIVATE_KEY || '';
-const VAPID_SUBJECT = process.env.VAPID_SUBJECT || 'mailto:example@example.com';
-
-if (VAPID_PUBLIC && VAPID_PRIVATE) {
-	webPush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC, VAPID_PRIVATE);
-}
+export const runtime = 'nodejs';
 
 export async function POST(req: NextRequest) {
+	// Advice can only be sent to the caller's own devices
+	const auth = await authenticateRequest(req, 'notifications:write');
+	if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+	const userId = auth.userId;
 	try {
 		const { title = '💡 Productivity Advice', body } = await req.json();
-		
+
 		if (!body) {
 			return NextResponse.json({ error: 'Missing notification body' }, { status: 400 });
 		}
 
-		if (!VAPID_PUBLIC || !VAPID_PRIVATE) {
+		if (!isPushConfigured()) {
 			return NextResponse.json({ error: 'Server VAPID keys not configured' }, { status: 500 });
 		}
 
-		const subscriptions = getSubscriptions();
-		console.log('📱 Sending productivity advice push:', { title, body });
-		console.log('📊 Subscription count in memory:', subscriptions.length);
-
-		// すべての登録されたサブスクリプションに送信
-		const promises = (subscriptions as any[]).map(async (subscription) => {
-			try {
-				await webPush.sendNotification(subscription as any, JSON.stringify({ title, body }));
-			} catch (error) {
-				console.error('通知送信エラー:', error);
-			}
-		});
+		console.log('📱 Sending productivity advice push:', { userId, title, body });
 
-		await Promise.all(promises);
+		// 対象ユーザーの通知設定に従って送信（キュー・抑制される場合あり）
+		const result = await notifyUser(userId, 'advice', { title, body });
 
-		return NextResponse.json({ 
-			ok: true, 
-			message: `${getSubscriptionCount()}個のサブスクリプションに通知を送信しました` 
-		});
+		return NextResponse.json({ ok: true, ...result });
 	} catch (error: unknown) {
 		const message = error instanceof Error ? error.message : 'Unknown error';
 		console.error('生産性アドバイス通知エラー:', message);
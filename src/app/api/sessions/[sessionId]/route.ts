@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import { SessionSyncSchema } from '@/lib/sessions/records';
+import { saveSession } from '@/lib/sessions/store';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ sessionId: string }> };
+
+// Capture clients sync their sessions here; the response carries the summary written when a session stops
+export async function PUT(request: Request, { params }: Params) {
+	const auth = await authenticateRequest(request, 'capture:write');
+	if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+	const { sessionId } = await params;
+
+	const parsed = SessionSyncSchema.safeParse(await request.json().catch(() => null));
+	if (!parsed.success) {
+		const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+		return NextResponse.json({ error: 'Invalid session', issues }, { status: 400 });
+	}
+
+	try {
+		const session = await saveSession(auth.userId, sessionId, parsed.data);
+		if (!session) {
+			return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+		}
+		return NextResponse.json({ session });
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
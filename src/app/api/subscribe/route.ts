@@ -1,60 +1,61 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { addSubscription } from '@/lib/notifications/subscriptions';
-import { getSubscriptionCount } from '@/lib/notifications/subscriptions';
-import { getSupabaseServiceClient } from '@/lib/supabase/server';
+import {
+	getSubscriptionCount,
+	isPushSubscriptionInput,
+	removeSubscription,
+	saveSubscription,
+} from '@/lib/notifications/subscriptions';
+import { authenticateRequest } from '@/lib/auth/request';
 
 export const runtime = 'nodejs';
 
+// Subscriptions always belong to the caller (session or API token)
 export async function POST(req: NextRequest) {
+	let body: { subscription?: unknown; endpoint?: unknown };
 	try {
-		const body = await req.json();
-		const subscription = body?.endpoint ? body : body?.subscription;
-		const userId = body?.userId || null;
-		if (!subscription || !subscription.endpoint) {
-			return NextResponse.json({ error: 'Invalid subscription payload' }, { status: 400 });
-		}
-		// Persist to Supabase if table exists
-		try {
-			const supabase = getSupabaseServiceClient();
-			const { error } = await supabase
-				.from('push_subscriptions')
-				.upsert(
-					{
-						user_id: userId,
-						endpoint: subscription.endpoint,
-						keys: subscription.keys ?? null,
-						created_at: new Date().toISOString(),
-						updated_at: new Date().toISOString(),
-					},
-					{ onConflict: 'endpoint' }
-				);
-			if (error) {
-				console.warn('push_subscriptions upsert failed (fallback to memory only):', error.message);
-			}
-		} catch (dbErr) {
-			console.warn('Supabase not available for subscriptions, using memory only:', dbErr);
-		}
-		// Always keep in memory too (dev fallback)
-		addSubscription(subscription);
-		return NextResponse.json({ message: 'Subscription saved' });
+		body = await req.json();
 	} catch {
 		return NextResponse.json({ error: 'Invalid subscription payload' }, { status: 400 });
 	}
+
+	const subscription = body?.endpoint ? body : body?.subscription;
+	if (!isPushSubscriptionInput(subscription)) {
+		return NextResponse.json({ error: 'Invalid subscription payload' }, { status: 400 });
+	}
+
+	const auth = await authenticateRequest(req, 'notifications:write');
+	if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+	const userId = auth.userId;
+
+	try {
+		await saveSubscription(userId, subscription, req.headers.get('user-agent'));
+		return NextResponse.json({ message: 'Subscription saved', count: await getSubscriptionCount(userId) });
+	} catch (error) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
 }
 
-export async function GET() {
+export async function DELETE(req: NextRequest) {
+	let body: { endpoint?: unknown };
 	try {
-		const supabase = getSupabaseServiceClient();
-		const { count, error } = await supabase
-			.from('push_subscriptions')
-			.select('*', { count: 'exact', head: true });
-		if (error) {
-			console.warn('push_subscriptions count failed:', error.message);
-			return NextResponse.json({ count: getSubscriptionCount() });
-		}
-		return NextResponse.json({ count: typeof count === 'number' ? count : getSubscriptionCount() });
-	} catch (e) {
-		console.warn('Supabase not available for subscription count:', e);
-		return NextResponse.json({ count: getSubscriptionCount() });
+		body = await req.json();
+	} catch {
+		return NextResponse.json({ error: 'Missing endpoint' }, { status: 400 });
+	}
+	if (typeof body?.endpoint !== 'string') {
+		return NextResponse.json({ error: 'Missing endpoint' }, { status: 400 });
 	}
+
+	const auth = await authenticateRequest(req, 'notifications:write');
+	if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+
+	await removeSubscription(body.endpoint, auth.userId);
+	return NextResponse.json({ message: 'Subscription removed' });
+}
+
+export async function GET(req: NextRequest) {
+	const auth = await authenticateRequest(req, 'notifications:write');
+	if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+	return NextResponse.json({ count: await getSubscriptionCount(auth.userId) });
 }
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/supabase/server';
+import { revokeApiToken } from '@/lib/auth/api-tokens';
+
+export const runtime = 'nodejs';
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ tokenId: string }> }) {
+	const user = await getUserFromRequest(request);
+	if (!user) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+	const { tokenId } = await params;
+	try {
+		if (!(await revokeApiToken(user.id, tokenId))) {
+			return NextResponse.json({ error: 'Token not found' }, { status: 404 });
+		}
+		return NextResponse.json({ ok: true });
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/supabase/server';
+import { createApiToken, listApiTokens } from '@/lib/auth/api-tokens';
+import { isApiTokenScope } from '@/lib/auth/scopes';
+
+export const runtime = 'nodejs';
+
+const MAX_TOKEN_DAYS = 365;
+
+// Tokens are managed from a signed-in session only; a token cannot mint or list tokens
+export async function GET(req: NextRequest) {
+	const user = await getUserFromRequest(req);
+	if (!user) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		return NextResponse.json({ tokens: await listApiTokens(user.id) });
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
+
+export async function POST(req: NextRequest) {
+	const user = await getUserFromRequest(req);
+	if (!user) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const { name, scopes, expires_in_days } = await req.json();
+		if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+			return NextResponse.json({ error: 'Name must be 1-100 characters' }, { status: 400 });
+		}
+		if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiTokenScope)) {
+			return NextResponse.json({ error: 'Invalid scopes' }, { status: 400 });
+		}
+		const days = expires_in_days == null ? null : Number(expires_in_days);
+		if (days !== null && (!Number.isInteger(days) || days < 1 || days > MAX_TOKEN_DAYS)) {
+			return NextResponse.json({ error: `expires_in_days must be between 1 and ${MAX_TOKEN_DAYS}` }, { status: 400 });
+		}
+
+		const created = await createApiToken({
+			userId: user.id,
+			name,
+			scopes,
+			expiresAt: days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : null,
+		});
+		// The plain token is returned only in this response
+		return NextResponse.json(created, { status: 201 });
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
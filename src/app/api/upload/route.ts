@@ -1,9 +1,14 @@
 import { NextResponse } from 'next/server';
 import { getSupabaseServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import { createSignedCaptureUrl } from '@/lib/capture/storage';
+import { CAPTURE_BUCKET, captureObjectPath } from '@/lib/capture/storage-paths';
 
 export const runtime = 'nodejs';
 
 export async function POST(request: Request) {
+	const auth = await authenticateRequest(request, 'capture:write');
+	if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
 	try {
 		const contentType = request.headers.get('content-type') || '';
 		if (!contentType.includes('multipart/form-data')) {
@@ -22,10 +27,10 @@ export async function POST(request: Request) {
 		const buffer = Buffer.from(arrayBuffer);
 
 		const fileExt = file.name.split('.').pop() || 'bin';
-		const path = `captures/${Date.now()}-${Math.random().toString(36).slice(2)}.${fileExt}`;
+		const path = captureObjectPath(auth.userId, 'files', `${Date.now()}-${Math.random().toString(36).slice(2)}.${fileExt}`);
 
 		const { data: uploadData, error: uploadError } = await supabase.storage
-			.from('captures')
+			.from(CAPTURE_BUCKET)
 			.upload(path, buffer, {
 				contentType: file.type || 'application/octet-stream',
 				upsert: false,
@@ -35,9 +40,9 @@ export async function POST(request: Request) {
 			return NextResponse.json({ error: uploadError.message }, { status: 500 });
 		}
 
-		const { data: publicUrlData } = supabase.storage.from('captures').getPublicUrl(uploadData.path);
+		const url = await createSignedCaptureUrl(uploadData.path);
 
-		return NextResponse.json({ path: uploadData.path, url: publicUrlData.publicUrl });
+		return NextResponse.json({ path: uploadData.path, url });
 	} catch (error: unknown) {
 		const message = error instanceof Error ? error.message : 'Unknown error';
 		return NextResponse.json({ error: message }, { status: 500 });
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServiceClient, getUserFromRequest } from '@/lib/supabase/server';
+import { getBudgetStatus, getUsageTotals, recordModelUsage } from '@/lib/usage/accounting';
+import { parseLlmBudget } from '@/lib/usage/budget';
+import { REALTIME_MODEL } from '@/lib/ai/lm-models';
+
+export const runtime = 'nodejs';
+
+// Today's / this month's spending and the current budget state for the signed-in user
+export async function GET(req: NextRequest) {
+	const user = await getUserFromRequest(req);
+	if (!user) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const { data } = await getSupabaseServiceClient()
+			.from('profiles')
+			.select('llm_budget')
+			.eq('id', user.id)
+			.maybeSingle();
+		const [totals, status] = await Promise.all([getUsageTotals(user.id), getBudgetStatus(user.id)]);
+		return NextResponse.json({ totals, status, budget: parseLlmBudget(data?.llm_budget) });
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
+
+// Realtime sessions run browser ↔ OpenAI directly, so the client reports each response.done usage
+export async function POST(req: NextRequest) {
+	const user = await getUserFromRequest(req);
+	if (!user) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const { usage } = await req.json();
+		const inputTokens = Number(usage?.input_tokens);
+		const outputTokens = Number(usage?.output_tokens);
+		if (!Number.isFinite(inputTokens) || !Number.isFinite(outputTokens) || inputTokens < 0 || outputTokens < 0) {
+			return NextResponse.json({ error: 'Invalid usage' }, { status: 400 });
+		}
+
+		await recordModelUsage({ userId: user.id, useCase: 'REALTIME', modelId: REALTIME_MODEL, inputTokens, outputTokens });
+		return NextResponse.json({ ok: true });
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
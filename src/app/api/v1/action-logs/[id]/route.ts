@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { apiError, handleApiError, requireScope } from '@/lib/api/v1/http';
+import { getActionLog } from '@/lib/api/v1/queries';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+	const auth = await requireScope(request, 'logs:read');
+	if (!auth.ok) return auth.response;
+	const { id } = await params;
+	if (!z.string().uuid().safeParse(id).success) return apiError(404, 'Action log not found');
+
+	try {
+		const log = await getActionLog(auth.data, id);
+		if (!log) return apiError(404, 'Action log not found');
+		return NextResponse.json(log);
+	} catch (error: unknown) {
+		return handleApiError(error);
+	}
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { handleApiError, parseQuery, requireScope } from '@/lib/api/v1/http';
+import { listActionLogs } from '@/lib/api/v1/queries';
+import { ActionLogQuerySchema } from '@/lib/api/v1/schemas';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+	const auth = await requireScope(request, 'logs:read');
+	if (!auth.ok) return auth.response;
+	const query = parseQuery(request, ActionLogQuerySchema);
+	if (!query.ok) return query.response;
+
+	try {
+		return NextResponse.json(await listActionLogs(auth.data, query.data));
+	} catch (error: unknown) {
+		return handleApiError(error);
+	}
+}
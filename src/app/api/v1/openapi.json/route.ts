@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/api/v1/openapi';
+
+export const runtime = 'nodejs';
+
+// Public: the document describes the API, not anyone's data
+export async function GET() {
+	return NextResponse.json(buildOpenApiDocument());
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { handleApiError, parseQuery, requireScope } from '@/lib/api/v1/http';
+import { listRecommendations } from '@/lib/api/v1/queries';
+import { RecommendationQuerySchema } from '@/lib/api/v1/schemas';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+	const auth = await requireScope(request, 'recommendations:read');
+	if (!auth.ok) return auth.response;
+	const query = parseQuery(request, RecommendationQuerySchema);
+	if (!query.ok) return query.response;
+
+	try {
+		return NextResponse.json(await listRecommendations(auth.data, query.data));
+	} catch (error: unknown) {
+		return handleApiError(error);
+	}
+}
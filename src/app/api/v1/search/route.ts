@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { apiError, handleApiError, parseBody, requireScope } from '@/lib/api/v1/http';
+import { MAX_SEARCH_RESULTS } from '@/lib/api/v1/schemas';
+import { searchActionLogs, searchLogsParams } from '@/lib/tools/search-logs';
+
+export const runtime = 'nodejs';
+
+function isValidTime(value: string | undefined): boolean {
+	return value === undefined || !Number.isNaN(new Date(value).getTime());
+}
+
+// Same parameters as the chat agent's searchLogs tool
+export async function POST(request: Request) {
+	const auth = await requireScope(request, 'logs:read');
+	if (!auth.ok) return auth.response;
+	const body = await parseBody(request, searchLogsParams);
+	if (!body.ok) return body.response;
+	const params = body.data;
+	if (!params.query.trim()) return apiError(400, 'Missing query');
+	if (!isValidTime(params.timeRange?.start) || !isValidTime(params.timeRange?.end)) {
+		return apiError(400, 'Invalid timeRange');
+	}
+
+	try {
+		const { rows, searchMethod } = await searchActionLogs(auth.data, {
+			...params,
+			limit: Math.min(Math.max(Math.floor(params.limit ?? 20), 1), MAX_SEARCH_RESULTS),
+		});
+		return NextResponse.json({ data: rows, search_method: searchMethod });
+	} catch (error: unknown) {
+		return handleApiError(error);
+	}
+}
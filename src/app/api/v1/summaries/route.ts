@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { handleApiError, parseQuery, requireScope } from '@/lib/api/v1/http';
+import { listSummaries } from '@/lib/api/v1/queries';
+import { SummaryQuerySchema } from '@/lib/api/v1/schemas';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+	const auth = await requireScope(request, 'logs:read');
+	if (!auth.ok) return auth.response;
+	const query = parseQuery(request, SummaryQuerySchema);
+	if (!query.ok) return query.response;
+
+	try {
+		return NextResponse.json(await listSummaries(auth.data, query.data));
+	} catch (error: unknown) {
+		return handleApiError(error);
+	}
+}
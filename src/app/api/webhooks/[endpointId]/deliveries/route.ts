@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/supabase/server';
+import { listWebhookDeliveries } from '@/lib/webhooks/endpoints';
+
+export const runtime = 'nodejs';
+
+// Delivery log of one endpoint (newest first)
+export async function GET(request: Request, { params }: { params: Promise<{ endpointId: string }> }) {
+	const user = await getUserFromRequest(request);
+	if (!user) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+	const { endpointId } = await params;
+
+	try {
+		return NextResponse.json({ deliveries: await listWebhookDeliveries(user.id, endpointId) });
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/supabase/server';
+import { deleteWebhookEndpoint, updateWebhookEndpoint } from '@/lib/webhooks/endpoints';
+import { isWebhookEvent, validateWebhookUrl, type WebhookEvent } from '@/lib/webhooks/events';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ endpointId: string }> };
+
+export async function PATCH(request: Request, { params }: Params) {
+	const user = await getUserFromRequest(request);
+	if (!user) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+	const { endpointId } = await params;
+
+	try {
+		const body = await request.json();
+		const patch: { url?: string; description?: string | null; events?: WebhookEvent[]; enabled?: boolean } = {};
+		if (body.url !== undefined) {
+			const urlError = typeof body.url === 'string' ? validateWebhookUrl(body.url) : 'Invalid url';
+			if (urlError) return NextResponse.json({ error: urlError }, { status: 400 });
+			patch.url = body.url;
+		}
+		if (body.events !== undefined) {
+			if (!Array.isArray(body.events) || body.events.length === 0 || !body.events.every(isWebhookEvent)) {
+				return NextResponse.json({ error: 'Invalid events' }, { status: 400 });
+			}
+			patch.events = body.events;
+		}
+		if (body.enabled !== undefined) {
+			if (typeof body.enabled !== 'boolean') return NextResponse.json({ error: 'Invalid enabled' }, { status: 400 });
+			patch.enabled = body.enabled;
+		}
+		if (body.description !== undefined) {
+			patch.description = typeof body.description === 'string' ? body.description.slice(0, 200) : null;
+		}
+
+		const endpoint = await updateWebhookEndpoint(user.id, endpointId, patch);
+		if (!endpoint) {
+			return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+		}
+		return NextResponse.json(endpoint);
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+	const user = await getUserFromRequest(request);
+	if (!user) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+	const { endpointId } = await params;
+
+	try {
+		if (!(await deleteWebhookEndpoint(user.id, endpointId))) {
+			return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+		}
+		return NextResponse.json({ ok: true });
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/supabase/server';
+import { createWebhookEndpoint, listWebhookEndpoints } from '@/lib/webhooks/endpoints';
+import { isWebhookEvent, validateWebhookUrl } from '@/lib/webhooks/events';
+
+export const runtime = 'nodejs';
+
+const MAX_ENDPOINTS_PER_USER = 10;
+
+export async function GET(req: NextRequest) {
+	const user = await getUserFromRequest(req);
+	if (!user) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		return NextResponse.json({ endpoints: await listWebhookEndpoints(user.id) });
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
+
+export async function POST(req: NextRequest) {
+	const user = await getUserFromRequest(req);
+	if (!user) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const { url, description, events } = await req.json();
+		const urlError = typeof url === 'string' ? validateWebhookUrl(url) : 'Missing url';
+		if (urlError) {
+			return NextResponse.json({ error: urlError }, { status: 400 });
+		}
+		if (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEvent)) {
+			return NextResponse.json({ error: 'Invalid events' }, { status: 400 });
+		}
+		if ((await listWebhookEndpoints(user.id)).length >= MAX_ENDPOINTS_PER_USER) {
+			return NextResponse.json({ error: `At most ${MAX_ENDPOINTS_PER_USER} webhook endpoints are allowed` }, { status: 400 });
+		}
+
+		const endpoint = await createWebhookEndpoint({
+			userId: user.id,
+			url,
+			description: typeof description === 'string' ? description.slice(0, 200) : null,
+			events,
+		});
+		// The signing secret is returned only in this response
+		return NextResponse.json(endpoint, { status: 201 });
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		return NextResponse.json({ error: message }, { status: 500 });
+	}
+}
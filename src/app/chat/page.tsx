@@ -1,10 +1,33 @@
+"use client";
+
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { ActivityChat } from '@/components/ActivityChat';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, MessageSquare } from 'lucide-react';
+import Link from 'next/link';
+
 export default function ChatPage() {
   return (
-    <div className="max-w-3xl mx-auto p-6">
-      <h2 className="text-xl font-semibold mb-2">Chat (Coming soon)</h2>
-      <p className="text-sm text-gray-600">This page will host the chat experience.</p>
-    </div>
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-white">
+        <div className="mx-auto max-w-6xl px-4 py-6">
+          {/* Header */}
+          <div className="flex items-center gap-3 mb-6">
+            <Link href="/">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+            </Link>
+            <div className="flex items-center gap-2">
+              <MessageSquare className="w-6 h-6 text-blue-600" />
+              <h1 className="text-2xl font-bold text-gray-900">Chat with your activity</h1>
+            </div>
+          </div>
+
+          <ActivityChat />
+        </div>
+      </div>
+    </ProtectedRoute>
   );
 }
-
-
@@ -0,0 +1,360 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import FocusTrends from '@/components/FocusTrends';
+import { useDrillDownCaptures, useTimeBreakdown, type CaptureDrillDown } from '@/hooks/useTimeBreakdown';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { ArrowLeft, LayoutDashboard, X } from 'lucide-react';
+import {
+  ACTIVITY_CATEGORY_COLORS,
+  ACTIVITY_CATEGORY_LABELS,
+  formatDuration,
+  TIME_BREAKDOWN_CATEGORIES,
+  TIME_RANGE_LABELS,
+  TIME_RANGES,
+  timeRangeWindow,
+  toActivityCategory,
+  toMinutes,
+  type TimeRange,
+  type TimeSeriesSlot,
+  type TimeShare,
+} from '@/lib/analytics/time-breakdown';
+import type { ActivityCategory } from '@/lib/ai/screen-capture-interpreter';
+
+const APPLICATION_COLORS = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#dc2626', '#0891b2', '#db2777', '#65a30d', '#94a3b8'];
+
+const categoryChartConfig = Object.fromEntries(
+  TIME_BREAKDOWN_CATEGORIES.map((category) => [
+    category,
+    { label: ACTIVITY_CATEGORY_LABELS[category], color: ACTIVITY_CATEGORY_COLORS[category] },
+  ])
+) satisfies ChartConfig;
+
+const hourChartConfig = {
+  minutes: { label: 'Minutes', color: '#2563eb' },
+} satisfies ChartConfig;
+
+function ShareList({
+  shares,
+  total,
+  colorOf,
+  labelOf,
+  onSelect,
+}: {
+  shares: TimeShare[];
+  total: number;
+  colorOf: (share: TimeShare, index: number) => string;
+  labelOf: (share: TimeShare) => string;
+  onSelect: (share: TimeShare) => void;
+}) {
+  return (
+    <ul className="space-y-1">
+      {shares.map((share, index) => (
+        <li key={share.name}>
+          <button
+            type="button"
+            disabled={share.grouped}
+            onClick={() => onSelect(share)}
+            className="flex w-full items-center gap-2 rounded px-2 py-1 text-left text-sm hover:bg-gray-50 disabled:cursor-default disabled:hover:bg-transparent"
+          >
+            <span className="h-2.5 w-2.5 shrink-0 rounded-sm" style={{ backgroundColor: colorOf(share, index) }} />
+            <span className="flex-1 truncate text-gray-900">{labelOf(share)}</span>
+            <span className="text-xs text-gray-500">{total > 0 ? Math.round((share.seconds / total) * 100) : 0}%</span>
+            <span className="w-16 text-right font-mono text-xs text-gray-700">{formatDuration(share.seconds)}</span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function DrillDownPanel({ drillDown, onClose }: { drillDown: CaptureDrillDown; onClose: () => void }) {
+  const { captures, loading, error } = useDrillDownCaptures(drillDown);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base">Screenshots · {drillDown.label}</CardTitle>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
+            {Array.from({ length: 8 }).map((_, i) => <Skeleton key={i} className="h-24 w-full" />)}
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : captures.length === 0 ? (
+          <p className="text-sm text-gray-500">No screenshots in this slice.</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
+            {captures.map((capture) => (
+              <a
+                key={capture.id}
+                href={capture.url ?? undefined}
+                target="_blank"
+                rel="noreferrer"
+                title={capture.summary ?? undefined}
+                className="block space-y-1"
+              >
+                {capture.url ? (
+                  /* Signed URLs expire: skip the optimizer so private frames are not cached under /_next/image */
+                  <Image
+                    src={capture.url}
+                    alt={capture.summary ?? 'Screenshot'}
+                    width={200}
+                    height={96}
+                    unoptimized
+                    className="w-full h-24 object-cover rounded border"
+                  />
+                ) : (
+                  <Skeleton className="h-24 w-full" />
+                )}
+                <div className="text-xs text-gray-500 truncate">
+                  {new Date(capture.started_at).toLocaleString()}
+                  {capture.application ? ` · ${capture.application}` : ''}
+                </div>
+              </a>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function DashboardPage() {
+  const [range, setRange] = useState<TimeRange>('day');
+  const [drillDown, setDrillDown] = useState<CaptureDrillDown | null>(null);
+  const { breakdown, loading, error } = useTimeBreakdown(range);
+
+  const rangeWindow = useMemo(() => {
+    const { start, end } = timeRangeWindow(range);
+    return { start: start.toISOString(), end: end.toISOString() };
+  }, [range]);
+
+  const applicationData = useMemo(
+    () =>
+      (breakdown?.byApplication ?? []).map((share, index) => ({
+        name: share.name,
+        minutes: toMinutes(share.seconds),
+        fill: APPLICATION_COLORS[index % APPLICATION_COLORS.length],
+      })),
+    [breakdown]
+  );
+
+  const selectRange = (next: TimeRange) => {
+    setRange(next);
+    setDrillDown(null);
+  };
+
+  const drillIntoApplication = (share: TimeShare) => {
+    if (share.grouped) return;
+    setDrillDown({ ...rangeWindow, label: `${share.name} · ${TIME_RANGE_LABELS[range]}`, application: share.name });
+  };
+
+  const drillIntoCategory = (share: TimeShare) => {
+    const category = toActivityCategory(share.name);
+    setDrillDown({ ...rangeWindow, label: `${ACTIVITY_CATEGORY_LABELS[category]} · ${TIME_RANGE_LABELS[range]}`, category });
+  };
+
+  const drillIntoSlot = (slot: TimeSeriesSlot, category: ActivityCategory) => {
+    setDrillDown({ start: slot.start, end: slot.end, label: `${ACTIVITY_CATEGORY_LABELS[category]} · ${slot.label}`, category });
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-white">
+        <div className="mx-auto max-w-4xl px-4 py-6 space-y-6">
+          {/* Header */}
+          <div className="flex items-center gap-3">
+            <Link href="/">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+            </Link>
+            <div className="flex items-center gap-2">
+              <LayoutDashboard className="w-6 h-6 text-blue-600" />
+              <h1 className="text-2xl font-bold text-gray-900">Time Dashboard</h1>
+            </div>
+            <div className="ml-auto flex gap-1">
+              {TIME_RANGES.map((r) => (
+                <Button key={r} size="sm" variant={range === r ? 'default' : 'outline'} onClick={() => selectRange(r)}>
+                  {TIME_RANGE_LABELS[r]}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {loading && !breakdown ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-40 w-full" />)}
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : !breakdown || breakdown.captures === 0 ? (
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-gray-500">No analyzed screenshots in this range. Start capturing to see where your time goes.</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-3">
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-xs text-gray-500">Tracked time</div>
+                    <div className="text-2xl font-bold text-gray-900">{formatDuration(breakdown.totalSeconds)}</div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-xs text-gray-500">Top application</div>
+                    <div className="text-2xl font-bold text-gray-900 truncate">{breakdown.byApplication[0]?.name ?? '–'}</div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-xs text-gray-500">Screenshots</div>
+                    <div className="text-2xl font-bold text-gray-900">{breakdown.captures}</div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Activity over time (minutes)</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={categoryChartConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={breakdown.series}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={8} />
+                      <YAxis tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      {TIME_BREAKDOWN_CATEGORIES.map((category) => (
+                        <Bar
+                          key={category}
+                          dataKey={category}
+                          stackId="time"
+                          fill={`var(--color-${category})`}
+                          className="cursor-pointer"
+                          onClick={(data: { payload?: TimeSeriesSlot }) => {
+                            if (data.payload) drillIntoSlot(data.payload, category);
+                          }}
+                        />
+                      ))}
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <div className="grid gap-6 md:grid-cols-2">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">By application</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <ChartContainer config={{ minutes: { label: 'Minutes' } }} className="mx-auto h-48 aspect-square">
+                      <PieChart>
+                        <ChartTooltip content={<ChartTooltipContent nameKey="name" hideLabel />} />
+                        <Pie
+                          data={applicationData}
+                          dataKey="minutes"
+                          nameKey="name"
+                          innerRadius={50}
+                          className="cursor-pointer"
+                          onClick={(_, index) => drillIntoApplication(breakdown.byApplication[index])}
+                        >
+                          {applicationData.map((entry) => <Cell key={entry.name} fill={entry.fill} />)}
+                        </Pie>
+                      </PieChart>
+                    </ChartContainer>
+                    <ShareList
+                      shares={breakdown.byApplication}
+                      total={breakdown.totalSeconds}
+                      colorOf={(_, index) => APPLICATION_COLORS[index % APPLICATION_COLORS.length]}
+                      labelOf={(share) => share.name}
+                      onSelect={drillIntoApplication}
+                    />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">By activity</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <ChartContainer config={categoryChartConfig} className="mx-auto h-48 aspect-square">
+                      <PieChart>
+                        <ChartTooltip content={<ChartTooltipContent nameKey="name" hideLabel />} />
+                        <Pie
+                          data={breakdown.byCategory.map((share) => ({
+                            name: share.name,
+                            minutes: toMinutes(share.seconds),
+                            fill: `var(--color-${share.name})`,
+                          }))}
+                          dataKey="minutes"
+                          nameKey="name"
+                          innerRadius={50}
+                          className="cursor-pointer"
+                          onClick={(_, index) => drillIntoCategory(breakdown.byCategory[index])}
+                        />
+                      </PieChart>
+                    </ChartContainer>
+                    <ShareList
+                      shares={breakdown.byCategory}
+                      total={breakdown.totalSeconds}
+                      colorOf={(share) => ACTIVITY_CATEGORY_COLORS[toActivityCategory(share.name)]}
+                      labelOf={(share) => ACTIVITY_CATEGORY_LABELS[toActivityCategory(share.name)]}
+                      onSelect={drillIntoCategory}
+                    />
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Hour of day (minutes)</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={hourChartConfig} className="h-48 w-full aspect-auto">
+                    <BarChart data={breakdown.byHourOfDay}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} interval={2} />
+                      <YAxis tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="minutes" fill="var(--color-minutes)" radius={2} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              {drillDown && <DrillDownPanel drillDown={drillDown} onClose={() => setDrillDown(null)} />}
+
+              <FocusTrends range={range} />
+            </>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
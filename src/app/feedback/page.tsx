@@ -1,10 +1,95 @@
-export default function FeedbackPage() {
+"use client";
+
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { RecommendationCard, RecommendationFeedbackForm } from '@/components/RecommendationCard';
+import { useRecommendations } from '@/hooks/useRecommendations';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, MessageSquare } from 'lucide-react';
+import Link from 'next/link';
+
+function PendingFeedback() {
+  const { recommendations, loading, error, refetch, submitFeedback } = useRecommendations(20, {
+    statuses: ['accepted', 'done'],
+    rated: false,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Waiting for your feedback</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : recommendations.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing to rate. Accept or complete advice to give feedback on it.</p>
+        ) : recommendations.map((rec) => (
+          <div key={rec.id} className="py-3 border-b border-gray-200 last:border-b-0">
+            <div className="text-xs text-gray-500 mb-1">{rec.status}</div>
+            {rec.title && <div className="text-sm font-medium text-gray-900">{rec.title}</div>}
+            <div className="text-sm text-gray-700">{rec.content}</div>
+            <RecommendationFeedbackForm recommendation={rec} onSubmit={submitFeedback} onDone={refetch} />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function FeedbackHistory() {
+  const { recommendations, loading, error, submitFeedback } = useRecommendations(50, { rated: true });
+
   return (
-    <div className="max-w-3xl mx-auto p-6">
-      <h2 className="text-xl font-semibold mb-2">Feedback (Coming soon)</h2>
-      <p className="text-sm text-gray-600">This page will list historical feedback and let you submit new feedback.</p>
-    </div>
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Your feedback</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : recommendations.length === 0 ? (
+          <p className="text-sm text-gray-500">No feedback yet.</p>
+        ) : recommendations.map((rec) => (
+          <RecommendationCard key={rec.id} recommendation={rec} onFeedback={submitFeedback} />
+        ))}
+      </CardContent>
+    </Card>
   );
 }
 
+export default function FeedbackPage() {
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-white">
+        <div className="mx-auto max-w-3xl px-4 py-6 space-y-6">
+          {/* Header */}
+          <div className="flex items-center gap-3">
+            <Link href="/recommendations">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+            </Link>
+            <div className="flex items-center gap-2">
+              <MessageSquare className="w-6 h-6 text-blue-600" />
+              <h1 className="text-2xl font-bold text-gray-900">Advice Feedback</h1>
+            </div>
+          </div>
 
+          <p className="text-sm text-gray-600">
+            Rate the advice you tried. Ratings and comments are kept with each recommendation.
+          </p>
+
+          <PendingFeedback />
+          <FeedbackHistory />
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
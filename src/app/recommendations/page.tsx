@@ -1,11 +1,23 @@
 "use client";
 
+import { useState } from 'react';
 import { RecommendationsList } from '@/components/RecommendationsList';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Lightbulb } from 'lucide-react';
+import { ArrowLeft, Lightbulb, MessageSquare } from 'lucide-react';
 import Link from 'next/link';
+import { ACTIVE_RECOMMENDATION_STATUSES, type RecommendationStatus } from '@/lib/recommendations/lifecycle';
+
+const FILTERS: { label: string; statuses?: RecommendationStatus[] }[] = [
+  { label: 'All' },
+  { label: 'Active', statuses: ACTIVE_RECOMMENDATION_STATUSES },
+  { label: 'Done', statuses: ['done'] },
+  { label: 'Dismissed', statuses: ['dismissed'] },
+];
 
 export default function RecommendationsPage() {
+  const [filterIndex, setFilterIndex] = useState(0);
+  const filter = FILTERS[filterIndex];
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-50 to-white">
       <div className="mx-auto max-w-4xl px-4 py-6">
@@ -23,6 +35,12 @@ export default function RecommendationsPage() {
               <h1 className="text-2xl font-bold text-gray-900">AI Advice History</h1>
             </div>
           </div>
+          <Link href="/feedback">
+            <Button variant="outline" size="sm">
+              <MessageSquare className="w-4 h-4 mr-2" />
+              Feedback
+            </Button>
+          </Link>
         </div>
 
         {/* Recommendations */}
@@ -30,11 +48,24 @@ export default function RecommendationsPage() {
           <div className="text-center mb-8">
             <p className="text-gray-600 max-w-2xl mx-auto">
               View AI productivity advice you&apos;ve received in the past.
-              These recommendations are generated by analyzing your work patterns.
+              Accept, snooze or dismiss each tip, and mark it done once you&apos;ve tried it.
             </p>
           </div>
           
-          <RecommendationsList limit={20} showHeader={false} />
+          <div className="flex justify-center gap-2">
+            {FILTERS.map((f, i) => (
+              <Button
+                key={f.label}
+                variant={i === filterIndex ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setFilterIndex(i)}
+              >
+                {f.label}
+              </Button>
+            ))}
+          </div>
+
+          <RecommendationsList key={filter.label} limit={20} showHeader={false} statuses={filter.statuses} />
         </div>
       </div>
     </div>
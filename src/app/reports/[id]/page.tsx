@@ -0,0 +1,56 @@
+"use client";
+
+import { useParams } from 'next/navigation';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { ProductivityReport } from '@/components/ProductivityReport';
+import { useProductivityReport } from '@/hooks/useProductivityReports';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle, ArrowLeft, FileBarChart } from 'lucide-react';
+import Link from 'next/link';
+
+export default function ReportPage() {
+  const params = useParams<{ id: string }>();
+  const { report, loading, error } = useProductivityReport(params?.id);
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-white">
+        <div className="mx-auto max-w-4xl px-4 py-6">
+          {/* Header */}
+          <div className="flex items-center gap-3 mb-6">
+            <Link href="/reports">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+            </Link>
+            <div className="flex items-center gap-2">
+              <FileBarChart className="w-6 h-6 text-blue-600" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Recording Report</h1>
+                {report?.created_at && (
+                  <div className="text-xs text-gray-500">{new Date(report.created_at).toLocaleString()}</div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-40 w-full" />
+              <Skeleton className="h-64 w-full" />
+            </div>
+          ) : error ? (
+            <div className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          ) : report ? (
+            <ProductivityReport report={report} />
+          ) : null}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { useProductivityReports } from '@/hooks/useProductivityReports';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, FileBarChart } from 'lucide-react';
+import Link from 'next/link';
+
+export default function ReportsPage() {
+  const { reports, loading, error } = useProductivityReports();
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-white">
+        <div className="mx-auto max-w-4xl px-4 py-6">
+          {/* Header */}
+          <div className="flex items-center gap-3 mb-6">
+            <Link href="/">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+            </Link>
+            <div className="flex items-center gap-2">
+              <FileBarChart className="w-6 h-6 text-blue-600" />
+              <h1 className="text-2xl font-bold text-gray-900">Recording Reports</h1>
+            </div>
+          </div>
+
+          <Card>
+            <CardContent className="pt-6">
+              {loading ? (
+                <div className="space-y-3">
+                  {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+                </div>
+              ) : error ? (
+                <p className="text-sm text-red-600">{error}</p>
+              ) : reports.length === 0 ? (
+                <p className="text-sm text-gray-500">No analyzed recordings yet. Start a recording to get a report.</p>
+              ) : (
+                <ul className="divide-y">
+                  {reports.map((r) => (
+                    <li key={r.id}>
+                      <Link href={`/reports/${r.id}`} className="flex items-center gap-4 py-3 hover:bg-gray-50 px-2 rounded">
+                        <div className="w-12 text-center text-lg font-bold text-gray-900">{r.productivity_score ?? '–'}</div>
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm text-gray-900 truncate">{r.main_activity || 'Recording'}</div>
+                          <div className="text-xs text-gray-500">
+                            {r.created_at ? new Date(r.created_at).toLocaleString() : ''}
+                            {r.total_time ? ` · ${r.total_time} min` : ''}
+                          </div>
+                        </div>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
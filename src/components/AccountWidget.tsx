@@ -1,6 +1,7 @@
 "use client";
 
 import { useNotifications } from '@/hooks/useNotifications';
+import { useAuth } from '@/context/AuthContext';
 import { useEffect, useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -21,6 +22,7 @@ const VAPID_STORAGE_KEY = 'push.vapidPublicKey';
 
 export default function AccountWidget() {
 	const { permission, request, isSupported } = useNotifications();
+	const { session } = useAuth();
 	const granted = permission === 'granted';
 	const [pushMessage, setPushMessage] = useState<string>('');
 	const [subscribed, setSubscribed] = useState<boolean>(false);
@@ -59,6 +61,13 @@ export default function AccountWidget() {
 		};
 	}, [isMounted, autoTest, granted]);
 
+	const saveSubscription = async (sub: PushSubscription) => {
+		const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+		if (session?.access_token) headers.Authorization = `Bearer ${session.access_token}`;
+		const res = await fetch('/api/subscribe', { method: 'POST', headers, body: JSON.stringify({ subscription: sub }) });
+		if (!res.ok) throw new Error('Sign in to receive push notifications');
+	};
+
 	const subscribeToPush = async () => {
 		try {
 			setBusy(true);
@@ -82,6 +91,7 @@ export default function AccountWidget() {
 			const existing = await reg.pushManager.getSubscription();
 			if (existing) {
 				if (storedKey === vapidKey) {
+					await saveSubscription(existing);
 					setSubscribed(true);
 					setPushMessage('Already subscribed');
 					return;
@@ -89,7 +99,7 @@ export default function AccountWidget() {
 				await existing.unsubscribe();
 			}
 			const sub = await reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: urlBase64ToUint8Array(vapidKey) });
-			await fetch('/api/subscribe', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ subscription: sub }) });
+			await saveSubscription(sub);
 			try { window.localStorage.setItem('push.subscription', JSON.stringify(sub)); } catch {}
 			if (typeof window !== 'undefined') window.localStorage.setItem(VAPID_STORAGE_KEY, vapidKey);
 			setSubscribed(true);
@@ -104,7 +114,7 @@ export default function AccountWidget() {
 					const vapidKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY as string | undefined;
 					if (vapidKey) {
 						const newSub = await reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: urlBase64ToUint8Array(vapidKey) });
-						await fetch('/api/subscribe', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ subscription: newSub }) });
+						await saveSubscription(newSub);
 						try { window.localStorage.setItem('push.subscription', JSON.stringify(newSub)); } catch {}
 						if (typeof window !== 'undefined') window.localStorage.setItem(VAPID_STORAGE_KEY, vapidKey);
 						setSubscribed(true);
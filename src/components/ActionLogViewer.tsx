@@ -6,6 +6,8 @@ import { getBrowserSupabaseClient } from "@/lib/supabase/client";
 import type { Database } from "@/lib/supabase/database.types";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import Image from 'next/image';
+import { getRepeatCount } from "@/lib/capture/frame-hash";
+import { useSignedCaptureUrls } from "@/hooks/useSignedCaptureUrls";
 
 type ActionLogRow = Database["public"]["Tables"]["action_logs"]["Row"];
 type ImageRow = Database["public"]["Tables"]["images"]["Row"];
@@ -21,7 +23,7 @@ type SummaryWithChildren = {
   summary: ActionLogRow; // summary_10min row from action_logs
   children?: {
     logs: ActionLogRow[];
-    images: Array<ImageRow & { url: string }>;
+    images: ImageRow[];
   };
   loadingChildren: boolean;
 };
@@ -39,6 +41,11 @@ export default function ActionLogViewer() {
   const { user } = useAuth();
   const [items, setItems] = useState<SummaryWithChildren[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
+  const imagePaths = useMemo(
+    () => items.flatMap((it) => it.children?.images.map((img) => img.storage_path) ?? []),
+    [items]
+  );
+  const imageUrls = useSignedCaptureUrls(imagePaths);
 
   // Load latest summary_10min windows for current user
   useEffect(() => {
@@ -88,19 +95,14 @@ export default function ActionLogViewer() {
       if (logErr) throw logErr;
 
       const logIds = (logs ?? []).map((l) => l.id);
-      let images: Array<ImageRow & { url: string }> = [];
+      let images: ImageRow[] = [];
       if (logIds.length > 0) {
         const { data: imgs, error: imgErr } = await supabase
           .from("images")
           .select("*")
           .in("action_log_id", logIds);
         if (imgErr) throw imgErr;
-        images = await Promise.all(
-          (imgs ?? []).map(async (img) => {
-            const { data: pub } = supabase.storage.from("captures").getPublicUrl(img.storage_path);
-            return { ...img, url: pub.publicUrl };
-          })
-        );
+        images = imgs ?? [];
       }
 
       setItems((prev) =>
@@ -150,6 +152,11 @@ export default function ActionLogViewer() {
                                     <span className="text-gray-500 mr-2">[{toTimeHM(l.created_at)}]</span>
                                     <span className="mr-2">{l.type}</span>
                                     <span className="text-gray-800">{l.summary || "(no summary)"}</span>
+                                    {getRepeatCount(l.details) > 1 && (
+                                      <span className="ml-2 text-xs text-gray-500">
+                                        unchanged ×{getRepeatCount(l.details)} until {toTimeHM(l.ended_at)}
+                                      </span>
+                                    )}
                                   </li>
                                 ))}
                               </ul>
@@ -160,13 +167,14 @@ export default function ActionLogViewer() {
                                 <div className="text-xs text-gray-500">No screenshots in this window.</div>
                               ) : (
                                 <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
-                                  {it.children.images.map((img) => (
-                                    <a key={img.id} href={img.url} target="_blank" rel="noreferrer" className="block">
+                                  {it.children.images.filter((img) => imageUrls[img.storage_path]).map((img) => (
+                                    <a key={img.id} href={imageUrls[img.storage_path]} target="_blank" rel="noreferrer" className="block">
                                       <Image
-                                        src={img.url}
+                                        src={imageUrls[img.storage_path]}
                                         alt={img.storage_path}
                                         width={200}
                                         height={112}
+                                        unoptimized
                                         className="w-full h-28 object-cover rounded border"
                                       />
                                     </a>
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { useActivityChat, type ChatMessage } from '@/hooks/useActivityChat';
+import { useSignedCaptureUrls } from '@/hooks/useSignedCaptureUrls';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, MessageSquarePlus, Send } from 'lucide-react';
+
+const EXAMPLE_QUESTIONS = [
+  'What was I doing Tuesday afternoon?',
+  'How long did I spend in Slack this week?',
+  'Which documents did I edit yesterday?',
+];
+
+function Citations({ message }: { message: ChatMessage }) {
+  const screenshotUrls = useSignedCaptureUrls(message.citations.flatMap((c) => c.screenshotPaths));
+  if (message.citations.length === 0) return null;
+  return (
+    <details className="mt-2 text-xs">
+      <summary className="cursor-pointer text-gray-500">{message.citations.length} source log(s)</summary>
+      <ul className="mt-2 space-y-2">
+        {message.citations.map((c) => (
+          <li key={c.actionLogId} className="border rounded p-2 bg-gray-50">
+            <div className="flex items-center gap-2 mb-1">
+              <span className="text-gray-500">{new Date(c.startedAt).toLocaleString()}</span>
+              <span className="px-1 py-0.5 bg-blue-100 text-blue-800 rounded">{c.type}</span>
+            </div>
+            <div className="text-gray-800">{c.summary || '(no summary)'}</div>
+            {c.screenshotPaths.some((path) => screenshotUrls[path]) ? (
+              <div className="mt-2 grid grid-cols-3 gap-2">
+                {c.screenshotPaths.filter((path) => screenshotUrls[path]).map((path) => (
+                  <a key={path} href={screenshotUrls[path]} target="_blank" rel="noreferrer" className="block">
+                    <Image src={screenshotUrls[path]} alt={c.summary || c.actionLogId} width={160} height={80} unoptimized className="w-full h-20 object-cover rounded border" />
+                  </a>
+                ))}
+              </div>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+export function ActivityChat() {
+  const { conversations, conversationId, messages, activeTool, sending, error, sendMessage, openConversation } = useActivityChat();
+  const [input, setInput] = useState('');
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const submit = async (text: string) => {
+    if (!text.trim()) return;
+    setInput('');
+    await sendMessage(text);
+  };
+
+  return (
+    <div className="flex gap-4 h-[calc(100vh-10rem)]">
+      <Card className="w-64 shrink-0 flex flex-col">
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">Conversations</CardTitle>
+            <Button variant="ghost" size="sm" onClick={() => openConversation(null)} disabled={sending}>
+              <MessageSquarePlus className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="flex-1 overflow-y-auto space-y-1">
+          {conversations.length === 0 ? (
+            <div className="text-xs text-gray-500">No conversations yet.</div>
+          ) : conversations.map((c) => (
+            <button
+              key={c.id}
+              onClick={() => openConversation(c.id)}
+              disabled={sending}
+              className={`w-full text-left text-sm rounded px-2 py-1 truncate hover:bg-gray-100 ${c.id === conversationId ? 'bg-gray-100 font-medium' : ''}`}
+            >
+              {c.title || 'Untitled'}
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="flex-1 flex flex-col">
+        <CardContent className="flex-1 flex flex-col gap-3 pt-6 min-h-0">
+          <ScrollArea className="flex-1 pr-2">
+            {messages.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center gap-3">
+                <p className="text-gray-600">Ask about your own activity history.</p>
+                <div className="flex flex-wrap justify-center gap-2">
+                  {EXAMPLE_QUESTIONS.map((q) => (
+                    <Button key={q} variant="outline" size="sm" onClick={() => submit(q)} disabled={sending}>{q}</Button>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-col gap-3">
+                {messages.map((m) => (
+                  <div key={m.id} className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${m.role === 'user' ? 'self-end bg-blue-600 text-white' : 'self-start bg-white border'}`}>
+                    <div className="whitespace-pre-wrap">
+                      {m.content || (m.pending ? <span className="text-gray-400">Thinking…</span> : null)}
+                    </div>
+                    {m.role === 'assistant' ? <Citations message={m} /> : null}
+                  </div>
+                ))}
+                {activeTool ? <Badge variant="secondary" className="self-start">Searching logs ({activeTool})…</Badge> : null}
+                <div ref={bottomRef} />
+              </div>
+            )}
+          </ScrollArea>
+
+          {error ? (
+            <div className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          ) : null}
+
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submit(input);
+            }}
+          >
+            <Textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+                  e.preventDefault();
+                  submit(input);
+                }
+              }}
+              placeholder="What was I working on this morning?"
+              rows={2}
+              disabled={sending}
+            />
+            <Button type="submit" disabled={sending || !input.trim()}>
+              <Send className="w-4 h-4" />
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
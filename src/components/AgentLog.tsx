@@ -6,11 +6,19 @@ import type { AgentLogItem, AgentTip } from '@/context/SessionContext';
 import { Card, CardContent } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useFocusTimer } from '@/hooks/useFocusSession';
+import { formatTimer, phaseProgress } from '@/lib/focus-sessions/timer';
 
 type GroupedItem = { type: 'log'; item: AgentLogItem } | { type: 'tip'; item: AgentTip };
 
+const PHASE_LABELS = { focus: 'Focus', break: 'Break', done: 'Done' } as const;
+
+// Live view of the running session: the focus timer (for focus sessions), then its logs and tips
 export default function AgentLog() {
 	const { activeSession } = useSessionContext();
+	const timer = useFocusTimer(activeSession);
+	const focus = activeSession?.focus;
 
 	const grouped: GroupedItem[] = useMemo(() => {
 		const logs: GroupedItem[] = (activeSession?.log ?? [])
@@ -31,6 +39,21 @@ export default function AgentLog() {
 	return (
 		<ScrollArea className="h-full">
 			<div className="flex flex-col gap-2 pr-2">
+				{focus && timer ? (
+					<Card>
+						<CardContent className="pt-4 space-y-2">
+							<div className="text-sm font-medium">{focus.intention}</div>
+							<div className="flex items-center justify-between">
+								<div className="flex items-center gap-2">
+									<Badge variant={timer.phase === 'focus' ? 'default' : 'secondary'}>{PHASE_LABELS[timer.phase]}</Badge>
+									<span className="text-xs text-gray-600">Round {timer.round} / {focus.rounds}</span>
+								</div>
+								<span className="font-mono text-2xl tabular-nums">{formatTimer(timer.remainingMs)}</span>
+							</div>
+							<Progress value={phaseProgress(focus, timer)} />
+						</CardContent>
+					</Card>
+				) : null}
 				{grouped.map((g) => (
 					<Card key={g.item.id}>
 						<CardContent className="pt-4">
@@ -0,0 +1,321 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Plus, Trash2 } from 'lucide-react';
+import { getBrowserSupabaseClient } from '@/lib/supabase/client';
+import type { Tables } from '@/lib/supabase/database.types';
+import { ACTIVITY_CATEGORY_LABELS, TIME_BREAKDOWN_CATEGORIES } from '@/lib/analytics/time-breakdown';
+import {
+  ALERT_RULE_KIND_LABELS,
+  ALERT_RULE_KINDS,
+  MAX_ALERT_RULES,
+  MAX_ALERT_WINDOW_MINUTES,
+  newAlertRule,
+  WEEKDAY_LABELS,
+  type AlertRule,
+  type AlertSettings,
+} from '@/lib/alerts/rules';
+
+interface AlertRuleSettingsProps {
+  value: AlertSettings;
+  onChange: (value: AlertSettings) => void;
+  disabled?: boolean;
+}
+
+type AlertEventRow = Pick<Tables<'alert_events'>, 'id' | 'rule_name' | 'body' | 'notification_status' | 'created_at'>;
+
+const RECENT_ALERT_COUNT = 5;
+
+// 1行に1項目
+function toLines(text: string): string[] {
+  return text.split('\n');
+}
+
+function toInt(value: string, min: number, max: number): number {
+  return Math.max(min, Math.min(max, Math.round(Number(value) || min)));
+}
+
+// 直近に発火したアラート（alert_events）
+function RecentAlerts() {
+  const { user } = useAuth();
+  const [events, setEvents] = useState<AlertEventRow[]>([]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    getBrowserSupabaseClient()
+      .from('alert_events')
+      .select('id, rule_name, body, notification_status, created_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_ALERT_COUNT)
+      .then(({ data }) => setEvents(data ?? []));
+  }, [user?.id]);
+
+  if (events.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <div className="text-sm">最近のアラート</div>
+      {events.map((event) => (
+        <div key={event.id} className="text-xs text-gray-600">
+          {event.created_at ? new Date(event.created_at).toLocaleString() : ''} · {event.rule_name}: {event.body}
+          {event.notification_status && event.notification_status !== 'sent' && (
+            <span className="text-gray-400">（{event.notification_status}）</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function AlertRuleSettings({ value, onChange, disabled }: AlertRuleSettingsProps) {
+  const updateRule = (index: number, rule: AlertRule) => {
+    onChange({ ...value, rules: value.rules.map((r, i) => (i === index ? rule : r)) });
+  };
+
+  const addRule = (kind: AlertRule['kind']) => {
+    onChange({ ...value, rules: [...value.rules, newAlertRule(kind, `rule-${Date.now().toString(36)}`)] });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Label>集中アラート</Label>
+      <div className="text-xs text-gray-500">
+        スクリーンショットごとに、保存済みの要約・タグ・アプリ名と時間で判定します（AIは使いません）。
+        時間帯は {value.timeZone} で判定します。
+      </div>
+
+      {value.rules.map((rule, index) => (
+        <div key={rule.id} className="space-y-3 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <Input
+              aria-label="ルール名"
+              value={rule.name}
+              maxLength={100}
+              onChange={(e) => updateRule(index, { ...rule, name: e.target.value })}
+              disabled={disabled}
+            />
+            <Switch
+              checked={rule.enabled}
+              onCheckedChange={(checked) => updateRule(index, { ...rule, enabled: checked })}
+              disabled={disabled}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange({ ...value, rules: value.rules.filter((_, i) => i !== index) })}
+              disabled={disabled}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="text-xs text-gray-500">{ALERT_RULE_KIND_LABELS[rule.kind]}</div>
+
+          {/* 条件 */}
+          {rule.kind === 'time_in_context' ? (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor={`${rule.id}-keywords`} className="text-sm font-normal">
+                  キーワード（要約・タグ・URL・ウィンドウ名に含まれる語句、1行に1つ）
+                </Label>
+                <Textarea
+                  id={`${rule.id}-keywords`}
+                  rows={3}
+                  value={rule.match.keywords.join('\n')}
+                  onChange={(e) => updateRule(index, { ...rule, match: { ...rule.match, keywords: toLines(e.target.value) } })}
+                  disabled={disabled}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`${rule.id}-applications`} className="text-sm font-normal">
+                  アプリ名（1行に1つ）
+                </Label>
+                <Textarea
+                  id={`${rule.id}-applications`}
+                  rows={2}
+                  value={rule.match.applications.join('\n')}
+                  onChange={(e) => updateRule(index, { ...rule, match: { ...rule.match, applications: toLines(e.target.value) } })}
+                  disabled={disabled}
+                />
+              </div>
+              <div className="space-y-1">
+                <div className="text-sm">作業の種類</div>
+                <div className="flex flex-wrap gap-3">
+                  {TIME_BREAKDOWN_CATEGORIES.map((category) => (
+                    <label key={category} className="flex items-center gap-1 text-sm">
+                      <Checkbox
+                        checked={rule.match.categories.includes(category)}
+                        onCheckedChange={(checked) =>
+                          updateRule(index, {
+                            ...rule,
+                            match: {
+                              ...rule.match,
+                              categories: checked === true
+                                ? [...rule.match.categories, category]
+                                : rule.match.categories.filter((c) => c !== category),
+                            },
+                          })
+                        }
+                        disabled={disabled}
+                      />
+                      {ACTIVITY_CATEGORY_LABELS[category]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 text-sm">
+                <span>直近</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_ALERT_WINDOW_MINUTES}
+                  className="w-20"
+                  value={rule.withinMinutes}
+                  onChange={(e) => updateRule(index, { ...rule, withinMinutes: toInt(e.target.value, 1, MAX_ALERT_WINDOW_MINUTES) })}
+                  disabled={disabled}
+                />
+                <span>分のうち</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_ALERT_WINDOW_MINUTES}
+                  className="w-20"
+                  value={rule.minutes}
+                  onChange={(e) => updateRule(index, { ...rule, minutes: toInt(e.target.value, 1, MAX_ALERT_WINDOW_MINUTES) })}
+                  disabled={disabled}
+                />
+                <span>分以上</span>
+              </div>
+              {rule.minutes > rule.withinMinutes && (
+                <div className="text-xs text-red-600">該当時間は判定期間以下にしてください</div>
+              )}
+            </>
+          ) : (
+            <div className="flex items-center gap-2 text-sm">
+              <span>直近</span>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_ALERT_WINDOW_MINUTES}
+                className="w-20"
+                value={rule.withinMinutes}
+                onChange={(e) => updateRule(index, { ...rule, withinMinutes: toInt(e.target.value, 1, MAX_ALERT_WINDOW_MINUTES) })}
+                disabled={disabled}
+              />
+              <span>分に</span>
+              <Input
+                type="number"
+                min={1}
+                max={500}
+                className="w-20"
+                value={rule.switches}
+                onChange={(e) => updateRule(index, { ...rule, switches: toInt(e.target.value, 1, 500) })}
+                disabled={disabled}
+              />
+              <span>回以上切り替え</span>
+            </div>
+          )}
+
+          {/* 時間帯 */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span>フォーカス時間のみ</span>
+              <Switch
+                checked={rule.schedule !== null}
+                onCheckedChange={(checked) =>
+                  updateRule(index, { ...rule, schedule: checked ? { days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' } : null })
+                }
+                disabled={disabled}
+              />
+            </div>
+            {rule.schedule && (
+              <>
+                <div className="flex gap-1">
+                  {WEEKDAY_LABELS.map((label, day) => {
+                    const schedule = rule.schedule!;
+                    const selected = schedule.days.includes(day);
+                    return (
+                      <Button
+                        key={day}
+                        type="button"
+                        size="sm"
+                        variant={selected ? 'default' : 'outline'}
+                        className="h-7 w-7 p-0"
+                        onClick={() =>
+                          updateRule(index, {
+                            ...rule,
+                            schedule: {
+                              ...schedule,
+                              days: selected ? schedule.days.filter((d) => d !== day) : [...schedule.days, day].sort(),
+                            },
+                          })
+                        }
+                        disabled={disabled}
+                      >
+                        {label}
+                      </Button>
+                    );
+                  })}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    value={rule.schedule.start}
+                    onChange={(e) => updateRule(index, { ...rule, schedule: { ...rule.schedule!, start: e.target.value } })}
+                    disabled={disabled}
+                  />
+                  <span className="text-sm">〜</span>
+                  <Input
+                    type="time"
+                    value={rule.schedule.end}
+                    onChange={(e) => updateRule(index, { ...rule, schedule: { ...rule.schedule!, end: e.target.value } })}
+                    disabled={disabled}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2 text-sm">
+            <span>再通知までの間隔</span>
+            <Input
+              type="number"
+              min={1}
+              max={24 * 60}
+              className="w-24"
+              value={rule.cooldownMinutes}
+              onChange={(e) => updateRule(index, { ...rule, cooldownMinutes: toInt(e.target.value, 1, 24 * 60) })}
+              disabled={disabled}
+            />
+            <span>分</span>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        {ALERT_RULE_KINDS.map((kind) => (
+          <Button
+            key={kind}
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => addRule(kind)}
+            disabled={disabled || value.rules.length >= MAX_ALERT_RULES}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {ALERT_RULE_KIND_LABELS[kind]}
+          </Button>
+        ))}
+      </div>
+
+      <RecentAlerts />
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, KeyRound } from 'lucide-react';
+import { API_TOKEN_SCOPE_LABELS, API_TOKEN_SCOPES, type ApiTokenScope } from '@/lib/auth/scopes';
+import type { ApiTokenSummary } from '@/lib/auth/api-tokens';
+
+const EXPIRY_OPTIONS: { value: string; label: string }[] = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'No expiry' },
+];
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : '—';
+}
+
+function tokenState(token: ApiTokenSummary): 'active' | 'revoked' | 'expired' {
+  if (token.revoked_at) return 'revoked';
+  if (token.expires_at && new Date(token.expires_at) <= new Date()) return 'expired';
+  return 'active';
+}
+
+export default function ApiTokenManager() {
+  const { session } = useAuth();
+  const accessToken = session?.access_token;
+  const { toast } = useToast();
+  const [tokens, setTokens] = useState<ApiTokenSummary[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['logs:read']);
+  const [expiry, setExpiry] = useState('90');
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadTokens = useCallback(async () => {
+    if (!accessToken) return;
+    const res = await fetch('/api/tokens', { headers: { Authorization: `Bearer ${accessToken}` } });
+    if (res.ok) setTokens((await res.json()).tokens ?? []);
+  }, [accessToken]);
+
+  useEffect(() => {
+    loadTokens().catch(() => {});
+  }, [loadTokens]);
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
+
+  const handleCreate = async () => {
+    if (!accessToken) return;
+    setLoading(true);
+    try {
+      const res = await fetch('/api/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({
+          name: name.trim(),
+          scopes,
+          expires_in_days: expiry === 'never' ? null : Number(expiry),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to create token');
+      setCreatedToken(data.token);
+      setName('');
+      await loadTokens();
+    } catch (error) {
+      toast({
+        title: "Token Error",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (tokenId: string) => {
+    if (!accessToken) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/tokens/${tokenId}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (!res.ok) throw new Error((await res.json()).error || 'Failed to revoke token');
+      toast({ title: "Token Revoked", description: "Requests with this token are now rejected" });
+      await loadTokens();
+    } catch (error) {
+      toast({
+        title: "Token Error",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      toast({ title: "Copied", description: "The token is on your clipboard" });
+    } catch {}
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label className="text-sm font-medium">API Tokens</Label>
+        <div className="text-xs text-muted-foreground">
+          For scripts and capture agents. Send as <code>Authorization: Bearer &lt;token&gt;</code>; see{' '}
+          <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="underline">the API reference</a>.
+        </div>
+      </div>
+
+      {createdToken && (
+        <div className="space-y-2 rounded-md border p-3">
+          <div className="text-sm">Copy this token now. It will not be shown again.</div>
+          <div className="flex gap-2">
+            <Input readOnly value={createdToken} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button type="button" variant="outline" size="sm" onClick={copyToken}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setCreatedToken(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="token_name">Token Name</Label>
+          <Input
+            id="token_name"
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Desktop capture agent"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Scopes</Label>
+          {API_TOKEN_SCOPES.map((scope) => (
+            <label key={scope} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={scopes.includes(scope)}
+                onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+              />
+              <span className="font-mono text-xs">{scope}</span>
+              <span className="text-muted-foreground">{API_TOKEN_SCOPE_LABELS[scope]}</span>
+            </label>
+          ))}
+        </div>
+        <div className="space-y-2">
+          <Label>Expires</Label>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          onClick={handleCreate}
+          disabled={loading || !name.trim() || scopes.length === 0}
+          size="sm"
+        >
+          <KeyRound className="h-4 w-4 mr-1" />
+          {loading ? "Creating..." : "Create Token"}
+        </Button>
+      </div>
+
+      {tokens.length > 0 && (
+        <div className="space-y-2">
+          {tokens.map((token) => {
+            const state = tokenState(token);
+            return (
+              <div key={token.id} className="flex items-start justify-between gap-2 rounded-md border p-2 text-sm">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{token.name}</span>
+                    {state !== 'active' && <Badge variant="secondary">{state}</Badge>}
+                  </div>
+                  <div className="font-mono text-xs text-muted-foreground">{token.token_prefix}…</div>
+                  <div className="text-xs text-muted-foreground">{token.scopes.join(', ')}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Created {formatDate(token.created_at)} · Last used {formatDate(token.last_used_at)} · Expires {formatDate(token.expires_at)}
+                  </div>
+                </div>
+                {state === 'active' && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="outline" size="sm" disabled={loading}>
+                        Revoke
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Revoke Token</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Anything using &quot;{token.name}&quot; will stop working immediately.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleRevoke(token.id)}>
+                          Revoke
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { useNotifications } from '@/hooks/useNotifications';
+import { useAuth } from '@/context/AuthContext';
 
 // VAPID公開鍵をBase64からUint8Arrayに変換
 function urlBase64ToUint8Array(base64String: string) {
@@ -19,6 +20,8 @@ const VAPID_STORAGE_KEY = 'push.vapidPublicKey';
 
 export default function AutoNotificationSetup() {
   const { permission, request, isSupported } = useNotifications();
+  const { session } = useAuth();
+  const accessToken = session?.access_token;
   const [hasPrompted, setHasPrompted] = useState(false);
   const [isSubscribing, setIsSubscribing] = useState(false);
   const [isMounted, setIsMounted] = useState(false);
@@ -27,6 +30,20 @@ export default function AutoNotificationSetup() {
     setIsMounted(true);
   }, []);
 
+  // サブスクリプションをサインイン中のユーザーに紐付けて保存
+  const registerSubscription = useCallback(async (subscription: PushSubscription) => {
+    if (!accessToken) return false;
+    const response = await fetch('/api/subscribe', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({ subscription })
+    });
+    return response.ok;
+  }, [accessToken]);
+
   const setupPushSubscription = useCallback(async () => {
     if (isSubscribing) return;
     
@@ -69,15 +86,7 @@ export default function AutoNotificationSetup() {
       });
 
       // Send subscription to server
-      const response = await fetch('/api/subscribe', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ subscription })
-      });
-
-      if (response.ok) {
+      if (await registerSubscription(subscription)) {
         if (typeof window !== 'undefined') {
           window.localStorage.setItem(VAPID_STORAGE_KEY, vapidKey);
           try { window.localStorage.setItem('push.subscription', JSON.stringify(subscription)); } catch {}
@@ -110,7 +119,24 @@ export default function AutoNotificationSetup() {
     } finally {
       setIsSubscribing(false);
     }
-  }, [isSubscribing]);
+  }, [isSubscribing, registerSubscription]);
+
+  useEffect(() => {
+    // Re-associate this device's existing subscription whenever a user signs in
+    if (!isMounted || !accessToken || permission !== 'granted') return;
+    if (!('serviceWorker' in navigator)) return;
+    (async () => {
+      try {
+        const reg = await navigator.serviceWorker.ready;
+        const existing = await reg.pushManager.getSubscription();
+        if (existing) {
+          await registerSubscription(existing);
+        }
+      } catch (error) {
+        console.warn('Push subscription sync failed:', error);
+      }
+    })();
+  }, [isMounted, accessToken, permission, registerSubscription]);
 
   useEffect(() => {
     // Ask for permission shortly after load
@@ -1,15 +1,34 @@
 "use client";
 
-import { useCallback, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import html2canvas from 'html2canvas';
+import Link from 'next/link';
 import { useNotifications } from '@/hooks/useNotifications';
 import { useAuth } from '@/context/AuthContext';
+import { useSessionContext } from '@/context/SessionContext';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { useRealtimeSpeaker } from '@/hooks/useRealtimeSpeaker';
+import { useCaptureQueue, type CaptureUploadResult } from '@/hooks/useCaptureQueue';
+import type { CaptureUploadError, QueuedCapture } from '@/lib/capture/upload-queue';
+import { parseRedactionSettings } from '@/lib/capture/redaction';
+import { redactCanvas, type RedactionReport } from '@/lib/capture/redact-frame';
+import {
+	computeDifferenceHash,
+	DUPLICATE_FRAME_MAX_GAP_MS,
+	FRAME_HASH_HEIGHT,
+	FRAME_HASH_WIDTH,
+	isDuplicateFrame,
+	rgbaToGray,
+} from '@/lib/capture/frame-hash';
 
-type UploadResult = { url: string; path: string; summary?: string | null } | null;
+type UploadResult = CaptureUploadResult | null;
+
+type CapturedFrame = { blob: Blob; frameHash: string | null; redaction: RedactionReport };
+
+// Summaries of captures that sat in the queue are not read aloud
+const COMMENTARY_MAX_AGE_MS = 30000;
 
 type DisplayMediaStreamConstraints = {
 	video?: boolean | MediaTrackConstraints;
@@ -25,6 +44,33 @@ function getImageCaptureCtor(): ImageCaptureCtor | undefined {
 	return g.ImageCapture;
 }
 
+// Perceptual hash of a frame, computed on a tiny downscaled copy
+function hashCanvas(source: HTMLCanvasElement): string | null {
+	try {
+		const small = document.createElement('canvas');
+		small.width = FRAME_HASH_WIDTH;
+		small.height = FRAME_HASH_HEIGHT;
+		const ctx = small.getContext('2d');
+		if (!ctx) return null;
+		ctx.drawImage(source, 0, 0, FRAME_HASH_WIDTH, FRAME_HASH_HEIGHT);
+		return computeDifferenceHash(rgbaToGray(ctx.getImageData(0, 0, FRAME_HASH_WIDTH, FRAME_HASH_HEIGHT).data));
+	} catch {
+		return null;
+	}
+}
+
+// Hashed after redaction, so the server sees the same hash for the same (redacted) upload
+function canvasToFrame(canvas: HTMLCanvasElement, redaction: RedactionReport): Promise<CapturedFrame | null> {
+	const frameHash = hashCanvas(canvas);
+	return new Promise((resolve) => canvas.toBlob((blob) => resolve(blob ? { blob, frameHash, redaction } : null), 'image/png', 1));
+}
+
+function describeRedaction(redaction: RedactionReport): string {
+	if (redaction.blocked) return `private screen blurred (${redaction.blocked})`;
+	if (redaction.maskedWords > 0) return `${redaction.maskedWords} sensitive text ${redaction.maskedWords === 1 ? 'area' : 'areas'} masked`;
+	return '';
+}
+
 declare global {
 	interface MediaDevices {
 		getDisplayMedia(constraints?: DisplayMediaStreamConstraints): Promise<MediaStream>;
@@ -33,7 +79,11 @@ declare global {
 
 export default function CaptureClient() {
 	const { permission, request: requestNotif, notify, isSupported } = useNotifications();
-	const { user } = useAuth();
+	const { user, session, profile } = useAuth();
+	const redactionSettings = useMemo(() => parseRedactionSettings(profile?.redaction_settings), [profile?.redaction_settings]);
+	const { activeSession, startSession, stopSession, appendLog } = useSessionContext();
+	const sessionId = activeSession?.id ?? null;
+	const focusSessionId = activeSession?.focus ? activeSession.id : null;
 	const [isRecording, setIsRecording] = useState(false);
 	const [status, setStatus] = useState<string>('');
 	const [uploaded, setUploaded] = useState<UploadResult>(null);
@@ -46,41 +96,77 @@ export default function CaptureClient() {
 	const recInFlightRef = useRef<boolean>(false);
 	const stopRequestedRef = useRef<boolean>(false);
 	const lastSummaryRef = useRef<string>('');
+	// Last uploaded periodic frame, used to skip unchanged screens
+	const lastFrameRef = useRef<{ hash: string; actionLogId: string; at: number } | null>(null);
+	// Video frames cannot be redacted, so no recordings are made or uploaded while redaction is on
+	const redactionEnabledRef = useRef<boolean>(redactionSettings.enabled);
+	// Read when a capture is queued, so a session started mid-recording tags the next capture
+	const sessionIdRef = useRef<string | null>(sessionId);
+	const focusSessionIdRef = useRef<string | null>(focusSessionId);
+	// Session started by this recording (none if one was already running), stopped with it
+	const ownSessionIdRef = useRef<string | null>(null);
 	const { speak } = useRealtimeSpeaker();
 
-	// Send a server push using the current push subscription
-	const sendPushWithSubscription = useCallback(async (title: string, body: string): Promise<boolean> => {
+	useEffect(() => {
+		sessionIdRef.current = sessionId;
+		focusSessionIdRef.current = focusSessionId;
+		// The server never folds a frame into another session's capture, so start from a fresh frame
+		lastFrameRef.current = null;
+	}, [sessionId, focusSessionId]);
+
+	useEffect(() => {
+		redactionEnabledRef.current = redactionSettings.enabled;
+	}, [redactionSettings.enabled]);
+
+	const handleUploaded = useCallback((entry: QueuedCapture, data: CaptureUploadResult) => {
+		setUploaded(data);
+		if (entry.kind === 'recording') {
+			// Advice pushes are sent server-side after analysis
+			setStatus('Uploaded recording');
+			return;
+		}
+		if (entry.frameHash && data.action_log_id) {
+			const at = Math.max(entry.capturedAt, lastFrameRef.current?.at ?? 0);
+			lastFrameRef.current = { hash: entry.frameHash, actionLogId: data.action_log_id, at };
+		}
+		setStatus(data.duplicate ? `Screen unchanged (x${data.repeat_count ?? 2})` : 'Uploaded screenshot');
+		const summary = data.summary || '';
+		// The running session's log shows what each new capture was about
+		if (summary && !data.duplicate && entry.sessionId && entry.sessionId === sessionIdRef.current) {
+			appendLog({ level: 'info', message: summary });
+		}
+		// Speak if enabled and summary available (dedupe)
+		if (commentaryEnabled && summary && summary !== lastSummaryRef.current && Date.now() - entry.capturedAt <= COMMENTARY_MAX_AGE_MS) {
+			lastSummaryRef.current = summary;
+			void speak(summary);
+		}
+	}, [commentaryEnabled, speak, appendLog]);
+
+	const handleUploadFailed = useCallback((entry: QueuedCapture, error: CaptureUploadError, dropped: boolean) => {
+		setStatus(dropped ? `Upload rejected: ${error.message}` : `Upload failed, will retry (${error.message})`);
+	}, []);
+
+	const { pendingCount, online, enqueue, isIdle } = useCaptureQueue({
+		userId: user?.id,
+		accessToken: session?.access_token,
+		onUploaded: handleUploaded,
+		onFailed: handleUploadFailed,
+	});
+
+	// Send a push to the user's devices via the server (respects notification preferences)
+	const sendRecordingPush = useCallback(async (title: string, body: string): Promise<boolean> => {
+		if (!session?.access_token) return false;
 		try {
-			if ('serviceWorker' in navigator) {
-				const reg = await navigator.serviceWorker.ready;
-				const sub = await reg.pushManager.getSubscription();
-				if (sub) {
-					await fetch('/api/send-notification', {
-						method: 'POST',
-						headers: { 'Content-Type': 'application/json' },
-						body: JSON.stringify({ subscription: sub, title, body })
-					});
-					return true;
-				}
-			}
-			// Fallback: use cached subscription
-			const raw = typeof window !== 'undefined' ? window.localStorage.getItem('push.subscription') : null;
-			if (raw) {
-				const cached = JSON.parse(raw);
-				if (cached && cached.endpoint) {
-					await fetch('/api/send-notification', {
-						method: 'POST',
-						headers: { 'Content-Type': 'application/json' },
-						body: JSON.stringify({ subscription: cached, title, body })
-					});
-					return true;
-				}
-			}
-			return false;
+			const res = await fetch('/api/notify', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session.access_token}` },
+				body: JSON.stringify({ category: 'recording', title, body })
+			});
+			return res.ok;
 		} catch {
 			return false;
 		}
-	}, []);
+	}, [session?.access_token]);
 
 	const resetUpload = useCallback(() => {
 		setUploaded(null);
@@ -102,20 +188,47 @@ export default function CaptureClient() {
 		} catch {}
 	}, []);
 
-	const uploadTo = useCallback(async (endpoint: '/api/capture/screenshot' | '/api/capture/recording', file: File) => {
+	// Tell the server the screen is unchanged so it extends the previous capture instead of storing a new one
+	const postRepeatedFrame = useCallback(async (actionLogId: string, capturedAt: number) => {
+		if (!session?.access_token) throw new Error('Not signed in');
 		const formData = new FormData();
-		formData.append('file', file);
-		if (user?.id) formData.append('user_id', user.id);
-		const res = await fetch(endpoint, { method: 'POST', body: formData });
-		if (!res.ok) {
-			const data = await res.json().catch(() => ({}));
-			throw new Error((data as { error?: string }).error || 'Upload failed');
-		}
-		return (await res.json()) as { url: string; path: string; summary?: string | null };
-	}, [user?.id]);
+		formData.append('duplicate_of', actionLogId);
+		formData.append('captured_at', new Date(capturedAt).toISOString());
+		if (focusSessionIdRef.current) formData.append('focus_session_id', focusSessionIdRef.current);
+		if (sessionIdRef.current) formData.append('session_id', sessionIdRef.current);
+		const res = await fetch('/api/capture/screenshot', {
+			method: 'POST',
+			headers: { Authorization: `Bearer ${session.access_token}` },
+			body: formData,
+		});
+		if (!res.ok) throw new Error('Failed to record repeated frame');
+		return (await res.json()) as CaptureUploadResult;
+	}, [session?.access_token]);
+
+	// Captures are stored in the queue first, so nothing is lost if the upload fails
+	const queueScreenshot = useCallback(async (frame: CapturedFrame, capturedAt: number) => {
+		const file = new File([frame.blob], `screenshot-${capturedAt}.png`, { type: 'image/png' });
+		if (saveLocal) saveFile(file);
+		await enqueue({
+			kind: 'screenshot',
+			blob: file,
+			fileName: file.name,
+			mimeType: file.type,
+			capturedAt,
+			frameHash: frame.frameHash,
+			focusSessionId: focusSessionIdRef.current,
+			sessionId: sessionIdRef.current,
+		});
+	}, [saveLocal, saveFile, enqueue]);
+
+	// Redact before anything else sees the pixels (hash, local save, upload queue)
+	const redactFrame = useCallback(async (canvas: HTMLCanvasElement, sourceLabel: string) => {
+		const redaction = await redactCanvas(canvas, redactionSettings, { sourceLabel });
+		return canvasToFrame(canvas, redaction);
+	}, [redactionSettings]);
 
 	// Capture a still frame from the screen share stream if available; fallback to html2canvas
-	const captureStillBlob = useCallback(async (): Promise<Blob | null> => {
+	const captureStill = useCallback(async (): Promise<CapturedFrame | null> => {
 		const stream = streamRef.current;
 		try {
 			const ImageCapture = getImageCaptureCtor();
@@ -128,47 +241,40 @@ export default function CaptureClient() {
 				canvas.width = bitmap.width;
 				canvas.height = bitmap.height;
 				canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
-				return await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png', 1));
+				return await redactFrame(canvas, track.label);
 			}
 		} catch {}
 		// fallback
 		try {
 			const canvas = await html2canvas(document.body);
-			return await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png', 1));
+			return await redactFrame(canvas, document.title);
 		} catch {
 			return null;
 		}
-	}, []);
+	}, [redactFrame]);
 
 	const handleScreenshot = useCallback(async () => {
 		try {
 			resetUpload();
 			setStatus('Capturing screenshot...');
-			const blob = await captureStillBlob();
-			if (!blob) throw new Error('Failed to create image');
-			const file = new File([blob], `screenshot-${Date.now()}.png`, { type: 'image/png' });
-			if (saveLocal) saveFile(file);
-			const data = await uploadTo('/api/capture/screenshot', file);
-			setUploaded(data);
-			setStatus('Uploaded');
-			// Speak if enabled and summary available (dedupe)
-			const summary = (data as { summary?: string | null }).summary || '';
-			if (commentaryEnabled && summary && summary !== lastSummaryRef.current) {
-				lastSummaryRef.current = summary;
-				await speak(summary);
-			}
-			// Send push using the working method (direct subscription)
-			if (summary) {
-				await sendPushWithSubscription('💡 Productivity Advice', summary);
-			}
+			const frame = await captureStill();
+			if (!frame) throw new Error('Failed to create image');
+			const redacted = describeRedaction(frame.redaction);
+			setStatus(redacted ? `Uploading screenshot (${redacted})...` : 'Uploading screenshot...');
+			await queueScreenshot(frame, Date.now());
 		} catch (e) {
 			setStatus(e instanceof Error ? e.message : 'Error');
 		}
-	}, [resetUpload, uploadTo, saveLocal, saveFile, captureStillBlob, commentaryEnabled, speak, sendPushWithSubscription]);
+	}, [resetUpload, captureStill, queueScreenshot]);
 
 	const startRecordingCycle = useCallback(() => {
 		const runOnce = () => {
 			if (recInFlightRef.current) return; // avoid overlap
+			if (redactionEnabledRef.current) {
+				// Checked again every cycle, so turning redaction off resumes recordings
+				if (!stopRequestedRef.current) recTimerRef.current = window.setTimeout(runOnce, 60000);
+				return;
+			}
 			recInFlightRef.current = true;
 			const baseStream = streamRef.current;
 			if (!baseStream) {
@@ -177,25 +283,33 @@ export default function CaptureClient() {
 			}
 			try {
 				const chunks: Blob[] = [];
+				const startedAt = Date.now();
+				// Tagged with the sessions running when it started (its captured_at)
+				const focusSessionId = focusSessionIdRef.current;
+				const sessionId = sessionIdRef.current;
 				const r = new MediaRecorder(baseStream, { mimeType: 'video/webm;codecs=vp9,opus' });
 				r.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
 				r.onstop = async () => {
 					try {
+						// Redaction may have been turned on while it was recording
+						if (redactionEnabledRef.current) {
+							setStatus('Recording discarded (redaction is on)');
+							return;
+						}
 						const blob = new Blob(chunks, { type: 'video/webm' });
-						const file = new File([blob], `recording-${Date.now()}.webm`, { type: 'video/webm' });
+						const file = new File([blob], `recording-${startedAt}.webm`, { type: 'video/webm' });
 						if (saveLocal) saveFile(file);
-						const data = await uploadTo('/api/capture/recording', file);
-						setUploaded(data);
-						setStatus('Uploaded recording');
-						// If analysis result includes advice, send push via direct subscription
-						try {
-							const advice: unknown = (data as unknown as { analysis?: { userAdvice?: unknown } })?.analysis?.userAdvice;
-							if (typeof advice === 'string' && advice) {
-								await sendPushWithSubscription('💡 Productivity Advice', advice);
-							}
-						} catch {}
+						await enqueue({
+							kind: 'recording',
+							blob: file,
+							fileName: file.name,
+							mimeType: file.type,
+							capturedAt: startedAt,
+							focusSessionId,
+							sessionId,
+						});
 					} catch (err) {
-						setStatus(err instanceof Error ? err.message : 'Upload error');
+						setStatus(err instanceof Error ? err.message : 'Failed to queue recording');
 					} finally {
 						recInFlightRef.current = false;
 						currentChunkRecorderRef.current = null;
@@ -215,25 +329,33 @@ export default function CaptureClient() {
 		};
 		// kick off first cycle now
 		runOnce();
-	}, [saveLocal, saveFile, uploadTo, sendPushWithSubscription]);
+	}, [saveLocal, saveFile, enqueue]);
 
 	const startPeriodicScreenshots = useCallback(() => {
 		shotTimerRef.current = window.setInterval(async () => {
 			try {
-				const blob = await captureStillBlob();
-				if (!blob) return;
-				const file = new File([blob], `screenshot-${Date.now()}.png`, { type: 'image/png' });
-				if (saveLocal) saveFile(file);
-				const data = await uploadTo('/api/capture/screenshot', file);
-				const summary = (data as { summary?: string | null }).summary || '';
-				if (commentaryEnabled && summary && summary !== lastSummaryRef.current) {
-					lastSummaryRef.current = summary;
-					await speak(summary);
+				const frame = await captureStill();
+				if (!frame) return;
+				const now = Date.now();
+				const last = lastFrameRef.current;
+				// Only short-circuit when nothing is queued; otherwise the queued frames are newer than `last`
+				if (isIdle() && last && isDuplicateFrame(last.hash, frame.frameHash) && now - last.at <= DUPLICATE_FRAME_MAX_GAP_MS) {
+					try {
+						const repeated = await postRepeatedFrame(last.actionLogId, now);
+						last.at = now;
+						setStatus(`Screen unchanged (x${repeated.repeat_count ?? 2})`);
+						return;
+					} catch {
+						// Fall through and queue the frame; the server dedupes it once it is uploaded
+					}
 				}
-				setStatus('Uploaded screenshot');
-			} catch {}
+				lastFrameRef.current = null;
+				await queueScreenshot(frame, now);
+			} catch {
+				lastFrameRef.current = null;
+			}
 		}, 10000);
-	}, [saveLocal, saveFile, uploadTo, captureStillBlob, commentaryEnabled, speak]);
+	}, [postRepeatedFrame, captureStill, isIdle, queueScreenshot]);
 
 	const handleStartRecording = useCallback(async () => {
 		try {
@@ -245,13 +367,21 @@ export default function CaptureClient() {
 			const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
 			streamRef.current = stream;
 			stopRequestedRef.current = false;
+			// Captures belong to a session: the running one, or a new one for this recording
+			if (!sessionIdRef.current) {
+				const id = startSession();
+				ownSessionIdRef.current = id;
+				sessionIdRef.current = id;
+			}
 			setIsRecording(true);
-			setStatus('Recording (periodic: screenshot every 10s, recording every 60s)...');
+			setStatus(redactionEnabledRef.current
+				? 'Recording (periodic: screenshot every 10s; video recording is off while redaction is on)...'
+				: 'Recording (periodic: screenshot every 10s, recording every 60s)...');
 			startPeriodicScreenshots();
 			startRecordingCycle();
-			// Send start notification via direct subscription
+			// Send start notification to the user's devices
 			try {
-				await sendPushWithSubscription('🎬 Recording started', 'Screen recording started for productivity analysis. Taking screenshots every 10s and recordings every 60s.');
+				await sendRecordingPush('🎬 Recording started', 'Screen recording started for productivity analysis. Taking screenshots every 10s and recordings every 60s.');
 			} catch (error) {
 				console.warn('Failed to send start recording notification:', error);
 			}
@@ -263,7 +393,7 @@ export default function CaptureClient() {
 		} catch (e) {
 			setStatus(e instanceof Error ? e.message : 'Error');
 		}
-	}, [resetUpload, startPeriodicScreenshots, startRecordingCycle, isSupported, permission, requestNotif, notify, sendPushWithSubscription]);
+	}, [resetUpload, startPeriodicScreenshots, startRecordingCycle, isSupported, permission, requestNotif, notify, sendRecordingPush, startSession]);
 
 	const handleStopRecording = useCallback(() => {
 		stopRequestedRef.current = true;
@@ -271,6 +401,7 @@ export default function CaptureClient() {
 		if (recTimerRef.current) window.clearTimeout(recTimerRef.current);
 		shotTimerRef.current = null;
 		recTimerRef.current = null;
+		lastFrameRef.current = null;
 		recInFlightRef.current = false;
 		const cr = currentChunkRecorderRef.current;
 		if (cr && cr.state !== 'inactive') {
@@ -281,11 +412,13 @@ export default function CaptureClient() {
 			s.getTracks().forEach((t) => t.stop());
 			streamRef.current = null;
 		}
+		if (ownSessionIdRef.current && ownSessionIdRef.current === sessionIdRef.current) stopSession();
+		ownSessionIdRef.current = null;
 		setIsRecording(false);
 		setStatus('Stopped');
 		
-		// Send stop notification via direct subscription
-		sendPushWithSubscription('⏹️ Recording stopped', 'Screen recording stopped. You will receive productivity advice when analysis is finished.').catch((error) => {
+		// Send stop notification to the user's devices
+		sendRecordingPush('⏹️ Recording stopped', 'Screen recording stopped. You will receive productivity advice when analysis is finished.').catch((error) => {
 			console.warn('Failed to send stop recording notification:', error);
 		});
 		
@@ -293,7 +426,7 @@ export default function CaptureClient() {
 		if (permission === 'granted') {
 			notify('⏹️ Recording stopped', { body: 'Screen recording stopped.' });
 		}
-	}, [permission, notify, sendPushWithSubscription]);
+	}, [permission, notify, sendRecordingPush, stopSession]);
 
 	return (
 		<Card className="w-full max-w-2xl">
@@ -321,12 +454,22 @@ export default function CaptureClient() {
 					<Button onClick={handleScreenshot} variant="secondary">Take Screenshot Now</Button>
 				</div>
 				<div className="text-sm text-gray-600 min-h-5">{status}</div>
+				{pendingCount > 0 || !online ? (
+					<div className="text-xs text-amber-700">
+						{pendingCount} {pendingCount === 1 ? 'capture' : 'captures'} waiting to upload{online ? '' : ' (offline)'}
+					</div>
+				) : null}
 			</CardContent>
 			{uploaded?.url ? (
 				<CardFooter>
 					<a className="inline-flex w-fit items-center gap-2 rounded-lg border border-gray-200 bg-white/70 px-3 py-2 text-sm text-blue-700 underline shadow hover:no-underline" href={uploaded.url} target="_blank" rel="noreferrer">
 						Open last upload
 					</a>
+					{uploaded.analysisId ? (
+						<Link className="ml-3 text-sm text-blue-700 underline hover:no-underline" href={`/reports/${uploaded.analysisId}`}>
+							View analysis report
+						</Link>
+					) : null}
 				</CardFooter>
 			) : null}
 		</Card>
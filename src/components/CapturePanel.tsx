@@ -4,6 +4,7 @@ import dynamic from 'next/dynamic';
 
 const LiveActionLogs = dynamic(() => import('./LiveActionLogs'), { ssr: false });
 import CaptureClient from './CaptureClient';
+import FocusSessionPanel from './FocusSessionPanel';
 
 import ActionLogViewer from '@/components/ActionLogViewer';
 
@@ -14,6 +15,15 @@ export default function CapturePanel() {
 				<div className="">
 					<CaptureClient />
 				</div>
+				<div className="rounded-xl border border-gray-200 bg-white/70">
+					<div className="px-6 pt-4">
+						<h3 className="text-base font-semibold">Focus Session</h3>
+						<p className="text-sm text-gray-600">Pomodoro timer with a declared intention and an end-of-session report</p>
+					</div>
+					<div className="px-6 py-4">
+						<FocusSessionPanel />
+					</div>
+				</div>
 				<div className="rounded-xl border border-gray-200 bg-white/70">
 					<div className="px-6 pt-4">
 						<div className="flex items-center gap-2">
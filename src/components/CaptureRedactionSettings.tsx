@@ -0,0 +1,186 @@
+"use client";
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  REDACTION_PATTERN_IDS,
+  REDACTION_PATTERN_LABELS,
+  type RedactionRegion,
+  type RedactionSettings,
+} from '@/lib/capture/redaction';
+
+interface CaptureRedactionSettingsProps {
+  value: RedactionSettings;
+  onChange: (value: RedactionSettings) => void;
+  disabled?: boolean;
+}
+
+const REGION_FIELDS: { key: keyof RedactionRegion; label: string }[] = [
+  { key: 'x', label: '左' },
+  { key: 'y', label: '上' },
+  { key: 'width', label: '幅' },
+  { key: 'height', label: '高さ' },
+];
+
+// 1行に1項目
+function toLines(text: string): string[] {
+  return text.split('\n');
+}
+
+function isValidPattern(source: string): boolean {
+  try {
+    new RegExp(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function CaptureRedactionSettings({ value, onChange, disabled }: CaptureRedactionSettingsProps) {
+  const updateOcr = (patch: Partial<RedactionSettings['ocr']>) => {
+    onChange({ ...value, ocr: { ...value.ocr, ...patch } });
+  };
+
+  const updateRegion = (index: number, key: keyof RedactionRegion, percent: string) => {
+    const fraction = Math.max(0, Math.min(100, Number(percent) || 0)) / 100;
+    onChange({
+      ...value,
+      regions: value.regions.map((region, i) => (i === index ? { ...region, [key]: fraction } : region)),
+    });
+  };
+
+  const invalidPatterns = value.ocr.customPatterns.filter((p) => p.trim() && !isValidPattern(p));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label>スクリーンショットの秘匿処理</Label>
+        <Switch
+          checked={value.enabled}
+          onCheckedChange={(checked) => onChange({ ...value, enabled: checked })}
+          disabled={disabled}
+        />
+      </div>
+      <div className="text-xs text-gray-500">
+        アップロード前にブラウザ内で処理します。動画には秘匿処理を適用できないため、有効な間は録画を作成・アップロードせず、スクリーンショットのみ送信します。
+        録画の解析とそこから作られるアドバイスも行われなくなります。
+      </div>
+
+      {value.enabled && (
+        <>
+          {/* ブロックリスト */}
+          <div className="space-y-1">
+            <Label htmlFor="redaction-blocklist" className="text-sm font-normal">
+              画面全体をぼかすウィンドウ・タブ（タイトルや画面内の文字に含まれる語句、1行に1つ）
+            </Label>
+            <div className="text-xs text-gray-500">
+              共有中に切り替えたタブやアプリも検出できるよう、語句がある場合は毎回画面内の文字を認識（OCR）します。初回に認識モデルを読み込み、認識に失敗した場合は画面全体をぼかします。
+            </div>
+            <Textarea
+              id="redaction-blocklist"
+              rows={4}
+              value={value.blocklist.join('\n')}
+              onChange={(e) => onChange({ ...value, blocklist: toLines(e.target.value) })}
+              disabled={disabled}
+            />
+          </div>
+
+          {/* ぼかす領域 */}
+          <div className="space-y-2">
+            <div className="text-sm">常にぼかす領域（画面に対する%）</div>
+            {value.regions.map((region, index) => (
+              <div key={index} className="flex items-center gap-1">
+                {REGION_FIELDS.map(({ key, label }) => (
+                  <Input
+                    key={key}
+                    type="number"
+                    min={0}
+                    max={100}
+                    aria-label={label}
+                    placeholder={label}
+                    value={Math.round(region[key] * 100)}
+                    onChange={(e) => updateRegion(index, key, e.target.value)}
+                    disabled={disabled}
+                  />
+                ))}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange({ ...value, regions: value.regions.filter((_, i) => i !== index) })}
+                  disabled={disabled}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({ ...value, regions: [...value.regions, { x: 0, y: 0, width: 0.25, height: 0.1 }] })}
+              disabled={disabled || value.regions.length >= 20}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              領域を追加
+            </Button>
+          </div>
+
+          {/* OCR */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span>文字認識（OCR）で機密情報を隠す</span>
+              <Switch
+                checked={value.ocr.enabled}
+                onCheckedChange={(checked) => updateOcr({ enabled: checked })}
+                disabled={disabled}
+              />
+            </div>
+            {value.ocr.enabled && (
+              <>
+                <div className="text-xs text-gray-500">
+                  初回に認識モデルを読み込みます。認識に失敗した場合は画面全体をぼかします。
+                </div>
+                {REDACTION_PATTERN_IDS.map((id) => (
+                  <div key={id} className="flex items-center justify-between text-sm pl-2">
+                    <span>{REDACTION_PATTERN_LABELS[id]}</span>
+                    <Switch
+                      checked={value.ocr.patterns.includes(id)}
+                      onCheckedChange={(checked) =>
+                        updateOcr({
+                          patterns: checked
+                            ? [...value.ocr.patterns, id]
+                            : value.ocr.patterns.filter((p) => p !== id),
+                        })
+                      }
+                      disabled={disabled}
+                    />
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label htmlFor="redaction-patterns" className="text-sm font-normal">
+                    追加のパターン（正規表現、1行に1つ）
+                  </Label>
+                  <Textarea
+                    id="redaction-patterns"
+                    rows={2}
+                    value={value.ocr.customPatterns.join('\n')}
+                    onChange={(e) => updateOcr({ customPatterns: toLines(e.target.value) })}
+                    disabled={disabled}
+                  />
+                  {invalidPatterns.length > 0 && (
+                    <div className="text-xs text-red-600">無効な正規表現: {invalidPatterns.join(', ')}</div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import AgentLog from '@/components/AgentLog';
+import { FocusSessionReport } from '@/components/FocusSessionReport';
+import { useFocusSession } from '@/hooks/useFocusSession';
+import { useNotifications } from '@/hooks/useNotifications';
+import { DEFAULT_FOCUS_TIMER_PLAN, type FocusTimerPlan } from '@/lib/focus-sessions/timer';
+
+const TIMER_FIELDS: { key: keyof FocusTimerPlan; label: string; min: number; max: number }[] = [
+	{ key: 'focusMinutes', label: 'Focus (min)', min: 5, max: 120 },
+	{ key: 'breakMinutes', label: 'Break (min)', min: 1, max: 60 },
+	{ key: 'rounds', label: 'Rounds', min: 1, max: 12 },
+];
+
+/**
+ * Declare an intention, run a Pomodoro timer while capturing, and read the report at the end
+ */
+export default function FocusSessionPanel() {
+	const { focusSession, timer, ended, pending, error, start, end } = useFocusSession();
+	const { notify } = useNotifications();
+	const [intention, setIntention] = useState('');
+	const [plan, setPlan] = useState<FocusTimerPlan>(DEFAULT_FOCUS_TIMER_PLAN);
+	const previousPhaseRef = useRef(timer?.phase);
+
+	// Local notification when a focus or break phase ends (not when a session is resumed)
+	useEffect(() => {
+		const previous = previousPhaseRef.current;
+		previousPhaseRef.current = timer?.phase;
+		if (!previous || !timer || previous === timer.phase) return;
+		if (timer.phase === 'break') notify('☕ Break time', { body: `Round ${timer.round} done.` });
+		else if (timer.phase === 'focus') notify('🍅 Back to focus', { body: focusSession?.focus?.intention });
+		else notify('✅ Focus session complete', { body: 'End the session to see your report.' });
+	}, [timer, notify, focusSession?.focus?.intention]);
+
+	if (focusSession) {
+		return (
+			<div className="flex flex-col gap-3">
+				<div className="h-72">
+					<AgentLog />
+				</div>
+				<div className="flex items-center gap-3">
+					<Button onClick={end} variant="destructive" disabled={pending}>
+						{pending ? 'Building report...' : 'End Session'}
+					</Button>
+					{error ? <span className="text-sm text-red-600">{error}</span> : null}
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="flex flex-col gap-4">
+			<form
+				className="flex flex-col gap-3"
+				onSubmit={(e) => {
+					e.preventDefault();
+					void start({ intention: intention.trim(), ...plan });
+				}}
+			>
+				<div className="space-y-1">
+					<Label htmlFor="focus-intention">What will you work on?</Label>
+					<Input
+						id="focus-intention"
+						value={intention}
+						maxLength={200}
+						placeholder="Write the design doc for the sync API"
+						onChange={(e) => setIntention(e.target.value)}
+						disabled={pending}
+					/>
+				</div>
+				<div className="grid grid-cols-3 gap-3">
+					{TIMER_FIELDS.map((field) => (
+						<div key={field.key} className="space-y-1">
+							<Label htmlFor={`focus-${field.key}`} className="text-xs">{field.label}</Label>
+							<Input
+								id={`focus-${field.key}`}
+								type="number"
+								min={field.min}
+								max={field.max}
+								value={plan[field.key]}
+								onChange={(e) =>
+									setPlan({ ...plan, [field.key]: Math.max(field.min, Math.min(field.max, Math.round(Number(e.target.value) || field.min))) })
+								}
+								disabled={pending}
+							/>
+						</div>
+					))}
+				</div>
+				<div className="flex items-center gap-3">
+					<Button type="submit" disabled={pending || !intention.trim()}>
+						{pending ? 'Starting...' : 'Start Focus Session'}
+					</Button>
+					{error ? <span className="text-sm text-red-600">{error}</span> : null}
+				</div>
+				<p className="text-xs text-gray-500">Screenshots taken while the session runs are tagged with it. Start recording to capture them.</p>
+			</form>
+			{ended ? (
+				<div className="border-t pt-4">
+					<FocusSessionReport session={ended} />
+				</div>
+			) : null}
+		</div>
+	);
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import type { FocusSessionRow } from '@/hooks/useFocusSession';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { parseFocusSessionReport } from '@/lib/focus-sessions/report';
+import { ACTIVITY_CATEGORY_LABELS, formatDuration } from '@/lib/analytics/time-breakdown';
+
+function BulletList({ items, empty = 'None' }: { items: string[]; empty?: string }) {
+  if (items.length === 0) return <p className="text-sm text-gray-500">{empty}</p>;
+  return (
+    <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+      {items.map((item, i) => <li key={i}>{item}</li>)}
+    </ul>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-lg font-semibold text-gray-900">{value}</div>
+    </div>
+  );
+}
+
+/**
+ * End-of-session report: the declared intention next to what the captures show
+ */
+export function FocusSessionReport({ session }: { session: FocusSessionRow }) {
+  const report = parseFocusSessionReport(session.report);
+  if (!report) return <p className="text-sm text-gray-500">No report for this session.</p>;
+  const { assessment, metrics } = report;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="text-xs text-gray-500">Intention</div>
+        <div className="text-sm font-medium text-gray-900">{session.intention}</div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <Stat label="Rounds" value={`${report.completedRounds} / ${session.rounds}`} />
+        <Stat label="Focus time tracked" value={formatDuration(report.focusSeconds)} />
+        <Stat label="Longest focus block" value={formatDuration(metrics.longest_focus_seconds)} />
+        <Stat label="Context switches" value={String(metrics.context_switches)} />
+      </div>
+
+      {assessment ? (
+        <div className="space-y-3">
+          <div>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-700">On intention</span>
+              <span className="font-semibold">{Math.round(assessment.alignmentPercent)}%</span>
+            </div>
+            <Progress value={assessment.alignmentPercent} className="mt-1" />
+          </div>
+          <p className="text-sm text-gray-700">{assessment.verdict}</p>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <div className="text-xs font-medium text-gray-700 mb-1">On task</div>
+              <BulletList items={assessment.onTask} />
+            </div>
+            <div>
+              <div className="text-xs font-medium text-gray-700 mb-1">Off task</div>
+              <BulletList items={assessment.offTask} />
+            </div>
+          </div>
+          <p className="text-sm text-gray-700">
+            <span className="font-medium">Next time: </span>
+            {assessment.suggestion}
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          No assessment{report.assessmentError ? ` (${report.assessmentError})` : ''}.
+        </p>
+      )}
+
+      {report.applications.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-gray-700">Applications</div>
+          {report.applications.map((app) => (
+            <div key={app.application} className="flex justify-between text-sm text-gray-700">
+              <span className="truncate">{app.application}</span>
+              <span>{formatDuration(app.seconds)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report.categories.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {report.categories.map((entry) => (
+            <Badge key={entry.category} variant="outline">
+              {ACTIVITY_CATEGORY_LABELS[entry.category]} · {formatDuration(entry.seconds)}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {report.breakSeconds > 0 && (
+        <p className="text-xs text-gray-500">{formatDuration(report.breakSeconds)} captured during breaks is not assessed.</p>
+      )}
+    </div>
+  );
+}
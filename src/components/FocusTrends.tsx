@@ -0,0 +1,125 @@
+"use client";
+
+import { useMemo } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { FOCUS_TREND_INTERVAL, useFocusMetrics } from '@/hooks/useFocusMetrics';
+import { combineFocusMetrics, DEEP_WORK_MIN_SECONDS } from '@/lib/analytics/focus-metrics';
+import { formatDuration, toMinutes, type TimeRange } from '@/lib/analytics/time-breakdown';
+
+const focusTimeConfig = {
+  deepWork: { label: 'Deep work (min)', color: '#2563eb' },
+  longestFocus: { label: 'Longest block (min)', color: '#16a34a' },
+} satisfies ChartConfig;
+
+const switchingConfig = {
+  switchesPerHour: { label: 'Switches / hour', color: '#dc2626' },
+  fragmentation: { label: 'Fragmentation', color: '#d97706' },
+} satisfies ChartConfig;
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div>
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-xl font-bold text-gray-900">{value}</div>
+      {hint && <div className="text-xs text-gray-500 truncate">{hint}</div>}
+    </div>
+  );
+}
+
+/**
+ * Context switches, focus blocks and deep work per window, computed from the captures without a model
+ */
+export default function FocusTrends({ range }: { range: TimeRange }) {
+  const { rows, loading, error } = useFocusMetrics(range);
+  const hourly = FOCUS_TREND_INTERVAL[range] === '1hour';
+
+  const total = useMemo(() => combineFocusMetrics(rows), [rows]);
+  const points = useMemo(
+    () =>
+      rows.map((row) => {
+        const start = new Date(row.window_start);
+        return {
+          // Daily windows are aligned to UTC midnight like the interval summaries
+          label: hourly
+            ? `${String(start.getHours()).padStart(2, '0')}:00`
+            : `${start.getUTCMonth() + 1}/${start.getUTCDate()}`,
+          deepWork: toMinutes(row.deep_work_seconds),
+          longestFocus: toMinutes(row.longest_focus_seconds),
+          switchesPerHour: row.switches_per_hour,
+          fragmentation: row.fragmentation_score,
+        };
+      }),
+    [rows, hourly]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Focus</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading && rows.length === 0 ? (
+          <Skeleton className="h-40 w-full" />
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No focus metrics yet. They are computed from your screenshots after each {hourly ? 'hour' : 'day'} ends.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Stat
+                label="Deep work"
+                value={formatDuration(total.deep_work_seconds)}
+                hint={`Blocks of ${DEEP_WORK_MIN_SECONDS / 60}+ min`}
+              />
+              <Stat
+                label="Longest focus block"
+                value={formatDuration(total.longest_focus_seconds)}
+                hint={total.longest_focus_application ?? undefined}
+              />
+              <Stat label="Context switches / hour" value={String(total.switches_per_hour)} hint={`${total.context_switches} switches`} />
+              <Stat label="Fragmentation" value={`${total.fragmentation_score} / 100`} hint="Lower is more focused" />
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <ChartContainer config={focusTimeConfig} className="h-48 w-full aspect-auto">
+                <LineChart data={points}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={8} />
+                  <YAxis tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="deepWork" type="monotone" stroke="var(--color-deepWork)" strokeWidth={2} dot={false} />
+                  <Line dataKey="longestFocus" type="monotone" stroke="var(--color-longestFocus)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartContainer>
+              <ChartContainer config={switchingConfig} className="h-48 w-full aspect-auto">
+                <LineChart data={points}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={8} />
+                  <YAxis tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="switchesPerHour" type="monotone" stroke="var(--color-switchesPerHour)" strokeWidth={2} dot={false} />
+                  <Line dataKey="fragmentation" type="monotone" stroke="var(--color-fragmentation)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartContainer>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
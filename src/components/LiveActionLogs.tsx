@@ -6,6 +6,7 @@ import { getBrowserSupabaseClient } from "@/lib/supabase/client";
 import type { Database } from "@/lib/supabase/database.types";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
+import { useSignedCaptureUrls } from "@/hooks/useSignedCaptureUrls";
 import Image from 'next/image';
 
 type ActionLogRow = Database["public"]["Tables"]["action_logs"]["Row"];
@@ -31,7 +32,12 @@ export default function LiveActionLogs() {
   const [summaries, setSummaries] = useState<ActionLogRow[]>([]);
   const [events, setEvents] = useState<ActionLogRow[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
-  const [imagesByAction, setImagesByAction] = useState<Record<string, Array<ImageRow & { url: string }>>>({});
+  const [imagesByAction, setImagesByAction] = useState<Record<string, ImageRow[]>>({});
+  const imagePaths = useMemo(
+    () => Object.values(imagesByAction).flat().map((img) => img.storage_path),
+    [imagesByAction]
+  );
+  const imageUrls = useSignedCaptureUrls(imagePaths);
   const [expandedSummaries, setExpandedSummaries] = useState<Set<string>>(() => new Set());
   const [expandedEvents, setExpandedEvents] = useState<Set<string>>(() => new Set());
   const [grouping, setGrouping] = useState<boolean>(() => {
@@ -183,13 +189,11 @@ export default function LiveActionLogs() {
         .select("*")
         .in("action_log_id", ids);
       if (cancel) return;
-      const map: Record<string, Array<ImageRow & { url: string }>> = {};
+      const map: Record<string, ImageRow[]> = {};
       for (const img of (imgs ?? []) as ImageRow[]) {
-        const { data: pub } = supabase!.storage.from("captures").getPublicUrl(img.storage_path);
-        const withUrl = { ...img, url: pub.publicUrl } as ImageRow & { url: string };
         const key = img.action_log_id || "";
         if (!map[key]) map[key] = [];
-        map[key].push(withUrl);
+        map[key].push(img);
       }
       setImagesByAction(map);
     })();
@@ -306,13 +310,15 @@ export default function LiveActionLogs() {
                         )}
                         {imagesByAction[l.id]?.length ? (
                           <div className="mt-2 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
-                            {imagesByAction[l.id].map((img) => (
-                              <a key={img.id} href={img.url} target="_blank" rel="noreferrer" className="block">
+                            {imagesByAction[l.id].filter((img) => imageUrls[img.storage_path]).map((img) => (
+                              <a key={img.id} href={imageUrls[img.storage_path]} target="_blank" rel="noreferrer" className="block">
+                                {/* Signed URLs expire: skip the optimizer so private frames are not cached under /_next/image */}
                                 <Image
-                                  src={img.url}
+                                  src={imageUrls[img.storage_path]}
                                   alt={img.storage_path}
                                   width={200}
                                   height={96}
+                                  unoptimized
                                   className="w-full h-24 object-cover rounded border"
                                 />
                               </a>
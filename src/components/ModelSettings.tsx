@@ -0,0 +1,79 @@
+"use client";
+
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DEFAULT_MODELS,
+  getModelConfig,
+  MODEL_CONFIGS,
+  type ModelUseCase,
+  type UserModelPreferences,
+} from '@/lib/ai/lm-models';
+
+interface ModelSettingsProps {
+  value: UserModelPreferences;
+  onChange: (value: UserModelPreferences) => void;
+  disabled?: boolean;
+}
+
+// ユーザーが選択できる用途（動画解析は動画入力に対応したモデルのみ）
+const USE_CASE_OPTIONS: { useCase: ModelUseCase; label: string; video?: boolean }[] = [
+  { useCase: 'FAST_ANALYSIS', label: 'スクリーンショット解析・サマリー' },
+  { useCase: 'VIDEO_ANALYSIS', label: '録画の解析', video: true },
+  { useCase: 'AGENT', label: 'アクティビティチャット' },
+];
+
+const DEFAULT_OPTION = 'default';
+
+export function ModelSettings({ value, onChange, disabled }: ModelSettingsProps) {
+  const update = (useCase: ModelUseCase, modelId: string) => {
+    const next = { ...value };
+    if (modelId === DEFAULT_OPTION) {
+      delete next[useCase];
+    } else {
+      next[useCase] = modelId;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>AIモデル</Label>
+      {USE_CASE_OPTIONS.map(({ useCase, label, video }) => (
+        <div key={useCase} className="space-y-1">
+          <div className="text-sm">{label}</div>
+          <Select
+            value={value[useCase] ?? DEFAULT_OPTION}
+            onValueChange={(modelId) => update(useCase, modelId)}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_OPTION}>
+                デフォルト（{getModelConfig(DEFAULT_MODELS[useCase])?.name ?? DEFAULT_MODELS[useCase]}）
+              </SelectItem>
+              {Object.values(MODEL_CONFIGS)
+                .filter((config) => !video || config.supportsVideo)
+                .map((config) => (
+                  <SelectItem key={config.id} value={config.id}>
+                    {config.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+      <div className="text-xs text-gray-500">
+        選択したモデルが利用できない場合は、自動的に他のモデルに切り替わります
+      </div>
+    </div>
+  );
+}
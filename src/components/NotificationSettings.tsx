@@ -0,0 +1,116 @@
+"use client";
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORY_LABELS,
+  type NotificationPreferences,
+} from '@/lib/notifications/preferences';
+
+interface NotificationSettingsProps {
+  value: NotificationPreferences;
+  onChange: (value: NotificationPreferences) => void;
+  disabled?: boolean;
+}
+
+const DIGEST_INTERVALS = [15, 30, 60, 120, 240];
+
+export function NotificationSettings({ value, onChange, disabled }: NotificationSettingsProps) {
+  const update = <K extends keyof NotificationPreferences>(key: K, patch: Partial<NotificationPreferences[K]>) => {
+    onChange({ ...value, [key]: { ...(value[key] as object), ...patch } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Label>通知設定</Label>
+
+      {/* カテゴリ */}
+      <div className="space-y-2">
+        {NOTIFICATION_CATEGORIES.map((category) => (
+          <div key={category} className="flex items-center justify-between text-sm">
+            <span>{NOTIFICATION_CATEGORY_LABELS[category]}</span>
+            <Switch
+              checked={value.categories[category]}
+              onCheckedChange={(checked) => update('categories', { [category]: checked })}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* 1時間あたりの上限 */}
+      <div className="space-y-1">
+        <Label htmlFor="max-per-hour" className="text-sm font-normal">1時間あたりの最大通知数（0で無制限）</Label>
+        <Input
+          id="max-per-hour"
+          type="number"
+          min={0}
+          max={60}
+          value={value.maxPerHour}
+          onChange={(e) => onChange({ ...value, maxPerHour: Math.max(0, Math.min(60, Number(e.target.value) || 0)) })}
+          disabled={disabled}
+        />
+      </div>
+
+      {/* おやすみ時間 */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span>おやすみ時間</span>
+          <Switch
+            checked={value.quietHours.enabled}
+            onCheckedChange={(checked) => update('quietHours', { enabled: checked })}
+            disabled={disabled}
+          />
+        </div>
+        {value.quietHours.enabled && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              value={value.quietHours.start}
+              onChange={(e) => update('quietHours', { start: e.target.value })}
+              disabled={disabled}
+            />
+            <span className="text-sm text-gray-500">〜</span>
+            <Input
+              type="time"
+              value={value.quietHours.end}
+              onChange={(e) => update('quietHours', { end: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+        )}
+        {value.quietHours.enabled && (
+          <div className="text-xs text-gray-500">タイムゾーン: {value.quietHours.timeZone}</div>
+        )}
+      </div>
+
+      {/* ダイジェスト */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span>ダイジェストモード（まとめて通知）</span>
+          <Switch
+            checked={value.digest.enabled}
+            onCheckedChange={(checked) => update('digest', { enabled: checked })}
+            disabled={disabled}
+          />
+        </div>
+        {value.digest.enabled && (
+          <select
+            className="w-full rounded-md border px-3 py-2 text-sm bg-white"
+            value={value.digest.intervalMinutes}
+            onChange={(e) => update('digest', { intervalMinutes: Number(e.target.value) })}
+            disabled={disabled}
+          >
+            {DIGEST_INTERVALS.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes < 60 ? `${minutes}分ごと` : `${minutes / 60}時間ごと`}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import type { ProductivityReport as ProductivityReportData } from '@/hooks/useProductivityReports';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ExternalLink, Keyboard, ListChecks, Repeat, Search, Sparkles, Target } from 'lucide-react';
+
+const PRIORITY_STYLES: Record<string, string> = {
+  critical: 'border-red-300 text-red-700',
+  high: 'border-orange-300 text-orange-700',
+  medium: 'border-gray-300 text-gray-700',
+  low: 'border-gray-200 text-gray-500',
+};
+
+function BulletList({ items, empty = 'None' }: { items: string[]; empty?: string }) {
+  if (items.length === 0) return <p className="text-sm text-gray-500">{empty}</p>;
+  return (
+    <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+      {items.map((item, i) => <li key={i}>{item}</li>)}
+    </ul>
+  );
+}
+
+export function ProductivityReport({ report }: { report: ProductivityReportData }) {
+  const { analysis } = report;
+  const { summary, patterns, recommendations, shortcuts, actionPlan, productHuntSearch } = analysis;
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Target className="w-5 h-5" />
+            Summary
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <div className="text-xs text-gray-500">Productivity score</div>
+              <div className="text-3xl font-bold text-gray-900">{summary.productivityScore}</div>
+              <Progress value={summary.productivityScore} className="mt-1" />
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">Main activity</div>
+              <div className="text-sm text-gray-900">{summary.mainActivity}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">Analyzed time</div>
+              <div className="text-sm text-gray-900">{summary.totalTime} min</div>
+            </div>
+          </div>
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-1">Key insights</div>
+            <BulletList items={summary.keyInsights} />
+          </div>
+          {analysis.userAdvice && (
+            <div className="rounded-md bg-blue-50 border border-blue-100 p-3 text-sm text-blue-900">
+              💡 {analysis.userAdvice}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {report.videoUrl && (
+        <Card>
+          <CardContent className="pt-6">
+            <video src={report.videoUrl} controls className="w-full rounded border" />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Patterns */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Repeat className="w-5 h-5" />
+            Patterns
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {patterns.repetitiveTasks.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Repeated task</TableHead>
+                  <TableHead>Frequency</TableHead>
+                  <TableHead>Time lost</TableHead>
+                  <TableHead>Solution</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {patterns.repetitiveTasks.map((t, i) => (
+                  <TableRow key={i}>
+                    <TableCell className="whitespace-normal">{t.task}</TableCell>
+                    <TableCell>{t.frequency}</TableCell>
+                    <TableCell>{t.timeLost}</TableCell>
+                    <TableCell className="whitespace-normal">{t.solution}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-1">Inefficiencies</div>
+            {patterns.inefficiencies.length === 0 ? (
+              <p className="text-sm text-gray-500">None</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {patterns.inefficiencies.map((item, i) => (
+                  <li key={i} className="border rounded p-2">
+                    <div className="font-medium text-gray-900">{item.issue}</div>
+                    <div className="text-gray-600">Impact: {item.impact}</div>
+                    <div className="text-gray-700">→ {item.recommendation}</div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-1">Strengths</div>
+            <BulletList items={patterns.strengths} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Recommendations */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Sparkles className="w-5 h-5" />
+            Recommendations
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {recommendations.length === 0 ? (
+            <p className="text-sm text-gray-500">No recommendations</p>
+          ) : recommendations.map((rec, i) => (
+            <div key={i} className="border rounded p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium text-gray-900">{rec.title}</span>
+                <Badge variant="outline" className="text-[10px]">{rec.category}</Badge>
+                <Badge variant="outline" className={`text-[10px] ${PRIORITY_STYLES[rec.priority] ?? ''}`}>{rec.priority}</Badge>
+                <Badge variant="secondary" className="text-[10px]">{rec.implementation.difficulty} · {rec.implementation.timeRequired}</Badge>
+              </div>
+              <p className="text-sm text-gray-700">{rec.description}</p>
+              <p className="text-xs text-gray-600">Expected benefit: {rec.expectedBenefit}</p>
+              {rec.implementation.steps.length > 0 && (
+                <ol className="list-decimal pl-5 text-sm text-gray-700 space-y-0.5">
+                  {rec.implementation.steps.map((step, j) => <li key={j}>{step}</li>)}
+                </ol>
+              )}
+              {rec.tools && rec.tools.length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {rec.tools.map((tool, j) => (
+                    <div key={j} className="rounded bg-gray-50 p-2 text-xs">
+                      <div className="flex items-center gap-1 font-medium text-gray-900">
+                        {tool.name}
+                        <span className="text-gray-500">({tool.category}, {tool.pricing})</span>
+                      </div>
+                      <div className="text-gray-600">{tool.purpose}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Shortcuts */}
+      {shortcuts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Keyboard className="w-5 h-5" />
+              Shortcuts
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Current</TableHead>
+                  <TableHead>Shortcut</TableHead>
+                  <TableHead>Saves</TableHead>
+                  <TableHead>Platform</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shortcuts.map((s, i) => (
+                  <TableRow key={i}>
+                    <TableCell className="whitespace-normal">{s.action}</TableCell>
+                    <TableCell className="whitespace-normal">{s.currentMethod}</TableCell>
+                    <TableCell><code className="text-xs bg-gray-100 rounded px-1">{s.shortcut}</code></TableCell>
+                    <TableCell>{s.timeSaved}</TableCell>
+                    <TableCell>{s.platform}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Action plan */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <ListChecks className="w-5 h-5" />
+            Action plan
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-1">Today</div>
+            <BulletList items={actionPlan.immediate} />
+          </div>
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-1">This week</div>
+            <BulletList items={actionPlan.thisWeek} />
+          </div>
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-1">This month</div>
+            <BulletList items={actionPlan.thisMonth} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Product Hunt searches */}
+      {productHuntSearch.suggestedSearches.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Search className="w-5 h-5" />
+              Tools to look for
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {productHuntSearch.suggestedSearches.map((search, i) => (
+              <div key={i} className="text-sm">
+                <a
+                  href={`https://www.producthunt.com/search?q=${encodeURIComponent(search.query)}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="inline-flex items-center gap-1 font-medium text-blue-700 underline hover:no-underline"
+                >
+                  {search.query}
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+                <span className="text-gray-600"> — {search.purpose}</span>
+              </div>
+            ))}
+            {productHuntSearch.recommendedCategories.length > 0 && (
+              <div className="flex flex-wrap gap-1 pt-2">
+                {productHuntSearch.recommendedCategories.map((c) => (
+                  <Badge key={c} variant="secondary" className="text-[10px]">{c}</Badge>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,36 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { User, Save, X } from 'lucide-react';
+import { NotificationSettings } from '@/components/NotificationSettings';
+import { ModelSettings } from '@/components/ModelSettings';
+import { UsageBudgetSettings } from '@/components/UsageBudgetSettings';
+import { CaptureRedactionSettings } from '@/components/CaptureRedactionSettings';
+import { AlertRuleSettings } from '@/components/AlertRuleSettings';
+import { parseNotificationPreferences, type NotificationPreferences } from '@/lib/notifications/preferences';
+import type { Json } from '@/lib/supabase/database.types';
+import type { UserModelPreferences } from '@/lib/ai/lm-models';
+import { parseLlmBudget, type LlmBudget } from '@/lib/usage/budget';
+import { parseRedactionSettings, type RedactionSettings } from '@/lib/capture/redaction';
+import { normalizeAlertSettings, parseAlertSettings, type AlertSettings } from '@/lib/alerts/rules';
+
+// Stored preferences, with quiet hours defaulting to the browser's time zone
+function initialNotificationPreferences(stored: Json | null | undefined): NotificationPreferences {
+  const prefs = parseNotificationPreferences(stored);
+  if (stored) return prefs;
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || prefs.quietHours.timeZone;
+  return { ...prefs, quietHours: { ...prefs.quietHours, timeZone } };
+}
+
+// Stored alert rules, with focus hours defaulting to the browser's time zone
+function initialAlertSettings(stored: Json | null | undefined): AlertSettings {
+  const settings = parseAlertSettings(stored);
+  if (stored) return settings;
+  return { ...settings, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || settings.timeZone };
+}
+
+function initialModelPreferences(stored: Json | null | undefined): UserModelPreferences {
+  return stored && typeof stored === 'object' && !Array.isArray(stored) ? (stored as UserModelPreferences) : {};
+}
 
 interface ProfileSettingsProps {
   isOpen: boolean;
@@ -19,6 +49,19 @@ export function ProfileSettings({ isOpen, onClose }: ProfileSettingsProps) {
   const { user, profile, updateProfile } = useAuth();
   const [displayName, setDisplayName] = useState(profile?.display_name || '');
   const [avatarUrl, setAvatarUrl] = useState(profile?.avatar_url || '');
+  const [notificationPrefs, setNotificationPrefs] = useState<NotificationPreferences>(
+    () => initialNotificationPreferences(profile?.notification_preferences)
+  );
+  const [modelPrefs, setModelPrefs] = useState<UserModelPreferences>(
+    () => initialModelPreferences(profile?.model_preferences)
+  );
+  const [llmBudget, setLlmBudget] = useState<LlmBudget>(() => parseLlmBudget(profile?.llm_budget));
+  const [redaction, setRedaction] = useState<RedactionSettings>(
+    () => parseRedactionSettings(profile?.redaction_settings)
+  );
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(
+    () => initialAlertSettings(profile?.alert_rules)
+  );
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
@@ -34,6 +77,15 @@ export function ProfileSettings({ isOpen, onClose }: ProfileSettingsProps) {
     const { error } = await updateProfile({
       display_name: displayName.trim() || null,
       avatar_url: avatarUrl.trim() || null,
+      notification_preferences: notificationPrefs as unknown as Json,
+      model_preferences: modelPrefs as Json,
+      llm_budget: llmBudget as unknown as Json,
+      redaction_settings: {
+        ...redaction,
+        blocklist: redaction.blocklist.map((entry) => entry.trim()).filter(Boolean),
+        ocr: { ...redaction.ocr, customPatterns: redaction.ocr.customPatterns.filter((p) => p.trim()) },
+      } as unknown as Json,
+      alert_rules: normalizeAlertSettings(alertSettings) as unknown as Json,
     });
 
     if (error) {
@@ -52,13 +104,18 @@ export function ProfileSettings({ isOpen, onClose }: ProfileSettingsProps) {
   const handleReset = () => {
     setDisplayName(profile?.display_name || '');
     setAvatarUrl(profile?.avatar_url || '');
+    setNotificationPrefs(initialNotificationPreferences(profile?.notification_preferences));
+    setModelPrefs(initialModelPreferences(profile?.model_preferences));
+    setLlmBudget(parseLlmBudget(profile?.llm_budget));
+    setRedaction(parseRedactionSettings(profile?.redaction_settings));
+    setAlertSettings(initialAlertSettings(profile?.alert_rules));
     setError(null);
     setSuccess(false);
   };
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-      <Card className="w-full max-w-md mx-4">
+      <Card className="w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle>プロファイル設定</CardTitle>
@@ -112,6 +169,41 @@ export function ProfileSettings({ isOpen, onClose }: ProfileSettingsProps) {
               </div>
             </div>
 
+            {/* 通知設定 */}
+            <NotificationSettings
+              value={notificationPrefs}
+              onChange={setNotificationPrefs}
+              disabled={loading}
+            />
+
+            {/* AIモデル設定 */}
+            <ModelSettings
+              value={modelPrefs}
+              onChange={setModelPrefs}
+              disabled={loading}
+            />
+
+            {/* AI利用料金・予算 */}
+            <UsageBudgetSettings
+              value={llmBudget}
+              onChange={setLlmBudget}
+              disabled={loading}
+            />
+
+            {/* スクリーンショットの秘匿処理 */}
+            <CaptureRedactionSettings
+              value={redaction}
+              onChange={setRedaction}
+              disabled={loading}
+            />
+
+            {/* 集中アラート */}
+            <AlertRuleSettings
+              value={alertSettings}
+              onChange={setAlertSettings}
+              disabled={loading}
+            />
+
             {/* 権限情報（読み取り専用） */}
             <div className="space-y-2">
               <Label>権限</Label>
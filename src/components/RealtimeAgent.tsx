@@ -1,6 +1,9 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { REALTIME_MODEL } from '@/lib/ai/lm-models';
+import { realtimeAuthHeaders, reportRealtimeUsage, type RealtimeUsage } from '@/lib/usage/realtime-usage';
 
 type Props = {
   imageDescription: string;
@@ -10,6 +13,9 @@ export default function RealtimeAgent({ imageDescription }: Props) {
   const [responseText, setResponseText] = useState('');
   const socketRef = useRef<WebSocket | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const { session } = useAuth();
+  const accessTokenRef = useRef<string | undefined>(undefined);
+  accessTokenRef.current = session?.access_token;
 
   useEffect(() => {
     let isActive = true;
@@ -17,12 +23,12 @@ export default function RealtimeAgent({ imageDescription }: Props) {
     async function init() {
       if (!imageDescription) return;
 
-      const res = await fetch('/api/realtime/session', { method: 'POST' });
+      const res = await fetch('/api/realtime/session', { method: 'POST', headers: realtimeAuthHeaders(accessTokenRef.current) });
       if (!res.ok) return;
       const { clientSecret } = (await res.json()) as { sessionId: string; clientSecret: string | null };
       if (!clientSecret) return;
 
-      const url = 'wss://api.openai.com/v1/realtime?model=gpt-4o-realtime-preview-2024-12-17';
+      const url = `wss://api.openai.com/v1/realtime?model=${REALTIME_MODEL}`;
       const socket = new WebSocket(url, ['realtime', `openai-insecure-api-key.${clientSecret}`, 'openai-beta.realtime-v1']);
       socketRef.current = socket;
 
@@ -41,7 +47,10 @@ export default function RealtimeAgent({ imageDescription }: Props) {
       socket.onmessage = async (event) => {
         if (!isActive) return;
         try {
-          const data = JSON.parse(event.data as string) as { type?: string; delta?: string; };
+          const data = JSON.parse(event.data as string) as { type?: string; delta?: string; response?: { usage?: RealtimeUsage } };
+          if (data.type === 'response.done') {
+            reportRealtimeUsage(accessTokenRef.current, data.response?.usage);
+          }
           if (data.type === 'response.text.delta' && data.delta) {
             setResponseText((prev) => prev + data.delta);
           }
@@ -1,17 +1,121 @@
+import { useState } from 'react';
 import { Recommendation } from '@/hooks/useRecommendations';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Check, CheckCheck, Clock, MessageSquare, Star, X } from 'lucide-react';
+import { getEffectiveStatus, MAX_RATING, type RecommendationStatus } from '@/lib/recommendations/lifecycle';
+
+type ActionResult = Promise<{ error: Error | null }>;
 
 interface RecommendationCardProps {
   recommendation: Recommendation;
+  onStatusChange?: (id: string, status: RecommendationStatus) => ActionResult;
+  onFeedback?: (id: string, rating: number, comment: string) => ActionResult;
+}
+
+const STATUS_STYLES: Record<RecommendationStatus, string> = {
+  new: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  snoozed: 'bg-yellow-100 text-yellow-800',
+  done: 'bg-gray-200 text-gray-800',
+  dismissed: 'bg-gray-100 text-gray-500',
+};
+
+const ADOPTION_LABELS: Record<string, { label: string; className: string }> = {
+  adopted: { label: 'Adopted', className: 'border-green-300 text-green-700' },
+  partially_adopted: { label: 'Partly adopted', className: 'border-yellow-300 text-yellow-700' },
+  not_adopted: { label: 'Not adopted', className: 'border-gray-300 text-gray-600' },
+};
+
+const PRIORITY_STYLES: Record<string, string> = {
+  critical: 'border-red-300 text-red-700',
+  high: 'border-orange-300 text-orange-700',
+  medium: 'border-gray-300 text-gray-700',
+  low: 'border-gray-200 text-gray-500',
+};
+
+export function StarRating({ value, onChange, disabled }: { value: number; onChange?: (value: number) => void; disabled?: boolean }) {
+  return (
+    <div className="flex items-center gap-0.5">
+      {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map((n) => (
+        <button
+          key={n}
+          type="button"
+          onClick={() => onChange?.(n)}
+          disabled={disabled || !onChange}
+          className="disabled:cursor-default"
+          aria-label={`${n} star`}
+        >
+          <Star className={`w-4 h-4 ${n <= value ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function RecommendationFeedbackForm({
+  recommendation,
+  onSubmit,
+  onDone,
+}: {
+  recommendation: Recommendation;
+  onSubmit: (id: string, rating: number, comment: string) => ActionResult;
+  onDone?: () => void;
+}) {
+  const [rating, setRating] = useState(recommendation.rating ?? 0);
+  const [comment, setComment] = useState(recommendation.comment ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rating) return;
+    setSaving(true);
+    setError(null);
+    const { error } = await onSubmit(recommendation.id, rating, comment);
+    setSaving(false);
+    if (error) {
+      setError(error.message);
+    } else {
+      onDone?.();
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="mt-2 space-y-2">
+      <div className="flex items-center gap-2 text-xs text-gray-600">
+        Was this helpful?
+        <StarRating value={rating} onChange={setRating} disabled={saving} />
+      </div>
+      <Textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Optional comment"
+        rows={2}
+        disabled={saving}
+        className="text-sm"
+      />
+      {error && <div className="text-xs text-red-600">{error}</div>}
+      <Button type="submit" size="sm" disabled={saving || !rating}>
+        Save feedback
+      </Button>
+    </form>
+  );
 }
 
-export function RecommendationCard({ recommendation }: RecommendationCardProps) {
+export function RecommendationCard({ recommendation, onStatusChange, onFeedback }: RecommendationCardProps) {
+  const [showFeedback, setShowFeedback] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const status = getEffectiveStatus(recommendation);
+
   const formatDate = (dateString: string | null) => {
     if (!dateString) return 'Unknown time';
-    
+
     const date = new Date(dateString);
     const now = new Date();
     const diffInHours = Math.floor((now.getTime() - date.getTime()) / (1000 * 60 * 60));
-    
+
     if (diffInHours < 1) {
       return 'A few minutes ago';
     } else if (diffInHours < 24) {
@@ -22,14 +126,98 @@ export function RecommendationCard({ recommendation }: RecommendationCardProps)
     }
   };
 
+  const changeStatus = async (next: RecommendationStatus) => {
+    if (!onStatusChange) return;
+    setBusy(true);
+    await onStatusChange(recommendation.id, next);
+    setBusy(false);
+    if (next === 'done' && onFeedback && !recommendation.rating) setShowFeedback(true);
+  };
+
   return (
-    <div className="py-3 border-b border-gray-200 last:border-b-0">
-      <div className="text-xs text-gray-500 mb-2">
-        {formatDate(recommendation.created_at)}
+    <div className={`py-3 border-b border-gray-200 last:border-b-0 ${status === 'dismissed' ? 'opacity-60' : ''}`}>
+      <div className="flex flex-wrap items-center gap-1 text-xs text-gray-500 mb-2">
+        <span>{formatDate(recommendation.created_at)}</span>
+        <span className={`px-1.5 py-0.5 rounded ${STATUS_STYLES[status]}`}>{status}</span>
+        {recommendation.category && <Badge variant="outline" className="text-[10px] py-0">{recommendation.category}</Badge>}
+        {recommendation.priority && (
+          <Badge variant="outline" className={`text-[10px] py-0 ${PRIORITY_STYLES[recommendation.priority] ?? ''}`}>
+            {recommendation.priority}
+          </Badge>
+        )}
+        {recommendation.adoption_verdict && ADOPTION_LABELS[recommendation.adoption_verdict] && (
+          <Badge
+            variant="outline"
+            className={`text-[10px] py-0 ${ADOPTION_LABELS[recommendation.adoption_verdict].className}`}
+            title={recommendation.adoption_evidence ?? undefined}
+          >
+            {ADOPTION_LABELS[recommendation.adoption_verdict].label}
+          </Badge>
+        )}
+        {status === 'snoozed' && recommendation.snoozed_until && (
+          <span>until {new Date(recommendation.snoozed_until).toLocaleString()}</span>
+        )}
       </div>
+      {recommendation.title && (
+        <div className="text-sm font-medium text-gray-900 mb-1">{recommendation.title}</div>
+      )}
       <div className="text-sm text-gray-700 leading-relaxed">
         {recommendation.content || 'No content available'}
       </div>
+
+      {recommendation.rating ? (
+        <div className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+          <StarRating value={recommendation.rating} />
+          {recommendation.comment && <span className="truncate">{recommendation.comment}</span>}
+        </div>
+      ) : null}
+
+      {(onStatusChange || onFeedback) && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {onStatusChange && (
+            <>
+              {status === 'new' && (
+                <Button variant="outline" size="sm" className="h-7 px-2 text-xs" disabled={busy} onClick={() => changeStatus('accepted')}>
+                  <Check className="w-3 h-3 mr-1" /> Accept
+                </Button>
+              )}
+              {(status === 'new' || status === 'accepted') && (
+                <Button variant="outline" size="sm" className="h-7 px-2 text-xs" disabled={busy} onClick={() => changeStatus('done')}>
+                  <CheckCheck className="w-3 h-3 mr-1" /> Done
+                </Button>
+              )}
+              {(status === 'new' || status === 'accepted') && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" disabled={busy} onClick={() => changeStatus('snoozed')}>
+                  <Clock className="w-3 h-3 mr-1" /> Snooze
+                </Button>
+              )}
+              {status !== 'dismissed' && status !== 'done' && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" disabled={busy} onClick={() => changeStatus('dismissed')}>
+                  <X className="w-3 h-3 mr-1" /> Dismiss
+                </Button>
+              )}
+              {(status === 'snoozed' || status === 'dismissed' || status === 'done') && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" disabled={busy} onClick={() => changeStatus('new')}>
+                  Reopen
+                </Button>
+              )}
+            </>
+          )}
+          {onFeedback && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setShowFeedback((v) => !v)}>
+              <MessageSquare className="w-3 h-3 mr-1" /> Feedback
+            </Button>
+          )}
+        </div>
+      )}
+
+      {showFeedback && onFeedback && (
+        <RecommendationFeedbackForm
+          recommendation={recommendation}
+          onSubmit={onFeedback}
+          onDone={() => setShowFeedback(false)}
+        />
+      )}
     </div>
   );
 }
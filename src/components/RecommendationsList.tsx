@@ -4,19 +4,24 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { RefreshCw, Lightbulb, AlertCircle } from 'lucide-react';
+import type { RecommendationStatus } from '@/lib/recommendations/lifecycle';
 
 interface RecommendationsListProps {
   limit?: number;
   showHeader?: boolean;
   className?: string;
+  statuses?: RecommendationStatus[];
+  showActions?: boolean;
 }
 
 export function RecommendationsList({ 
   limit = 10, 
   showHeader = true,
-  className = ""
+  className = "",
+  statuses,
+  showActions = true,
 }: RecommendationsListProps) {
-  const { recommendations, loading, error, refetch } = useRecommendations(limit);
+  const { recommendations, loading, error, refetch, setStatus, submitFeedback } = useRecommendations(limit, { statuses });
 
   if (loading) {
     return (
@@ -111,6 +116,8 @@ export function RecommendationsList({
           <RecommendationCard 
             key={recommendation.id} 
             recommendation={recommendation} 
+            onStatusChange={showActions ? setStatus : undefined}
+            onFeedback={showActions ? submitFeedback : undefined}
           />
         ))}
       </CardContent>
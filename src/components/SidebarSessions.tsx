@@ -4,6 +4,50 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { UserProfile } from '@/components/UserProfile';
 import { RecommendationsList } from '@/components/RecommendationsList';
 import Link from 'next/link';
+import { useAuth } from '@/context/AuthContext';
+import { useSessionContext, type SessionRecord } from '@/context/SessionContext';
+import { formatDuration } from '@/lib/analytics/time-breakdown';
+import { RECOMMENDATION_STATUSES } from '@/lib/recommendations/lifecycle';
+
+const SIDEBAR_SESSION_COUNT = 10;
+// Everything except advice that is still snoozed; it comes back when the snooze ends
+const SIDEBAR_RECOMMENDATION_STATUSES = RECOMMENDATION_STATUSES.filter((status) => status !== 'snoozed');
+
+function SessionItem({ session, active }: { session: SessionRecord; active: boolean }) {
+	const endedAt = session.stoppedAt ?? Date.now();
+	return (
+		<div className="space-y-0.5">
+			<div className="flex justify-between text-xs text-gray-500">
+				<span>{new Date(session.startedAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+				<span>{formatDuration(Math.max(0, endedAt - session.startedAt) / 1000)}</span>
+			</div>
+			{session.focus ? <div className="text-sm font-medium text-gray-900 truncate">{session.focus.intention}</div> : null}
+			<div className="text-sm text-gray-700 line-clamp-3">
+				{active ? 'In progress' : session.summary ?? (session.stoppedAt ? 'Summary pending' : 'Interrupted')}
+			</div>
+		</div>
+	);
+}
+
+// Capture sessions of the signed-in account, including ones synced from other devices
+function PastSessions() {
+	const { user } = useAuth();
+	const { sessions, activeSessionId } = useSessionContext();
+	const visible = sessions
+		.filter((s) => !s.userId || s.userId === user?.id)
+		.slice(0, SIDEBAR_SESSION_COUNT);
+
+	return (
+		<div className="space-y-2">
+			<div className="text-xs font-medium text-gray-700">Sessions</div>
+			{visible.length === 0 ? (
+				<p className="text-sm text-gray-500">No sessions yet. Start recording to begin one.</p>
+			) : (
+				visible.map((session) => <SessionItem key={session.id} session={session} active={session.id === activeSessionId} />)
+			)}
+		</div>
+	);
+}
 
 export default function SidebarSessions() {
 	return (
@@ -18,10 +62,14 @@ export default function SidebarSessions() {
 					<div className="space-y-2">
 						<div className="text-xs font-medium text-gray-700">Apps</div>
 						<Link className="text-sm underline block" href="/chat">Chat</Link>
+						<Link className="text-sm underline block" href="/dashboard">Dashboard</Link>
 						<Link className="text-sm underline block" href="/recommendations">Feedback</Link>
+						<Link className="text-sm underline block" href="/reports">Reports</Link>
 					</div>
 					<div className="pt-2 border-t" />
-					<RecommendationsList limit={5} showHeader={true} />
+					<PastSessions />
+					<div className="pt-2 border-t" />
+					<RecommendationsList limit={5} showHeader={true} statuses={SIDEBAR_RECOMMENDATION_STATUSES} />
 				</CardContent>
 			</Card>
 		</aside>
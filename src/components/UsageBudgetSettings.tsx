@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { BudgetAction, BudgetStatus, LlmBudget, UsageTotals } from '@/lib/usage/budget';
+
+interface UsageBudgetSettingsProps {
+  value: LlmBudget;
+  onChange: (value: LlmBudget) => void;
+  disabled?: boolean;
+}
+
+const BUDGET_ACTION_LABELS: Record<BudgetAction, string> = {
+  degrade: '安価なモデルに切り替える',
+  pause: '解析を一時停止する',
+};
+
+const STATUS_LABELS: Record<BudgetStatus['state'], string> = {
+  ok: '予算内',
+  degraded: '予算超過（安価なモデルで実行中）',
+  paused: '予算超過（解析停止中）',
+};
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+// 空欄 = 上限なし
+function parseLimit(input: string): number | null {
+  if (!input.trim()) return null;
+  const n = Number(input);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+export function UsageBudgetSettings({ value, onChange, disabled }: UsageBudgetSettingsProps) {
+  const { session } = useAuth();
+  const accessToken = session?.access_token;
+  const [usage, setUsage] = useState<{ totals: UsageTotals; status: BudgetStatus } | null>(null);
+
+  useEffect(() => {
+    if (!accessToken) return;
+    let cancelled = false;
+    fetch('/api/usage', { headers: { Authorization: `Bearer ${accessToken}` } })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data) setUsage({ totals: data.totals, status: data.status });
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken]);
+
+  return (
+    <div className="space-y-3">
+      <Label>AI利用料金</Label>
+
+      {usage && (
+        <div className="px-3 py-2 bg-gray-50 rounded-md text-sm space-y-1">
+          <div className="flex justify-between">
+            <span>今日（UTC）</span>
+            <span>{formatUsd(usage.totals.dailyUsd)} / {usage.totals.dailyTokens.toLocaleString()} tokens</span>
+          </div>
+          <div className="flex justify-between">
+            <span>今月</span>
+            <span>{formatUsd(usage.totals.monthlyUsd)} / {usage.totals.monthlyTokens.toLocaleString()} tokens</span>
+          </div>
+          <div className={`text-xs ${usage.status.state === 'ok' ? 'text-gray-500' : 'text-red-600'}`}>
+            {STATUS_LABELS[usage.status.state]}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="daily-budget" className="text-sm font-normal">1日の上限（USD）</Label>
+          <Input
+            id="daily-budget"
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="上限なし"
+            value={value.dailyUsd ?? ''}
+            onChange={(e) => onChange({ ...value, dailyUsd: parseLimit(e.target.value) })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="monthly-budget" className="text-sm font-normal">1ヶ月の上限（USD）</Label>
+          <Input
+            id="monthly-budget"
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="上限なし"
+            value={value.monthlyUsd ?? ''}
+            onChange={(e) => onChange({ ...value, monthlyUsd: parseLimit(e.target.value) })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-sm">上限を超えたとき</div>
+        <Select
+          value={value.onExceeded}
+          onValueChange={(action) => onChange({ ...value, onExceeded: action as BudgetAction })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(BUDGET_ACTION_LABELS) as BudgetAction[]).map((action) => (
+              <SelectItem key={action} value={action}>
+                {BUDGET_ACTION_LABELS[action]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import { Separator } from '@/components/ui/separator';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
 import Image from 'next/image';
+import ApiTokenManager from '@/components/ApiTokenManager';
+import WebhookManager from '@/components/WebhookManager';
 
 export default function UserAccountManager() {
   const { user, profile, signOut, updateProfile } = useAuth();
@@ -188,6 +190,14 @@ export default function UserAccountManager() {
 
         <Separator />
 
+        <ApiTokenManager />
+
+        <Separator />
+
+        <WebhookManager />
+
+        <Separator />
+
         <AlertDialog>
           <AlertDialogTrigger asChild>
             <Button variant="destructive" size="sm" disabled={loading}>
@@ -0,0 +1,303 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, Webhook } from 'lucide-react';
+import {
+  validateWebhookUrl,
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_EVENTS,
+  WEBHOOK_SIGNATURE_HEADER,
+  type WebhookEvent,
+} from '@/lib/webhooks/events';
+import type { WebhookDeliverySummary, WebhookEndpointSummary } from '@/lib/webhooks/endpoints';
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive'> = {
+  succeeded: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+};
+
+function formatTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function DeliveryLog({ deliveries }: { deliveries: WebhookDeliverySummary[] | undefined }) {
+  if (!deliveries) return <div className="text-xs text-muted-foreground">Loading...</div>;
+  if (deliveries.length === 0) return <div className="text-xs text-muted-foreground">No deliveries yet</div>;
+  return (
+    <div className="space-y-1 max-h-64 overflow-y-auto">
+      {deliveries.map((delivery) => (
+        <div key={delivery.id} className="rounded border px-2 py-1 text-xs space-y-0.5">
+          <div className="flex items-center gap-2">
+            <Badge variant={STATUS_VARIANTS[delivery.status] ?? 'secondary'}>{delivery.status}</Badge>
+            <span className="font-mono">{delivery.event}</span>
+            <span className="text-muted-foreground ml-auto">{formatTime(delivery.created_at)}</span>
+          </div>
+          <div className="text-muted-foreground">
+            {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+            {delivery.response_status !== null && ` · HTTP ${delivery.response_status}`}
+            {delivery.status === 'pending' && delivery.next_attempt_at && ` · next try ${formatTime(delivery.next_attempt_at)}`}
+          </div>
+          {delivery.last_error && <div className="text-red-600 break-all">{delivery.last_error}</div>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function WebhookManager() {
+  const { session } = useAuth();
+  const accessToken = session?.access_token;
+  const { toast } = useToast();
+  const [endpoints, setEndpoints] = useState<WebhookEndpointSummary[]>([]);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(['summary.1day', 'recommendation.created']);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [openLog, setOpenLog] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<Record<string, WebhookDeliverySummary[]>>({});
+  const [loading, setLoading] = useState(false);
+
+  const authHeaders = useCallback(
+    (json = false): Record<string, string> => ({
+      ...(json ? { 'Content-Type': 'application/json' } : {}),
+      Authorization: `Bearer ${accessToken}`,
+    }),
+    [accessToken]
+  );
+
+  const loadEndpoints = useCallback(async () => {
+    if (!accessToken) return;
+    const res = await fetch('/api/webhooks', { headers: authHeaders() });
+    if (res.ok) setEndpoints((await res.json()).endpoints ?? []);
+  }, [accessToken, authHeaders]);
+
+  useEffect(() => {
+    loadEndpoints().catch(() => {});
+  }, [loadEndpoints]);
+
+  const loadDeliveries = useCallback(async (endpointId: string) => {
+    const res = await fetch(`/api/webhooks/${endpointId}/deliveries`, { headers: authHeaders() });
+    if (res.ok) {
+      const data = await res.json();
+      setDeliveries((prev) => ({ ...prev, [endpointId]: data.deliveries ?? [] }));
+    }
+  }, [authHeaders]);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Webhook Error",
+      description: error instanceof Error ? error.message : "An unexpected error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents((prev) => (checked ? [...prev, event] : prev.filter((e) => e !== event)));
+  };
+
+  const handleCreate = async () => {
+    if (!accessToken) return;
+    setLoading(true);
+    try {
+      const res = await fetch('/api/webhooks', {
+        method: 'POST',
+        headers: authHeaders(true),
+        body: JSON.stringify({ url: url.trim(), description: description.trim() || null, events }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to add webhook');
+      setCreatedSecret(data.secret);
+      setUrl('');
+      setDescription('');
+      await loadEndpoints();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = async (endpoint: WebhookEndpointSummary, enabled: boolean) => {
+    try {
+      const res = await fetch(`/api/webhooks/${endpoint.id}`, {
+        method: 'PATCH',
+        headers: authHeaders(true),
+        body: JSON.stringify({ enabled }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error || 'Failed to update webhook');
+      await loadEndpoints();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDelete = async (endpointId: string) => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/webhooks/${endpointId}`, { method: 'DELETE', headers: authHeaders() });
+      if (!res.ok) throw new Error((await res.json()).error || 'Failed to delete webhook');
+      if (openLog === endpointId) setOpenLog(null);
+      await loadEndpoints();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleLog = (endpointId: string) => {
+    if (openLog === endpointId) {
+      setOpenLog(null);
+      return;
+    }
+    setOpenLog(endpointId);
+    loadDeliveries(endpointId).catch(() => {});
+  };
+
+  const copySecret = async () => {
+    if (!createdSecret) return;
+    try {
+      await navigator.clipboard.writeText(createdSecret);
+      toast({ title: "Copied", description: "The signing secret is on your clipboard" });
+    } catch {}
+  };
+
+  const trimmedUrl = url.trim();
+  const urlError = trimmedUrl ? validateWebhookUrl(trimmedUrl) : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label className="text-sm font-medium">Webhooks</Label>
+        <div className="text-xs text-muted-foreground">
+          POSTs JSON to your endpoint when summaries, recommendations or analyses are created. The <code>text</code> field
+          works with Slack-compatible incoming webhooks. Requests carry a <code>{WEBHOOK_SIGNATURE_HEADER}</code> header:{' '}
+          <code>t=&lt;unix time&gt;,v1=&lt;HMAC-SHA256 of &quot;t.body&quot;&gt;</code>.
+        </div>
+      </div>
+
+      {createdSecret && (
+        <div className="space-y-2 rounded-md border p-3">
+          <div className="text-sm">Signing secret. Copy it now. It will not be shown again.</div>
+          <div className="flex gap-2">
+            <Input readOnly value={createdSecret} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button type="button" variant="outline" size="sm" onClick={copySecret}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setCreatedSecret(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="webhook_url">Endpoint URL</Label>
+          <Input
+            id="webhook_url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://hooks.example.com/..."
+          />
+          {urlError && <div className="text-xs text-red-600">{urlError}</div>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="webhook_description">Description</Label>
+          <Input
+            id="webhook_description"
+            value={description}
+            maxLength={200}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="e.g. #daily-summaries"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Events</Label>
+          {WEBHOOK_EVENTS.map((event) => (
+            <label key={event} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={events.includes(event)}
+                onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+              />
+              <span className="font-mono text-xs">{event}</span>
+              <span className="text-muted-foreground">{WEBHOOK_EVENT_LABELS[event]}</span>
+            </label>
+          ))}
+        </div>
+        <Button
+          onClick={handleCreate}
+          disabled={loading || !trimmedUrl || !!urlError || events.length === 0}
+          size="sm"
+        >
+          <Webhook className="h-4 w-4 mr-1" />
+          {loading ? "Adding..." : "Add Webhook"}
+        </Button>
+      </div>
+
+      {endpoints.length > 0 && (
+        <div className="space-y-2">
+          {endpoints.map((endpoint) => (
+            <div key={endpoint.id} className="rounded-md border p-2 text-sm space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0 space-y-1">
+                  <div className="font-medium truncate">{endpoint.description || endpoint.url}</div>
+                  {endpoint.description && (
+                    <div className="text-xs text-muted-foreground truncate">{endpoint.url}</div>
+                  )}
+                  <div className="text-xs text-muted-foreground">{endpoint.events.join(', ')}</div>
+                </div>
+                <Switch
+                  checked={endpoint.enabled}
+                  onCheckedChange={(checked) => handleToggle(endpoint, checked)}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => toggleLog(endpoint.id)}>
+                  {openLog === endpoint.id ? "Hide Deliveries" : "Deliveries"}
+                </Button>
+                {openLog === endpoint.id && (
+                  <Button variant="ghost" size="sm" onClick={() => loadDeliveries(endpoint.id)}>
+                    Refresh
+                  </Button>
+                )}
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm" disabled={loading} className="ml-auto">
+                      Delete
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete Webhook</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Deliveries to {endpoint.url} stop immediately and its delivery log is removed.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleDelete(endpoint.id)}>
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+              {openLog === endpoint.id && <DeliveryLog deliveries={deliveries[endpoint.id]} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
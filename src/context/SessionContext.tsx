@@ -1,34 +1,32 @@
 "use client";
 
-import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
-
-export type AgentLogItem = {
-	id: string;
-	ts: number;
-	level: 'info' | 'warn' | 'error';
-	message: string;
-};
-
-export type AgentTip = {
-	id: string;
-	ts: number;
-	title: string;
-	detail?: string;
-};
-
-export type SessionRecord = {
-	id: string;
-	startedAt: number;
-	stoppedAt?: number;
-	log: AgentLogItem[];
-	tips: AgentTip[];
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { getBrowserSupabaseClient } from '@/lib/supabase/client';
+import type { FocusSessionPlan } from '@/lib/focus-sessions/timer';
+import {
+	SESSION_LOG_TYPE,
+	isSessionId,
+	sessionFromLogRow,
+	toSessionSync,
+	type AgentLogItem,
+	type AgentTip,
+	type SessionRecord,
+} from '@/lib/sessions/records';
+
+export type { AgentLogItem, AgentTip, SessionRecord };
+
+export type StartSessionOptions = {
+	id?: string;
+	startedAt?: number;
+	focus?: FocusSessionPlan;
 };
 
 export type SessionContextValue = {
 	sessions: SessionRecord[];
 	activeSessionId: string | null;
 	activeSession: SessionRecord | null;
-	startSession: () => string;
+	startSession: (options?: StartSessionOptions) => string;
 	stopSession: () => void;
 	appendLog: (entry: Omit<AgentLogItem, 'id' | 'ts'> & { id?: string; ts?: number }) => void;
 	appendTip: (tip: Omit<AgentTip, 'id' | 'ts'> & { id?: string; ts?: number }) => void;
@@ -38,6 +36,10 @@ export type SessionContextValue = {
 const SessionContext = createContext<SessionContextValue | null>(null);
 
 const STORAGE_KEY = 'ycom.sessions.v1';
+// Changes are sent to /api/sessions once the session has been quiet for this long
+const SYNC_DEBOUNCE_MS = 2000;
+// Past sessions loaded from the server on sign-in
+const SERVER_SESSION_LIMIT = 50;
 
 function generateId(prefix: string): string {
 	return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
@@ -48,12 +50,26 @@ function loadFromStorage(): SessionRecord[] {
 		const raw = localStorage.getItem(STORAGE_KEY);
 		if (!raw) return [];
 		const parsed = JSON.parse(raw) as SessionRecord[];
-		return Array.isArray(parsed) ? parsed : [];
+		if (!Array.isArray(parsed)) return [];
+		// Sessions saved before syncing had non-UUID ids; they become action_logs ids now
+		return parsed.map((s) => (isSessionId(s.id) ? s : { ...s, id: crypto.randomUUID() }));
 	} catch {
 		return [];
 	}
 }
 
+// The server knows sessions from other devices and the summaries; this device's log and tips are kept
+function mergeSessions(local: SessionRecord[], remote: SessionRecord[]): SessionRecord[] {
+	const remoteById = new Map(remote.map((s) => [s.id, s]));
+	const merged = local.map((s) => {
+		const stored = remoteById.get(s.id);
+		if (!stored) return s;
+		remoteById.delete(s.id);
+		return { ...s, userId: stored.userId, summary: stored.summary };
+	});
+	return [...merged, ...remoteById.values()].sort((a, b) => b.startedAt - a.startedAt);
+}
+
 function saveToStorage(sessions: SessionRecord[]) {
 	try {
 		localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
@@ -62,9 +78,18 @@ function saveToStorage(sessions: SessionRecord[]) {
 	}
 }
 
+/**
+ * Sessions live in localStorage and, while signed in, are synced to action_logs (type 'session')
+ * so captures can point at them and other devices list them
+ */
 export function SessionProvider({ children }: { children: React.ReactNode }) {
+	const { user, session } = useAuth();
 	const [sessions, setSessions] = useState<SessionRecord[]>([]);
 	const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+	// Last body sent per session id, so only changed sessions are synced
+	const syncedRef = useRef(new Map<string, string>());
+	const userId = user?.id ?? null;
+	const accessToken = session?.access_token;
 
 	useEffect(() => {
 		setSessions(loadFromStorage());
@@ -74,18 +99,83 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
 		saveToStorage(sessions);
 	}, [sessions]);
 
+	useEffect(() => {
+		if (!userId) return;
+		let cancelled = false;
+		getBrowserSupabaseClient()
+			.from('action_logs')
+			.select('id, user_id, started_at, ended_at, summary, details')
+			.eq('user_id', userId)
+			.eq('type', SESSION_LOG_TYPE)
+			.order('started_at', { ascending: false })
+			.limit(SERVER_SESSION_LIMIT)
+			.then(({ data }) => {
+				if (cancelled || !data) return;
+				const remote = data.map(sessionFromLogRow);
+				remote.forEach((s) => syncedRef.current.set(s.id, JSON.stringify(toSessionSync(s))));
+				setSessions((prev) => mergeSessions(prev, remote));
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [userId]);
+
+	// Sessions started before signing in are adopted by the first account that syncs them
+	useEffect(() => {
+		if (!userId || !accessToken) return;
+		const changed = sessions.filter(
+			(s) => (!s.userId || s.userId === userId) && syncedRef.current.get(s.id) !== JSON.stringify(toSessionSync(s))
+		);
+		if (changed.length === 0) return;
+		const timer = window.setTimeout(async () => {
+			for (const record of changed) {
+				const body = JSON.stringify(toSessionSync(record));
+				try {
+					const res = await fetch(`/api/sessions/${record.id}`, {
+						method: 'PUT',
+						headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+						body,
+					});
+					// Rejected sessions (e.g. an id owned by another account) are not retried
+					if (res.status >= 400 && res.status < 500) syncedRef.current.set(record.id, body);
+					if (!res.ok) continue;
+					const { session: saved } = (await res.json()) as { session: SessionRecord };
+					syncedRef.current.set(record.id, body);
+					setSessions((prev) =>
+						prev.map((s) => (s.id === record.id ? { ...s, userId: saved.userId, summary: saved.summary } : s))
+					);
+				} catch {
+					// Offline: sent again with the next change
+				}
+			}
+		}, SYNC_DEBOUNCE_MS);
+		return () => window.clearTimeout(timer);
+	}, [sessions, userId, accessToken]);
+
 	const activeSession = useMemo(
 		() => sessions.find((s) => s.id === activeSessionId) ?? null,
 		[sessions, activeSessionId]
 	);
 
-	const startSession = useCallback(() => {
-		const id = generateId('session');
-		const newSession: SessionRecord = { id, startedAt: Date.now(), log: [], tips: [] };
-		setSessions((prev) => [newSession, ...prev]);
+	const startSession = useCallback((options: StartSessionOptions = {}) => {
+		const id = options.id ?? crypto.randomUUID();
+		const newSession: SessionRecord = {
+			id,
+			...(userId ? { userId } : {}),
+			startedAt: options.startedAt ?? Date.now(),
+			log: [],
+			tips: [],
+			...(options.focus ? { focus: options.focus } : {}),
+		};
+		// Resuming a session this browser already knows (e.g. after a reload) keeps its log
+		setSessions((prev) =>
+			prev.some((s) => s.id === id)
+				? prev.map((s) => (s.id === id ? { ...s, stoppedAt: undefined, ...(options.focus ? { focus: options.focus } : {}) } : s))
+				: [newSession, ...prev]
+		);
 		setActiveSessionId(id);
 		return id;
-	}, []);
+	}, [userId]);
 
 	const stopSession = useCallback(() => {
 		setSessions((prev) =>
@@ -120,6 +210,7 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
 		[activeSessionId]
 	);
 
+	// Only this device's copy; synced sessions come back from the server on the next sign-in
 	const clearAll = useCallback(() => {
 		setSessions([]);
 		setActiveSessionId(null);
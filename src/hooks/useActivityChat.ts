@@ -0,0 +1,161 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import type { ChatCitation, ChatConversationRow, ChatMessageRow } from '@/lib/supabase/chat';
+import type { ChatStreamEvent } from '@/lib/ai/activity-chat';
+import { capturePathFromPublicUrl } from '@/lib/capture/storage-paths';
+
+export type ChatMessage = {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  citations: ChatCitation[];
+  pending?: boolean;
+};
+
+// Citations saved before the bucket went private carry public URLs instead of storage paths
+function toCitation(stored: ChatCitation & { screenshotUrls?: string[] }): ChatCitation {
+  const legacyPaths = (stored.screenshotUrls ?? []).map(capturePathFromPublicUrl).filter((p): p is string => !!p);
+  return { ...stored, screenshotPaths: stored.screenshotPaths ?? legacyPaths };
+}
+
+function toChatMessage(row: ChatMessageRow): ChatMessage {
+  return {
+    id: row.id,
+    role: row.role === 'assistant' ? 'assistant' : 'user',
+    content: row.content,
+    citations: Array.isArray(row.citations) ? (row.citations as unknown as ChatCitation[]).map(toCitation) : [],
+  };
+}
+
+export function useActivityChat() {
+  const { session } = useAuth();
+  const accessToken = session?.access_token;
+  const [conversations, setConversations] = useState<ChatConversationRow[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [activeTool, setActiveTool] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const authHeaders = useCallback((): Record<string, string> => (
+    accessToken ? { Authorization: `Bearer ${accessToken}` } : {}
+  ), [accessToken]);
+
+  const fetchConversations = useCallback(async () => {
+    if (!accessToken) return;
+    try {
+      const res = await fetch('/api/chat/conversations', { headers: authHeaders() });
+      if (!res.ok) throw new Error('Failed to load conversations');
+      const json = await res.json();
+      setConversations(json.conversations ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversations');
+    }
+  }, [accessToken, authHeaders]);
+
+  const openConversation = useCallback(async (id: string | null) => {
+    abortRef.current?.abort();
+    setConversationId(id);
+    setMessages([]);
+    setError(null);
+    if (!id) return;
+    try {
+      const res = await fetch(`/api/chat/conversations/${id}`, { headers: authHeaders() });
+      if (!res.ok) throw new Error('Failed to load conversation');
+      const json = await res.json();
+      setMessages(((json.messages ?? []) as ChatMessageRow[]).map(toChatMessage));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversation');
+    }
+  }, [authHeaders]);
+
+  const sendMessage = useCallback(async (text: string) => {
+    const message = text.trim();
+    if (!message || sending) return;
+
+    setSending(true);
+    setError(null);
+    const assistantId = `pending-${Date.now()}`;
+    setMessages((prev) => [
+      ...prev,
+      { id: `user-${Date.now()}`, role: 'user', content: message, citations: [] },
+      { id: assistantId, role: 'assistant', content: '', citations: [], pending: true },
+    ]);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const updateAssistant = (update: (m: ChatMessage) => ChatMessage) => {
+      setMessages((prev) => prev.map((m) => (m.id === assistantId ? update(m) : m)));
+    };
+
+    try {
+      const res = await fetch('/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({
+          conversationId,
+          message,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }),
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error((data as { error?: string }).error || 'Chat request failed');
+      }
+
+      // Read newline-delimited JSON events
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event = JSON.parse(line) as ChatStreamEvent;
+          if (event.type === 'conversation') {
+            setConversationId(event.conversationId);
+          } else if (event.type === 'tool') {
+            setActiveTool(event.toolName);
+          } else if (event.type === 'text') {
+            setActiveTool(null);
+            updateAssistant((m) => ({ ...m, content: m.content + event.text }));
+          } else if (event.type === 'done') {
+            updateAssistant((m) => ({ ...m, id: event.messageId, citations: event.citations, pending: false }));
+          } else if (event.type === 'error') {
+            throw new Error(event.error);
+          }
+        }
+      }
+      fetchConversations();
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error ? err.message : 'Chat request failed');
+      updateAssistant((m) => ({ ...m, pending: false }));
+    } finally {
+      setSending(false);
+      setActiveTool(null);
+    }
+  }, [authHeaders, conversationId, fetchConversations, sending]);
+
+  useEffect(() => {
+    fetchConversations();
+  }, [fetchConversations]);
+
+  return {
+    conversations,
+    conversationId,
+    messages,
+    activeTool,
+    sending,
+    error,
+    sendMessage,
+    openConversation,
+    refetch: fetchConversations,
+  };
+}
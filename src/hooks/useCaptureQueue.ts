@@ -0,0 +1,254 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+	CaptureUploadError,
+	countChunks,
+	enqueueCapture,
+	listQueuedCaptures,
+	RECORDING_CHUNK_BYTES,
+	RECORDING_POLL_INTERVAL_MS,
+	RECORDING_POLL_MAX_MS,
+	removeQueuedCapture,
+	retryDelay,
+	updateQueuedCapture,
+	type CaptureKind,
+	type NewQueuedCapture,
+	type QueuedCapture,
+} from '@/lib/capture/upload-queue';
+
+export type CaptureUploadResult = {
+	url?: string | null; // Short-lived signed URL
+	path?: string;
+	summary?: string | null;
+	analysisId?: string | null;
+	action_log_id?: string;
+	duplicate?: boolean;
+	repeat_count?: number;
+};
+
+type CaptureQueueOptions = {
+	userId?: string | null;
+	accessToken?: string | null; // Supabase session token; uploads wait until there is one
+	onUploaded?: (entry: QueuedCapture, result: CaptureUploadResult) => void;
+	// dropped = the server rejected the capture for good (it will not be retried)
+	onFailed?: (entry: QueuedCapture, error: CaptureUploadError, dropped: boolean) => void;
+};
+
+async function send(input: string, init: RequestInit): Promise<Response> {
+	let res: Response;
+	try {
+		res = await fetch(input, init);
+	} catch (e) {
+		throw new CaptureUploadError(e instanceof Error ? e.message : 'Network error', 0);
+	}
+	if (!res.ok) {
+		const data = await res.json().catch(() => ({}));
+		throw new CaptureUploadError((data as { error?: string }).error || `Upload failed (${res.status})`, res.status);
+	}
+	return res;
+}
+
+async function uploadScreenshot(entry: QueuedCapture, accessToken: string): Promise<CaptureUploadResult> {
+	const formData = new FormData();
+	formData.append('file', new File([entry.blob], entry.fileName, { type: entry.mimeType }));
+	formData.append('captured_at', new Date(entry.capturedAt).toISOString());
+	if (entry.focusSessionId) formData.append('focus_session_id', entry.focusSessionId);
+	if (entry.sessionId) formData.append('session_id', entry.sessionId);
+	const res = await send('/api/capture/screenshot', {
+		method: 'POST',
+		headers: { Authorization: `Bearer ${accessToken}` },
+		body: formData,
+	});
+	return (await res.json()) as CaptureUploadResult;
+}
+
+type RecordingUploadStatus = {
+	received?: number[];
+	processing?: boolean;
+	result?: CaptureUploadResult | null;
+};
+
+async function getRecordingStatus(base: string, auth: Record<string, string>): Promise<RecordingUploadStatus> {
+	return (await (await send(base, { method: 'GET', headers: auth })).json()) as RecordingUploadStatus;
+}
+
+// Another request (e.g. one whose connection dropped) is analysing the recording; wait for its result
+async function waitForRecordingResult(base: string, auth: Record<string, string>): Promise<CaptureUploadResult> {
+	const deadline = Date.now() + RECORDING_POLL_MAX_MS;
+	while (Date.now() < deadline) {
+		await new Promise((resolve) => window.setTimeout(resolve, RECORDING_POLL_INTERVAL_MS));
+		const status = await getRecordingStatus(base, auth);
+		if (status.result) return status.result;
+		if (!status.processing) break;
+	}
+	throw new CaptureUploadError('Recording is still being processed', 202);
+}
+
+// Only the chunks the server does not have yet are sent, so an interrupted recording resumes where it stopped
+async function uploadRecording(entry: QueuedCapture, accessToken: string): Promise<CaptureUploadResult> {
+	const base = `/api/capture/recording/uploads/${entry.uploadId}`;
+	const auth = { Authorization: `Bearer ${accessToken}` };
+	const chunkCount = countChunks(entry.blob.size);
+	const status = await getRecordingStatus(base, auth);
+	if (status.result) return status.result;
+	if (status.processing) return waitForRecordingResult(base, auth);
+	const received = new Set(status.received ?? []);
+	for (let index = 0; index < chunkCount; index++) {
+		if (received.has(index)) continue;
+		await send(`${base}?index=${index}`, {
+			method: 'PUT',
+			headers: { ...auth, 'Content-Type': 'application/octet-stream' },
+			body: entry.blob.slice(index * RECORDING_CHUNK_BYTES, (index + 1) * RECORDING_CHUNK_BYTES),
+		});
+	}
+	const res = await send(base, {
+		method: 'POST',
+		headers: { ...auth, 'Content-Type': 'application/json' },
+		body: JSON.stringify({
+			chunk_count: chunkCount,
+			file_name: entry.fileName,
+			mime_type: entry.mimeType,
+			captured_at: new Date(entry.capturedAt).toISOString(),
+			focus_session_id: entry.focusSessionId ?? undefined,
+			session_id: entry.sessionId ?? undefined,
+		}),
+	});
+	if (res.status === 202) return waitForRecordingResult(base, auth);
+	return (await res.json()) as CaptureUploadResult;
+}
+
+/**
+ * Persist captures in IndexedDB and upload them in capture order, retrying with backoff
+ */
+export function useCaptureQueue({ userId, accessToken, onUploaded, onFailed }: CaptureQueueOptions) {
+	const owner = userId ?? '';
+	const [pendingCount, setPendingCount] = useState(0);
+	const [online, setOnline] = useState(true);
+	const pendingRef = useRef(0);
+	const flushingRef = useRef(false);
+	const rerunRef = useRef(false);
+	const inFlightRef = useRef<number | null>(null);
+	const timerRef = useRef<number | null>(null);
+	const handlersRef = useRef({ onUploaded, onFailed });
+	// Read at upload time, so a refreshed session token is picked up without restarting the queue
+	const accessTokenRef = useRef(accessToken ?? null);
+
+	useEffect(() => {
+		accessTokenRef.current = accessToken ?? null;
+	}, [accessToken]);
+
+	useEffect(() => {
+		handlersRef.current = { onUploaded, onFailed };
+	}, [onUploaded, onFailed]);
+
+	// The capture being uploaded right now is not counted, so the count only shows a real backlog
+	const refreshCount = useCallback(async () => {
+		try {
+			const entries = await listQueuedCaptures(owner);
+			const count = entries.filter((entry) => entry.id !== inFlightRef.current).length;
+			pendingRef.current = count;
+			setPendingCount(count);
+		} catch {}
+	}, [owner]);
+
+	const flush = useCallback(async (force: boolean = false): Promise<void> => {
+		if (flushingRef.current) {
+			rerunRef.current = true;
+			return;
+		}
+		flushingRef.current = true;
+		if (timerRef.current) window.clearTimeout(timerRef.current);
+		timerRef.current = null;
+		let nextAttemptAt = Infinity;
+		try {
+			// Offline attempts would only burn retries; the online listener flushes again
+			if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+			// Signed out (or the session is still loading): captures stay queued until a token arrives
+			const token = accessTokenRef.current;
+			if (!token) return;
+			const entries = await listQueuedCaptures(owner);
+			// Screenshots and recordings are ordered independently; a stuck entry holds back only its own kind
+			const blocked = new Set<CaptureKind>();
+			for (const entry of entries) {
+				if (blocked.has(entry.kind)) continue;
+				if (!force && entry.nextAttemptAt > Date.now()) {
+					blocked.add(entry.kind);
+					nextAttemptAt = Math.min(nextAttemptAt, entry.nextAttemptAt);
+					continue;
+				}
+				inFlightRef.current = entry.id;
+				try {
+					const result = entry.kind === 'recording' ? await uploadRecording(entry, token) : await uploadScreenshot(entry, token);
+					await removeQueuedCapture(entry.id);
+					handlersRef.current.onUploaded?.(entry, result);
+				} catch (e) {
+					const error = e instanceof CaptureUploadError ? e : new CaptureUploadError(e instanceof Error ? e.message : 'Upload failed', 0);
+					if (!error.retryable) {
+						await removeQueuedCapture(entry.id);
+						handlersRef.current.onFailed?.(entry, error, true);
+						continue;
+					}
+					const attempts = entry.attempts + 1;
+					const retryAt = Date.now() + retryDelay(attempts);
+					await updateQueuedCapture({ ...entry, attempts, nextAttemptAt: retryAt, lastError: error.message });
+					blocked.add(entry.kind);
+					nextAttemptAt = Math.min(nextAttemptAt, retryAt);
+					handlersRef.current.onFailed?.(entry, error, false);
+				} finally {
+					inFlightRef.current = null;
+				}
+			}
+		} catch (e) {
+			console.warn('Capture queue flush failed:', e);
+		} finally {
+			flushingRef.current = false;
+			await refreshCount();
+			if (nextAttemptAt < Infinity) {
+				timerRef.current = window.setTimeout(() => void flush(), Math.max(nextAttemptAt - Date.now(), 0));
+			}
+		}
+		if (rerunRef.current) {
+			rerunRef.current = false;
+			await flush(force);
+		}
+	}, [owner, refreshCount]);
+
+	const enqueue = useCallback(async (capture: Omit<NewQueuedCapture, 'userId' | 'uploadId'>) => {
+		const entry = await enqueueCapture({
+			...capture,
+			userId: owner,
+			uploadId: capture.kind === 'recording' ? crypto.randomUUID() : null,
+		});
+		await refreshCount();
+		void flush();
+		return entry;
+	}, [owner, refreshCount, flush]);
+
+	// True when nothing is waiting, i.e. a new capture would be uploaded right away
+	const isIdle = useCallback(() => pendingRef.current === 0 && inFlightRef.current === null, []);
+
+	useEffect(() => {
+		setOnline(navigator.onLine);
+		void flush();
+		const handleOnline = () => {
+			setOnline(true);
+			void flush(true);
+		};
+		const handleOffline = () => setOnline(false);
+		window.addEventListener('online', handleOnline);
+		window.addEventListener('offline', handleOffline);
+		return () => {
+			window.removeEventListener('online', handleOnline);
+			window.removeEventListener('offline', handleOffline);
+			if (timerRef.current) window.clearTimeout(timerRef.current);
+			timerRef.current = null;
+		};
+	}, [flush]);
+
+	useEffect(() => {
+		if (accessToken) void flush();
+	}, [accessToken, flush]);
+
+	return { pendingCount, online, enqueue, flush, isIdle };
+}
@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { getBrowserSupabaseClient } from '@/lib/supabase/client';
+import type { Tables } from '@/lib/supabase/database.types';
+import { timeRangeWindow, type TimeRange } from '@/lib/analytics/time-breakdown';
+import type { FocusMetricInterval } from '@/lib/analytics/focus-metrics';
+
+export type FocusMetricsRow = Tables<'focus_metrics'>;
+
+// Hourly points for a single day, daily points otherwise
+export const FOCUS_TREND_INTERVAL: Record<TimeRange, FocusMetricInterval> = {
+  day: '1hour',
+  week: '1day',
+  month: '1day',
+};
+
+export function useFocusMetrics(range: TimeRange) {
+  const { user } = useAuth();
+  const [rows, setRows] = useState<FocusMetricsRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMetrics = useCallback(async () => {
+    if (!user?.id) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { start, end } = timeRangeWindow(range);
+      const supabase = getBrowserSupabaseClient();
+      const { data, error } = await supabase
+        .from('focus_metrics')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('interval', FOCUS_TREND_INTERVAL[range])
+        .gt('window_end', start.toISOString())
+        .lt('window_start', end.toISOString())
+        .order('window_start', { ascending: true });
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch focus metrics');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, range]);
+
+  useEffect(() => {
+    fetchMetrics();
+  }, [fetchMetrics]);
+
+  return { rows, loading, error, refetch: fetchMetrics };
+}
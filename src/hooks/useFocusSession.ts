@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { useSessionContext, type SessionRecord } from '@/context/SessionContext';
+import type { Tables } from '@/lib/supabase/database.types';
+import { focusTimerState, timerPlanOf, type FocusSessionPlan, type FocusTimerState } from '@/lib/focus-sessions/timer';
+
+export type FocusSessionRow = Tables<'focus_sessions'>;
+
+function planOf(row: FocusSessionRow): FocusSessionPlan {
+  return { intention: row.intention, ...timerPlanOf(row) };
+}
+
+/**
+ * Phase and countdown of a running focus session, ticking every second
+ */
+export function useFocusTimer(session: SessionRecord | null): FocusTimerState | null {
+  const [now, setNow] = useState(() => Date.now());
+  const running = !!session?.focus && !session.stoppedAt;
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [running]);
+
+  return running && session?.focus ? focusTimerState(session.focus, session.startedAt, now) : null;
+}
+
+/**
+ * Start and end focus sessions on the server and mirror the running one in SessionContext
+ * (its id is what captures are tagged with). Use from one component per page.
+ */
+export function useFocusSession() {
+  const { session } = useAuth();
+  const { activeSession, startSession, stopSession, appendLog } = useSessionContext();
+  const [ended, setEnded] = useState<FocusSessionRow | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const accessToken = session?.access_token;
+  const focusSession = activeSession?.focus ? activeSession : null;
+  const timer = useFocusTimer(focusSession);
+  // Read by the effects below without re-running them whenever the session log changes
+  const contextRef = useRef({ activeSession, startSession, stopSession, appendLog });
+
+  useEffect(() => {
+    contextRef.current = { activeSession, startSession, stopSession, appendLog };
+  }, [activeSession, startSession, stopSession, appendLog]);
+
+  const request = useCallback(async (path: string, init: RequestInit = {}) => {
+    const res = await fetch(path, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}`, ...init.headers },
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+    return data as { session: FocusSessionRow | null };
+  }, [accessToken]);
+
+  // Follow the server: a session started on another device is resumed here, one ended there is stopped
+  useEffect(() => {
+    if (!accessToken) return;
+    let cancelled = false;
+    request('/api/focus-sessions')
+      .then(({ session: running }) => {
+        if (cancelled) return;
+        const { activeSession: current, startSession: resume, stopSession: stop } = contextRef.current;
+        if (running && running.id !== current?.id) {
+          resume({ id: running.id, startedAt: new Date(running.started_at).getTime(), focus: planOf(running) });
+        } else if (!running && current?.focus) {
+          stop();
+        }
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, request]);
+
+  // Log phase changes in the live view
+  const phase = timer?.phase;
+  const round = timer?.round;
+  useEffect(() => {
+    if (!phase) return;
+    const message = phase === 'focus'
+      ? `Round ${round}: focus`
+      : phase === 'break'
+        ? `Round ${round} done, take a break`
+        : 'All rounds done, end the session to see the report';
+    contextRef.current.appendLog({ level: 'info', message });
+  }, [phase, round]);
+
+  const start = useCallback(async (plan: FocusSessionPlan) => {
+    setPending(true);
+    setError(null);
+    try {
+      const { session: row } = await request('/api/focus-sessions', { method: 'POST', body: JSON.stringify(plan) });
+      if (!row) throw new Error('Failed to start focus session');
+      if (activeSession) stopSession();
+      setEnded(null);
+      startSession({ id: row.id, startedAt: new Date(row.started_at).getTime(), focus: planOf(row) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start focus session');
+    } finally {
+      setPending(false);
+    }
+  }, [request, activeSession, startSession, stopSession]);
+
+  // The report is built on the server from the session's tagged captures
+  const end = useCallback(async () => {
+    if (!focusSession) return;
+    setPending(true);
+    setError(null);
+    try {
+      const { session: row } = await request(`/api/focus-sessions/${focusSession.id}/end`, { method: 'POST' });
+      stopSession();
+      setEnded(row);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to end focus session');
+    } finally {
+      setPending(false);
+    }
+  }, [request, focusSession, stopSession]);
+
+  return { focusSession, timer, ended, pending, error, start, end };
+}
@@ -0,0 +1,117 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { useSignedCaptureUrls } from '@/hooks/useSignedCaptureUrls';
+import { getBrowserSupabaseClient } from '@/lib/supabase/client';
+import type { Tables } from '@/lib/supabase/database.types';
+import type { ProductivityAnalysisResult } from '@/lib/ai/productivity-analyzer';
+
+export type ProductivityReportSummary = Pick<
+  Tables<'productivity_analyses'>,
+  'id' | 'created_at' | 'productivity_score' | 'main_activity' | 'total_time' | 'video_id'
+>;
+
+export type ProductivityReport = Omit<Tables<'productivity_analyses'>, 'analysis'> & {
+  analysis: ProductivityAnalysisResult;
+  videoStoragePath: string | null;
+  videoUrl: string | null; // Signed, short-lived
+};
+
+export function useProductivityReports(limit: number = 30) {
+  const { user } = useAuth();
+  const [reports, setReports] = useState<ProductivityReportSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReports = useCallback(async () => {
+    if (!user?.id) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const supabase = getBrowserSupabaseClient();
+      const { data, error } = await supabase
+        .from('productivity_analyses')
+        .select('id, created_at, productivity_score, main_activity, total_time, video_id')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      setReports(data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch reports');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, limit]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  return { reports, loading, error, refetch: fetchReports };
+}
+
+export function useProductivityReport(id: string | undefined) {
+  const { user } = useAuth();
+  const [report, setReport] = useState<Omit<ProductivityReport, 'videoUrl'> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const videoUrls = useSignedCaptureUrls(report?.videoStoragePath ? [report.videoStoragePath] : []);
+
+  useEffect(() => {
+    if (!user?.id || !id) return;
+    let cancel = false;
+
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const supabase = getBrowserSupabaseClient();
+        const { data, error } = await supabase
+          .from('productivity_analyses')
+          .select('*')
+          .eq('id', id)
+          .eq('user_id', user.id)
+          .maybeSingle();
+        if (error) throw error;
+        if (!data) throw new Error('Report not found');
+
+        // Resolve the recording for playback
+        let storagePath = data.video_path;
+        if (data.video_id) {
+          const { data: video } = await supabase
+            .from('videos')
+            .select('storage_path')
+            .eq('id', data.video_id)
+            .maybeSingle();
+          storagePath = video?.storage_path ?? storagePath;
+        }
+
+        if (!cancel) {
+          setReport({
+            ...data,
+            analysis: data.analysis as unknown as ProductivityAnalysisResult,
+            videoStoragePath: storagePath ?? null,
+          });
+        }
+      } catch (err) {
+        if (!cancel) setError(err instanceof Error ? err.message : 'Failed to fetch report');
+      } finally {
+        if (!cancel) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancel = true;
+    };
+  }, [user?.id, id]);
+
+  const withVideo = useMemo<ProductivityReport | null>(
+    () => (report ? { ...report, videoUrl: report.videoStoragePath ? videoUrls[report.videoStoragePath] ?? null : null } : null),
+    [report, videoUrls]
+  );
+
+  return { report: withVideo, loading, error };
+}
@@ -1,6 +1,9 @@
 'use client';
 
 import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { REALTIME_MODEL } from '@/lib/ai/lm-models';
+import { realtimeAuthHeaders, reportRealtimeUsage, type RealtimeUsage } from '@/lib/usage/realtime-usage';
 
 type RealtimeSocket = WebSocket & { _connectedAt?: number };
 
@@ -10,6 +13,9 @@ export function useRealtimeSpeaker() {
 	const [isReady, setIsReady] = useState(false);
 	const isConnectingRef = useRef(false);
 	const lastPlayAtRef = useRef<number>(0);
+	const { session } = useAuth();
+	const accessTokenRef = useRef<string | undefined>(undefined);
+	accessTokenRef.current = session?.access_token;
 
 	const ensureAudioContext = useCallback(() => {
 		if (!audioContextRef.current) {
@@ -30,12 +36,12 @@ export function useRealtimeSpeaker() {
 		if (isConnectingRef.current || socketRef.current) return;
 		isConnectingRef.current = true;
 		try {
-			const res = await fetch('/api/realtime/session', { method: 'POST' });
+			const res = await fetch('/api/realtime/session', { method: 'POST', headers: realtimeAuthHeaders(accessTokenRef.current) });
 			if (!res.ok) throw new Error('Failed to create realtime session');
 			const { clientSecret } = (await res.json()) as { sessionId: string; clientSecret: string | null };
 			if (!clientSecret) throw new Error('Missing client secret');
 
-			const url = 'wss://api.openai.com/v1/realtime?model=gpt-4o-realtime-preview-2024-12-17';
+			const url = `wss://api.openai.com/v1/realtime?model=${REALTIME_MODEL}`;
 			const socket = new WebSocket(url, ['realtime', `openai-insecure-api-key.${clientSecret}`, 'openai-beta.realtime-v1']) as RealtimeSocket;
 			socket._connectedAt = Date.now();
 			socketRef.current = socket;
@@ -48,7 +54,10 @@ export function useRealtimeSpeaker() {
 			socket.onmessage = async (event) => {
 				// Handle audio delta frames (PCM16 16kHz mono)
 				try {
-					const data = JSON.parse(event.data as string) as { type?: string; delta?: string };
+					const data = JSON.parse(event.data as string) as { type?: string; delta?: string; response?: { usage?: RealtimeUsage } };
+					if (data.type === 'response.done') {
+						reportRealtimeUsage(accessTokenRef.current, data.response?.usage);
+					}
 					if (data.type === 'response.audio.delta' && data.delta) {
 						const base64 = data.delta as unknown as string;
 						const byteString = atob(base64);
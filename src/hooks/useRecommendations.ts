@@ -1,19 +1,28 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/context/AuthContext';
 import { getBrowserSupabaseClient } from '@/lib/supabase/client';
+import type { Tables } from '@/lib/supabase/database.types';
+import {
+  DEFAULT_SNOOZE_HOURS,
+  effectiveStatusFilter,
+  getEffectiveStatus,
+  type RecommendationStatus,
+} from '@/lib/recommendations/lifecycle';
 
-export type Recommendation = {
-  id: string;
-  content: string | null;
-  user_id: string;
-  created_at: string | null;
-};
+export type Recommendation = Tables<'recommendations'>;
 
-export function useRecommendations(limit: number = 10) {
+export interface RecommendationFilter {
+  statuses?: RecommendationStatus[]; // matched against the effective status (an expired snooze is new)
+  rated?: boolean; // true: only with feedback, false: only without
+}
+
+export function useRecommendations(limit: number = 10, filter: RecommendationFilter = {}) {
   const { user } = useAuth();
   const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const statusKey = filter.statuses?.join(',') ?? '';
+  const rated = filter.rated;
 
   const fetchRecommendations = useCallback(async () => {
     if (!user?.id) return;
@@ -23,23 +32,63 @@ export function useRecommendations(limit: number = 10) {
 
     try {
       const supabase = getBrowserSupabaseClient();
-      
-      const { data, error } = await supabase
+
+      let query = supabase
         .from('recommendations')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('user_id', user.id);
+      if (statusKey) query = query.or(effectiveStatusFilter(statusKey.split(',') as RecommendationStatus[]));
+      if (rated === true) query = query.not('rating', 'is', null);
+      if (rated === false) query = query.is('rating', null);
+
+      const { data, error } = await query
         .order('created_at', { ascending: false })
         .limit(limit);
-      
+
       if (error) throw error;
-      
+
       setRecommendations(data || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch recommendations');
     } finally {
       setLoading(false);
     }
-  }, [user?.id, limit]);
+  }, [user?.id, limit, statusKey, rated]);
+
+  const updateRecommendation = useCallback(async (
+    id: string,
+    updates: Partial<Pick<Recommendation, 'status' | 'snoozed_until' | 'rating' | 'comment'>>
+  ) => {
+    const supabase = getBrowserSupabaseClient();
+    const { data, error } = await supabase
+      .from('recommendations')
+      .update(updates) // updated_at is set by a trigger; other columns are not granted to the browser
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      return { error: new Error(error.message) };
+    }
+
+    // A snoozed or finished item leaves a filtered list (e.g. Active) until its status matches again
+    const statuses = statusKey ? statusKey.split(',') : null;
+    setRecommendations((prev) => prev
+      .map((r) => (r.id === id ? data : r))
+      .filter((r) => !statuses || statuses.includes(getEffectiveStatus(r))));
+    return { error: null };
+  }, [statusKey]);
+
+  const setStatus = useCallback((id: string, status: RecommendationStatus, snoozeHours: number = DEFAULT_SNOOZE_HOURS) => {
+    const snoozed_until = status === 'snoozed'
+      ? new Date(Date.now() + snoozeHours * 60 * 60 * 1000).toISOString()
+      : null;
+    return updateRecommendation(id, { status, snoozed_until });
+  }, [updateRecommendation]);
+
+  const submitFeedback = useCallback((id: string, rating: number, comment: string) => {
+    return updateRecommendation(id, { rating, comment: comment.trim() || null });
+  }, [updateRecommendation]);
 
   useEffect(() => {
     fetchRecommendations();
@@ -50,5 +99,7 @@ export function useRecommendations(limit: number = 10) {
     loading,
     error,
     refetch: fetchRecommendations,
+    setStatus,
+    submitFeedback,
   };
 }
@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { MAX_SIGNED_URLS_PER_REQUEST } from '@/lib/capture/storage-paths';
+
+type CachedUrl = { url: string; expiresAt: number };
+
+// Refresh a little before the server-side expiry so an open page never renders a dead link
+const EXPIRY_MARGIN_MS = 30 * 1000;
+const cache = new Map<string, CachedUrl>();
+
+function freshUrl(path: string, now: number): string | null {
+  const cached = cache.get(path);
+  return cached && cached.expiresAt - EXPIRY_MARGIN_MS > now ? cached.url : null;
+}
+
+async function fetchSignedUrls(paths: string[], accessToken: string): Promise<void> {
+  for (let i = 0; i < paths.length; i += MAX_SIGNED_URLS_PER_REQUEST) {
+    const res = await fetch('/api/capture/signed-urls', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+      body: JSON.stringify({ paths: paths.slice(i, i + MAX_SIGNED_URLS_PER_REQUEST) }),
+    });
+    if (!res.ok) throw new Error('Failed to sign capture URLs');
+    const data = (await res.json()) as { urls: Record<string, string>; expiresAt: string };
+    const expiresAt = new Date(data.expiresAt).getTime();
+    for (const [path, url] of Object.entries(data.urls)) {
+      cache.set(path, { url, expiresAt });
+    }
+  }
+}
+
+/**
+ * Short-lived URLs for storage paths in the private captures bucket (path → URL; missing until signed)
+ */
+export function useSignedCaptureUrls(paths: string[]): Record<string, string> {
+  const { session } = useAuth();
+  const accessToken = session?.access_token;
+  const key = useMemo(() => Array.from(new Set(paths.filter(Boolean))).sort().join('\n'), [paths]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [refreshTick, setRefreshTick] = useState(0);
+
+  useEffect(() => {
+    const wanted = key ? key.split('\n') : [];
+    if (!accessToken || wanted.length === 0) {
+      setUrls({});
+      return;
+    }
+    let cancelled = false;
+    let timer: number | null = null;
+
+    const publish = () => {
+      const now = Date.now();
+      const next: Record<string, string> = {};
+      let nextRefresh = Infinity;
+      for (const path of wanted) {
+        const url = freshUrl(path, now);
+        if (!url) continue;
+        next[path] = url;
+        nextRefresh = Math.min(nextRefresh, cache.get(path)!.expiresAt - EXPIRY_MARGIN_MS);
+      }
+      setUrls(next);
+      if (nextRefresh < Infinity) {
+        timer = window.setTimeout(() => setRefreshTick((t) => t + 1), Math.max(nextRefresh - now, 1000));
+      }
+    };
+
+    const missing = wanted.filter((path) => !freshUrl(path, Date.now()));
+    if (missing.length === 0) {
+      publish();
+    } else {
+      fetchSignedUrls(missing, accessToken)
+        .catch((error) => console.warn(error))
+        .finally(() => {
+          if (!cancelled) publish();
+        });
+    }
+
+    return () => {
+      cancelled = true;
+      if (timer) window.clearTimeout(timer);
+    };
+  }, [key, accessToken, refreshTick]);
+
+  return urls;
+}
@@ -0,0 +1,146 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { useSignedCaptureUrls } from '@/hooks/useSignedCaptureUrls';
+import { getBrowserSupabaseClient } from '@/lib/supabase/client';
+import {
+  buildTimeBreakdown,
+  CAPTURE_SAMPLE_SECONDS,
+  seriesUnit,
+  timeRangeWindow,
+  UNKNOWN_APPLICATION,
+  type TimeBreakdown,
+  type TimeRange,
+} from '@/lib/analytics/time-breakdown';
+import type { ActivityCategory } from '@/lib/ai/screen-capture-interpreter';
+
+const DRILL_DOWN_LIMIT = 48;
+
+// Screenshots behind one slice or bar of the dashboard
+export interface CaptureDrillDown {
+  label: string;
+  start: string;
+  end: string;
+  application?: string;
+  category?: ActivityCategory;
+}
+
+export interface DrillDownCapture {
+  id: string;
+  started_at: string;
+  summary: string | null;
+  application: string | null;
+  storagePath: string | null;
+  url: string | null; // Signed, short-lived
+}
+
+export function useTimeBreakdown(range: TimeRange) {
+  const { user } = useAuth();
+  const [breakdown, setBreakdown] = useState<TimeBreakdown | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBreakdown = useCallback(async () => {
+    if (!user?.id) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const timeWindow = timeRangeWindow(range);
+      const supabase = getBrowserSupabaseClient();
+      const { data, error } = await supabase.rpc('action_log_time_rollups', {
+        user_id_filter: user.id,
+        start_time: timeWindow.start.toISOString(),
+        end_time: timeWindow.end.toISOString(),
+        time_zone_name: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        series_unit: seriesUnit(range),
+        sample_seconds: CAPTURE_SAMPLE_SECONDS,
+      });
+
+      if (error) throw error;
+      setBreakdown(buildTimeBreakdown(data || [], range, timeWindow));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch time breakdown');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, range]);
+
+  useEffect(() => {
+    fetchBreakdown();
+  }, [fetchBreakdown]);
+
+  return { breakdown, loading, error, refetch: fetchBreakdown };
+}
+
+export function useDrillDownCaptures(drillDown: CaptureDrillDown | null) {
+  const { user } = useAuth();
+  const [captures, setCaptures] = useState<Omit<DrillDownCapture, 'url'>[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const urls = useSignedCaptureUrls(useMemo(() => captures.map((c) => c.storagePath ?? ''), [captures]));
+
+  useEffect(() => {
+    if (!user?.id || !drillDown) {
+      setCaptures([]);
+      return;
+    }
+    let cancel = false;
+
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const supabase = getBrowserSupabaseClient();
+        let query = supabase
+          .from('action_logs')
+          .select('id, started_at, summary, details')
+          .eq('user_id', user.id)
+          .eq('type', 'screen_capture_analyze')
+          .gte('started_at', drillDown.start)
+          .lt('started_at', drillDown.end);
+        // Rows without the field are counted as "Unknown" / "other" by action_log_time_rollups
+        if (drillDown.application === UNKNOWN_APPLICATION) {
+          query = query.or('details->>application.is.null,details->>application.eq.');
+        } else if (drillDown.application) {
+          query = query.eq('details->>application', drillDown.application);
+        }
+        if (drillDown.category === 'other') {
+          query = query.or('details->>activity_category.is.null,details->>activity_category.eq.other');
+        } else if (drillDown.category) {
+          query = query.eq('details->>activity_category', drillDown.category);
+        }
+        const { data, error } = await query.order('started_at', { ascending: false }).limit(DRILL_DOWN_LIMIT);
+        if (error) throw error;
+
+        if (!cancel) {
+          setCaptures((data || []).map((row) => {
+            const details = (row.details ?? {}) as Record<string, unknown>;
+            return {
+              id: row.id,
+              started_at: row.started_at,
+              summary: row.summary,
+              application: typeof details.application === 'string' ? details.application : null,
+              storagePath: typeof details.storage_path === 'string' ? details.storage_path : null,
+            };
+          }));
+        }
+      } catch (err) {
+        if (!cancel) setError(err instanceof Error ? err.message : 'Failed to fetch captures');
+      } finally {
+        if (!cancel) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancel = true;
+    };
+  }, [user?.id, drillDown]);
+
+  const withUrls = useMemo<DrillDownCapture[]>(
+    () => captures.map((c) => ({ ...c, url: c.storagePath ? urls[c.storagePath] ?? null : null })),
+    [captures, urls]
+  );
+
+  return { captures: withUrls, loading, error };
+}
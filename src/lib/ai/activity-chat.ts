@@ -0,0 +1,128 @@
+/**
+ * Conversational agent over the user's own action_logs history
+ */
+
+import { streamText, stepCountIs, type ModelMessage } from 'ai';
+import { selectModel } from './model-router';
+import { recordLanguageModelUsage } from '../usage/accounting';
+import { ACTIVITY_CHAT_PROMPT } from './prompts';
+import { productivityTools } from '../tools';
+import type { ToolContext } from '../tools/context';
+import { getSupabaseServiceClient } from '../supabase/server';
+import type { ChatCitation } from '../supabase/chat';
+
+// Maximum tool-calling steps per answer
+const MAX_STEPS = 6;
+// Maximum number of citations attached to one answer
+const MAX_CITATIONS = 20;
+
+export interface ActivityChatInput {
+  userId: string;
+  messages: ModelMessage[];
+  timeZone?: string; // IANA time zone of the user's browser (e.g. 'Asia/Tokyo')
+}
+
+/**
+ * Build the system prompt with the current time so relative dates can be resolved
+ */
+function buildSystemPrompt(timeZone: string): string {
+  const now = new Date();
+  const local = now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'short' });
+  return `${ACTIVITY_CHAT_PROMPT}
+
+Current time: ${local} (${timeZone}), ${now.toISOString()} UTC`;
+}
+
+/**
+ * Stream an answer using the productivity tools (scoped to the user via experimental_context)
+ */
+export async function streamActivityChat(input: ActivityChatInput) {
+  const timeZone = input.timeZone || 'UTC';
+  // Streaming cannot switch models mid-answer, so pick the first available AGENT model up front
+  const { model, modelId } = await selectModel('AGENT', { userId: input.userId });
+
+  return streamText({
+    model,
+    system: buildSystemPrompt(timeZone),
+    messages: input.messages,
+    tools: productivityTools,
+    stopWhen: stepCountIs(MAX_STEPS),
+    temperature: 0.3,
+    experimental_context: { userId: input.userId } satisfies ToolContext,
+    onFinish: ({ totalUsage }) => recordLanguageModelUsage(input.userId, 'AGENT', modelId, totalUsage),
+  });
+}
+
+/**
+ * Collect action_log IDs referenced in tool outputs
+ * Log rows are recognised by an `id` / `action_log_id` next to a summary field
+ */
+function collectActionLogIds(value: unknown, ids: Set<string>): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectActionLogIds(item, ids));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+
+  const record = value as Record<string, unknown>;
+  const looksLikeLog = 'summary' in record || 'summary_text' in record;
+  for (const key of ['action_log_id', 'id']) {
+    const id = record[key];
+    if (looksLikeLog && typeof id === 'string') {
+      ids.add(id);
+      break;
+    }
+  }
+  Object.values(record).forEach((child) => collectActionLogIds(child, ids));
+}
+
+/**
+ * Resolve citations (log rows + screenshots) from tool outputs, restricted to the user's own rows
+ */
+export async function collectCitations(toolOutputs: unknown[], userId: string): Promise<ChatCitation[]> {
+  const ids = new Set<string>();
+  toolOutputs.forEach((output) => collectActionLogIds(output, ids));
+  if (ids.size === 0) return [];
+
+  const supabase = getSupabaseServiceClient();
+  const { data: logs, error } = await supabase
+    .from('action_logs')
+    .select('id, type, summary, started_at')
+    .eq('user_id', userId)
+    .in('id', Array.from(ids).slice(0, MAX_CITATIONS * 2))
+    .order('started_at', { ascending: true })
+    .limit(MAX_CITATIONS);
+
+  if (error || !logs) {
+    console.warn('⚠️ Failed to resolve chat citations:', error);
+    return [];
+  }
+
+  const { data: images } = await supabase
+    .from('images')
+    .select('action_log_id, storage_path')
+    .in('action_log_id', logs.map((log: { id: string }) => log.id));
+
+  // Paths, not URLs: citations are stored with the message and signed URLs would expire
+  const screenshotsByLog = new Map<string, string[]>();
+  for (const image of (images ?? []) as Array<{ action_log_id: string | null; storage_path: string }>) {
+    if (!image.action_log_id) continue;
+    screenshotsByLog.set(image.action_log_id, [...(screenshotsByLog.get(image.action_log_id) ?? []), image.storage_path]);
+  }
+
+  return (logs as Array<{ id: string; type: string; summary: string | null; started_at: string }>).map((log) => ({
+    actionLogId: log.id,
+    type: log.type,
+    summary: log.summary,
+    startedAt: log.started_at,
+    screenshotPaths: screenshotsByLog.get(log.id) ?? [],
+  }));
+}
+
+// Newline-delimited JSON events streamed by /api/chat
+export type ChatStreamEvent =
+  | { type: 'conversation'; conversationId: string }
+  | { type: 'tool'; toolName: string }
+  | { type: 'text'; text: string }
+  | { type: 'done'; messageId: string; citations: ChatCitation[] }
+  | { type: 'error'; error: string };
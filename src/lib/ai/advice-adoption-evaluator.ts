@@ -0,0 +1,278 @@
+/**
+ * Closed-loop advice verification.
+ * Some days after a recommendation is saved, compare the user's later activity
+ * (rolled-up summaries, semantically related captures and recording analyses)
+ * against the advice and record whether it was adopted.
+ */
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { runWithModelFallback } from './model-router';
+import { generateSearchEmbedding } from './embedding';
+import { getSupabaseServiceClient } from '../supabase/server';
+import type { Database } from '../supabase/database.types';
+import { ADOPTION_VERDICTS, type AdoptionVerdict } from '../recommendations/lifecycle';
+
+type RecommendationRow = Database['public']['Tables']['recommendations']['Row'];
+
+// Wait this long after the advice before judging (behaviour needs time to change)
+export const ADOPTION_EVALUATION_DELAY_DAYS = 3;
+// Look at activity up to this many days after the advice
+const ADOPTION_OBSERVATION_DAYS = 7;
+// insufficient_data verdicts are retried after this many days, up to MAX_ADOPTION_ATTEMPTS evaluations in total
+const RETRY_INSUFFICIENT_AFTER_DAYS = 3;
+const MAX_ADOPTION_ATTEMPTS = 2;
+
+const MAX_SUMMARIES = 40;
+const MAX_RELATED_LOGS = 15;
+const MAX_ANALYSES = 5;
+
+const AdoptionSchema = z.object({
+  verdict: z.enum(ADOPTION_VERDICTS).describe('Whether later activity shows the advice being followed'),
+  confidence: z.number().min(0).max(1).describe('Confidence in the verdict (0-1)'),
+  evidence: z.string().describe('1-3 sentences citing concrete observations from the logs'),
+  supportingLogIds: z.array(z.string()).describe('IDs of the log entries the verdict is based on'),
+});
+
+export interface AdoptionEvaluationResult {
+  recommendationId: string;
+  verdict: AdoptionVerdict;
+  confidence: number;
+  evidence: string;
+  logIds: string[];
+}
+
+interface EvidenceLog {
+  id: string;
+  type: string;
+  startedAt: string;
+  text: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function adviceText(rec: RecommendationRow): string {
+  return [rec.title, rec.content].filter(Boolean).join('\n');
+}
+
+/**
+ * Collect activity after the advice: daily/hourly rollups, semantically related captures and recording analyses
+ */
+async function collectEvidence(rec: RecommendationRow, until: Date): Promise<EvidenceLog[]> {
+  const supabase = getSupabaseServiceClient();
+  const since = rec.created_at ?? new Date(0).toISOString();
+  const logs = new Map<string, EvidenceLog>();
+
+  const { data: summaries } = await supabase
+    .from('action_logs')
+    .select('id, type, summary, started_at')
+    .eq('user_id', rec.user_id)
+    .in('type', ['summary_1hour', 'summary_24hour'])
+    .gte('started_at', since)
+    .lt('started_at', until.toISOString())
+    .not('summary', 'is', null)
+    .order('started_at', { ascending: true })
+    .limit(MAX_SUMMARIES);
+  for (const row of summaries ?? []) {
+    logs.set(row.id, { id: row.id, type: row.type, startedAt: row.started_at, text: row.summary });
+  }
+
+  try {
+    const embedding = await generateSearchEmbedding(adviceText(rec), rec.user_id);
+    const { data: related } = await supabase.rpc('search_action_logs_semantic', {
+      query_embedding: embedding,
+      user_id_filter: rec.user_id,
+      match_threshold: 0.3,
+      match_count: MAX_RELATED_LOGS,
+      start_time: since,
+      end_time: until.toISOString(),
+    });
+    for (const row of (related ?? []) as { id: string; type: string; summary: string | null; started_at: string }[]) {
+      if (row.summary) {
+        logs.set(row.id, { id: row.id, type: row.type, startedAt: row.started_at, text: row.summary });
+      }
+    }
+  } catch (error) {
+    console.warn('⚠️ Semantic evidence search failed, using summaries only:', error);
+  }
+
+  const { data: analyses } = await supabase
+    .from('productivity_analyses')
+    .select('id, action_log_id, created_at, main_activity, analysis')
+    .eq('user_id', rec.user_id)
+    .gte('created_at', since)
+    .lt('created_at', until.toISOString())
+    .order('created_at', { ascending: true })
+    .limit(MAX_ANALYSES);
+  for (const row of analyses ?? []) {
+    const analysis = (row.analysis ?? {}) as { summary?: { keyInsights?: string[] }; patterns?: { strengths?: string[] } };
+    const text = [
+      row.main_activity,
+      ...(analysis.summary?.keyInsights ?? []),
+      ...(analysis.patterns?.strengths ?? []).map((s) => `Strength: ${s}`),
+    ].filter(Boolean).join(' / ');
+    const id = row.action_log_id ?? row.id;
+    logs.set(id, { id, type: 'recording_analysis', startedAt: row.created_at, text });
+  }
+
+  return Array.from(logs.values()).sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+async function saveAdoptionResult(result: AdoptionEvaluationResult, attempts: number): Promise<void> {
+  const supabase = getSupabaseServiceClient();
+  const { error } = await supabase
+    .from('recommendations')
+    .update({
+      adoption_verdict: result.verdict,
+      adoption_confidence: result.confidence,
+      adoption_evidence: result.evidence,
+      adoption_log_ids: result.logIds,
+      adoption_evaluated_at: new Date().toISOString(),
+      adoption_attempts: attempts,
+    })
+    .eq('id', result.recommendationId);
+
+  if (error) {
+    throw new Error(`Failed to save adoption verdict: ${error.message}`);
+  }
+}
+
+/**
+ * アドバイスが実際に採用されたかを後続のログから判定し、recommendationsに記録する
+ */
+export async function evaluateRecommendationAdoption(
+  recommendationId: string,
+  now: Date = new Date()
+): Promise<AdoptionEvaluationResult> {
+  const supabase = getSupabaseServiceClient();
+  const { data: rec, error } = await supabase
+    .from('recommendations')
+    .select('*')
+    .eq('id', recommendationId)
+    .single();
+  if (error || !rec) {
+    throw new Error(`Recommendation not found: ${recommendationId}`);
+  }
+
+  const createdAt = rec.created_at ? new Date(rec.created_at) : now;
+  const until = new Date(Math.min(now.getTime(), createdAt.getTime() + ADOPTION_OBSERVATION_DAYS * DAY_MS));
+  const evidence = await collectEvidence(rec as RecommendationRow, until);
+
+  let result: AdoptionEvaluationResult;
+  if (evidence.length === 0) {
+    result = {
+      recommendationId,
+      verdict: 'insufficient_data',
+      confidence: 0,
+      evidence: 'No activity was recorded after the advice was given.',
+      logIds: [],
+    };
+  } else {
+    const knownIds = new Set(evidence.map((e) => e.id));
+    const { result: { object } } = await runWithModelFallback('FAST_ANALYSIS', (model) => generateObject({
+      model,
+      schema: AdoptionSchema,
+      temperature: 0.1,
+      messages: [
+        {
+          role: 'user',
+          content: `A productivity assistant gave the user the following advice on ${createdAt.toISOString()}:
+
+"""
+${adviceText(rec as RecommendationRow)}
+"""
+
+Below are the user's activity logs recorded after that advice (oldest first, format: [id] type time: text).
+Decide whether the user's behaviour shows they adopted the advice.
+- "adopted": clear signs the recommended behaviour/tool/shortcut is being used
+- "partially_adopted": some signs, or only occasionally
+- "not_adopted": the situation the advice addressed keeps happening the old way
+- "insufficient_data": the logs do not cover the relevant activity
+Only cite log IDs from the list.
+
+${evidence.map((e) => `[${e.id}] ${e.type} ${e.startedAt}: ${e.text}`).join('\n')}`,
+        },
+      ],
+    }), { userId: rec.user_id });
+
+    result = {
+      recommendationId,
+      verdict: object.verdict,
+      confidence: object.confidence,
+      evidence: object.evidence,
+      logIds: object.supportingLogIds.filter((id) => knownIds.has(id)),
+    };
+  }
+
+  await saveAdoptionResult(result, ((rec as RecommendationRow).adoption_attempts ?? 0) + 1);
+  console.log(`🔁 Adoption verdict for ${recommendationId}: ${result.verdict} (${result.confidence})`);
+  return result;
+}
+
+/**
+ * 判定期限に達したレコメンドを評価する（未評価 or データ不足の再評価）
+ * データ不足の再評価はMAX_ADOPTION_ATTEMPTS回目までで打ち切る。
+ */
+export async function evaluateDueRecommendations(
+  now: Date = new Date(),
+  options: { userId?: string; limit?: number } = {}
+): Promise<AdoptionEvaluationResult[]> {
+  const supabase = getSupabaseServiceClient();
+  const dueBefore = new Date(now.getTime() - ADOPTION_EVALUATION_DELAY_DAYS * DAY_MS).toISOString();
+  const retryBefore = new Date(now.getTime() - RETRY_INSUFFICIENT_AFTER_DAYS * DAY_MS).toISOString();
+
+  let query = supabase
+    .from('recommendations')
+    .select('id')
+    .lte('created_at', dueBefore)
+    .neq('status', 'dismissed')
+    .or(`adoption_evaluated_at.is.null,and(adoption_verdict.eq.insufficient_data,adoption_attempts.lt.${MAX_ADOPTION_ATTEMPTS},adoption_evaluated_at.lt.${retryBefore})`)
+    .order('created_at', { ascending: true })
+    .limit(options.limit ?? 50);
+  if (options.userId) {
+    query = query.eq('user_id', options.userId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+
+  const results: AdoptionEvaluationResult[] = [];
+  for (const row of data ?? []) {
+    try {
+      results.push(await evaluateRecommendationAdoption(row.id, now));
+    } catch (err) {
+      console.error(`❌ Adoption evaluation failed for ${row.id}:`, err);
+    }
+  }
+  return results;
+}
+
+/**
+ * Past adoption outcomes as a prompt section, so the analyzer favours advice that works for this user
+ */
+export async function buildAdoptionFeedbackPrompt(userId: string, limit: number = 10): Promise<string> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('recommendations')
+    .select('title, content, category, adoption_verdict, rating')
+    .eq('user_id', userId)
+    .in('adoption_verdict', ['adopted', 'partially_adopted', 'not_adopted'])
+    .order('adoption_evaluated_at', { ascending: false })
+    .limit(limit);
+
+  if (error || !data || data.length === 0) return '';
+
+  const lines = data.map((r) => {
+    const advice = (r.title || r.content || '').replace(/\s+/g, ' ').slice(0, 160);
+    const rating = r.rating ? `, rated ${r.rating}/5` : '';
+    return `- [${r.adoption_verdict}${r.category ? `, ${r.category}` : ''}${rating}] ${advice}`;
+  });
+
+  return `
+
+## Past Advice Outcomes for This User
+
+Follow-up checks of earlier advice (verdict from later activity logs):
+${lines.join('\n')}
+
+Prefer advice similar to what was adopted. Do not repeat advice that was not adopted unless you take a clearly different, easier angle.`;
+}
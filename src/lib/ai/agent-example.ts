@@ -4,7 +4,7 @@
  */
 
 import { generateText } from 'ai';
-import { google } from '@ai-sdk/google';
+import { resolveLanguageModel } from './model-router';
 import { GoogleModel } from './lm-models';
 import { z } from 'zod';
 
@@ -80,7 +80,7 @@ export async function executeAgentWithTools(
   try {
     // Use generateText with Google Gemini model
     const result = await generateText({
-      model: google(GoogleModel.GEMINI_2_5_PRO),
+      model: resolveLanguageModel(GoogleModel.GEMINI_2_5_PRO),
       system: systemPrompt,
       messages: [
         {
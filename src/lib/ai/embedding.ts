@@ -1,20 +1,28 @@
 import { openai } from '@ai-sdk/openai';
 import { embed } from 'ai';
+import { EMBEDDING_MODEL } from './lm-models';
+import { createMockEmbeddingModel, isMockProviderEnabled } from './mock-models';
+import { recordModelUsage } from '../usage/accounting';
 
 /**
  * Generate embedding for general text content
+ * (token usage is recorded against userId when given)
  */
-export async function generateEmbedding(text: string): Promise<string> {
+export async function generateEmbedding(text: string, userId?: string): Promise<string> {
   try {
     if (!text.trim()) {
       throw new Error('Text content is required for embedding generation');
     }
 
-    const { embedding } = await embed({
-      model: openai.embedding('text-embedding-3-small'),
+    const { embedding, usage } = await embed({
+      model: isMockProviderEnabled() ? createMockEmbeddingModel(EMBEDDING_MODEL) : openai.embedding(EMBEDDING_MODEL),
       value: text.trim(),
     });
 
+    if (userId) {
+      await recordModelUsage({ userId, useCase: 'EMBEDDING', modelId: EMBEDDING_MODEL, inputTokens: usage.tokens });
+    }
+
     // Convert to string format for pgvector compatibility
     return `[${embedding.join(',')}]`;
   } catch (error) {
@@ -54,7 +62,8 @@ export async function generateKnowledgeEmbedding(
 export async function generateActionLogEmbedding(
   summaryText: string,
   structured?: Record<string, unknown>,
-  tags: string[] = []
+  tags: string[] = [],
+  userId?: string
 ): Promise<string> {
   try {
     const parts: string[] = [summaryText];
@@ -73,7 +82,7 @@ export async function generateActionLogEmbedding(
     }
 
     const combinedText = parts.join('\n\n');
-    return await generateEmbedding(combinedText);
+    return await generateEmbedding(combinedText, userId);
   } catch (error) {
     console.error('Error generating action log embedding:', error);
     throw new Error('Failed to generate action log embedding');
@@ -83,13 +92,13 @@ export async function generateActionLogEmbedding(
 /**
  * Generate search query embedding
  */
-export async function generateSearchEmbedding(query: string): Promise<string> {
+export async function generateSearchEmbedding(query: string, userId?: string): Promise<string> {
   try {
     if (!query.trim()) {
       throw new Error('Search query is required');
     }
 
-    return await generateEmbedding(query.trim());
+    return await generateEmbedding(query.trim(), userId);
   } catch (error) {
     console.error('Error generating search embedding:', error);
     throw new Error('Failed to generate search embedding');
@@ -40,6 +40,7 @@ export interface ModelConfig {
   name: string;
   description: string;
   supportsVision: boolean;
+  supportsVideo?: boolean; // Accepts video input directly (Gemini)
   maxTokens: number;
   costPerToken?: number; // Cost per 1K tokens (optional)
 }
@@ -108,6 +109,7 @@ export const MODEL_CONFIGS: Record<string, ModelConfig> = {
     name: "Gemini 2.0 Flash",
     description: "Fast and efficient Google model",
     supportsVision: true,
+    supportsVideo: true,
     maxTokens: 8192,
     costPerToken: 0.0001,
   },
@@ -117,6 +119,7 @@ export const MODEL_CONFIGS: Record<string, ModelConfig> = {
     name: "Gemini 2.5 Flash",
     description: "Latest fast Google model with improved capabilities",
     supportsVision: true,
+    supportsVideo: true,
     maxTokens: 16384,
     costPerToken: 0.00012,
   },
@@ -126,6 +129,7 @@ export const MODEL_CONFIGS: Record<string, ModelConfig> = {
     name: "Gemini 2.5 Pro",
     description: "Most advanced Google model with superior reasoning",
     supportsVision: true,
+    supportsVideo: true,
     maxTokens: 32768,
     costPerToken: 0.0003,
   },
@@ -135,6 +139,7 @@ export const MODEL_CONFIGS: Record<string, ModelConfig> = {
     name: "Gemini 1.5 Flash",
     description: "Fast Google model for general tasks",
     supportsVision: true,
+    supportsVideo: true,
     maxTokens: 8192,
     costPerToken: 0.00015,
   },
@@ -144,6 +149,7 @@ export const MODEL_CONFIGS: Record<string, ModelConfig> = {
     name: "Gemini 1.5 Pro",
     description: "Advanced Google model",
     supportsVision: true,
+    supportsVideo: true,
     maxTokens: 8192,
     costPerToken: 0.0005,
   },
@@ -157,8 +163,34 @@ export const DEFAULT_MODELS = {
   PRODUCTIVITY_ANALYSIS: OpenAIModel.GPT_5,   // Best model for productivity analysis
   COST_EFFECTIVE: AnthropicModel.CLAUDE_3_HAIKU, // Cheapest option (non-OpenAI)
   AGENT: GoogleModel.GEMINI_2_0_FLASH,        // Default for agent tasks
+  VIDEO_ANALYSIS: GoogleModel.GEMINI_2_5_FLASH, // Recording analysis (needs video input)
 } as const;
 
+export type ModelUseCase = keyof typeof DEFAULT_MODELS;
+
+// Per-user model choice per use case (profiles.model_preferences)
+export type UserModelPreferences = Partial<Record<ModelUseCase, string>>;
+
+// Models tried in order when the default (or overridden) model fails, preferring other providers
+export const FALLBACK_MODELS: Record<ModelUseCase, string[]> = {
+  VISION_ANALYSIS: [GoogleModel.GEMINI_2_5_PRO, AnthropicModel.CLAUDE_3_5_SONNET],
+  FAST_ANALYSIS: [GoogleModel.GEMINI_2_5_FLASH, AnthropicModel.CLAUDE_3_HAIKU],
+  FASTEST_ANALYSIS: [GoogleModel.GEMINI_2_0_FLASH, AnthropicModel.CLAUDE_3_HAIKU],
+  PRODUCTIVITY_ANALYSIS: [GoogleModel.GEMINI_2_5_PRO, AnthropicModel.CLAUDE_3_5_SONNET],
+  COST_EFFECTIVE: [GoogleModel.GEMINI_2_0_FLASH, OpenAIModel.GPT_5_NANO],
+  AGENT: [OpenAIModel.GPT_5_MINI, AnthropicModel.CLAUDE_3_5_SONNET],
+  VIDEO_ANALYSIS: [GoogleModel.GEMINI_2_5_PRO, GoogleModel.GEMINI_2_0_FLASH],
+};
+
+// Models used outside the router (fixed per feature), with cost per 1K tokens for usage accounting
+export const EMBEDDING_MODEL = "text-embedding-3-small";
+export const EMBEDDING_DIMENSIONS = 1536; // Matches the pgvector columns
+export const REALTIME_MODEL = "gpt-4o-realtime-preview-2024-12-17";
+export const AUXILIARY_MODEL_COSTS: Record<string, number> = {
+  [EMBEDDING_MODEL]: 0.00002,
+  [REALTIME_MODEL]: 0.02,
+};
+
 // Utility functions
 export function getModelConfig(modelId: string): ModelConfig | undefined {
   return MODEL_CONFIGS[modelId];
@@ -172,6 +204,17 @@ export function getModelsByProvider(provider: ModelProvider): ModelConfig[] {
   return Object.values(MODEL_CONFIGS).filter(config => config.provider === provider);
 }
 
-export function getDefaultModel(useCase: keyof typeof DEFAULT_MODELS): string {
+export function getDefaultModel(useCase: ModelUseCase): string {
   return DEFAULT_MODELS[useCase];
-}
\ No newline at end of file
+}
+
+// Cost per 1K tokens for any model we call (undefined when unknown, e.g. custom "provider:id" references)
+export function getModelCostPer1K(modelId: string): number | undefined {
+  return MODEL_CONFIGS[modelId]?.costPerToken ?? AUXILIARY_MODEL_COSTS[modelId];
+}
+
+// Charged for models without a known price (the highest known price, so budgets still apply)
+export const UNKNOWN_MODEL_COST_PER_1K = Math.max(
+  ...Object.values(MODEL_CONFIGS).map((config) => config.costPerToken ?? 0),
+  ...Object.values(AUXILIARY_MODEL_COSTS)
+);
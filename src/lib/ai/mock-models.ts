@@ -0,0 +1,231 @@
+/**
+ * Deterministic local stand-in for the AI providers (AI_PROVIDER=mock).
+ *
+ * Language models answer structured calls with an object generated from the requested
+ * JSON schema (or a registered fixture), seeded by the prompt so the same input always
+ * gives the same output. Embeddings are hashed bag-of-words vectors, so texts sharing
+ * words land close together. No network, no API keys.
+ */
+import type { EmbeddingModel, JSONSchema7, LanguageModel } from 'ai';
+import { EMBEDDING_DIMENSIONS } from './lm-models';
+
+export const MOCK_PROVIDER = 'mock';
+
+type MockLanguageModel = Exclude<LanguageModel, string>;
+type MockEmbeddingModel = Exclude<EmbeddingModel<string>, string>;
+type CallOptions = Parameters<MockLanguageModel['doGenerate']>[0];
+type SchemaDefinition = JSONSchema7 | boolean;
+
+export interface MockFixture {
+  match: string; // Used when the prompt text contains this substring
+  object?: Record<string, unknown>; // Merged over the schema-generated object
+  text?: string; // Returned for plain text / streaming calls
+}
+
+let fixtures: MockFixture[] = [];
+
+export function isMockProviderEnabled(): boolean {
+  return process.env.AI_PROVIDER === MOCK_PROVIDER;
+}
+
+/**
+ * Register canned responses (first matching fixture wins)
+ */
+export function setMockFixtures(list: MockFixture[]): void {
+  fixtures = [...list];
+}
+
+export function clearMockFixtures(): void {
+  fixtures = [];
+}
+
+// FNV-1a, stable across runs and platforms
+function hashString(value: string, seed: number = 0x811c9dc5): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function promptToText(prompt: CallOptions['prompt']): string {
+  return prompt
+    .map((message) => {
+      if (typeof message.content === 'string') return message.content;
+      return message.content
+        .map((part) => ('text' in part && typeof part.text === 'string' ? part.text : `[${part.type}]`))
+        .join('\n');
+    })
+    .join('\n');
+}
+
+function findFixture(promptText: string): MockFixture | undefined {
+  return fixtures.find((f) => promptText.includes(f.match));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function mergeFixture(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) return override;
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = key in base ? mergeFixture(base[key], value) : value;
+  }
+  return merged;
+}
+
+/**
+ * Build a value that satisfies a JSON schema (as produced from the zod schemas passed to generateObject)
+ */
+export function generateFromSchema(schema: SchemaDefinition, seed: number, path: string = 'value'): unknown {
+  if (typeof schema === 'boolean') return null;
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    const nonNull = variants.find((v) => typeof v !== 'boolean' && v.type !== 'null') ?? variants[0];
+    return generateFromSchema(nonNull, seed, path);
+  }
+  if (schema.allOf && schema.allOf.length > 0) {
+    return generateFromSchema(schema.allOf[0], seed, path);
+  }
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[hashString(path, seed) % schema.enum.length];
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t) => t !== 'null') : schema.type;
+  switch (type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(schema.properties ?? {})) {
+        result[key] = generateFromSchema(child, seed, `${path}.${key}`);
+      }
+      return result;
+    }
+    case 'array': {
+      const items = Array.isArray(schema.items) ? schema.items[0] : schema.items;
+      const count = Math.min(Math.max(schema.minItems ?? 1, 1), schema.maxItems ?? Infinity);
+      return Array.from({ length: count }, (_, i) => (items ? generateFromSchema(items, seed, `${path}[${i}]`) : null));
+    }
+    case 'number':
+    case 'integer': {
+      const min = schema.minimum ?? schema.exclusiveMinimum ?? 0;
+      const max = schema.maximum ?? schema.exclusiveMaximum ?? min + 10;
+      const value = min + (max - min) / 2;
+      return type === 'integer' ? Math.round(value) : value;
+    }
+    case 'boolean':
+      return hashString(path, seed) % 2 === 0;
+    case 'string': {
+      if (schema.format === 'date-time') return new Date(Date.UTC(2026, 0, 1)).toISOString();
+      const name = path.split('.').pop()?.replace(/\[\d+\]/g, '') || 'value';
+      let text = `mock ${name} ${hashString(path, seed).toString(16).padStart(8, '0')}`;
+      if (schema.maxLength !== undefined) text = text.slice(0, schema.maxLength);
+      if (schema.minLength !== undefined) text = text.padEnd(schema.minLength, 'x');
+      return text;
+    }
+    case 'null':
+      return null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Language model that never leaves the process
+ */
+export function createMockLanguageModel(modelId: string): MockLanguageModel {
+  const respond = (options: CallOptions) => {
+    const promptText = promptToText(options.prompt);
+    const fixture = findFixture(promptText);
+    const seed = hashString(promptText);
+
+    let text: string;
+    if (options.responseFormat?.type === 'json') {
+      const generated = options.responseFormat.schema
+        ? generateFromSchema(options.responseFormat.schema, seed)
+        : {};
+      text = JSON.stringify(fixture?.object ? mergeFixture(generated, fixture.object) : generated);
+    } else {
+      text = fixture?.text ?? `[mock ${modelId}] ${promptText.replace(/\s+/g, ' ').trim().slice(-120)}`;
+    }
+
+    const inputTokens = estimateTokens(promptText);
+    const outputTokens = estimateTokens(text);
+    return { text, usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens } };
+  };
+
+  return {
+    specificationVersion: 'v2',
+    provider: MOCK_PROVIDER,
+    modelId,
+    supportedUrls: {},
+    async doGenerate(options) {
+      const { text, usage } = respond(options);
+      return {
+        content: [{ type: 'text', text }],
+        finishReason: 'stop',
+        usage,
+        warnings: [],
+      };
+    },
+    async doStream(options) {
+      const { text, usage } = respond(options);
+      const words = text.split(/(?<=\s)/);
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.enqueue({ type: 'stream-start', warnings: [] });
+          controller.enqueue({ type: 'text-start', id: '0' });
+          for (const delta of words) {
+            controller.enqueue({ type: 'text-delta', id: '0', delta });
+          }
+          controller.enqueue({ type: 'text-end', id: '0' });
+          controller.enqueue({ type: 'finish', finishReason: 'stop', usage });
+          controller.close();
+        },
+      });
+      return { stream };
+    },
+  };
+}
+
+/**
+ * Hashed bag-of-words vector, L2-normalised (same text → same vector, shared words → high cosine similarity)
+ */
+export function pseudoEmbedding(text: string, dimensions: number = EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  for (const token of tokens) {
+    const hash = hashString(token);
+    vector[hash % dimensions] += (hash & 0x80000000) ? -1 : 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((v) => v / norm);
+}
+
+export function createMockEmbeddingModel(modelId: string): MockEmbeddingModel {
+  return {
+    specificationVersion: 'v2',
+    provider: MOCK_PROVIDER,
+    modelId,
+    maxEmbeddingsPerCall: undefined,
+    supportsParallelCalls: true,
+    async doEmbed({ values }) {
+      return {
+        embeddings: values.map((value) => pseudoEmbedding(value)),
+        usage: { tokens: values.reduce((sum, value) => sum + estimateTokens(value), 0) },
+      };
+    },
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * Provider-agnostic model routing.
+ *
+ * Resolves any ModelConfig.id (or "provider:model-id" for models not in MODEL_CONFIGS, env overrides only)
+ * to an AI SDK model, builds the candidate list for a use case
+ * (user preference → MODEL_<USE_CASE> env → default → FALLBACK_MODELS),
+ * and retries with the next candidate when a provider errors or rate-limits.
+ * Calls made for a user are checked against their LLM budget and recorded in llm_usage.
+ * With AI_PROVIDER=mock every model resolves to the deterministic local mock.
+ */
+import { openai } from '@ai-sdk/openai';
+import { google } from '@ai-sdk/google';
+import { anthropic } from '@ai-sdk/anthropic';
+import { APICallError, LoadAPIKeyError, RetryError, type LanguageModel, type LanguageModelUsage } from 'ai';
+import {
+  DEFAULT_MODELS,
+  FALLBACK_MODELS,
+  MODEL_CONFIGS,
+  ModelProvider,
+  type ModelUseCase,
+  type UserModelPreferences,
+} from './lm-models';
+import { getSupabaseServiceClient } from '../supabase/server';
+import { getBudgetStatus, recordLanguageModelUsage } from '../usage/accounting';
+import { createMockLanguageModel, isMockProviderEnabled } from './mock-models';
+
+// API key variable read by each AI SDK provider
+const PROVIDER_API_KEY_ENV: Record<ModelProvider, string> = {
+  [ModelProvider.OPENAI]: 'OPENAI_API_KEY',
+  [ModelProvider.GOOGLE]: 'GOOGLE_GENERATIVE_AI_API_KEY',
+  [ModelProvider.ANTHROPIC]: 'ANTHROPIC_API_KEY',
+};
+
+export interface ModelRequirements {
+  vision?: boolean;
+  video?: boolean;
+}
+
+export interface ModelSelectionOptions extends ModelRequirements {
+  userId?: string;
+}
+
+interface ParsedModelId {
+  provider: ModelProvider;
+  id: string;
+}
+
+/**
+ * Split a model reference into provider and provider-specific id
+ */
+export function parseModelId(modelRef: string): ParsedModelId | null {
+  const ref = modelRef.trim();
+  const config = MODEL_CONFIGS[ref];
+  if (config) return { provider: config.provider, id: config.id };
+
+  const [prefix, ...rest] = ref.split(':');
+  const provider = Object.values(ModelProvider).find((p) => p === prefix);
+  if (provider && rest.length > 0) return { provider, id: rest.join(':') };
+  return null;
+}
+
+/**
+ * Map a model reference to the AI SDK provider instance
+ */
+export function resolveLanguageModel(modelRef: string): LanguageModel {
+  const parsed = parseModelId(modelRef);
+  if (!parsed) {
+    throw new Error(`Unknown model "${modelRef}". Use a MODEL_CONFIGS id or "provider:model-id".`);
+  }
+  if (isMockProviderEnabled()) return createMockLanguageModel(modelRef);
+  switch (parsed.provider) {
+    case ModelProvider.OPENAI:
+      return openai(parsed.id);
+    case ModelProvider.GOOGLE:
+      return google(parsed.id);
+    case ModelProvider.ANTHROPIC:
+      return anthropic(parsed.id);
+  }
+}
+
+export function isProviderConfigured(provider: ModelProvider): boolean {
+  return isMockProviderEnabled() || !!process.env[PROVIDER_API_KEY_ENV[provider]];
+}
+
+function meetsRequirements(modelRef: string, requirements: ModelRequirements): boolean {
+  const config = MODEL_CONFIGS[modelRef];
+  if (!config) return true; // custom "provider:id" references (env overrides) are trusted as given
+  if (requirements.vision && !config.supportsVision) return false;
+  if (requirements.video && !config.supportsVideo) return false;
+  return true;
+}
+
+// Preferences are written from the browser, so only listed models that can handle the input are used
+function isAllowedUserPreference(modelRef: unknown, requirements: ModelRequirements): modelRef is string {
+  return typeof modelRef === 'string'
+    && Object.prototype.hasOwnProperty.call(MODEL_CONFIGS, modelRef)
+    && meetsRequirements(modelRef, requirements);
+}
+
+/**
+ * MODEL_<USE_CASE> overrides, e.g. MODEL_FAST_ANALYSIS="gemini-2.5-flash,claude-3-haiku-20240307"
+ */
+export function getEnvModelOverrides(useCase: ModelUseCase): string[] {
+  const raw = process.env[`MODEL_${useCase}`];
+  return raw ? raw.split(',').map((m) => m.trim()).filter(Boolean) : [];
+}
+
+/**
+ * ユーザーごとのモデル設定を取得する（profiles.model_preferences）
+ */
+export async function getUserModelPreferences(userId: string): Promise<UserModelPreferences> {
+  try {
+    const supabase = getSupabaseServiceClient();
+    const { data } = await supabase
+      .from('profiles')
+      .select('model_preferences')
+      .eq('id', userId)
+      .maybeSingle();
+    const prefs = data?.model_preferences;
+    return prefs && typeof prefs === 'object' ? (prefs as UserModelPreferences) : {};
+  } catch (error) {
+    console.warn('⚠️ Failed to load model preferences:', error);
+    return {};
+  }
+}
+
+/**
+ * Ordered, de-duplicated candidate models for a use case
+ * Over budget: "degrade" switches to FASTEST_ANALYSIS models, "pause" throws
+ */
+export async function getModelCandidates(
+  useCase: ModelUseCase,
+  options: ModelSelectionOptions = {}
+): Promise<string[]> {
+  let effectiveUseCase = useCase;
+  if (options.userId) {
+    const budget = await getBudgetStatus(options.userId);
+    if (budget.state === 'paused') {
+      throw new Error(`LLM budget exceeded, analysis paused: ${budget.reason}`);
+    }
+    if (budget.state === 'degraded' && useCase !== 'FASTEST_ANALYSIS') {
+      console.warn(`💸 ${budget.reason}; using FASTEST_ANALYSIS models for ${useCase}`);
+      effectiveUseCase = 'FASTEST_ANALYSIS';
+    }
+  }
+
+  const preference = options.userId && effectiveUseCase === useCase
+    ? (await getUserModelPreferences(options.userId))[useCase]
+    : undefined;
+  const userPreference = isAllowedUserPreference(preference, options) ? preference : undefined;
+  if (preference && !userPreference) {
+    console.warn(`⚠️ Ignoring model preference "${String(preference)}" for ${useCase}`);
+  }
+  const ordered = [
+    ...(userPreference ? [userPreference] : []),
+    ...getEnvModelOverrides(effectiveUseCase),
+    DEFAULT_MODELS[effectiveUseCase],
+    ...FALLBACK_MODELS[effectiveUseCase],
+  ];
+
+  const candidates = Array.from(new Set(ordered)).filter((ref) => {
+    const parsed = parseModelId(ref);
+    if (!parsed) {
+      console.warn(`⚠️ Ignoring unknown model "${ref}" for ${useCase}`);
+      return false;
+    }
+    return isProviderConfigured(parsed.provider) && meetsRequirements(ref, options);
+  });
+
+  if (candidates.length === 0 && effectiveUseCase !== useCase) {
+    // No cheap model can handle this input (e.g. video), keep the normal chain
+    return getModelCandidates(useCase, { ...options, userId: undefined });
+  }
+
+  // Nothing configured: keep the default so the provider error explains what is missing
+  return candidates.length > 0 ? candidates : [DEFAULT_MODELS[useCase]];
+}
+
+/**
+ * Errors that mean "this provider/model is unavailable right now", not "the request is wrong"
+ */
+export function isFallbackError(error: unknown): boolean {
+  if (RetryError.isInstance(error)) return true;
+  if (LoadAPIKeyError.isInstance(error)) return true;
+  if (APICallError.isInstance(error)) {
+    const status = error.statusCode ?? 0;
+    return error.isRetryable || status === 401 || status === 403 || status === 404 || status === 408 || status === 429 || status >= 500;
+  }
+  return false;
+}
+
+function getUsage(result: unknown): LanguageModelUsage | undefined {
+  if (result && typeof result === 'object' && 'usage' in result) {
+    return (result as { usage?: LanguageModelUsage }).usage;
+  }
+  return undefined;
+}
+
+/**
+ * Run a model call for a use case, moving to the next candidate on provider errors
+ * (token usage of generateText/generateObject results is recorded automatically)
+ */
+export async function runWithModelFallback<T>(
+  useCase: ModelUseCase,
+  run: (model: LanguageModel, modelId: string) => Promise<T>,
+  options: ModelSelectionOptions = {}
+): Promise<{ result: T; modelId: string }> {
+  const candidates = await getModelCandidates(useCase, options);
+  let lastError: unknown;
+
+  for (const modelId of candidates) {
+    try {
+      console.log('🤖 Using model:', { useCase, modelId, name: MODEL_CONFIGS[modelId]?.name });
+      const result = await run(resolveLanguageModel(modelId), modelId);
+      await recordLanguageModelUsage(options.userId, useCase, modelId, getUsage(result));
+      return { result, modelId };
+    } catch (error) {
+      lastError = error;
+      if (!isFallbackError(error)) throw error;
+      console.warn(`⚠️ ${modelId} failed for ${useCase}, trying next model:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * First available model for a use case (for streaming calls where mid-stream fallback is not possible)
+ * The caller records usage itself, e.g. from streamText's onFinish
+ */
+export async function selectModel(
+  useCase: ModelUseCase,
+  options: ModelSelectionOptions = {}
+): Promise<{ model: LanguageModel; modelId: string }> {
+  const [modelId] = await getModelCandidates(useCase, options);
+  return { model: resolveLanguageModel(modelId), modelId };
+}
@@ -3,15 +3,17 @@
  */
 
 import { generateObject } from 'ai';
-import { google } from '@ai-sdk/google';
 import { z } from 'zod';
-import { GoogleModel } from './lm-models';
+import { runWithModelFallback } from './model-router';
 import { loadVideoData } from './video-loader';
 import { PRODUCTIVITY_AGENT_PROMPT } from './prompts';
 import { saveUserAdviceRecommendation } from '@/lib/supabase/recommendations';
+import { notifyUser } from '@/lib/notifications/notify';
+import { pickTopRecommendation } from '@/lib/recommendations/lifecycle';
+import { buildAdoptionFeedbackPrompt } from './advice-adoption-evaluator';
 
 // Structured schema for productivity analysis (English)
-const ProductivityAnalysisSchema = z.object({
+export const ProductivityAnalysisSchema = z.object({
   summary: z.object({
     totalTime: z.string().describe('Total analyzed time (minutes)'),
     productivityScore: z.number().min(1).max(100).describe('Productivity score (1-100)'),
@@ -75,77 +77,73 @@ const ProductivityAnalysisSchema = z.object({
   userAdvice: z.string().describe('Simple plain text advice (NOT JSON): one specific actionable improvement within 3 lines. Example: "Press Cmd+Tab to switch between apps instead of using the mouse. This saves 2-3 seconds per switch and keeps your hands on the keyboard."')
 });
 
+export type ProductivityAnalysisResult = z.infer<typeof ProductivityAnalysisSchema>;
+
 /**
  * Save user advice to Supabase recommendations table
+ * (title/category/priority come from the highest-priority structured recommendation)
  */
-export async function saveProductivityRecommendation(userAdvice: string, userId: string): Promise<void> {
+export async function saveProductivityRecommendation(
+  analysis: Pick<ProductivityAnalysisResult, 'userAdvice' | 'recommendations'>,
+  userId: string
+): Promise<string | null> {
   try {
+    const top = pickTopRecommendation(analysis.recommendations ?? []);
     const saveResult = await saveUserAdviceRecommendation({
-      userAdvice,
+      userAdvice: analysis.userAdvice,
       userId,
+      title: top?.title ?? null,
+      category: top?.category ?? null,
+      priority: top?.priority ?? null,
     });
     
     if (saveResult.success) {
       console.log('✅ Recommendation saved to database:', saveResult.id);
-    } else {
-      console.warn('⚠️ Failed to save recommendation:', saveResult.error);
+      return saveResult.id ?? null;
     }
+    console.warn('⚠️ Failed to save recommendation:', saveResult.error);
+    return null;
   } catch (error) {
     console.warn('⚠️ Error saving recommendation:', error);
+    return null;
+  }
+}
+
+/**
+ * System prompt with the user's past advice outcomes appended (closed-loop feedback)
+ */
+async function buildProductivitySystemPrompt(userId?: string): Promise<string> {
+  if (!userId) return PRODUCTIVITY_AGENT_PROMPT;
+  try {
+    return PRODUCTIVITY_AGENT_PROMPT + await buildAdoptionFeedbackPrompt(userId);
+  } catch (error) {
+    console.warn('⚠️ Failed to load advice outcomes, using base prompt:', error);
+    return PRODUCTIVITY_AGENT_PROMPT;
   }
 }
 
 /**
- * Send productivity advice as notification
+ * Send productivity advice as notification to the user's devices
  */
-export async function sendProductivityNotification(userAdvice: string): Promise<void> {
+export async function sendProductivityNotification(userAdvice: string, userId: string): Promise<void> {
   try {
-    await fetch('/api/send-productivity-advice', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        title: '💡 Productivity Advice',
-        body: userAdvice
-      })
+    const result = await notifyUser(userId, 'advice', {
+      title: '💡 Productivity Advice',
+      body: userAdvice
     });
-    console.log('📱 Productivity advice notification sent');
+    console.log(`📱 Productivity advice notification ${result.status}`);
   } catch (error) {
     console.warn('⚠️ Failed to send notification:', error);
     // Notification errors do not affect analysis results
   }
 }
 
-// Session data (from SessionContext)
-export interface SessionRecord {
-  id: string;
-  startedAt: number;
-  stoppedAt?: number;
-  log: AgentLogItem[];
-  tips: AgentTip[];
-  videoPath?: string; // Video file path (local or Supabase)
-  videoBase64?: string; // Base64 encoded video
-}
-
-export interface AgentLogItem {
-  id: string;
-  ts: number;
-  level: 'info' | 'warn' | 'error';
-  message: string;
-}
-
-export interface AgentTip {
-  id: string;
-  ts: number;
-  title: string;
-  detail?: string;
-}
-
 // Analysis result interface
 export interface ProductivityAnalysis {
   success: boolean;
-  analysis: Record<string, unknown> | null; // JSON analysis result
+  analysis: ProductivityAnalysisResult | null; // Structured analysis result
+  recommendationId?: string | null; // recommendations row created from userAdvice
+  modelId?: string; // Model that produced the analysis (stored with each productivity_analyses row)
   error?: string;
 }
 
@@ -185,9 +183,9 @@ export async function analyzeVideoBase64(videoBase64: string, userId?: string):
     console.log('📊 Video size (estimated):', sizeInMB, 'MB');
     console.log('🤖 Starting video analysis');
     
-    const result = await generateObject({
-      model: google(GoogleModel.GEMINI_2_5_FLASH),
-      system: PRODUCTIVITY_AGENT_PROMPT,
+    const { result, modelId } = await runWithModelFallback('VIDEO_ANALYSIS', async (model) => generateObject({
+      model,
+      system: await buildProductivitySystemPrompt(userId),
       messages: [
         {
           role: 'user',
@@ -205,7 +203,7 @@ export async function analyzeVideoBase64(videoBase64: string, userId?: string):
       ],
       schema: ProductivityAnalysisSchema,
       temperature: 0.3,
-    });
+    }), { userId, video: true });
     
     console.log('📝 Analysis complete');
     
@@ -213,21 +211,23 @@ export async function analyzeVideoBase64(videoBase64: string, userId?: string):
     const analysis = result.object;
     
     // Save and notify user advice when analysis is complete
+    let recommendationId: string | null = null;
     if (analysis && analysis.userAdvice) {
       // First save recommendation to Supabase
       if (userId) {
-        await saveProductivityRecommendation(analysis.userAdvice, userId);
+        recommendationId = await saveProductivityRecommendation(analysis, userId);
+        // Then send notification
+        await sendProductivityNotification(analysis.userAdvice, userId);
       } else {
-        console.warn('⚠️ User ID unknown, skipping recommendation save');
+        console.warn('⚠️ User ID unknown, skipping recommendation save and notification');
       }
-      
-      // Then send notification
-      await sendProductivityNotification(analysis.userAdvice);
     }
     
     return {
       success: true,
       analysis,
+      recommendationId,
+      modelId,
     };
 
   } catch (error) {
@@ -248,9 +248,9 @@ export async function analyzeFrames(frames: string[], userId?: string): Promise<
   try {
     console.log(`🖼️ Analyzing ${frames.length} frames`);
     
-    const result = await generateObject({
-      model: google(GoogleModel.GEMINI_2_5_FLASH),
-      system: PRODUCTIVITY_AGENT_PROMPT,
+    const { result, modelId } = await runWithModelFallback('VIDEO_ANALYSIS', async (model) => generateObject({
+      model,
+      system: await buildProductivitySystemPrompt(userId),
       messages: [
         {
           role: 'user',
@@ -268,7 +268,7 @@ export async function analyzeFrames(frames: string[], userId?: string): Promise<
       ],
       schema: ProductivityAnalysisSchema,
       temperature: 0.3,
-    });
+    }), { userId, vision: true });
     
     console.log('📝 Frame analysis complete');
     
@@ -276,21 +276,23 @@ export async function analyzeFrames(frames: string[], userId?: string): Promise<
     const analysis = result.object;
     
     // Save and notify user advice when analysis is complete
+    let recommendationId: string | null = null;
     if (analysis && analysis.userAdvice) {
       // First save recommendation to Supabase
       if (userId) {
-        await saveProductivityRecommendation(analysis.userAdvice, userId);
+        recommendationId = await saveProductivityRecommendation(analysis, userId);
+        // Then send notification
+        await sendProductivityNotification(analysis.userAdvice, userId);
       } else {
-        console.warn('⚠️ User ID unknown, skipping recommendation save');
+        console.warn('⚠️ User ID unknown, skipping recommendation save and notification');
       }
-      
-      // Then send notification
-      await sendProductivityNotification(analysis.userAdvice);
     }
     
     return {
       success: true,
       analysis,
+      recommendationId,
+      modelId,
     };
 
   } catch (error) {
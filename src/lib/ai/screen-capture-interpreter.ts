@@ -1,29 +1,18 @@
 import { generateObject } from 'ai';
-import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
-import { getDefaultModel, getModelConfig } from './lm-models';
+import { runWithModelFallback } from './model-router';
 import { getSupabaseServiceClient } from '../supabase/server';
 import { generateActionLogEmbedding } from './embedding';
-import { Database } from '../supabase/database.types';
+import { Database, Json } from '../supabase/database.types';
+import { notifyUser } from '../notifications/notify';
+import { evaluateAlertRules } from '../alerts/evaluate';
 
 /**
- * Send a server push notification with absolute URL when on server
+ * Push the screen summary to the user's devices (subject to notification preferences)
  */
-async function sendProductivityNotification(body: string, title = '💡 Screen Summary'): Promise<void> {
+async function sendProductivityNotification(userId: string, body: string, title = '💡 Screen Summary'): Promise<void> {
   try {
-    const isBrowser = typeof window !== 'undefined';
-    const base = isBrowser
-      ? ''
-      : (process.env.NOTIFICATION_BASE_URL
-          || process.env.NEXT_PUBLIC_APP_URL
-          || `http://localhost:${process.env.PORT || 3000}`);
-    const url = `${base}/api/send-productivity-advice`;
-
-    await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ title, body })
-    });
+    await notifyUser(userId, 'screen_summary', { title, body });
   } catch (err) {
     console.warn('Failed to send productivity notification:', err);
   }
@@ -38,30 +27,45 @@ export interface AnalysisInput {
   actionLogId?: string; // Action log ID to associate with analysis
 }
 
-// AI analysis result - サマリのみに特化
+// Activity categories a capture can be classified into
+export const ACTIVITY_CATEGORIES = ['coding', 'meeting', 'email', 'browsing', 'docs', 'chat', 'design', 'other'] as const;
+export type ActivityCategory = typeof ACTIVITY_CATEGORIES[number];
+
+// Input modality hints that can be inferred from a still frame
+export const INPUT_MODALITIES = ['typing', 'reading', 'scrolling', 'mouse', 'watching', 'idle'] as const;
+export type InputModality = typeof INPUT_MODALITIES[number];
+
+// Zod schema for the structured screen context (stored in action_logs.details)
+// NOTE: OpenAI structured output requires every key, so unknown values are nullable instead of optional
+const ScreenContextSchema = z.object({
+  application: z.string().describe("Foreground application name (e.g. 'VS Code', 'Google Chrome', 'Slack', 'Zoom')"),
+  windowTitle: z.string().nullable().describe("Window or document title if visible, otherwise null"),
+  url: z.string().nullable().describe("URL shown in the address bar if visible, otherwise null"),
+  repository: z.string().nullable().describe("Code repository (e.g. 'owner/repo') if visible, otherwise null"),
+  activityCategory: z.enum(ACTIVITY_CATEGORIES).describe("Category of the primary activity"),
+  inputModality: z.array(z.enum(INPUT_MODALITIES)).describe("Hints about how the user is interacting (cursor position, text caret, scroll position, video playback)"),
+  confidence: z.number().min(0).max(1).describe("Confidence in this classification (0-1)"),
+});
+
+export type ScreenContext = z.infer<typeof ScreenContextSchema>;
+
+// Zod schema for structured output - summary + screen context
+const AnalysisSchema = ScreenContextSchema.extend({
+  description: z.string().describe("Concise summary of what is displayed on the screen")
+});
+
+// AI analysis result
 export interface AnalysisResult {
   success: boolean;
   timestamp: number;
   analysis?: {
     description: string;
+    context?: ScreenContext; // Structured screen understanding (absent when no image was provided)
   };
   error?: string;
   actionLogId?: string; // ID of the created or updated action log record
 }
 
-// Zod schema for structured output - サマリのみ
-const AnalysisSchema = z.object({
-  description: z.string().describe("Concise summary of what is displayed on the screen")
-});
-
-
-// Check if API key is configured
-function checkAPIKey(): void {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY is not configured');
-  }
-}
 
 // Encode image to Base64 format
 function encodeImageToBase64(imageData: Buffer): string {
@@ -71,49 +75,113 @@ function encodeImageToBase64(imageData: Buffer): string {
 // Type definition for action_logs table
 type ActionLogInsert = Database['public']['Tables']['action_logs']['Insert'];
 
+/**
+ * Normalize a value into a tag (lowercase, hyphenated)
+ */
+function toTag(value: string): string {
+  return value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9./_-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Build tags from the structured screen context
+ * category, application, domain and repository instead of words from the summary
+ */
+export function buildScreenContextTags(context: ScreenContext): string[] {
+  const candidates: string[] = ['screenshot', context.activityCategory, context.application];
+
+  if (context.url) {
+    try {
+      candidates.push(new URL(context.url).hostname.replace(/^www\./, ''));
+    } catch {
+      // Not a parseable URL (partial address bar text), skip the domain tag
+    }
+  }
+  if (context.repository) {
+    candidates.push(context.repository);
+  }
+
+  const tags = candidates.map(toTag).filter((tag) => tag.length > 1);
+  return Array.from(new Set(tags)).slice(0, 10);
+}
+
+/**
+ * Convert the screen context into the action_logs.details shape
+ */
+export function screenContextToDetails(context: ScreenContext): Record<string, unknown> {
+  return {
+    capture_type: 'screen_summary',
+    application: context.application,
+    window_title: context.windowTitle,
+    url: context.url,
+    repository: context.repository,
+    activity_category: context.activityCategory,
+    input_modality: context.inputModality,
+    confidence: context.confidence,
+  };
+}
+
 /**
  * Save screen capture summary to action_logs table
- * サマリのみをsummary fieldに保存
+ * サマリをsummary、構造化コンテキストをdetailsに保存
  */
 async function saveAnalysisResultToDatabase(
-  analysisData: { description: string },
+  analysisData: { description: string; context?: ScreenContext },
   userId: string,
   actionLogId: string,
   timestamp: number
 ): Promise<string> {
   try {
     const supabase = getSupabaseServiceClient();
-    
-    // サマリから簡単なタグを生成
-    const words = analysisData.description.toLowerCase().split(/\s+/);
-    const tags = words
-      .filter(word => word.length > 3)
-      .slice(0, 5); // 最大5個のタグ
+
+    // Keep fields written at upload time (e.g. storage_path) when merging the analysis
+    const { data: existing } = await supabase
+      .from('action_logs')
+      .select('details, ended_at')
+      .eq('id', actionLogId)
+      .maybeSingle();
+    const existingDetails = (existing?.details && typeof existing.details === 'object' && !Array.isArray(existing.details))
+      ? existing.details as Record<string, unknown>
+      : {};
+
+    const contextDetails = analysisData.context
+      ? screenContextToDetails(analysisData.context)
+      : { capture_type: 'screen_summary' };
+    const details = { ...existingDetails, ...contextDetails };
+    const tags = analysisData.context ? buildScreenContextTags(analysisData.context) : ['screenshot'];
+    // ended_at is when the screen was last seen (capture time, extended by repeated frames), never the
+    // time the analysis finished, which for queued captures can be hours later
+    const capturedAt = new Date(timestamp);
+    const lastSeenAt = existing?.ended_at && new Date(existing.ended_at) > capturedAt ? new Date(existing.ended_at) : capturedAt;
 
     // 埋め込みを生成（summary + details + tags）
     let embedding: string | null = null;
     try {
-      const detailsForEmbedding = { capture_type: 'screen_summary' } as Record<string, unknown>;
       embedding = await generateActionLogEmbedding(
         analysisData.description,
-        detailsForEmbedding,
+        contextDetails,
         tags,
+        userId,
       );
     } catch (embedErr) {
       console.warn('Embedding generation failed, proceeding without it:', embedErr);
     }
 
-    // Action log data structure: サマリのみ、detailsは空白
     const actionLogData: ActionLogInsert = {
       id: actionLogId,
       user_id: userId,
       type: 'screen_capture_analyze',
       summary: analysisData.description,
-      details: null,
+      details: details as Json,
       tags: tags.length > 0 ? tags : null,
-      started_at: new Date(timestamp).toISOString(),
-      ended_at: new Date().toISOString(),
+      started_at: capturedAt.toISOString(),
+      ended_at: lastSeenAt.toISOString(),
       embedding: embedding ?? null,
+      // created_at stays the insert time from before the analysis; a window summarized since then is redone
+      generated_at: new Date().toISOString(),
     };
 
     const { data, error } = await supabase
@@ -156,8 +224,6 @@ export async function analyzeScreenCapture(input: AnalysisInput): Promise<Analys
       };
     }
 
-    checkAPIKey();
-    
     // Prepare image data
     let imageUrl: string;
     if (input.image instanceof Buffer) {
@@ -166,27 +232,26 @@ export async function analyzeScreenCapture(input: AnalysisInput): Promise<Analys
       imageUrl = input.image as string; // Use URL directly if provided
     }
 
-    // Get the default vision model for analysis (use FAST_ANALYSIS for better response)
-    const modelId = getDefaultModel('FAST_ANALYSIS');
-    const modelConfig = getModelConfig(modelId);
-    console.log('🤖 Using model:', { modelId, name: modelConfig?.name });
-
-    // Use generateObject for structured output
-    const result = await generateObject({
-      model: openai(modelId),
+    // Use generateObject for structured output (FAST_ANALYSIS, falling back to other vision models)
+    const { result } = await runWithModelFallback('FAST_ANALYSIS', (model) => generateObject({
+      model,
       messages: [
         {
           role: "user",
           content: [
             {
               type: "text",
-              text: `Create a concise summary of what is currently displayed on this screen.
+              text: `Describe what is currently displayed on this screen.
 
 Focus on:
 - Main application or content visible
 - Primary activity or task being performed
 - Key elements or information shown
 
+Also identify the foreground application, the window or document title, the URL or repository if visible,
+the activity category, hints about how the user is interacting, and your confidence in this classification.
+Use null for anything that is not visible rather than guessing.
+
 Provide only a brief, factual description in English without analysis or suggestions.`
             },
             {
@@ -198,18 +263,21 @@ Provide only a brief, factual description in English without analysis or suggest
       ],
       schema: AnalysisSchema,
       temperature: 0.7,
-    });
+    }), { userId: input.userId, vision: true });
 
     console.log('🔍 AI response:', {
       object: result.object,
       usage: result.usage
     });
 
+    const { description, ...context } = result.object;
+
     return {
       success: true,
       timestamp,
       analysis: {
-        description: result.object.description || 'Screen summary completed'
+        description: description || 'Screen summary completed',
+        context,
       }
     };
 
@@ -257,8 +325,10 @@ export async function analyzeAndSaveScreenCapture(input: AnalysisInput): Promise
         );
         // Send server push with the summary after successful analysis
         if (analysisResult.analysis?.description) {
-          await sendProductivityNotification(analysisResult.analysis.description);
+          await sendProductivityNotification(input.userId, analysisResult.analysis.description);
         }
+        // Rules see the application / category just saved on the row
+        await evaluateAlertRules(input.userId, new Date(timestamp));
         
         return {
           ...analysisResult,
@@ -268,7 +338,7 @@ export async function analyzeAndSaveScreenCapture(input: AnalysisInput): Promise
         console.error('❌ Database save failed, returning analysis without saving:', dbError);
         // Still attempt to send push to inform user of analysis completion
         if (analysisResult.analysis?.description) {
-          await sendProductivityNotification(analysisResult.analysis.description);
+          await sendProductivityNotification(input.userId, analysisResult.analysis.description);
         }
         // Return analysis result even if database save fails
         return {
@@ -278,9 +348,9 @@ export async function analyzeAndSaveScreenCapture(input: AnalysisInput): Promise
       }
     } else {
       console.log('⚠️ Missing userId or actionLogId, skipping database save');
-      // Still send push if we have a summary
-      if (analysisResult.analysis?.description) {
-        await sendProductivityNotification(analysisResult.analysis.description);
+      // Still send push if we know whose devices to target
+      if (input.userId && analysisResult.analysis?.description) {
+        await sendProductivityNotification(input.userId, analysisResult.analysis.description);
       }
       return analysisResult;
     }
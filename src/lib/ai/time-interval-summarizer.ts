@@ -1,18 +1,29 @@
 import { generateObject } from 'ai';
-import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
-import { getDefaultModel, getModelConfig } from './lm-models';
+import { runWithModelFallback } from './model-router';
 import { getSupabaseServiceClient } from '../supabase/server';
-import { Database } from '../supabase/database.types';
+import { generateActionLogEmbedding } from './embedding';
+import { Database, Json } from '../supabase/database.types';
+import { getRepeatCount } from '../capture/frame-hash';
+import { emitWebhookEvent } from '../webhooks/deliver';
+import { summaryEvent } from '../webhooks/events';
 
 // 時間間隔タイプの定義
-export type TimeInterval = '10min' | '1hour' | '1day';
+export const TIME_INTERVALS = ['10min', '1hour', '1day', '1week'] as const;
+export type TimeInterval = typeof TIME_INTERVALS[number];
 
 // サマリー集約の入力パラメータ
 export interface IntervalSummaryInput {
   userId: string;
   interval: TimeInterval;
-  endTime?: Date; // 終了時刻（デフォルトは現在時刻）
+  endTime?: Date; // この時刻以前に完了した直近のウィンドウを対象にする（デフォルトは現在時刻）
+  overwrite?: boolean; // 既存サマリーがある場合に再生成する
+}
+
+// 集計ウィンドウ（境界に揃えた [start, end)）
+export interface IntervalWindow {
+  start: Date;
+  end: Date;
 }
 
 // サマリー集約の結果
@@ -25,7 +36,9 @@ export interface IntervalSummaryResult {
   };
   summary?: string; // シンプルなサマリー文字列のみ
   sourceCount: number; // 集約元のサマリー数
+  sourceType?: string; // 集約元のaction_logsタイプ
   actionLogId?: string;
+  skipped?: boolean; // 既存サマリーがあったため生成しなかった
   error?: string;
 }
 
@@ -37,32 +50,69 @@ const IntervalSummarySchema = z.object({
 // Type definition for action_logs table
 type ActionLogInsert = Database['public']['Tables']['action_logs']['Insert'];
 
+// 各間隔の長さ（ミリ秒）
+const INTERVAL_MS: Record<TimeInterval, number> = {
+  '10min': 10 * 60 * 1000,
+  '1hour': 60 * 60 * 1000,
+  '1day': 24 * 60 * 60 * 1000,
+  '1week': 7 * 24 * 60 * 60 * 1000,
+};
+
 /**
- * 時間間隔に基づいて開始時刻を計算
+ * 時刻をウィンドウ境界に切り捨てる（UTC基準）
+ * 10min: :00, :10, :20... / 1hour: 毎時0分 / 1day: 0:00 / 1week: 月曜0:00
  */
-function calculateStartTime(endTime: Date, interval: TimeInterval): Date {
-  const start = new Date(endTime);
-  
+export function alignToWindowStart(time: Date, interval: TimeInterval): Date {
+  const aligned = new Date(time);
+  aligned.setUTCSeconds(0, 0);
+
   switch (interval) {
     case '10min':
-      start.setMinutes(start.getMinutes() - 10);
+      aligned.setUTCMinutes(aligned.getUTCMinutes() - (aligned.getUTCMinutes() % 10));
       break;
     case '1hour':
-      start.setHours(start.getHours() - 1);
+      aligned.setUTCMinutes(0);
       break;
     case '1day':
-      start.setDate(start.getDate() - 1);
+      aligned.setUTCHours(0, 0);
+      break;
+    case '1week':
+      aligned.setUTCHours(0, 0);
+      // getUTCDay: 0 = Sunday, so Monday-based offset is (day + 6) % 7
+      aligned.setUTCDate(aligned.getUTCDate() - ((aligned.getUTCDay() + 6) % 7));
       break;
   }
-  
-  return start;
+
+  return aligned;
+}
+
+/**
+ * 指定時刻以前に完了した直近のウィンドウを取得
+ */
+export function getCompletedWindow(endTime: Date, interval: TimeInterval): IntervalWindow {
+  const end = alignToWindowStart(endTime, interval);
+  return { start: new Date(end.getTime() - INTERVAL_MS[interval]), end };
+}
+
+/**
+ * 範囲内の完了済みウィンドウを列挙
+ */
+export function listWindows(rangeStart: Date, rangeEnd: Date, interval: TimeInterval): IntervalWindow[] {
+  const windows: IntervalWindow[] = [];
+  let start = alignToWindowStart(rangeStart, interval);
+  while (start.getTime() + INTERVAL_MS[interval] <= rangeEnd.getTime()) {
+    const end = new Date(start.getTime() + INTERVAL_MS[interval]);
+    windows.push({ start, end });
+    start = end;
+  }
+  return windows;
 }
 
 /**
  * データベースタイプを時間間隔に基づいて生成
  * summary_XXタイプを使用（データベース制約に合わせる）
  */
-function getActionLogType(interval: TimeInterval): string {
+export function getActionLogType(interval: TimeInterval): string {
   switch (interval) {
     case '10min':
       return 'summary_10min';
@@ -70,26 +120,64 @@ function getActionLogType(interval: TimeInterval): string {
       return 'summary_1hour';
     case '1day':
       return 'summary_24hour';
+    case '1week':
+      return 'summary_1week';
   }
 }
 
 /**
- * 指定時間範囲のスクリーンキャプチャサマリーを取得
+ * 集約元のタイプを取得（1つ下の階層）
+ * 10min ← screen_capture_analyze, 1hour ← 10min, 1day ← 1hour, 1week ← 1day
  */
-async function getScreenCaptureSummaries(
+export function getSourceActionLogType(interval: TimeInterval): string {
+  switch (interval) {
+    case '10min':
+      return 'screen_capture_analyze';
+    case '1hour':
+      return getActionLogType('10min');
+    case '1day':
+      return getActionLogType('1hour');
+    case '1week':
+      return getActionLogType('1day');
+  }
+}
+
+/**
+ * 集約元の説明（プロンプト用）
+ */
+function describeSourceType(interval: TimeInterval): string {
+  switch (interval) {
+    case '10min':
+      return 'screen capture summaries';
+    case '1hour':
+      return '10-minute activity summaries';
+    case '1day':
+      return 'hourly activity summaries';
+    case '1week':
+      return 'daily activity summaries';
+  }
+}
+
+/**
+ * 指定時間範囲の集約元サマリーを取得
+ * started_atが [startTime, endTime) に含まれる行のみ（境界の重複を避ける）
+ */
+async function getSourceSummaries(
   userId: string,
+  sourceType: string,
   startTime: Date,
   endTime: Date
-): Promise<Array<{ id: string; summary: string; started_at: string }>> {
+): Promise<Array<{ id: string; summary: string; started_at: string; ended_at: string | null; details: Json | null }>> {
   const supabase = getSupabaseServiceClient();
   
+  // 開始がウィンドウより前でも、重複フレームで延長されてウィンドウ内まで続いている行は含める
   const { data, error } = await supabase
     .from('action_logs')
-    .select('id, summary, started_at')
+    .select('id, summary, started_at, ended_at, details')
     .eq('user_id', userId)
-    .eq('type', 'screen_capture_analyze')
-    .gte('started_at', startTime.toISOString())
-    .lte('started_at', endTime.toISOString())
+    .eq('type', sourceType)
+    .or(`started_at.gte.${startTime.toISOString()},ended_at.gt.${startTime.toISOString()}`)
+    .lt('started_at', endTime.toISOString())
     .not('summary', 'is', null)
     .order('started_at', { ascending: true });
 
@@ -101,15 +189,43 @@ async function getScreenCaptureSummaries(
   return data || [];
 }
 
+/**
+ * 同じユーザー・タイプ・ウィンドウの既存サマリーを取得
+ */
+async function findExistingSummary(
+  userId: string,
+  interval: TimeInterval,
+  window: IntervalWindow
+): Promise<{ id: string; summary: string | null } | null> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('action_logs')
+    .select('id, summary')
+    .eq('user_id', userId)
+    .eq('type', getActionLogType(interval))
+    .eq('started_at', window.start.toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Failed to look up existing summary:', error);
+    throw new Error(`Database query failed: ${error.message}`);
+  }
+
+  return data;
+}
+
 /**
  * 時間間隔サマリーをデータベースに保存
+ * (user_id, type, started_at) で一意。既存行がある場合は更新する
  */
 async function saveIntervalSummary(
   summaryDescription: string,
   userId: string,
   interval: TimeInterval,
-  timeRange: { start: Date; end: Date },
-  sourceLogIds: string[]
+  timeRange: IntervalWindow,
+  sourceLogIds: string[],
+  existingId?: string
 ): Promise<string> {
   const supabase = getSupabaseServiceClient();
   
@@ -123,29 +239,90 @@ async function saveIntervalSummary(
     .filter(item => item.length > 2)
     .slice(0, 10);
 
+  const details = {
+    interval,
+    source_type: getSourceActionLogType(interval),
+    source_count: sourceLogIds.length,
+  };
+
+  // 埋め込みを生成（summary + details + tags）
+  let embedding: string | null = null;
+  try {
+    embedding = await generateActionLogEmbedding(summaryDescription, details, tags, userId);
+  } catch (embedErr) {
+    console.warn('Embedding generation failed, proceeding without it:', embedErr);
+  }
+
   const actionLogData: ActionLogInsert = {
     user_id: userId,
     type: getActionLogType(interval),
     summary: summaryDescription,
-    details: null, // nullに設定
+    details: details as Json,
     source_log_ids: sourceLogIds,
     tags: tags.length > 0 ? tags : null,
     started_at: timeRange.start.toISOString(),
-    ended_at: timeRange.end.toISOString()
+    ended_at: timeRange.end.toISOString(),
+    embedding,
+    // 作り直した場合も更新する（findMissingWindowsがこれより後に生成された集約元を検出する）
+    generated_at: new Date().toISOString(),
   };
 
-  const { data, error } = await supabase
-    .from('action_logs')
-    .insert(actionLogData)
-    .select('id')
-    .single();
+  const { data, error } = existingId
+    ? await supabase
+        .from('action_logs')
+        .update(actionLogData)
+        .eq('id', existingId)
+        .select('id')
+        .single()
+    : await supabase
+        .from('action_logs')
+        .insert(actionLogData)
+        .select('id')
+        .single();
 
   if (error) {
+    // 並行実行で先に作成された場合（一意制約違反）は既存行を返す
+    if (error.code === '23505') {
+      const existing = await findExistingSummary(userId, interval, timeRange);
+      if (existing) {
+        console.log(`ℹ️ ${interval} summary already exists with ID:`, existing.id);
+        return existing.id;
+      }
+    }
     console.error('❌ Failed to save interval summary:', error);
     throw new Error(`Database save failed: ${error.message}`);
   }
 
   console.log(`✅ ${interval} summary saved with ID:`, data.id);
+
+  // 集約元の行から親サマリーへ辿れるようにparent_idを設定
+  // セッション中のキャプチャはparent_idがセッションを指すので残す（source_log_idsからは辿れる）
+  if (sourceLogIds.length > 0) {
+    const { error: linkError } = await supabase
+      .from('action_logs')
+      .update({ parent_id: data.id })
+      .in('id', sourceLogIds)
+      .is('details->>session_id', null);
+
+    if (linkError) {
+      console.warn(`⚠️ Failed to link source logs to ${interval} summary:`, linkError);
+    }
+  }
+
+  await emitWebhookEvent(
+    userId,
+    summaryEvent(interval),
+    `${interval} summary (${timeRange.start.toISOString()} – ${timeRange.end.toISOString()}): ${summaryDescription}`,
+    {
+      action_log_id: data.id,
+      interval,
+      summary: summaryDescription,
+      started_at: timeRange.start.toISOString(),
+      ended_at: timeRange.end.toISOString(),
+      source_count: sourceLogIds.length,
+    }
+  );
+
   return data.id;
 }
 
@@ -153,8 +330,7 @@ async function saveIntervalSummary(
  * 時間間隔サマリーを生成
  */
 export async function generateIntervalSummary(input: IntervalSummaryInput): Promise<IntervalSummaryResult> {
-  const endTime = input.endTime || new Date();
-  const startTime = calculateStartTime(endTime, input.interval);
+  const { start: startTime, end: endTime } = getCompletedWindow(input.endTime || new Date(), input.interval);
   
   console.log(`🔬 Generating ${input.interval} summary:`, {
     userId: input.userId,
@@ -162,8 +338,24 @@ export async function generateIntervalSummary(input: IntervalSummaryInput): Prom
   });
 
   try {
-    // 指定時間範囲のサマリーを取得
-    const sourceSummaries = await getScreenCaptureSummaries(input.userId, startTime, endTime);
+    // 既に同じウィンドウのサマリーがあれば再生成しない（冪等）
+    const existing = await findExistingSummary(input.userId, input.interval, { start: startTime, end: endTime });
+    if (existing && !input.overwrite) {
+      console.log(`⏭️ ${input.interval} summary already exists:`, existing.id);
+      return {
+        success: true,
+        interval: input.interval,
+        timeRange: { start: startTime, end: endTime },
+        summary: existing.summary ?? undefined,
+        sourceCount: 0,
+        actionLogId: existing.id,
+        skipped: true
+      };
+    }
+
+    // 1つ下の階層のサマリーを取得
+    const sourceType = getSourceActionLogType(input.interval);
+    const sourceSummaries = await getSourceSummaries(input.userId, sourceType, startTime, endTime);
     
     if (sourceSummaries.length === 0) {
       return {
@@ -171,39 +363,40 @@ export async function generateIntervalSummary(input: IntervalSummaryInput): Prom
         interval: input.interval,
         timeRange: { start: startTime, end: endTime },
         sourceCount: 0,
-        error: 'No screen capture summaries found for the specified time range'
+        sourceType,
+        error: `No ${sourceType} rows found for the specified time range`
       };
     }
 
     console.log(`📊 Found ${sourceSummaries.length} summaries to aggregate`);
 
-    // サマリーテキストを結合
+    // サマリーテキストを結合（日・週単位では日付も表示）
+    const includeDate = input.interval === '1day' || input.interval === '1week';
     const combinedSummaries = sourceSummaries
       .map((item) => {
-        const time = new Date(item.started_at).toLocaleTimeString('ja-JP', { 
+        const time = new Date(item.started_at).toLocaleString('ja-JP', {
+          ...(includeDate ? { month: '2-digit', day: '2-digit' } : {}),
           hour: '2-digit', 
           minute: '2-digit' 
         });
-        return `[${time}] ${item.summary}`;
+        const repeats = getRepeatCount(item.details);
+        return repeats > 1
+          ? `[${time}] ${item.summary} (screen unchanged for ${repeats} captures)`
+          : `[${time}] ${item.summary}`;
       })
       .join('\n');
 
-    // AI モデルの設定 (GPT-5 mini使用)
-    const modelId = getDefaultModel('FAST_ANALYSIS');
-    const modelConfig = getModelConfig(modelId);
-    console.log('🤖 Using model:', { modelId, name: modelConfig?.name });
-
-    // AI を使用して集約サマリーを生成
-    const result = await generateObject({
-      model: openai(modelId),
+    // AI を使用して集約サマリーを生成 (FAST_ANALYSIS、失敗時は次のモデルへ)
+    const { result } = await runWithModelFallback('FAST_ANALYSIS', (model) => generateObject({
+      model,
       messages: [
         {
           role: "user",
-          content: `Analyze the following screen capture summaries from the past ${input.interval} and create an aggregated summary.
+          content: `Analyze the following ${describeSourceType(input.interval)} from the past ${input.interval} and create an aggregated summary.
 
 Time range: ${startTime.toLocaleString('ja-JP')} - ${endTime.toLocaleString('ja-JP')}
 
-Screen capture summaries:
+Source summaries:
 ${combinedSummaries}
 
 Please provide a comprehensive description of the overall activities during this time period.
@@ -213,7 +406,7 @@ Respond in English with a clear, concise summary.`
       ],
       schema: IntervalSummarySchema,
       temperature: 0.3,
-    });
+    }), { userId: input.userId });
 
     console.log('🔍 AI response:', {
       object: result.object,
@@ -227,7 +420,8 @@ Respond in English with a clear, concise summary.`
       input.userId,
       input.interval,
       { start: startTime, end: endTime },
-      sourceLogIds
+      sourceLogIds,
+      existing?.id
     );
 
     return {
@@ -236,6 +430,7 @@ Respond in English with a clear, concise summary.`
       timeRange: { start: startTime, end: endTime },
       summary: result.object.description,
       sourceCount: sourceSummaries.length,
+      sourceType,
       actionLogId
     };
 
@@ -283,3 +478,106 @@ export async function generate1DaySummary(userId: string, endTime?: Date): Promi
     endTime
   });
 }
+
+/**
+ * 1週間間隔のサマリーを生成
+ */
+export async function generate1WeekSummary(userId: string, endTime?: Date): Promise<IntervalSummaryResult> {
+  return generateIntervalSummary({
+    userId,
+    interval: '1week',
+    endTime
+  });
+}
+
+/**
+ * サマリーが欠けている、または古くなったウィンドウを検出
+ * 集約元の行が存在するのにサマリーがないウィンドウと、サマリーの生成後に集約元が解析・更新されたウィンドウを返す
+ * 解析待ち（summaryがnull）の行は数えず、解析が終わってgenerated_atが付いた時点で対象になる
+ */
+export async function findMissingWindows(
+  userId: string,
+  interval: TimeInterval,
+  rangeStart: Date,
+  rangeEnd: Date
+): Promise<IntervalWindow[]> {
+  const windows = listWindows(rangeStart, rangeEnd, interval);
+  if (windows.length === 0) return [];
+
+  const supabase = getSupabaseServiceClient();
+  const from = windows[0].start.toISOString();
+  const to = windows[windows.length - 1].end.toISOString();
+
+  const [summaryRes, sourceRes] = await Promise.all([
+    supabase
+      .from('action_logs')
+      .select('started_at, created_at, generated_at')
+      .eq('user_id', userId)
+      .eq('type', getActionLogType(interval))
+      .gte('started_at', from)
+      .lt('started_at', to),
+    supabase
+      .from('action_logs')
+      .select('started_at, created_at, generated_at')
+      .eq('user_id', userId)
+      .eq('type', getSourceActionLogType(interval))
+      .gte('started_at', from)
+      .lt('started_at', to)
+      .not('summary', 'is', null),
+  ]);
+
+  if (summaryRes.error) throw new Error(`Database query failed: ${summaryRes.error.message}`);
+  if (sourceRes.error) throw new Error(`Database query failed: ${sourceRes.error.message}`);
+
+  // ウィンドウごとの最新のgenerated_at（移行前の行はcreated_at、どちらもない行は0扱い）
+  type GeneratedRow = { started_at: string; created_at: string | null; generated_at: string | null };
+  const latestByWindow = (rows: GeneratedRow[]) => {
+    const latest = new Map<number, number>();
+    for (const row of rows) {
+      const key = alignToWindowStart(new Date(row.started_at), interval).getTime();
+      const generatedAt = row.generated_at ?? row.created_at;
+      latest.set(key, Math.max(latest.get(key) ?? 0, generatedAt ? new Date(generatedAt).getTime() : 0));
+    }
+    return latest;
+  };
+  const summarizedAt = latestByWindow(summaryRes.data ?? []);
+  const sourcesGeneratedAt = latestByWindow(sourceRes.data ?? []);
+
+  return windows.filter((w) => {
+    const sourceGeneratedAt = sourcesGeneratedAt.get(w.start.getTime());
+    if (sourceGeneratedAt === undefined) return false;
+    const summaryGeneratedAt = summarizedAt.get(w.start.getTime());
+    return summaryGeneratedAt === undefined || sourceGeneratedAt > summaryGeneratedAt;
+  });
+}
+
+// バックフィルの入力パラメータ
+export interface BackfillInput {
+  userId: string;
+  interval: TimeInterval;
+  rangeStart: Date;
+  rangeEnd: Date;
+  overwrite?: boolean; // trueの場合、既存サマリーも含めて範囲内の全ウィンドウを再生成
+}
+
+/**
+ * 範囲内のサマリーを補完（または再生成）
+ */
+export async function backfillIntervalSummaries(input: BackfillInput): Promise<IntervalSummaryResult[]> {
+  const windows = input.overwrite
+    ? listWindows(input.rangeStart, input.rangeEnd, input.interval)
+    : await findMissingWindows(input.userId, input.interval, input.rangeStart, input.rangeEnd);
+
+  console.log(`🧩 ${input.interval}: ${windows.length} window(s) to ${input.overwrite ? 'regenerate' : 'fill or refresh'}`);
+
+  const results: IntervalSummaryResult[] = [];
+  for (const window of windows) {
+    results.push(await generateIntervalSummary({
+      userId: input.userId,
+      interval: input.interval,
+      endTime: window.end,
+      overwrite: true, // 古くなったサマリーは作り直す（欠けているウィンドウは新規作成になる）
+    }));
+  }
+  return results;
+}
@@ -3,7 +3,7 @@
  */
 
 import { readFileSync, existsSync, statSync } from 'fs';
-import { createClient } from '@supabase/supabase-js';
+import { getSupabaseServiceClient } from '../supabase/server';
 import { processVideoForAnalysis } from './video-processor';
 
 /**
@@ -76,15 +76,8 @@ async function loadFromSupabase(path: string): Promise<string> {
   
   const [, bucket, filePath] = match;
   
-  // Supabaseクライアントを初期化
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || process.env.SUPABASE_SERVICE_KEY;
-  
-  if (!supabaseUrl || !supabaseKey) {
-    throw new Error('Supabase環境変数が設定されていません');
-  }
-  
-  const supabase = createClient(supabaseUrl, supabaseKey);
+  // 非公開バケットも読めるようにサービスロールで接続
+  const supabase = getSupabaseServiceClient();
   
   // ストレージからダウンロード
   const { data, error } = await supabase.storage
@@ -0,0 +1,132 @@
+/**
+ * 集中アラートの評価と送信
+ *
+ * 新しいscreen_capture_analyze行（または同一画面の延長）ごとに、ユーザーのルールを直近の行に対して評価する。
+ * 発火したルールはalert_eventsに記録し、notifyUser経由でプッシュする（通知設定・上限が適用される）。
+ */
+import { getSupabaseServiceClient } from '../supabase/server';
+import { notifyUser } from '../notifications/notify';
+import {
+  alertMessage,
+  evaluateAlertRule,
+  isWithinSchedule,
+  parseAlertSettings,
+  type AlertCapture,
+  type AlertRule,
+} from './rules';
+
+// 遅れてアップロードされたキャプチャ（オフライン時のキュー）では過去の状況について通知しない
+const STALE_CAPTURE_MS = 2 * 60 * 1000;
+
+function detailString(details: Record<string, unknown>, key: string): string | null {
+  const value = details[key];
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * 評価に必要な範囲のキャプチャを時刻順に読み込む（範囲の前に始まり、範囲内まで延長された行を含む）
+ */
+async function loadRecentCaptures(userId: string, since: Date, until: Date): Promise<AlertCapture[]> {
+  const supabase = getSupabaseServiceClient();
+  const from = since.toISOString();
+  const { data, error } = await supabase
+    .from('action_logs')
+    .select('started_at, ended_at, summary, tags, details')
+    .eq('user_id', userId)
+    .eq('type', 'screen_capture_analyze')
+    .or(`started_at.gte.${from},ended_at.gte.${from}`)
+    .lte('started_at', until.toISOString())
+    .order('started_at', { ascending: true })
+    .limit(1000);
+  if (error) throw new Error(`Failed to load captures: ${error.message}`);
+
+  return (data ?? []).map((row) => {
+    const details = (row.details ?? {}) as Record<string, unknown>;
+    return {
+      started_at: row.started_at,
+      ended_at: row.ended_at,
+      summary: row.summary,
+      tags: row.tags,
+      application: detailString(details, 'application'),
+      activity_category: detailString(details, 'activity_category'),
+      url: detailString(details, 'url'),
+      window_title: detailString(details, 'window_title'),
+    };
+  });
+}
+
+/**
+ * 同じルールがクールダウン中に発火済みか
+ */
+async function firedWithinCooldown(userId: string, rule: AlertRule, now: Date): Promise<boolean> {
+  const supabase = getSupabaseServiceClient();
+  const { count, error } = await supabase
+    .from('alert_events')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('rule_id', rule.id)
+    .gte('created_at', new Date(now.getTime() - rule.cooldownMinutes * 60 * 1000).toISOString());
+  if (error) throw new Error(`Failed to check alert cooldown: ${error.message}`);
+  return (count ?? 0) > 0;
+}
+
+/**
+ * キャプチャ時刻時点でユーザーのルールを評価し、発火したものを通知する
+ * 失敗してもキャプチャの保存処理には影響させない
+ */
+export async function evaluateAlertRules(userId: string, capturedAt: Date = new Date()): Promise<void> {
+  try {
+    if (Date.now() - capturedAt.getTime() > STALE_CAPTURE_MS) return;
+
+    const supabase = getSupabaseServiceClient();
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select('alert_rules')
+      .eq('id', userId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+
+    const settings = parseAlertSettings(profile?.alert_rules);
+    const rules = settings.rules.filter((rule) => rule.enabled && isWithinSchedule(rule.schedule, settings.timeZone, capturedAt));
+    if (rules.length === 0) return;
+
+    const longest = Math.max(...rules.map((rule) => rule.withinMinutes));
+    const captures = await loadRecentCaptures(userId, new Date(capturedAt.getTime() - longest * 60 * 1000), capturedAt);
+
+    for (const rule of rules) {
+      const result = evaluateAlertRule(rule, captures, capturedAt);
+      if (!result.fired || await firedWithinCooldown(userId, rule, capturedAt)) continue;
+
+      const message = alertMessage(rule, result.value);
+      // Recorded before the push so a capture arriving meanwhile sees the cooldown
+      const { data: event, error: insertError } = await supabase
+        .from('alert_events')
+        .insert({
+          user_id: userId,
+          rule_id: rule.id,
+          rule_name: rule.name,
+          rule_kind: rule.kind,
+          value: result.value,
+          title: message.title,
+          body: message.body,
+          window_start: result.windowStart.toISOString(),
+          window_end: result.windowEnd.toISOString(),
+        })
+        .select('id')
+        .single();
+      if (insertError || !event) {
+        console.warn('⚠️ alert_events insert failed:', insertError?.message);
+        continue;
+      }
+
+      const notified = await notifyUser(userId, 'alert', { ...message, url: '/dashboard' });
+      await supabase
+        .from('alert_events')
+        .update({ notification_status: notified.status, notification_reason: notified.reason ?? null })
+        .eq('id', event.id);
+      console.log(`🚨 Alert "${rule.name}" fired for ${userId} (${result.value})`);
+    }
+  } catch (error) {
+    console.warn(`⚠️ Alert rules could not be evaluated for ${userId}:`, error);
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Distraction alert rules (stored in profiles.alert_rules) and their evaluation.
+ * Pure helpers only — safe to import from client components; loading captures and sending lives in evaluate.ts.
+ *
+ * Rules are checked against what is already on the screen_capture_analyze rows (application,
+ * activity category, summary, tags, URL / window title and timing), so no model call is made.
+ */
+import { z } from 'zod';
+import type { ActivityCategory } from '@/lib/ai/screen-capture-interpreter';
+import { CAPTURE_SAMPLE_SECONDS, TIME_BREAKDOWN_CATEGORIES, toActivityCategory } from '@/lib/analytics/time-breakdown';
+import { buildFocusBlocks } from '@/lib/analytics/focus-metrics';
+
+export const ALERT_RULE_KINDS = ['time_in_context', 'app_switches'] as const;
+export type AlertRuleKind = typeof ALERT_RULE_KINDS[number];
+
+export const ALERT_RULE_KIND_LABELS: Record<AlertRuleKind, string> = {
+  time_in_context: '特定の作業が続いたとき',
+  app_switches: 'アプリの切り替えが多いとき',
+};
+
+export const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+// Longest look-back a rule may use (the evaluator loads this much history per capture)
+export const MAX_ALERT_WINDOW_MINUTES = 120;
+export const MAX_ALERT_RULES = 20;
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// A capture matches when any listed application, category or keyword matches (empty lists match nothing)
+export const AlertMatchSchema = z.object({
+  applications: z.array(z.string().max(100)).max(20), // Case-insensitive substrings of the application name
+  categories: z.array(z.enum(TIME_BREAKDOWN_CATEGORIES as [ActivityCategory, ...ActivityCategory[]])),
+  keywords: z.array(z.string().max(100)).max(50), // Case-insensitive substrings of the summary, tags, URL or window title
+});
+
+export type AlertMatch = z.infer<typeof AlertMatchSchema>;
+
+// Focus hours: the rule only fires on these days between start and end (may wrap midnight)
+export const AlertScheduleSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)), // 0 = Sunday
+  start: z.string().regex(TIME_OF_DAY),
+  end: z.string().regex(TIME_OF_DAY),
+});
+
+export type AlertSchedule = z.infer<typeof AlertScheduleSchema>;
+
+const ruleBase = {
+  id: z.string().min(1).max(64),
+  name: z.string().min(1).max(100),
+  enabled: z.boolean(),
+  schedule: AlertScheduleSchema.nullable(), // null = any time
+  withinMinutes: z.number().int().min(1).max(MAX_ALERT_WINDOW_MINUTES),
+  cooldownMinutes: z.number().int().min(1).max(24 * 60), // No repeat alert for the same rule within this time
+};
+
+export const AlertRuleSchema = z.discriminatedUnion('kind', [
+  z.object({
+    ...ruleBase,
+    kind: z.literal('time_in_context'),
+    match: AlertMatchSchema,
+    minutes: z.number().int().min(1).max(MAX_ALERT_WINDOW_MINUTES), // Matching time within withinMinutes
+  }),
+  z.object({
+    ...ruleBase,
+    kind: z.literal('app_switches'),
+    switches: z.number().int().min(1).max(500), // Application changes within withinMinutes
+  }),
+]);
+
+export type AlertRule = z.infer<typeof AlertRuleSchema>;
+
+export const AlertSettingsSchema = z.object({
+  timeZone: z.string(), // For schedules
+  rules: z.array(AlertRuleSchema).max(MAX_ALERT_RULES),
+});
+
+export type AlertSettings = z.infer<typeof AlertSettingsSchema>;
+
+const WEEKDAY_FOCUS_HOURS: AlertSchedule = { days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' };
+
+// Examples of both kinds, off until the user turns them on
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  timeZone: 'UTC',
+  rules: [
+    {
+      id: 'social-media',
+      name: 'フォーカス時間中のSNS',
+      enabled: false,
+      kind: 'time_in_context',
+      match: {
+        applications: [],
+        categories: [],
+        keywords: ['twitter', 'facebook', 'instagram', 'reddit', 'tiktok', 'youtube'],
+      },
+      minutes: 10,
+      withinMinutes: 15,
+      schedule: WEEKDAY_FOCUS_HOURS,
+      cooldownMinutes: 30,
+    },
+    {
+      id: 'app-switching',
+      name: 'アプリの頻繁な切り替え',
+      enabled: false,
+      kind: 'app_switches',
+      switches: 15,
+      withinMinutes: 5,
+      schedule: WEEKDAY_FOCUS_HOURS,
+      cooldownMinutes: 30,
+    },
+  ],
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Read stored settings; rules that no longer validate are dropped rather than discarding the rest
+ */
+export function parseAlertSettings(value: unknown): AlertSettings {
+  if (!isRecord(value)) return DEFAULT_ALERT_SETTINGS;
+  const rules = Array.isArray(value.rules)
+    ? value.rules.flatMap((rule) => {
+        const parsed = AlertRuleSchema.safeParse(rule);
+        return parsed.success ? [parsed.data] : [];
+      })
+    : DEFAULT_ALERT_SETTINGS.rules;
+  return {
+    timeZone: typeof value.timeZone === 'string' ? value.timeZone : DEFAULT_ALERT_SETTINGS.timeZone,
+    rules: rules.slice(0, MAX_ALERT_RULES),
+  };
+}
+
+// Day of week and minutes since local midnight in the given IANA time zone
+function localDayAndMinutes(date: Date, timeZone: string): { day: number; minutes: number } {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+    const weekday = parts.find((p) => p.type === 'weekday')?.value ?? '';
+    const hour = Number(parts.find((p) => p.type === 'hour')?.value ?? 0);
+    const minute = Number(parts.find((p) => p.type === 'minute')?.value ?? 0);
+    return { day: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(weekday), minutes: hour * 60 + minute };
+  } catch {
+    return { day: date.getUTCDay(), minutes: date.getUTCHours() * 60 + date.getUTCMinutes() };
+  }
+}
+
+function toMinutesOfDay(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * Whether the rule is active at this time (a window that wraps midnight belongs to the day it started)
+ */
+export function isWithinSchedule(schedule: AlertSchedule | null, timeZone: string, date: Date = new Date()): boolean {
+  if (!schedule) return true;
+  const { day, minutes } = localDayAndMinutes(date, timeZone);
+  const from = toMinutesOfDay(schedule.start);
+  const to = toMinutesOfDay(schedule.end);
+  if (from === to) return schedule.days.includes(day);
+  if (from < to) return schedule.days.includes(day) && minutes >= from && minutes < to;
+  return (schedule.days.includes(day) && minutes >= from) || (schedule.days.includes((day + 6) % 7) && minutes < to);
+}
+
+// What the evaluator needs from a screen_capture_analyze row
+export interface AlertCapture {
+  started_at: string;
+  ended_at: string | null;
+  summary: string | null;
+  tags: string[] | null;
+  application: string | null;
+  activity_category: string | null;
+  url: string | null;
+  window_title: string | null;
+}
+
+export function matchesCapture(match: AlertMatch, capture: AlertCapture): boolean {
+  const application = (capture.application ?? '').toLowerCase();
+  if (application && match.applications.some((entry) => entry.trim() && application.includes(entry.trim().toLowerCase()))) {
+    return true;
+  }
+  if (capture.activity_category && match.categories.includes(toActivityCategory(capture.activity_category))) {
+    return true;
+  }
+  const haystack = [capture.summary, capture.url, capture.window_title, ...(capture.tags ?? [])]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+  return !!haystack && match.keywords.some((entry) => entry.trim() && haystack.includes(entry.trim().toLowerCase()));
+}
+
+export interface AlertEvaluation {
+  fired: boolean;
+  value: number; // Matching minutes, or application switches
+  windowStart: Date;
+  windowEnd: Date;
+}
+
+/**
+ * Check one rule against captures ordered by started_at, as of `now`
+ */
+export function evaluateAlertRule(
+  rule: AlertRule,
+  captures: AlertCapture[],
+  now: Date,
+  sampleSeconds: number = CAPTURE_SAMPLE_SECONDS
+): AlertEvaluation {
+  const windowEnd = now.getTime();
+  const windowStart = windowEnd - rule.withinMinutes * 60 * 1000;
+  const range = { windowStart: new Date(windowStart), windowEnd: now };
+
+  if (rule.kind === 'app_switches') {
+    const recent = captures.filter((c) => {
+      const at = new Date(c.started_at).getTime();
+      return at >= windowStart && at <= windowEnd;
+    });
+    const { contextSwitches } = buildFocusBlocks(recent, sampleSeconds);
+    return { fired: contextSwitches >= rule.switches, value: contextSwitches, ...range };
+  }
+
+  // Same coverage rule as the dashboard: until last seen plus one interval, capped at the next capture
+  let matchedMs = 0;
+  captures.forEach((capture, index) => {
+    if (!matchesCapture(rule.match, capture)) return;
+    const start = new Date(capture.started_at).getTime();
+    const lastSeen = Math.max(capture.ended_at ? new Date(capture.ended_at).getTime() : start, start);
+    const next = captures[index + 1];
+    const end = Math.min(lastSeen + sampleSeconds * 1000, next ? new Date(next.started_at).getTime() : Infinity, windowEnd);
+    matchedMs += Math.max(0, end - Math.max(start, windowStart));
+  });
+  const minutes = Math.round((matchedMs / 60000) * 10) / 10;
+  return { fired: minutes >= rule.minutes, value: minutes, ...range };
+}
+
+/**
+ * Push text for a fired rule
+ */
+export function alertMessage(rule: AlertRule, value: number): { title: string; body: string } {
+  const body = rule.kind === 'app_switches'
+    ? `${value} app switches in the last ${rule.withinMinutes} min`
+    : `${Math.round(value)} min in the last ${rule.withinMinutes} min`;
+  return { title: `⚠️ ${rule.name}`, body };
+}
+
+/**
+ * Tidy edited settings before saving: blank list entries removed, unnamed rules named after their kind
+ */
+export function normalizeAlertSettings(settings: AlertSettings): AlertSettings {
+  const clean = (entries: string[]) => entries.map((entry) => entry.trim()).filter(Boolean);
+  return {
+    ...settings,
+    rules: settings.rules.map((rule) => {
+      const name = rule.name.trim() || ALERT_RULE_KIND_LABELS[rule.kind];
+      return rule.kind === 'time_in_context'
+        ? {
+            ...rule,
+            name,
+            match: { ...rule.match, applications: clean(rule.match.applications), keywords: clean(rule.match.keywords) },
+          }
+        : { ...rule, name };
+    }),
+  };
+}
+
+/**
+ * A new rule of the given kind with the same defaults as the examples
+ */
+export function newAlertRule(kind: AlertRuleKind, id: string): AlertRule {
+  const base = {
+    id,
+    name: ALERT_RULE_KIND_LABELS[kind],
+    enabled: true,
+    schedule: WEEKDAY_FOCUS_HOURS,
+    cooldownMinutes: 30,
+  };
+  return kind === 'app_switches'
+    ? { ...base, kind, switches: 15, withinMinutes: 5 }
+    : { ...base, kind, match: { applications: [], categories: [], keywords: [] }, minutes: 10, withinMinutes: 15 };
+}
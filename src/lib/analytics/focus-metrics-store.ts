@@ -0,0 +1,154 @@
+/**
+ * フォーカス指標の算出と保存（focus_metricsテーブル）
+ *
+ * ウィンドウ内のscreen_capture_analyze行を時刻順に読み込み、computeFocusMetricsで算出する。
+ * LLMを使わないため、同じキャプチャからは常に同じ値になる。
+ * ウィンドウ境界をまたぐフォーカスブロックは境界で分割される。
+ */
+import { getSupabaseServiceClient } from '../supabase/server';
+import { listWindows, type IntervalWindow } from '../ai/time-interval-summarizer';
+import { computeFocusMetrics, type FocusCapture, type FocusMetricInterval, type FocusMetrics } from './focus-metrics';
+
+// Supabaseの1リクエストあたりの上限行数
+const PAGE_SIZE = 1000;
+
+/**
+ * ウィンドウ内のキャプチャを時刻順にすべて読み込む
+ */
+async function loadFocusCaptures(userId: string, window: IntervalWindow): Promise<FocusCapture[]> {
+  const supabase = getSupabaseServiceClient();
+  const captures: FocusCapture[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('action_logs')
+      .select('started_at, ended_at, details')
+      .eq('user_id', userId)
+      .eq('type', 'screen_capture_analyze')
+      .gte('started_at', window.start.toISOString())
+      .lt('started_at', window.end.toISOString())
+      .order('started_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load captures: ${error.message}`);
+
+    for (const row of data ?? []) {
+      const details = (row.details ?? {}) as Record<string, unknown>;
+      captures.push({
+        started_at: row.started_at,
+        ended_at: row.ended_at,
+        application: typeof details.application === 'string' ? details.application : null,
+        activity_category: typeof details.activity_category === 'string' ? details.activity_category : null,
+      });
+    }
+    if ((data ?? []).length < PAGE_SIZE) break;
+  }
+
+  return captures;
+}
+
+/**
+ * 1ウィンドウの指標を算出して保存する（キャプチャがなければ保存せずnull）
+ */
+export async function computeFocusMetricsForWindow(
+  userId: string,
+  interval: FocusMetricInterval,
+  window: IntervalWindow
+): Promise<FocusMetrics | null> {
+  const captures = await loadFocusCaptures(userId, window);
+  if (captures.length === 0) return null;
+
+  const metrics = computeFocusMetrics(captures);
+  const supabase = getSupabaseServiceClient();
+  const { error } = await supabase
+    .from('focus_metrics')
+    .upsert(
+      {
+        user_id: userId,
+        interval,
+        window_start: window.start.toISOString(),
+        window_end: window.end.toISOString(),
+        ...metrics,
+        computed_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,interval,window_start' }
+    );
+  if (error) throw new Error(`Failed to save focus metrics: ${error.message}`);
+  return metrics;
+}
+
+// 補完の入力パラメータ
+export interface FocusMetricsBackfillInput {
+  userId: string;
+  interval: FocusMetricInterval;
+  rangeStart: Date;
+  rangeEnd: Date;
+  overwrite?: boolean; // trueの場合、既存の指標も含めて範囲内の全ウィンドウを再計算
+}
+
+/**
+ * 指標の算出後にウィンドウ内のキャプチャが作られた、または解析・延長されたか
+ */
+async function hasCapturesChangedSince(userId: string, window: IntervalWindow, since: string): Promise<boolean> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('action_logs')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('type', 'screen_capture_analyze')
+    .gte('started_at', window.start.toISOString())
+    .lt('started_at', window.end.toISOString())
+    .or(`created_at.gt.${since},generated_at.gt.${since}`)
+    .limit(1);
+  if (error) throw new Error(`Failed to check captures: ${error.message}`);
+  return (data ?? []).length > 0;
+}
+
+/**
+ * 範囲内の完了済みウィンドウのうち、指標がないものと算出後にキャプチャが変わったものを算出する（保存したウィンドウ数を返す）
+ */
+export async function fillMissingFocusMetrics(input: FocusMetricsBackfillInput): Promise<number> {
+  const windows = listWindows(input.rangeStart, input.rangeEnd, input.interval);
+  if (windows.length === 0) return 0;
+
+  let pending = windows;
+  if (!input.overwrite) {
+    const supabase = getSupabaseServiceClient();
+    const { data, error } = await supabase
+      .from('focus_metrics')
+      .select('window_start, computed_at')
+      .eq('user_id', input.userId)
+      .eq('interval', input.interval)
+      .gte('window_start', windows[0].start.toISOString())
+      .lte('window_start', windows[windows.length - 1].start.toISOString());
+    if (error) throw new Error(`Failed to load focus metrics: ${error.message}`);
+    const computedAt = new Map((data ?? []).map((row) => [new Date(row.window_start).getTime(), row.computed_at as string | null]));
+    pending = [];
+    for (const window of windows) {
+      const key = window.start.getTime();
+      if (!computedAt.has(key)) {
+        pending.push(window);
+        continue;
+      }
+      // 遅れて届いた・後から解析されたキャプチャを反映する（算出時刻のない行も作り直す）
+      const since = computedAt.get(key);
+      if (!since || await hasCapturesChangedSince(input.userId, window, since)) pending.push(window);
+    }
+  }
+
+  let saved = 0;
+  for (const window of pending) {
+    if (await computeFocusMetricsForWindow(input.userId, input.interval, window)) saved++;
+  }
+  return saved;
+}
+
+/**
+ * 指定時刻以降にキャプチャがあるユーザー（定期タスクの対象）
+ */
+export async function listUsersWithCapturesSince(since: Date): Promise<string[]> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase.rpc('users_with_captures_since', { since: since.toISOString() });
+  if (error) throw new Error(`Failed to list users with captures: ${error.message}`);
+  return (data ?? []).map((row: { user_id: string }) => row.user_id);
+}
@@ -0,0 +1,162 @@
+/**
+ * Deterministic focus / context-switch metrics over the ordered screen_capture_analyze rows.
+ * Pure helpers only — safe to import from client components; storage lives in focus-metrics-store.ts.
+ *
+ * Each capture covers the time until it was last seen plus one capture interval, capped at the next
+ * capture (the same rule as action_log_time_rollups). Consecutive captures of the same application
+ * form a focus block; a block ends at an application change (a context switch) or at an idle gap.
+ */
+import type { ActivityCategory } from '@/lib/ai/screen-capture-interpreter';
+import type { TimeInterval } from '@/lib/ai/time-interval-summarizer';
+import { CAPTURE_SAMPLE_SECONDS, toActivityCategory, UNKNOWN_APPLICATION } from './time-breakdown';
+
+// Windows metrics are stored for (aligned like the interval summaries, UTC)
+export const FOCUS_METRIC_INTERVALS = ['1hour', '1day', '1week'] as const satisfies readonly TimeInterval[];
+export type FocusMetricInterval = typeof FOCUS_METRIC_INTERVALS[number];
+
+// A pause longer than this between captures is a break, not a switch
+export const IDLE_GAP_SECONDS = 120;
+// Focus blocks at least this long in a deep-work category count as deep work
+export const DEEP_WORK_MIN_SECONDS = 25 * 60;
+export const DEEP_WORK_CATEGORIES: readonly ActivityCategory[] = ['coding', 'docs', 'design'];
+
+export interface FocusCapture {
+  started_at: string;
+  ended_at: string | null;
+  application: string | null;
+  activity_category: string | null;
+}
+
+export interface FocusBlock {
+  application: string;
+  category: ActivityCategory; // The category with the most time in the block
+  start: string;
+  end: string;
+  seconds: number;
+}
+
+// Column names match the focus_metrics table
+export interface FocusMetrics {
+  tracked_seconds: number;
+  focus_blocks: number;
+  context_switches: number;
+  switches_per_hour: number;
+  longest_focus_seconds: number;
+  longest_focus_application: string | null;
+  deep_work_seconds: number;
+  fragmentation_score: number; // 0 = one unbroken block, approaching 100 = many short blocks
+}
+
+interface OpenBlock {
+  application: string;
+  start: number;
+  end: number;
+  categorySeconds: Map<ActivityCategory, number>;
+}
+
+function closeBlock(block: OpenBlock): FocusBlock {
+  let category: ActivityCategory = 'other';
+  let best = -1;
+  for (const [name, seconds] of block.categorySeconds) {
+    if (seconds > best) {
+      category = name;
+      best = seconds;
+    }
+  }
+  return {
+    application: block.application,
+    category,
+    start: new Date(block.start).toISOString(),
+    end: new Date(block.end).toISOString(),
+    seconds: (block.end - block.start) / 1000,
+  };
+}
+
+/**
+ * Split captures (ordered by started_at) into focus blocks and count the switches between them
+ */
+export function buildFocusBlocks(
+  captures: FocusCapture[],
+  sampleSeconds: number = CAPTURE_SAMPLE_SECONDS
+): { blocks: FocusBlock[]; contextSwitches: number } {
+  const blocks: FocusBlock[] = [];
+  let contextSwitches = 0;
+  let open: OpenBlock | null = null;
+
+  for (let index = 0; index < captures.length; index++) {
+    const capture = captures[index];
+    const start = new Date(capture.started_at).getTime();
+    const lastSeen = Math.max(capture.ended_at ? new Date(capture.ended_at).getTime() : start, start);
+    const next = captures[index + 1];
+    const end = Math.min(lastSeen + sampleSeconds * 1000, next ? new Date(next.started_at).getTime() : Infinity);
+    const application = capture.application || UNKNOWN_APPLICATION;
+    const category = toActivityCategory(capture.activity_category ?? 'other');
+
+    if (open) {
+      const idle = (start - open.end) / 1000 > IDLE_GAP_SECONDS;
+      if (idle || open.application !== application) {
+        if (!idle) contextSwitches++;
+        blocks.push(closeBlock(open));
+        open = null;
+      }
+    }
+    if (!open) open = { application, start, end, categorySeconds: new Map() };
+
+    open.end = Math.max(open.end, end);
+    open.categorySeconds.set(category, (open.categorySeconds.get(category) ?? 0) + (end - start) / 1000);
+  }
+  if (open) blocks.push(closeBlock(open));
+
+  return { blocks, contextSwitches };
+}
+
+/**
+ * Metrics for one interval from its captures (ordered by started_at)
+ */
+export function computeFocusMetrics(captures: FocusCapture[], sampleSeconds: number = CAPTURE_SAMPLE_SECONDS): FocusMetrics {
+  const { blocks, contextSwitches } = buildFocusBlocks(captures, sampleSeconds);
+  const tracked = blocks.reduce((sum, block) => sum + block.seconds, 0);
+  const longest = blocks.reduce<FocusBlock | null>((best, block) => (!best || block.seconds > best.seconds ? block : best), null);
+  const deepWork = blocks
+    .filter((block) => block.seconds >= DEEP_WORK_MIN_SECONDS && DEEP_WORK_CATEGORIES.includes(block.category))
+    .reduce((sum, block) => sum + block.seconds, 0);
+  // 1 - Herfindahl index of block lengths: independent of how much time was tracked
+  const concentration = tracked > 0 ? blocks.reduce((sum, block) => sum + (block.seconds / tracked) ** 2, 0) : 1;
+
+  return {
+    tracked_seconds: Math.round(tracked),
+    focus_blocks: blocks.length,
+    context_switches: contextSwitches,
+    switches_per_hour: tracked > 0 ? Math.round((contextSwitches / (tracked / 3600)) * 10) / 10 : 0,
+    longest_focus_seconds: Math.round(longest?.seconds ?? 0),
+    longest_focus_application: longest?.application ?? null,
+    deep_work_seconds: Math.round(deepWork),
+    fragmentation_score: Math.round((1 - concentration) * 100),
+  };
+}
+
+/**
+ * Combine per-window metrics into one figure for a longer range (blocks split at window
+ * boundaries are not re-joined, so the longest block is a lower bound)
+ */
+export function combineFocusMetrics(windows: FocusMetrics[]): FocusMetrics {
+  const tracked = windows.reduce((sum, w) => sum + w.tracked_seconds, 0);
+  const switches = windows.reduce((sum, w) => sum + w.context_switches, 0);
+  const longest = windows.reduce<FocusMetrics | null>(
+    (best, w) => (!best || w.longest_focus_seconds > best.longest_focus_seconds ? w : best),
+    null
+  );
+  return {
+    tracked_seconds: tracked,
+    focus_blocks: windows.reduce((sum, w) => sum + w.focus_blocks, 0),
+    context_switches: switches,
+    switches_per_hour: tracked > 0 ? Math.round((switches / (tracked / 3600)) * 10) / 10 : 0,
+    longest_focus_seconds: longest?.longest_focus_seconds ?? 0,
+    longest_focus_application: longest?.longest_focus_application ?? null,
+    deep_work_seconds: windows.reduce((sum, w) => sum + w.deep_work_seconds, 0),
+    // Weighted by tracked time, so a nearly empty window does not swing the score
+    fragmentation_score: tracked > 0
+      ? Math.round(windows.reduce((sum, w) => sum + w.fragmentation_score * w.tracked_seconds, 0) / tracked)
+      : 0,
+  };
+}
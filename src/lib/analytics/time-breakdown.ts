@@ -0,0 +1,230 @@
+/**
+ * Time-per-application / category / hour-of-day roll-ups for the dashboard.
+ * Pure helpers only — safe to import from client components; the roll-ups are grouped by
+ * the action_log_time_rollups SQL function.
+ */
+import type { ActivityCategory } from '@/lib/ai/screen-capture-interpreter';
+
+// CaptureClient takes a screenshot every 10 seconds; one capture stands for that much time
+export const CAPTURE_SAMPLE_SECONDS = 10;
+
+export const TIME_RANGES = ['day', 'week', 'month'] as const;
+export type TimeRange = typeof TIME_RANGES[number];
+
+export const TIME_RANGE_LABELS: Record<TimeRange, string> = {
+  day: 'Today',
+  week: 'Last 7 days',
+  month: 'Last 30 days',
+};
+
+export const ACTIVITY_CATEGORY_LABELS: Record<ActivityCategory, string> = {
+  coding: 'Coding',
+  meeting: 'Meetings',
+  email: 'Email',
+  browsing: 'Browsing',
+  docs: 'Docs',
+  chat: 'Chat',
+  design: 'Design',
+  other: 'Other',
+};
+
+export const ACTIVITY_CATEGORY_COLORS: Record<ActivityCategory, string> = {
+  coding: '#2563eb',
+  meeting: '#dc2626',
+  email: '#d97706',
+  browsing: '#0891b2',
+  docs: '#16a34a',
+  chat: '#9333ea',
+  design: '#db2777',
+  other: '#94a3b8',
+};
+
+export const TIME_BREAKDOWN_CATEGORIES = Object.keys(ACTIVITY_CATEGORY_LABELS) as ActivityCategory[];
+
+// Applications beyond the top N are folded into one slice
+export const DEFAULT_TOP_APPLICATIONS = 8;
+export const OTHER_APPLICATIONS = 'Other apps';
+// Captures without an application (not analyzed yet, or the model could not tell)
+export const UNKNOWN_APPLICATION = 'Unknown';
+
+// One row of action_log_time_rollups; only the columns grouped by its roll-up are set
+export interface TimeRollupRow {
+  rollup: string; // 'series' | 'hour_of_day' | 'category' | 'application'
+  bucket_start: string | null;
+  hour_of_day: number | null;
+  application: string | null;
+  activity_category: string | null;
+  seconds: number;
+  captures: number;
+}
+
+export interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface TimeShare {
+  name: string;
+  seconds: number;
+  captures: number;
+  grouped?: boolean; // The "Other apps" slice, which has no single application to drill into
+}
+
+export interface HourOfDayShare {
+  hour: number; // Local hour, 0–23
+  label: string;
+  minutes: number;
+}
+
+// One bar of the stacked chart: minutes per category within [start, end)
+export type TimeSeriesSlot = {
+  label: string;
+  start: string;
+  end: string;
+} & Record<ActivityCategory, number>;
+
+export interface TimeBreakdown {
+  totalSeconds: number;
+  captures: number;
+  byApplication: TimeShare[];
+  byCategory: TimeShare[];
+  byHourOfDay: HourOfDayShare[];
+  series: TimeSeriesSlot[];
+}
+
+function startOfLocalDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+/**
+ * Local-time window for a range: today, or the last 7 / 30 days including today
+ */
+export function timeRangeWindow(range: TimeRange, now: Date = new Date()): TimeWindow {
+  const end = addDays(startOfLocalDay(now), 1);
+  const days = range === 'day' ? 1 : range === 'week' ? 7 : 30;
+  return { start: addDays(end, -days), end };
+}
+
+export function toActivityCategory(value: string): ActivityCategory {
+  return value in ACTIVITY_CATEGORY_LABELS ? (value as ActivityCategory) : 'other';
+}
+
+// Chart values are minutes with one decimal
+export function toMinutes(seconds: number): number {
+  return Math.round((seconds / 60) * 10) / 10;
+}
+
+/**
+ * "2h 05m", "12m" or "<1m"
+ */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 1) return seconds > 0 ? '<1m' : '0m';
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${String(minutes % 60).padStart(2, '0')}m` : `${minutes}m`;
+}
+
+// Bars of the series: hourly for a single day, daily otherwise
+export function seriesUnit(range: TimeRange): 'hour' | 'day' {
+  return range === 'day' ? 'hour' : 'day';
+}
+
+function hourLabel(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+function emptySeries(range: TimeRange, window: TimeWindow): TimeSeriesSlot[] {
+  const slots: TimeSeriesSlot[] = [];
+  let cursor = window.start;
+  while (cursor < window.end) {
+    const next = new Date(cursor);
+    if (seriesUnit(range) === 'hour') next.setHours(next.getHours() + 1);
+    else next.setDate(next.getDate() + 1);
+    const label = seriesUnit(range) === 'hour' ? hourLabel(cursor.getHours()) : `${cursor.getMonth() + 1}/${cursor.getDate()}`;
+    const slot = { label, start: cursor.toISOString(), end: next.toISOString() } as TimeSeriesSlot;
+    for (const category of TIME_BREAKDOWN_CATEGORIES) slot[category] = 0;
+    slots.push(slot);
+    cursor = next;
+  }
+  return slots;
+}
+
+function sortShares(shares: Map<string, TimeShare>): TimeShare[] {
+  return Array.from(shares.values()).sort((a, b) => b.seconds - a.seconds);
+}
+
+function addShare(shares: Map<string, TimeShare>, name: string, row: TimeRollupRow): void {
+  const share = shares.get(name) ?? { name, seconds: 0, captures: 0 };
+  share.seconds += row.seconds;
+  share.captures += row.captures;
+  shares.set(name, share);
+}
+
+/**
+ * Turn the SQL roll-ups into the dashboard's charts
+ */
+export function buildTimeBreakdown(
+  rows: TimeRollupRow[],
+  range: TimeRange,
+  window: TimeWindow,
+  topApplications: number = DEFAULT_TOP_APPLICATIONS
+): TimeBreakdown {
+  const series = emptySeries(range, window);
+  const seriesStarts = series.map((slot) => new Date(slot.start).getTime());
+  const applications = new Map<string, TimeShare>();
+  const categories = new Map<string, TimeShare>();
+  const hourSeconds = new Array<number>(24).fill(0);
+  let totalSeconds = 0;
+  let captures = 0;
+
+  for (const row of rows) {
+    if (row.rollup === 'category') {
+      totalSeconds += row.seconds;
+      captures += row.captures;
+      addShare(categories, toActivityCategory(row.activity_category ?? 'other'), row);
+    } else if (row.rollup === 'application') {
+      addShare(applications, row.application ?? UNKNOWN_APPLICATION, row);
+    } else if (row.rollup === 'hour_of_day' && row.hour_of_day !== null) {
+      hourSeconds[row.hour_of_day] += row.seconds;
+    } else if (row.rollup === 'series' && row.bucket_start) {
+      // Last slot starting at or before the bucket (both are local hours or days)
+      const time = new Date(row.bucket_start).getTime();
+      let index = seriesStarts.length - 1;
+      while (index > 0 && seriesStarts[index] > time) index--;
+      series[index][toActivityCategory(row.activity_category ?? 'other')] += row.seconds;
+    }
+  }
+
+  for (const slot of series) {
+    for (const category of TIME_BREAKDOWN_CATEGORIES) slot[category] = toMinutes(slot[category]);
+  }
+
+  const sortedApplications = sortShares(applications);
+  const byApplication = sortedApplications.slice(0, topApplications);
+  const rest = sortedApplications.slice(topApplications);
+  if (rest.length > 0) {
+    byApplication.push({
+      name: OTHER_APPLICATIONS,
+      seconds: rest.reduce((sum, share) => sum + share.seconds, 0),
+      captures: rest.reduce((sum, share) => sum + share.captures, 0),
+      grouped: true,
+    });
+  }
+
+  return {
+    totalSeconds,
+    captures,
+    byApplication,
+    byCategory: sortShares(categories),
+    byHourOfDay: hourSeconds.map((seconds, hour) => ({ hour, label: hourLabel(hour), minutes: toMinutes(seconds) })),
+    series,
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Shared request handling of the /api/v1 routes: auth, validation and error responses
+ */
+import { NextResponse } from 'next/server';
+import type { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth/request';
+import type { ApiTokenScope } from '@/lib/auth/scopes';
+import { InvalidCursorError } from './queries';
+
+export type Parsed<T> = { ok: true; data: T } | { ok: false; response: NextResponse };
+
+export function apiError(status: number, error: string, issues?: string[]): NextResponse {
+  return NextResponse.json(issues ? { error, issues } : { error }, { status });
+}
+
+function validate<T extends z.ZodTypeAny>(schema: T, input: unknown, error: string): Parsed<z.output<T>> {
+  const parsed = schema.safeParse(input);
+  if (parsed.success) return { ok: true, data: parsed.data };
+  const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  return { ok: false, response: apiError(400, error, issues) };
+}
+
+export function parseQuery<T extends z.ZodTypeAny>(request: Request, schema: T): Parsed<z.output<T>> {
+  return validate(schema, Object.fromEntries(new URL(request.url).searchParams), 'Invalid query');
+}
+
+export async function parseBody<T extends z.ZodTypeAny>(request: Request, schema: T): Promise<Parsed<z.output<T>>> {
+  const body = await request.json().catch(() => undefined);
+  return validate(schema, body, 'Invalid request body');
+}
+
+// The caller's user id, or the 401/403 response
+export async function requireScope(request: Request, scope: ApiTokenScope): Promise<Parsed<string>> {
+  const auth = await authenticateRequest(request, scope);
+  if (!auth.ok) return { ok: false, response: apiError(auth.status, auth.error) };
+  return { ok: true, data: auth.userId };
+}
+
+export function handleApiError(error: unknown): NextResponse {
+  if (error instanceof InvalidCursorError) return apiError(400, error.message);
+  console.error('API v1 error:', error);
+  return apiError(500, error instanceof Error ? error.message : 'Unknown error');
+}
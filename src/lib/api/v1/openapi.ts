@@ -0,0 +1,130 @@
+/**
+ * OpenAPI 3 document of /api/v1, generated from the zod schemas the routes validate with
+ */
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { searchLogsParams } from '@/lib/tools/search-logs';
+import { API_TOKEN_SCOPE_LABELS, type ApiTokenScope } from '@/lib/auth/scopes';
+import {
+  ActionLogQuerySchema,
+  ActionLogSchema,
+  ErrorSchema,
+  pageSchema,
+  RecommendationQuerySchema,
+  RecommendationSchema,
+  SearchResponseSchema,
+  SummaryQuerySchema,
+  SummarySchema,
+} from './schemas';
+
+export const API_VERSION = '1.0.0';
+
+type JsonObject = Record<string, unknown>;
+
+function jsonSchema(schema: z.ZodTypeAny): JsonObject {
+  const converted = zodToJsonSchema(schema, { target: 'openApi3', $refStrategy: 'none' }) as JsonObject;
+  delete converted.$schema;
+  return converted;
+}
+
+function queryParameters(schema: z.AnyZodObject): JsonObject[] {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, field]) => ({
+    name,
+    in: 'query',
+    required: !field.isOptional(),
+    description: field.description,
+    // Optionality is expressed by `required`; converting the ZodOptional itself yields an anyOf with `not: {}`
+    schema: jsonSchema(field instanceof z.ZodOptional ? field.unwrap() : field),
+  }));
+}
+
+function jsonContent(schema: z.ZodTypeAny): JsonObject {
+  return { 'application/json': { schema: jsonSchema(schema) } };
+}
+
+function operation(params: {
+  summary: string;
+  scope: ApiTokenScope;
+  response: z.ZodTypeAny;
+  query?: z.AnyZodObject;
+  pathParameters?: JsonObject[];
+  body?: z.ZodTypeAny;
+  notFound?: boolean;
+}): JsonObject {
+  const error = { content: jsonContent(ErrorSchema) };
+  return {
+    summary: params.summary,
+    description: `Requires a session token or an API token with the \`${params.scope}\` scope (${API_TOKEN_SCOPE_LABELS[params.scope]}).`,
+    parameters: [...(params.pathParameters ?? []), ...(params.query ? queryParameters(params.query) : [])],
+    ...(params.body ? { requestBody: { required: true, content: jsonContent(params.body) } } : {}),
+    responses: {
+      200: { description: 'OK', content: jsonContent(params.response) },
+      400: { description: 'Invalid request', ...error },
+      401: { description: 'Missing, invalid or revoked token', ...error },
+      403: { description: `Token is missing the ${params.scope} scope`, ...error },
+      ...(params.notFound ? { 404: { description: 'Not found', ...error } } : {}),
+    },
+  };
+}
+
+export function buildOpenApiDocument(): JsonObject {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'watchful API',
+      version: API_VERSION,
+      description: 'Read access to your own action logs, interval summaries and recommendations. ' +
+        'Authenticate with `Authorization: Bearer <token>` using a personal API token created in your account settings.',
+    },
+    servers: [{ url: '/api/v1' }],
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Personal API token (ycom_pat_…) or a Supabase session token' },
+      },
+    },
+    security: [{ bearerAuth: [] }],
+    paths: {
+      '/action-logs': {
+        get: operation({
+          summary: 'List action logs, newest first',
+          scope: 'logs:read',
+          query: ActionLogQuerySchema,
+          response: pageSchema(ActionLogSchema),
+        }),
+      },
+      '/action-logs/{id}': {
+        get: operation({
+          summary: 'Get one action log',
+          scope: 'logs:read',
+          pathParameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } }],
+          response: ActionLogSchema,
+          notFound: true,
+        }),
+      },
+      '/summaries': {
+        get: operation({
+          summary: 'List activity summaries of one interval, newest first',
+          scope: 'logs:read',
+          query: SummaryQuerySchema,
+          response: pageSchema(SummarySchema),
+        }),
+      },
+      '/recommendations': {
+        get: operation({
+          summary: 'List recommendations, newest first',
+          scope: 'recommendations:read',
+          query: RecommendationQuerySchema,
+          response: pageSchema(RecommendationSchema),
+        }),
+      },
+      '/search': {
+        post: operation({
+          summary: 'Semantic search over action logs (falls back to text search)',
+          scope: 'logs:read',
+          body: searchLogsParams,
+          response: SearchResponseSchema,
+        }),
+      },
+    },
+  };
+}
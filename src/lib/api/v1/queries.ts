@@ -0,0 +1,135 @@
+/**
+ * 公開REST API（/api/v1）のデータ取得
+ * 一覧はすべて (並び替え列, id) の降順によるキーセットページング
+ */
+import { getSupabaseServiceClient } from '@/lib/supabase/server';
+import { getActionLogType } from '@/lib/ai/time-interval-summarizer';
+import { getEffectiveStatus } from '@/lib/recommendations/lifecycle';
+import type {
+  ActionLog,
+  ActionLogQuery,
+  Page,
+  Recommendation,
+  RecommendationQuery,
+  Summary,
+  SummaryQuery,
+} from './schemas';
+
+const ACTION_LOG_COLUMNS = 'id, type, summary, details, tags, started_at, ended_at, parent_id, source_log_ids, created_at';
+const RECOMMENDATION_COLUMNS =
+  'id, title, content, category, priority, status, snoozed_until, rating, comment, adoption_verdict, adoption_confidence, adoption_evaluated_at, created_at, updated_at';
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// The raw column value is kept (not re-formatted through Date) so microsecond timestamps compare exactly
+function encodeCursor(value: string, id: string): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): [string, string] {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(parsed) && parsed.length === 2 && parsed.every((v) => typeof v === 'string')) {
+      return [parsed[0], parsed[1]];
+    }
+  } catch {}
+  throw new InvalidCursorError();
+}
+
+// Rows strictly after the cursor in (column desc, id desc) order
+function keysetFilter(column: string, cursor: string): string {
+  const [value, id] = decodeCursor(cursor);
+  const quote = (v: string) => `"${v.replace(/["\\]/g, '')}"`;
+  return `${column}.lt.${quote(value)},and(${column}.eq.${quote(value)},id.lt.${quote(id)})`;
+}
+
+function toPage<T extends { id: string }>(rows: T[], limit: number, column: keyof T): Page<T> {
+  const data = rows.slice(0, limit);
+  const last = data[data.length - 1];
+  const next_cursor = rows.length > limit && last ? encodeCursor(String(last[column]), last.id) : null;
+  return { data, next_cursor };
+}
+
+/**
+ * 行動ログ一覧（started_atの新しい順）
+ */
+export async function listActionLogs(userId: string, query: ActionLogQuery): Promise<Page<ActionLog>> {
+  const supabase = getSupabaseServiceClient();
+  let request = supabase
+    .from('action_logs')
+    .select(ACTION_LOG_COLUMNS)
+    .eq('user_id', userId)
+    .order('started_at', { ascending: false })
+    .order('id', { ascending: false })
+    // One extra row tells whether there is a next page
+    .limit(query.limit + 1);
+
+  if (query.type && query.type.length > 0) request = request.in('type', query.type);
+  if (query.tag && query.tag.length > 0) request = request.overlaps('tags', query.tag);
+  if (query.parent_id) request = request.eq('parent_id', query.parent_id);
+  if (query.from) request = request.gte('started_at', query.from);
+  if (query.to) request = request.lt('started_at', query.to);
+  if (query.cursor) request = request.or(keysetFilter('started_at', query.cursor));
+
+  const { data, error } = await request;
+  if (error) throw new Error(`Failed to list action logs: ${error.message}`);
+  return toPage((data ?? []) as ActionLog[], query.limit, 'started_at');
+}
+
+/**
+ * 行動ログ1件（本人のものでなければnull）
+ */
+export async function getActionLog(userId: string, id: string): Promise<ActionLog | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('action_logs')
+    .select(ACTION_LOG_COLUMNS)
+    .eq('user_id', userId)
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to get action log: ${error.message}`);
+  return (data as ActionLog | null) ?? null;
+}
+
+/**
+ * 指定間隔のサマリー一覧（summary_XXのaction_logs）
+ */
+export async function listSummaries(userId: string, query: SummaryQuery): Promise<Page<Summary>> {
+  const { interval, ...rest } = query;
+  const page = await listActionLogs(userId, { ...rest, type: [getActionLogType(interval)] });
+  return { ...page, data: page.data.map((log) => ({ ...log, interval })) };
+}
+
+/**
+ * レコメンド一覧（created_atの新しい順）
+ */
+export async function listRecommendations(userId: string, query: RecommendationQuery): Promise<Page<Recommendation>> {
+  const supabase = getSupabaseServiceClient();
+  let request = supabase
+    .from('recommendations')
+    .select(RECOMMENDATION_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(query.limit + 1);
+
+  if (query.status) request = request.eq('status', query.status);
+  if (query.category) request = request.eq('category', query.category);
+  if (query.priority) request = request.eq('priority', query.priority);
+  if (query.from) request = request.gte('created_at', query.from);
+  if (query.to) request = request.lt('created_at', query.to);
+  if (query.cursor) request = request.or(keysetFilter('created_at', query.cursor));
+
+  const { data, error } = await request;
+  if (error) throw new Error(`Failed to list recommendations: ${error.message}`);
+  const rows = ((data ?? []) as Omit<Recommendation, 'effective_status'>[]).map((row) => ({
+    ...row,
+    effective_status: getEffectiveStatus(row),
+  }));
+  return toPage(rows, query.limit, 'created_at');
+}
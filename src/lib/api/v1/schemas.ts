@@ -0,0 +1,115 @@
+/**
+ * Request and response schemas of the public REST API (/api/v1).
+ * The OpenAPI document is generated from these (see openapi.ts), so they are the contract.
+ */
+import { z } from 'zod';
+import {
+  RECOMMENDATION_CATEGORIES,
+  RECOMMENDATION_PRIORITIES,
+  RECOMMENDATION_STATUSES,
+} from '@/lib/recommendations/lifecycle';
+import { TIME_INTERVALS } from '@/lib/ai/time-interval-summarizer';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+export const MAX_SEARCH_RESULTS = 50;
+
+const isoDateTime = z.string().datetime({ offset: true });
+
+// Comma-separated list in a query string (?type=a,b)
+const csv = z
+  .string()
+  .transform((value) => value.split(',').map((item) => item.trim()).filter(Boolean));
+
+export const PageQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE)
+    .describe(`Page size (1-${MAX_PAGE_SIZE})`),
+  cursor: z.string().optional().describe('next_cursor of the previous page'),
+});
+
+export const ActionLogQuerySchema = PageQuerySchema.extend({
+  type: csv.optional().describe('Comma-separated log types, e.g. screen_capture_analyze,summary_1hour'),
+  tag: csv.optional().describe('Comma-separated tags; logs having any of them are returned'),
+  parent_id: z.string().uuid().optional().describe('Only children of this log'),
+  from: isoDateTime.optional().describe('started_at lower bound (inclusive)'),
+  to: isoDateTime.optional().describe('started_at upper bound (exclusive)'),
+});
+
+export const SummaryQuerySchema = PageQuerySchema.extend({
+  interval: z.enum(TIME_INTERVALS).describe('Summary interval'),
+  from: isoDateTime.optional().describe('Window start lower bound (inclusive)'),
+  to: isoDateTime.optional().describe('Window start upper bound (exclusive)'),
+});
+
+export const RecommendationQuerySchema = PageQuerySchema.extend({
+  status: z.enum(RECOMMENDATION_STATUSES).optional().describe('Stored status'),
+  category: z.enum(RECOMMENDATION_CATEGORIES).optional(),
+  priority: z.enum(RECOMMENDATION_PRIORITIES).optional(),
+  from: isoDateTime.optional().describe('created_at lower bound (inclusive)'),
+  to: isoDateTime.optional().describe('created_at upper bound (exclusive)'),
+});
+
+export type ActionLogQuery = z.infer<typeof ActionLogQuerySchema>;
+export type SummaryQuery = z.infer<typeof SummaryQuerySchema>;
+export type RecommendationQuery = z.infer<typeof RecommendationQuerySchema>;
+
+export const ActionLogSchema = z.object({
+  id: z.string().uuid(),
+  type: z.string(),
+  summary: z.string().nullable(),
+  details: z.unknown().describe('Type-specific JSON (analysis results, storage paths, repeat counts)'),
+  tags: z.array(z.string()).nullable(),
+  started_at: z.string(),
+  ended_at: z.string().nullable(),
+  parent_id: z.string().nullable(),
+  source_log_ids: z.array(z.string()).nullable().describe('Logs a summary was built from'),
+  created_at: z.string().nullable(),
+});
+
+export const SummarySchema = ActionLogSchema.extend({
+  interval: z.enum(TIME_INTERVALS),
+});
+
+export const RecommendationSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string().nullable(),
+  content: z.string().nullable(),
+  category: z.string().nullable(),
+  priority: z.string().nullable(),
+  status: z.string(),
+  effective_status: z.enum(RECOMMENDATION_STATUSES).describe('Status with expired snoozes shown as new'),
+  snoozed_until: z.string().nullable(),
+  rating: z.number().nullable(),
+  comment: z.string().nullable(),
+  adoption_verdict: z.string().nullable(),
+  adoption_confidence: z.number().nullable(),
+  adoption_evaluated_at: z.string().nullable(),
+  created_at: z.string().nullable(),
+  updated_at: z.string().nullable(),
+});
+
+export const SearchResultSchema = ActionLogSchema.omit({ source_log_ids: true, created_at: true }).extend({
+  similarity: z.number().describe('Cosine similarity (0 for text-search matches)'),
+});
+
+export const SearchResponseSchema = z.object({
+  data: z.array(SearchResultSchema),
+  search_method: z.enum(['semantic', 'text']),
+});
+
+export function pageSchema<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    data: z.array(item),
+    next_cursor: z.string().nullable().describe('Pass as ?cursor= to get the next page; null on the last page'),
+  });
+}
+
+export const ErrorSchema = z.object({
+  error: z.string(),
+  issues: z.array(z.string()).optional(),
+});
+
+export type ActionLog = z.infer<typeof ActionLogSchema>;
+export type Summary = z.infer<typeof SummarySchema>;
+export type Recommendation = z.infer<typeof RecommendationSchema>;
+export type Page<T> = { data: T[]; next_cursor: string | null };
@@ -0,0 +1,140 @@
+/**
+ * Personal API tokens (api_tokens): minting and verification
+ */
+import { createHash, randomBytes } from 'crypto';
+import { getSupabaseServiceClient } from '../supabase/server';
+import { API_TOKEN_PREFIX, isApiTokenScope, type ApiTokenScope } from './scopes';
+
+// last_used_at is informational; don't write it on every capture
+const LAST_USED_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface ApiTokenOwner {
+  tokenId: string;
+  userId: string;
+  scopes: ApiTokenScope[];
+}
+
+export interface CreatedApiToken {
+  id: string;
+  token: string; // Only returned here; the database keeps the hash
+  tokenPrefix: string;
+}
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function isApiToken(value: string): boolean {
+  return value.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * トークンを発行する（平文はこの戻り値でのみ返す）
+ */
+export async function createApiToken(params: {
+  userId: string;
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresAt?: Date | null;
+}): Promise<CreatedApiToken> {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const tokenPrefix = token.slice(0, API_TOKEN_PREFIX.length + 6);
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .insert({
+      user_id: params.userId,
+      name: params.name.trim() || 'API token',
+      token_hash: hashApiToken(token),
+      token_prefix: tokenPrefix,
+      scopes: Array.from(new Set(params.scopes)),
+      expires_at: params.expiresAt?.toISOString() ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('❌ APIトークン作成エラー:', error);
+    throw new Error(`Failed to create API token: ${error?.message ?? 'no row returned'}`);
+  }
+  return { id: data.id as string, token, tokenPrefix };
+}
+
+/**
+ * トークンを検証する（未登録・失効・期限切れはnull）
+ */
+export async function verifyApiToken(token: string, now: Date = new Date()): Promise<ApiTokenOwner | null> {
+  if (!isApiToken(token)) return null;
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .select('id, user_id, scopes, expires_at, revoked_at, last_used_at')
+    .eq('token_hash', hashApiToken(token))
+    .maybeSingle();
+  if (error || !data) return null;
+
+  const row = data as {
+    id: string;
+    user_id: string;
+    scopes: string[] | null;
+    expires_at: string | null;
+    revoked_at: string | null;
+    last_used_at: string | null;
+  };
+  if (row.revoked_at) return null;
+  if (row.expires_at && new Date(row.expires_at).getTime() <= now.getTime()) return null;
+
+  const lastUsed = row.last_used_at ? new Date(row.last_used_at).getTime() : 0;
+  if (now.getTime() - lastUsed > LAST_USED_UPDATE_INTERVAL_MS) {
+    const { error: updateError } = await supabase
+      .from('api_tokens')
+      .update({ last_used_at: now.toISOString() })
+      .eq('id', row.id);
+    if (updateError) console.warn('⚠️ Failed to update token last_used_at:', updateError.message);
+  }
+
+  return { tokenId: row.id, userId: row.user_id, scopes: (row.scopes ?? []).filter(isApiTokenScope) };
+}
+
+// Everything except the hash, for the token list in the account UI
+export interface ApiTokenSummary {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: string[];
+  created_at: string | null;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+/**
+ * ユーザーのトークン一覧（失効済みを含む、新しい順）
+ */
+export async function listApiTokens(userId: string): Promise<ApiTokenSummary[]> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .select('id, name, token_prefix, scopes, created_at, last_used_at, expires_at, revoked_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Failed to list API tokens: ${error.message}`);
+  return (data ?? []) as ApiTokenSummary[];
+}
+
+/**
+ * トークンを失効させる（行は利用履歴のため残す）
+ * 本人のトークンでなければfalse
+ */
+export async function revokeApiToken(userId: string, tokenId: string): Promise<boolean> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', tokenId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+  if (error) throw new Error(`Failed to revoke API token: ${error.message}`);
+  return (data ?? []).length > 0;
+}
@@ -0,0 +1,34 @@
+/**
+ * Resolve the caller of an API route: a signed-in browser session (Supabase JWT)
+ * or a personal API token with the required scope. Both arrive as `Authorization: Bearer …`.
+ */
+import { getUserFromRequest } from '../supabase/server';
+import { isApiToken, verifyApiToken } from './api-tokens';
+import type { ApiTokenScope } from './scopes';
+
+export type RequestAuth =
+  | { ok: true; userId: string; via: 'session' | 'token'; tokenId?: string }
+  | { ok: false; status: 401 | 403; error: string };
+
+function bearerToken(request: Request): string | null {
+  const match = (request.headers.get('authorization') || '').match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+export async function authenticateRequest(request: Request, scope: ApiTokenScope): Promise<RequestAuth> {
+  const token = bearerToken(request);
+  if (!token) return { ok: false, status: 401, error: 'Unauthorized' };
+
+  if (isApiToken(token)) {
+    const owner = await verifyApiToken(token);
+    if (!owner) return { ok: false, status: 401, error: 'Invalid or revoked API token' };
+    if (!owner.scopes.includes(scope)) {
+      return { ok: false, status: 403, error: `API token is missing the "${scope}" scope` };
+    }
+    return { ok: true, userId: owner.userId, via: 'token', tokenId: owner.tokenId };
+  }
+
+  const user = await getUserFromRequest(request);
+  if (!user) return { ok: false, status: 401, error: 'Unauthorized' };
+  return { ok: true, userId: user.id, via: 'session' };
+}
@@ -0,0 +1,27 @@
+/**
+ * Scopes for personal API tokens.
+ * Pure helpers only — safe to import from client components.
+ * Browser sessions are not scoped; a token can only do what its scopes allow.
+ */
+
+export const API_TOKEN_SCOPES = [
+  'capture:write',
+  'notifications:write',
+  'logs:read',
+  'recommendations:read',
+] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export const API_TOKEN_SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'capture:write': 'Upload screenshots and recordings',
+  'notifications:write': 'Register devices and send notifications',
+  'logs:read': 'Read and search action logs and summaries',
+  'recommendations:read': 'Read recommendations',
+};
+
+// Personal tokens are recognisable by prefix, so they are never sent to Supabase as JWTs
+export const API_TOKEN_PREFIX = 'ycom_pat_';
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === 'string' && (API_TOKEN_SCOPES as readonly string[]).includes(value);
+}
@@ -0,0 +1,121 @@
+/**
+ * Collapse unchanged screenshots into the previous screen_capture_analyze row
+ * (details.frame_hash / details.repeat_count, ended_at extended) instead of storing and analyzing them again
+ */
+import sharp from 'sharp';
+import { getSupabaseServiceClient } from '../supabase/server';
+import {
+  computeDifferenceHash,
+  DUPLICATE_FRAME_MAX_GAP_MS,
+  FRAME_HASH_HEIGHT,
+  FRAME_HASH_WIDTH,
+  isDuplicateFrame,
+} from './frame-hash';
+
+export interface RepeatedCapture {
+  id: string;
+  summary: string | null;
+  details: Record<string, unknown>;
+  repeatCount: number;
+}
+
+interface CaptureRow {
+  id: string;
+  user_id: string;
+  summary: string | null;
+  details: unknown;
+  started_at: string;
+  ended_at: string | null;
+}
+
+function detailsOf(row: { details: unknown }): Record<string, unknown> {
+  return row.details && typeof row.details === 'object' && !Array.isArray(row.details)
+    ? (row.details as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * 画像から知覚ハッシュを計算する（デコードできない場合はnull）
+ */
+export async function computeImageFrameHash(image: Buffer): Promise<string | null> {
+  try {
+    const pixels = await sharp(image)
+      .grayscale()
+      .resize(FRAME_HASH_WIDTH, FRAME_HASH_HEIGHT, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+    return computeDifferenceHash(pixels);
+  } catch (error) {
+    console.warn('⚠️ Failed to hash frame:', error);
+    return null;
+  }
+}
+
+/**
+ * 直前のキャプチャと同じ画面であればそのaction_logを返す
+ */
+export async function findRepeatedCapture(
+  userId: string,
+  frameHash: string,
+  now: Date = new Date()
+): Promise<CaptureRow | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data } = await supabase
+    .from('action_logs')
+    .select('id, user_id, summary, details, started_at, ended_at')
+    .eq('user_id', userId)
+    .eq('type', 'screen_capture_analyze')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (!data) return null;
+
+  const row = data as CaptureRow;
+  const lastSeen = new Date(row.ended_at ?? row.started_at).getTime();
+  const gap = now.getTime() - lastSeen;
+  // A late (queued) capture older than the latest row is stored on its own rather than folded into the future
+  if (gap < 0 || gap > DUPLICATE_FRAME_MAX_GAP_MS) return null;
+  const previousHash = detailsOf(row).frame_hash;
+  return isDuplicateFrame(typeof previousHash === 'string' ? previousHash : null, frameHash) ? row : null;
+}
+
+/**
+ * 繰り返しのキャプチャとして記録する（ended_atを延長し、repeat_countを加算）
+ * 他のユーザーの行やscreen_capture_analyze以外の行、別のフォーカスセッション・セッションの行はnull
+ */
+export async function extendRepeatedCapture(
+  actionLogId: string,
+  userId: string,
+  now: Date = new Date(),
+  focusSessionId: string | null = null,
+  sessionId: string | null = null
+): Promise<RepeatedCapture | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data } = await supabase
+    .from('action_logs')
+    .select('id, user_id, summary, details, started_at, ended_at')
+    .eq('id', actionLogId)
+    .eq('user_id', userId)
+    .eq('type', 'screen_capture_analyze')
+    .maybeSingle();
+  if (!data) return null;
+
+  const row = data as CaptureRow;
+  const previous = detailsOf(row);
+  // A session's report reads its tagged rows, so a session boundary always starts a new row
+  if ((previous.focus_session_id ?? null) !== focusSessionId || (previous.session_id ?? null) !== sessionId) return null;
+  const repeatCount = (typeof previous.repeat_count === 'number' ? previous.repeat_count : 1) + 1;
+  const details = { ...previous, repeat_count: repeatCount };
+
+  const { error } = await supabase
+    .from('action_logs')
+    // The repeat count is part of the 10min summary's input, so the window is summarized again
+    .update({ details, ended_at: now.toISOString(), generated_at: new Date().toISOString() })
+    .eq('id', row.id);
+  if (error) {
+    throw new Error(`Failed to extend repeated capture: ${error.message}`);
+  }
+
+  console.log(`🔁 Unchanged screen, extended ${row.id} (x${repeatCount})`);
+  return { id: row.id, summary: row.summary, details, repeatCount };
+}
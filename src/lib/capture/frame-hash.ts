@@ -0,0 +1,79 @@
+/**
+ * Perceptual frame hashing for screen captures (difference hash)
+ * Pure helpers only — shared by the capture client (canvas) and the screenshot route (sharp).
+ */
+
+// Hash grid: frames are reduced to (FRAME_HASH_SIZE + 1) x FRAME_HASH_SIZE grayscale pixels → 1024-bit hash
+// (a 16-row grid could not tell a few new lines of code in a 1080p editor from an unchanged screen)
+export const FRAME_HASH_SIZE = 32;
+export const FRAME_HASH_WIDTH = FRAME_HASH_SIZE + 1;
+export const FRAME_HASH_HEIGHT = FRAME_HASH_SIZE;
+
+// Frames whose hashes differ in at most this many bits are treated as the same screen
+// Typing a few characters flips only a bit or two, so any difference counts as a new screen
+export const DUPLICATE_FRAME_MAX_DISTANCE = 0;
+
+// A repeat only extends the previous capture if it arrives within this gap (e.g. not after a break)
+export const DUPLICATE_FRAME_MAX_GAP_MS = 60 * 1000;
+
+/**
+ * dHash over a FRAME_HASH_WIDTH x FRAME_HASH_HEIGHT grayscale image (row-major, one byte per pixel)
+ * Each bit says whether a pixel is brighter than its right neighbour.
+ */
+export function computeDifferenceHash(gray: ArrayLike<number>): string {
+  if (gray.length < FRAME_HASH_WIDTH * FRAME_HASH_HEIGHT) {
+    throw new Error(`Expected ${FRAME_HASH_WIDTH * FRAME_HASH_HEIGHT} grayscale pixels, got ${gray.length}`);
+  }
+  let hex = '';
+  let nibble = 0;
+  let bits = 0;
+  for (let y = 0; y < FRAME_HASH_HEIGHT; y++) {
+    for (let x = 0; x < FRAME_HASH_SIZE; x++) {
+      const i = y * FRAME_HASH_WIDTH + x;
+      nibble = (nibble << 1) | (gray[i] > gray[i + 1] ? 1 : 0);
+      if (++bits === 4) {
+        hex += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+  return hex;
+}
+
+/**
+ * Convert RGBA pixels (e.g. canvas ImageData) to luminance
+ */
+export function rgbaToGray(rgba: ArrayLike<number>): Uint8Array {
+  const gray = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2]);
+  }
+  return gray;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Number.POSITIVE_INFINITY;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+export function isDuplicateFrame(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && hammingDistance(a, b) <= DUPLICATE_FRAME_MAX_DISTANCE;
+}
+
+/**
+ * How many consecutive captures an action_logs row stands for (details.repeat_count, default 1)
+ */
+export function getRepeatCount(details: unknown): number {
+  if (!details || typeof details !== 'object' || Array.isArray(details)) return 1;
+  const count = (details as Record<string, unknown>).repeat_count;
+  return typeof count === 'number' && count > 1 ? count : 1;
+}
@@ -0,0 +1,143 @@
+/**
+ * Browser-side redaction of a captured frame, applied in place before it is hashed, saved or queued.
+ *
+ * - Whole frame blurred when the shared window/tab title or the on-screen text hits the blocklist
+ *   (any blocklist turns OCR on; the title alone is fixed when sharing starts)
+ * - Configured regions blurred
+ * - Text matching the OCR patterns covered with solid boxes (tesseract.js, runs in a worker on-device)
+ *
+ * Blurring is done by down- and up-scaling, which works in every browser (ctx.filter does not exist in Safari).
+ */
+import type { Worker as OcrWorker } from 'tesseract.js';
+import {
+  findSensitiveWords,
+  matchBlocklist,
+  needsOcr,
+  type OcrWord,
+  type RedactionRegion,
+  type RedactionSettings,
+  type TextBox,
+} from './redaction';
+
+export interface RedactionContext {
+  sourceLabel?: string | null; // Track label of the screen share (window/tab title where the browser exposes it)
+}
+
+export interface RedactionReport {
+  blocked: string | null; // Blocklist entry that blurred the whole frame
+  regions: number;
+  maskedWords: number;
+}
+
+const REGION_BLUR_FACTOR = 16;
+const FRAME_BLUR_FACTOR = 48;
+const MASK_PADDING = 4;
+// Blur the whole frame rather than upload unmasked text when OCR cannot run
+export const OCR_UNAVAILABLE = 'ocr-unavailable';
+
+let workerPromise: Promise<OcrWorker> | null = null;
+
+function getOcrWorker(): Promise<OcrWorker> {
+  if (!workerPromise) {
+    workerPromise = import('tesseract.js')
+      .then(({ createWorker }) => createWorker('eng'))
+      .catch((error) => {
+        workerPromise = null;
+        throw error;
+      });
+  }
+  return workerPromise;
+}
+
+async function recognizeLines(canvas: HTMLCanvasElement): Promise<{ text: string; lines: OcrWord[][] }> {
+  const worker = await getOcrWorker();
+  const { data } = await worker.recognize(canvas, {}, { text: true, blocks: true });
+  const lines: OcrWord[][] = [];
+  for (const block of data.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        lines.push(line.words.map((word) => ({ text: word.text, bbox: word.bbox })));
+      }
+    }
+  }
+  return { text: data.text, lines };
+}
+
+function blurRect(canvas: HTMLCanvasElement, x: number, y: number, width: number, height: number, factor: number) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx || width < 1 || height < 1) return;
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.round(width / factor));
+  small.height = Math.max(1, Math.round(height / factor));
+  const smallCtx = small.getContext('2d');
+  if (!smallCtx) return;
+  smallCtx.imageSmoothingEnabled = true;
+  smallCtx.drawImage(canvas, x, y, width, height, 0, 0, small.width, small.height);
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(small, 0, 0, small.width, small.height, x, y, width, height);
+  ctx.restore();
+}
+
+function blurRegion(canvas: HTMLCanvasElement, region: RedactionRegion) {
+  const x = Math.round(region.x * canvas.width);
+  const y = Math.round(region.y * canvas.height);
+  const width = Math.round(Math.min(region.width, 1 - region.x) * canvas.width);
+  const height = Math.round(Math.min(region.height, 1 - region.y) * canvas.height);
+  blurRect(canvas, x, y, width, height, REGION_BLUR_FACTOR);
+}
+
+function maskBoxes(canvas: HTMLCanvasElement, boxes: TextBox[]) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.save();
+  ctx.fillStyle = '#000';
+  for (const box of boxes) {
+    ctx.fillRect(
+      box.x0 - MASK_PADDING,
+      box.y0 - MASK_PADDING,
+      box.x1 - box.x0 + MASK_PADDING * 2,
+      box.y1 - box.y0 + MASK_PADDING * 2
+    );
+  }
+  ctx.restore();
+}
+
+/**
+ * Redact the canvas in place according to the user's settings
+ */
+export async function redactCanvas(
+  canvas: HTMLCanvasElement,
+  settings: RedactionSettings,
+  context: RedactionContext = {}
+): Promise<RedactionReport> {
+  const report: RedactionReport = { blocked: null, regions: 0, maskedWords: 0 };
+  if (!settings.enabled) return report;
+
+  report.blocked = matchBlocklist([context.sourceLabel], settings.blocklist);
+
+  let boxes: TextBox[] = [];
+  if (!report.blocked && needsOcr(settings)) {
+    try {
+      const { text, lines } = await recognizeLines(canvas);
+      report.blocked = matchBlocklist([text], settings.blocklist);
+      if (settings.ocr.enabled) boxes = findSensitiveWords(lines, settings.ocr);
+    } catch (error) {
+      console.warn('OCR redaction failed:', error);
+      report.blocked = OCR_UNAVAILABLE;
+    }
+  }
+
+  if (report.blocked) {
+    blurRect(canvas, 0, 0, canvas.width, canvas.height, FRAME_BLUR_FACTOR);
+    return report;
+  }
+
+  for (const region of settings.regions) {
+    blurRegion(canvas, region);
+    report.regions++;
+  }
+  maskBoxes(canvas, boxes);
+  report.maskedWords = boxes.length;
+  return report;
+}
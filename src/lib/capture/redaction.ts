@@ -0,0 +1,172 @@
+/**
+ * Screenshot redaction settings (stored in profiles.redaction_settings) and text matching.
+ * Pure helpers only — safe to import from client components; the canvas work lives in redact-frame.ts.
+ */
+import { z } from 'zod';
+
+export const REDACTION_PATTERN_IDS = ['email', 'card', 'apiKey'] as const;
+export type RedactionPatternId = typeof REDACTION_PATTERN_IDS[number];
+
+export const REDACTION_PATTERN_LABELS: Record<RedactionPatternId, string> = {
+  email: 'メールアドレス',
+  card: 'クレジットカード番号',
+  apiKey: 'APIキー・トークン',
+};
+
+const REDACTION_PATTERNS: Record<RedactionPatternId, RegExp> = {
+  email: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  card: /\b\d(?:[ -]?\d){12,18}\b/g,
+  apiKey: /\b(?:sk-[A-Za-z0-9_-]{16,}|[sr]k_(?:live|test)_[A-Za-z0-9]{16,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{30,}|xox[abpr]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35}|eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})/g,
+};
+
+// A rectangle in fractions of the frame (0–1), so it survives resolution changes
+export const RedactionRegionSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0).max(1),
+  height: z.number().min(0).max(1),
+});
+
+export type RedactionRegion = z.infer<typeof RedactionRegionSchema>;
+
+export const RedactionSettingsSchema = z.object({
+  enabled: z.boolean(),
+  regions: z.array(RedactionRegionSchema).max(20),
+  blocklist: z.array(z.string()).max(100), // Case-insensitive substrings of the shared window/tab title or on-screen text
+  ocr: z.object({
+    enabled: z.boolean(),
+    patterns: z.array(z.enum(REDACTION_PATTERN_IDS)),
+    customPatterns: z.array(z.string()).max(20), // Regular expressions
+  }),
+});
+
+export type RedactionSettings = z.infer<typeof RedactionSettingsSchema>;
+
+// Redaction is opt-in: video cannot be redacted, so no recordings (and no recording analysis or
+// recommendations) are made while it is on. OCR downloads its model on first use and is slow on
+// large screens, so it is opt-in as well.
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: false,
+  regions: [],
+  blocklist: ['password', 'パスワード', 'bank', '銀行', '1password', 'bitwarden'],
+  ocr: { enabled: false, patterns: [...REDACTION_PATTERN_IDS], customPatterns: [] },
+};
+
+export interface TextBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrWord {
+  text: string;
+  bbox: TextBox;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Read stored settings, filling missing or invalid fields with defaults
+ */
+export function parseRedactionSettings(value: unknown): RedactionSettings {
+  if (!isRecord(value)) return DEFAULT_REDACTION_SETTINGS;
+  const d = DEFAULT_REDACTION_SETTINGS;
+  const merged = {
+    enabled: value.enabled ?? d.enabled,
+    regions: value.regions ?? d.regions,
+    blocklist: value.blocklist ?? d.blocklist,
+    ocr: { ...d.ocr, ...(isRecord(value.ocr) ? value.ocr : {}) },
+  };
+  const parsed = RedactionSettingsSchema.safeParse(merged);
+  return parsed.success ? parsed.data : d;
+}
+
+/**
+ * Whether frames have to be read with OCR: for the patterns, and for any blocklist, because the
+ * share's track label is fixed when sharing starts (and is only "screen:0:0" for a whole monitor),
+ * so a blocked tab or app opened later is only visible in the frame itself
+ */
+export function needsOcr(settings: RedactionSettings): boolean {
+  return settings.enabled && (settings.ocr.enabled || settings.blocklist.some((entry) => entry.trim()));
+}
+
+/**
+ * The first blocklist entry found in any of the texts (window/tab title, OCR text), or null
+ */
+export function matchBlocklist(texts: (string | null | undefined)[], blocklist: string[]): string | null {
+  const haystack = texts.filter(Boolean).join('\n').toLowerCase();
+  if (!haystack) return null;
+  return blocklist.find((entry) => entry.trim() && haystack.includes(entry.trim().toLowerCase())) ?? null;
+}
+
+// Luhn checksum, to avoid masking every long number (timestamps, order ids)
+function isLuhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export function compileRedactionPatterns(settings: RedactionSettings['ocr']): { id: string; pattern: RegExp }[] {
+  const compiled: { id: string; pattern: RegExp }[] = settings.patterns.map((id) => ({
+    id,
+    pattern: new RegExp(REDACTION_PATTERNS[id].source, REDACTION_PATTERNS[id].flags),
+  }));
+  for (const source of settings.customPatterns) {
+    if (!source.trim()) continue;
+    try {
+      compiled.push({ id: 'custom', pattern: new RegExp(source, 'gi') });
+    } catch {
+      // Invalid expressions are ignored (the settings form flags them)
+    }
+  }
+  return compiled;
+}
+
+/**
+ * Character ranges of sensitive text in a string
+ */
+export function findSensitiveRanges(text: string, settings: RedactionSettings['ocr']): [number, number][] {
+  const ranges: [number, number][] = [];
+  for (const { id, pattern } of compileRedactionPatterns(settings)) {
+    for (const match of text.matchAll(pattern)) {
+      if (!match[0]) continue;
+      if (id === 'card' && !isLuhnValid(match[0])) continue;
+      const start = match.index ?? 0;
+      ranges.push([start, start + match[0].length]);
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Boxes of OCR words that are part of sensitive text.
+ * Words of a line are joined with spaces, so values split across words (card numbers) still match.
+ */
+export function findSensitiveWords(lines: OcrWord[][], settings: RedactionSettings['ocr']): TextBox[] {
+  const boxes: TextBox[] = [];
+  for (const words of lines) {
+    let text = '';
+    const offsets = words.map((word) => {
+      const start = text.length ? text.length + 1 : 0;
+      text = text.length ? `${text} ${word.text}` : word.text;
+      return [start, start + word.text.length] as const;
+    });
+    const ranges = findSensitiveRanges(text, settings);
+    words.forEach((word, i) => {
+      const [start, end] = offsets[i];
+      if (ranges.some(([from, to]) => start < to && end > from)) boxes.push(word.bbox);
+    });
+  }
+  return boxes;
+}
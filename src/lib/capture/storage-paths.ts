@@ -0,0 +1,31 @@
+/**
+ * Object paths in the private `captures` bucket.
+ * Pure helpers only — safe to import from client components.
+ *
+ * Objects live under the owner's id ("<user id>/screenshots/…"). Objects uploaded before the
+ * bucket went private have no prefix; their owner is resolved from the images/videos rows.
+ */
+
+export const CAPTURE_BUCKET = 'captures';
+export const ANONYMOUS_CAPTURE_PREFIX = 'anonymous';
+export const MAX_SIGNED_URLS_PER_REQUEST = 200;
+
+export type CaptureFolder = 'screenshots' | 'recordings' | 'uploads' | 'files';
+
+export function captureObjectPath(userId: string | null | undefined, folder: CaptureFolder, fileName: string): string {
+  return `${userId || ANONYMOUS_CAPTURE_PREFIX}/${folder}/${fileName}`;
+}
+
+export function isUserCapturePath(userId: string, path: string): boolean {
+  return path.startsWith(`${userId}/`) && !path.split('/').includes('..');
+}
+
+/**
+ * Storage path from a public object URL (stored by older chat citations), or null
+ */
+export function capturePathFromPublicUrl(url: string): string | null {
+  const marker = `/storage/v1/object/public/${CAPTURE_BUCKET}/`;
+  const index = url.indexOf(marker);
+  if (index === -1) return null;
+  return decodeURIComponent(url.slice(index + marker.length).split('?')[0]);
+}
@@ -0,0 +1,59 @@
+/**
+ * Signed URLs for the private captures bucket
+ */
+import { getSupabaseServiceClient } from '../supabase/server';
+import { CAPTURE_BUCKET, isUserCapturePath } from './storage-paths';
+
+// Long enough to load a page of thumbnails or play a 60s recording, short enough that a leaked link goes stale
+export const SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+/**
+ * 署名付きURLを発行する（発行できなかったパスは含まれない）
+ */
+export async function createSignedCaptureUrls(
+  paths: string[],
+  expiresIn: number = SIGNED_URL_TTL_SECONDS
+): Promise<Map<string, string>> {
+  const urls = new Map<string, string>();
+  const unique = Array.from(new Set(paths.filter(Boolean)));
+  if (unique.length === 0) return urls;
+
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase.storage.from(CAPTURE_BUCKET).createSignedUrls(unique, expiresIn);
+  if (error) {
+    console.warn('⚠️ Failed to sign capture URLs:', error.message);
+    return urls;
+  }
+  for (const item of (data ?? []) as { path: string | null; signedUrl: string | null; error: string | null }[]) {
+    if (item.path && item.signedUrl && !item.error) urls.set(item.path, item.signedUrl);
+  }
+  return urls;
+}
+
+export async function createSignedCaptureUrl(
+  path: string,
+  expiresIn: number = SIGNED_URL_TTL_SECONDS
+): Promise<string | null> {
+  return (await createSignedCaptureUrls([path], expiresIn)).get(path) ?? null;
+}
+
+/**
+ * ユーザーが所有するパスだけを返す
+ * （"<user id>/" 配下、またはプレフィックス導入前の images/videos 行が本人のもの）
+ */
+export async function filterOwnedCapturePaths(userId: string, paths: string[]): Promise<string[]> {
+  const unique = Array.from(new Set(paths.filter(Boolean)));
+  const owned = new Set(unique.filter((path) => isUserCapturePath(userId, path)));
+  const legacy = unique.filter((path) => !owned.has(path) && !path.includes('/..'));
+  if (legacy.length > 0) {
+    const supabase = getSupabaseServiceClient();
+    const [images, videos] = await Promise.all([
+      supabase.from('images').select('storage_path').eq('user_id', userId).in('storage_path', legacy),
+      supabase.from('videos').select('storage_path').eq('user_id', userId).in('storage_path', legacy),
+    ]);
+    for (const row of [...(images.data ?? []), ...(videos.data ?? [])] as { storage_path: string }[]) {
+      owned.add(row.storage_path);
+    }
+  }
+  return unique.filter((path) => owned.has(path));
+}
@@ -0,0 +1,148 @@
+/**
+ * Browser-side queue for captures that have not reached the server yet.
+ *
+ * Every screenshot and recording is written to IndexedDB before it is uploaded, so a dropped
+ * connection or a 5xx only delays it: entries keep their capture time, are retried with
+ * exponential backoff and are uploaded oldest first. Falls back to memory when IndexedDB
+ * is unavailable (private browsing, SSR).
+ */
+
+export type CaptureKind = 'screenshot' | 'recording';
+
+export interface QueuedCapture {
+  id: number;
+  kind: CaptureKind;
+  userId: string;
+  blob: Blob;
+  fileName: string;
+  mimeType: string;
+  capturedAt: number; // ms since epoch, sent as captured_at
+  frameHash: string | null;
+  uploadId: string | null; // Resumable upload id for recordings
+  focusSessionId: string | null; // Focus session running when it was taken, sent as focus_session_id
+  sessionId: string | null; // SessionContext session it belongs to, sent as session_id (missing in older entries)
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+}
+
+export type NewQueuedCapture = Pick<QueuedCapture, 'kind' | 'userId' | 'blob' | 'fileName' | 'mimeType' | 'capturedAt'> &
+  Partial<Pick<QueuedCapture, 'frameHash' | 'uploadId' | 'focusSessionId' | 'sessionId'>>;
+
+// Recordings are sent in pieces of this size so a retry only re-sends what the server is missing
+export const RECORDING_CHUNK_BYTES = 1024 * 1024;
+export const UPLOAD_RETRY_BASE_MS = 5 * 1000;
+export const UPLOAD_RETRY_MAX_MS = 5 * 60 * 1000;
+// While another request is processing a recording, its result is polled for this long before retrying later
+export const RECORDING_POLL_INTERVAL_MS = 5 * 1000;
+export const RECORDING_POLL_MAX_MS = 2 * 60 * 1000;
+
+const DB_NAME = 'ycom-capture-queue';
+const DB_VERSION = 1;
+const STORE = 'captures';
+
+/**
+ * Upload failure with the HTTP status (0 when the request never reached the server)
+ */
+export class CaptureUploadError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'CaptureUploadError';
+  }
+
+  // Network failures, a recording still being processed (202), an expired session (401, retried once
+  // the token is refreshed), timeouts, rate limits, server errors and missing recording chunks (409)
+  // are worth retrying; other 4xx are not
+  get retryable(): boolean {
+    return [0, 202, 401, 408, 409, 429].includes(this.status) || this.status >= 500;
+  }
+}
+
+export function retryDelay(attempts: number): number {
+  return Math.min(UPLOAD_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), UPLOAD_RETRY_MAX_MS);
+}
+
+export function countChunks(size: number): number {
+  return Math.max(Math.ceil(size / RECORDING_CHUNK_BYTES), 1);
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memoryStore = new Map<number, QueuedCapture>();
+let memoryId = 0;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('userId', 'userId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+function run<T>(db: IDBDatabase, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function enqueueCapture(input: NewQueuedCapture): Promise<QueuedCapture> {
+  const entry: Omit<QueuedCapture, 'id'> = {
+    frameHash: null,
+    uploadId: null,
+    focusSessionId: null,
+    sessionId: null,
+    ...input,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError: null,
+  };
+  const db = await openDb();
+  if (!db) {
+    const stored = { ...entry, id: ++memoryId };
+    memoryStore.set(stored.id, stored);
+    return stored;
+  }
+  const id = await run(db, 'readwrite', (store) => store.add(entry));
+  return { ...entry, id: Number(id) };
+}
+
+/**
+ * The user's queued captures, oldest first
+ */
+export async function listQueuedCaptures(userId: string): Promise<QueuedCapture[]> {
+  const db = await openDb();
+  const all = db
+    ? await run(db, 'readonly', (store) => store.index('userId').getAll(userId) as IDBRequest<QueuedCapture[]>)
+    : Array.from(memoryStore.values()).filter((entry) => entry.userId === userId);
+  return all.sort((a, b) => a.capturedAt - b.capturedAt || a.id - b.id);
+}
+
+export async function updateQueuedCapture(entry: QueuedCapture): Promise<void> {
+  const db = await openDb();
+  if (!db) {
+    memoryStore.set(entry.id, entry);
+    return;
+  }
+  await run(db, 'readwrite', (store) => store.put(entry));
+}
+
+export async function removeQueuedCapture(id: number): Promise<void> {
+  const db = await openDb();
+  if (!db) {
+    memoryStore.delete(id);
+    return;
+  }
+  await run(db, 'readwrite', (store) => store.delete(id));
+}
@@ -0,0 +1,301 @@
+/**
+ * Server side of capture uploads: capture timestamps sent by (possibly offline) clients,
+ * resumable recording uploads stored as chunks, and the shared recording pipeline
+ */
+import { randomUUID } from 'crypto';
+import { getSupabaseServiceClient } from '../supabase/server';
+import {
+  analyzeVideoFromPath,
+  type ProductivityAnalysis,
+  type ProductivityAnalysisResult,
+} from '../ai/productivity-analyzer';
+import { saveProductivityAnalysis } from '../supabase/productivity-analyses';
+import { RECORDING_CHUNK_BYTES } from './upload-queue';
+import { createSignedCaptureUrl } from './storage';
+import { CAPTURE_BUCKET, captureObjectPath } from './storage-paths';
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Captures queued for longer than this are still accepted, but older timestamps are treated as bogus
+const MAX_CAPTURE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+// A processing claim older than this is from a request that died; the next completion takes it over
+const PROCESSING_CLAIM_TTL_MS = 15 * 60 * 1000;
+
+export interface RecordingInput {
+  userId: string;
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+  capturedAt: Date;
+  focusSessionId?: string | null; // Already checked with resolveCaptureFocusSession
+  sessionId?: string | null; // Already checked with resolveCaptureSession, stored as parent_id and details.session_id
+}
+
+export interface RecordingResult {
+  path: string;
+  url: string | null;
+  analysis: ProductivityAnalysisResult | null;
+  analysisId: string | null;
+  analysisError: string | null;
+}
+
+/**
+ * クライアントから送られた撮影時刻（ISO文字列またはミリ秒）を解釈する
+ * 不正な値・未来の時刻・古すぎる時刻はサーバーの現在時刻にする
+ */
+export function parseCapturedAt(value: unknown, now: Date = new Date()): Date {
+  if (typeof value !== 'string' || !value.trim()) return now;
+  const parsed = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  const time = parsed.getTime();
+  if (Number.isNaN(time) || time > now.getTime() || now.getTime() - time > MAX_CAPTURE_AGE_MS) return now;
+  return parsed;
+}
+
+export function isValidUploadId(uploadId: string): boolean {
+  return UPLOAD_ID_PATTERN.test(uploadId);
+}
+
+// Chunks live under the uploader's own prefix, so an upload id cannot be used to reach another user's recording
+function chunkFolder(userId: string, uploadId: string): string {
+  return captureObjectPath(userId, 'uploads', uploadId);
+}
+
+function chunkPath(userId: string, uploadId: string, index: number): string {
+  return `${chunkFolder(userId, uploadId)}/${String(index).padStart(5, '0')}.part`;
+}
+
+/**
+ * 受信済みのチャンク番号を返す（再開時にクライアントが未送信分だけ送るため）
+ */
+export async function listReceivedChunks(userId: string, uploadId: string): Promise<number[]> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase.storage
+    .from(CAPTURE_BUCKET)
+    .list(chunkFolder(userId, uploadId), { limit: 1000, sortBy: { column: 'name', order: 'asc' } });
+  if (error) throw new Error(`Failed to list chunks: ${error.message}`);
+  return (data ?? [])
+    .map((object: { name: string }) => Number.parseInt(object.name, 10))
+    .filter((index: number) => Number.isInteger(index))
+    .sort((a: number, b: number) => a - b);
+}
+
+/**
+ * チャンクを保存する（同じ番号の再送は上書きなので冪等）
+ */
+export async function storeChunk(userId: string, uploadId: string, index: number, chunk: Buffer): Promise<void> {
+  if (chunk.length === 0 || chunk.length > RECORDING_CHUNK_BYTES) {
+    throw new Error(`Chunk must be between 1 and ${RECORDING_CHUNK_BYTES} bytes`);
+  }
+  const supabase = getSupabaseServiceClient();
+  const { error } = await supabase.storage
+    .from(CAPTURE_BUCKET)
+    .upload(chunkPath(userId, uploadId, index), chunk, { contentType: 'application/octet-stream', upsert: true });
+  if (error) throw new Error(`Failed to store chunk ${index}: ${error.message}`);
+}
+
+/**
+ * 全チャンクを順番に結合する（欠けている場合はその番号を返す）
+ */
+export async function assembleChunks(
+  userId: string,
+  uploadId: string,
+  chunkCount: number
+): Promise<{ buffer: Buffer; missing: number[] }> {
+  const received = new Set(await listReceivedChunks(userId, uploadId));
+  const missing = Array.from({ length: chunkCount }, (_, i) => i).filter((i) => !received.has(i));
+  if (missing.length > 0) return { buffer: Buffer.alloc(0), missing };
+
+  const supabase = getSupabaseServiceClient();
+  const parts: Buffer[] = [];
+  for (let index = 0; index < chunkCount; index++) {
+    const { data, error } = await supabase.storage.from(CAPTURE_BUCKET).download(chunkPath(userId, uploadId, index));
+    if (error || !data) throw new Error(`Failed to read chunk ${index}: ${error?.message ?? 'empty'}`);
+    parts.push(Buffer.from(await data.arrayBuffer()));
+  }
+  return { buffer: Buffer.concat(parts), missing: [] };
+}
+
+function completionPath(userId: string, uploadId: string): string {
+  return `${chunkFolder(userId, uploadId)}/complete.json`;
+}
+
+function processingPath(userId: string, uploadId: string): string {
+  return `${chunkFolder(userId, uploadId)}/processing.json`;
+}
+
+async function readProcessingClaim(userId: string, uploadId: string): Promise<Date | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase.storage.from(CAPTURE_BUCKET).download(processingPath(userId, uploadId));
+  if (error || !data) return null;
+  try {
+    const claimedAt = new Date((JSON.parse(await data.text()) as { claimed_at?: string }).claimed_at ?? '');
+    return Number.isNaN(claimedAt.getTime()) ? new Date(0) : claimedAt;
+  } catch {
+    return new Date(0);
+  }
+}
+
+/**
+ * 処理中のアップロードか（期限切れの処理中マーカーは数えない）
+ */
+export async function isUploadProcessing(userId: string, uploadId: string, now: Date = new Date()): Promise<boolean> {
+  const claimedAt = await readProcessingClaim(userId, uploadId);
+  return !!claimedAt && now.getTime() - claimedAt.getTime() < PROCESSING_CLAIM_TTL_MS;
+}
+
+/**
+ * 処理を始める前にアップロードを確保する（処理中マーカーをupsertなしで作成）
+ * 別のリクエストが処理中ならfalse。解析は数十秒かかるので、接続が切れた再送で二重に処理しないため。
+ */
+export async function claimUpload(userId: string, uploadId: string, now: Date = new Date()): Promise<boolean> {
+  const supabase = getSupabaseServiceClient();
+  const marker = (upsert: boolean) => supabase.storage
+    .from(CAPTURE_BUCKET)
+    .upload(processingPath(userId, uploadId), Buffer.from(JSON.stringify({ claimed_at: now.toISOString() })), {
+      contentType: 'application/json',
+      upsert,
+    });
+
+  const { error } = await marker(false);
+  if (!error) return true;
+  const claimedAt = await readProcessingClaim(userId, uploadId);
+  if (!claimedAt) throw new Error(`Failed to claim upload: ${error.message}`);
+  if (now.getTime() - claimedAt.getTime() < PROCESSING_CLAIM_TTL_MS) return false;
+
+  console.warn(`⚠️ Taking over stale processing claim for upload ${uploadId}`);
+  const { error: takeoverError } = await marker(true);
+  if (takeoverError) throw new Error(`Failed to claim upload: ${takeoverError.message}`);
+  return true;
+}
+
+/**
+ * 処理に失敗したときに確保を解除する（クライアントの再送で処理し直せるように）
+ */
+export async function releaseUpload(userId: string, uploadId: string): Promise<void> {
+  const supabase = getSupabaseServiceClient();
+  const { error } = await supabase.storage.from(CAPTURE_BUCKET).remove([processingPath(userId, uploadId)]);
+  if (error) console.warn('⚠️ Failed to release upload claim:', error.message);
+}
+
+/**
+ * 完了済みのアップロードなら保存済みの結果を返す（完了レスポンスを受け取れなかったクライアントの再送用）
+ */
+export async function getCompletedUpload(userId: string, uploadId: string): Promise<RecordingResult | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase.storage.from(CAPTURE_BUCKET).download(completionPath(userId, uploadId));
+  if (error || !data) return null;
+  try {
+    return JSON.parse(await data.text()) as RecordingResult;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 結果を記録し、チャンクを削除する
+ */
+export async function completeUpload(userId: string, uploadId: string, result: RecordingResult): Promise<void> {
+  const supabase = getSupabaseServiceClient();
+  const { error } = await supabase.storage
+    .from(CAPTURE_BUCKET)
+    .upload(completionPath(userId, uploadId), Buffer.from(JSON.stringify(result)), {
+      contentType: 'application/json',
+      upsert: true,
+    });
+  if (error) console.warn('⚠️ Failed to mark upload complete:', error.message);
+  await removeChunks(userId, uploadId);
+  await releaseUpload(userId, uploadId);
+}
+
+async function removeChunks(userId: string, uploadId: string): Promise<void> {
+  const supabase = getSupabaseServiceClient();
+  const received = await listReceivedChunks(userId, uploadId);
+  if (received.length === 0) return;
+  const { error } = await supabase.storage
+    .from(CAPTURE_BUCKET)
+    .remove(received.map((index) => chunkPath(userId, uploadId, index)));
+  if (error) console.warn('⚠️ Failed to remove uploaded chunks:', error.message);
+}
+
+/**
+ * 録画を保存し、action_log・videosを作成して生産性解析を実行する
+ * （一括アップロードとチャンクアップロードの共通処理）
+ */
+export async function processRecording(input: RecordingInput): Promise<RecordingResult> {
+  const supabase = getSupabaseServiceClient();
+  const ext = (input.fileName.split('.').pop() || 'webm').toLowerCase();
+  const path = captureObjectPath(
+    input.userId,
+    'recordings',
+    `${input.capturedAt.getTime()}-${Math.random().toString(36).slice(2)}.${ext}`
+  );
+  const { data, error } = await supabase.storage
+    .from(CAPTURE_BUCKET)
+    .upload(path, input.buffer, { contentType: input.mimeType, upsert: false });
+  if (error) throw new Error(error.message);
+
+  // Create action_log and link video
+  const capturedAt = input.capturedAt.toISOString();
+  let actionLogId: string | null = null;
+  let videoId: string | null = null;
+  try {
+    if (input.userId) {
+      actionLogId = randomUUID();
+      await supabase.from('action_logs').upsert({
+        id: actionLogId,
+        user_id: input.userId,
+        type: 'screen_capture_recording',
+        parent_id: input.sessionId ?? null,
+        started_at: capturedAt,
+        details: {
+          storage_path: data.path,
+          ...(input.focusSessionId ? { focus_session_id: input.focusSessionId } : {}),
+          ...(input.sessionId ? { session_id: input.sessionId } : {}),
+        },
+      });
+      const { data: video } = await supabase.from('videos').insert({
+        user_id: input.userId,
+        storage_path: data.path,
+        mime_type: input.mimeType,
+        size_bytes: input.buffer.length,
+        captured_at: capturedAt,
+        action_log_id: actionLogId,
+      }).select('id').single();
+      videoId = video?.id ?? null;
+    }
+  } catch {}
+
+  let analysisResult: ProductivityAnalysis | null = null;
+  let analysisId: string | null = null;
+  try {
+    // 非公開バケットなのでURLではなくストレージから直接読み込む
+    const storagePath = `supabase://${CAPTURE_BUCKET}/${data.path}`;
+    console.log('🎬 動画解析を開始:', storagePath);
+    analysisResult = await analyzeVideoFromPath(storagePath, input.userId);
+
+    if (analysisResult.success && analysisResult.analysis && input.userId) {
+      // 解析結果をデータベースに保存
+      const saved = await saveProductivityAnalysis({
+        userId: input.userId,
+        analysis: analysisResult.analysis,
+        videoId,
+        videoPath: data.path,
+        actionLogId,
+        recommendationId: analysisResult.recommendationId ?? null,
+        model: analysisResult.modelId ?? null,
+      });
+      analysisId = saved.id;
+      console.log('✅ 解析結果を保存しました:', analysisId);
+    }
+  } catch (error) {
+    console.error('❌ 動画解析エラー:', error);
+    // 解析エラーがあってもアップロード自体は成功とする
+  }
+
+  return {
+    path: data.path,
+    url: await createSignedCaptureUrl(data.path),
+    analysis: analysisResult?.success ? analysisResult.analysis : null,
+    analysisId,
+    analysisError: analysisResult?.error || null,
+  };
+}
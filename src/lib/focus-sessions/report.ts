@@ -0,0 +1,125 @@
+/**
+ * End-of-session report: what the captures of a focus session show, next to what was declared.
+ * Pure helpers only — safe to import from client components; loading captures and the model call live in sessions.ts.
+ *
+ * Time uses the same coverage rule as the dashboard (until last seen plus one capture interval,
+ * capped at the next capture). Captures taken during a break are counted separately and left out
+ * of the focus figures. Nothing after the planned rounds counts, even if the session was ended later.
+ */
+import type { ActivityCategory } from '@/lib/ai/screen-capture-interpreter';
+import { computeFocusMetrics, type FocusCapture, type FocusMetrics } from '@/lib/analytics/focus-metrics';
+import { CAPTURE_SAMPLE_SECONDS, toActivityCategory, UNKNOWN_APPLICATION } from '@/lib/analytics/time-breakdown';
+import { completedRounds, focusTimerState, plannedDurationMs, type FocusPhase, type FocusTimerPlan } from './timer';
+
+export const REPORT_TOP_APPLICATIONS = 5;
+
+export interface SessionCapture extends FocusCapture {
+  summary: string | null;
+}
+
+// Written by the model: how well the captures match the declared intention
+export interface FocusSessionAssessment {
+  alignmentPercent: number;
+  verdict: string;
+  onTask: string[];
+  offTask: string[];
+  suggestion: string;
+}
+
+export interface FocusSessionReport {
+  plannedFocusMinutes: number;
+  elapsedMinutes: number;
+  completedRounds: number;
+  captures: number;
+  focusSeconds: number; // Tracked during focus phases
+  breakSeconds: number; // Tracked during breaks (not assessed)
+  applications: { application: string; seconds: number }[]; // Top applications during focus phases
+  categories: { category: ActivityCategory; seconds: number }[];
+  metrics: FocusMetrics; // Focus phases only
+  assessment: FocusSessionAssessment | null;
+  assessmentError: string | null; // Why there is no assessment (model unavailable, budget paused, no captures)
+  modelId: string | null;
+}
+
+export type FocusSessionStats = Omit<FocusSessionReport, 'assessment' | 'assessmentError' | 'modelId'>;
+
+// Phase when the capture was taken; 'done' once the planned rounds are over
+export function capturePhase(plan: FocusTimerPlan, startedAt: Date, capture: Pick<FocusCapture, 'started_at'>): FocusPhase {
+  return focusTimerState(plan, startedAt.getTime(), new Date(capture.started_at).getTime()).phase;
+}
+
+// When the session stops counting: when it was ended, or when its planned rounds were over if that came first
+export function sessionEnd(plan: FocusTimerPlan, startedAt: Date, endedAt: Date): Date {
+  return new Date(Math.min(endedAt.getTime(), startedAt.getTime() + plannedDurationMs(plan)));
+}
+
+function sortedTotals<K>(totals: Map<K, number>): [K, number][] {
+  return Array.from(totals.entries())
+    .map(([key, seconds]): [K, number] => [key, Math.round(seconds)])
+    .sort((a, b) => b[1] - a[1]);
+}
+
+/**
+ * Deterministic part of the report from the session's captures (ordered by started_at)
+ */
+export function buildFocusSessionStats(
+  plan: FocusTimerPlan,
+  startedAt: Date,
+  endedAt: Date,
+  captures: SessionCapture[],
+  sampleSeconds: number = CAPTURE_SAMPLE_SECONDS
+): FocusSessionStats {
+  const applications = new Map<string, number>();
+  const categories = new Map<ActivityCategory, number>();
+  const focusCaptures: SessionCapture[] = [];
+  const end = sessionEnd(plan, startedAt, endedAt);
+  const counted = captures.filter((capture) => capturePhase(plan, startedAt, capture) !== 'done');
+  let focusSeconds = 0;
+  let breakSeconds = 0;
+
+  for (let index = 0; index < counted.length; index++) {
+    const capture = counted[index];
+    const start = new Date(capture.started_at).getTime();
+    const lastSeen = Math.max(capture.ended_at ? new Date(capture.ended_at).getTime() : start, start);
+    const next = counted[index + 1];
+    const coveredUntil = Math.min(lastSeen + sampleSeconds * 1000, next ? new Date(next.started_at).getTime() : Infinity, end.getTime());
+    const seconds = Math.max(0, coveredUntil - start) / 1000;
+
+    if (capturePhase(plan, startedAt, capture) === 'break') {
+      breakSeconds += seconds;
+      continue;
+    }
+    focusCaptures.push(capture);
+    focusSeconds += seconds;
+    const application = capture.application || UNKNOWN_APPLICATION;
+    applications.set(application, (applications.get(application) ?? 0) + seconds);
+    const category = toActivityCategory(capture.activity_category ?? 'other');
+    categories.set(category, (categories.get(category) ?? 0) + seconds);
+  }
+
+  const elapsedMs = Math.max(0, end.getTime() - startedAt.getTime());
+  return {
+    plannedFocusMinutes: plan.rounds * plan.focusMinutes,
+    elapsedMinutes: Math.round(elapsedMs / 60000),
+    completedRounds: completedRounds(plan, elapsedMs),
+    captures: counted.length,
+    focusSeconds: Math.round(focusSeconds),
+    breakSeconds: Math.round(breakSeconds),
+    applications: sortedTotals(applications)
+      .slice(0, REPORT_TOP_APPLICATIONS)
+      .map(([application, seconds]) => ({ application, seconds })),
+    categories: sortedTotals(categories).map(([category, seconds]) => ({ category, seconds })),
+    metrics: computeFocusMetrics(focusCaptures, sampleSeconds),
+  };
+}
+
+/**
+ * Stored report (focus_sessions.report), or null for running sessions and unreadable values
+ */
+export function parseFocusSessionReport(value: unknown): FocusSessionReport | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const report = value as Partial<FocusSessionReport>;
+  return report.metrics && Array.isArray(report.applications) && Array.isArray(report.categories)
+    ? (report as FocusSessionReport)
+    : null;
+}
@@ -0,0 +1,231 @@
+/**
+ * フォーカスセッションの開始・終了とレポート作成（focus_sessionsテーブル）
+ *
+ * セッション中のキャプチャはdetails.focus_session_idでタグ付けされる。終了時にそれらから
+ * 時間の内訳とフォーカス指標を集計し、宣言した作業との一致度をモデル（FAST_ANALYSIS）で評価する。
+ * モデルが使えない場合（予算超過など）も集計部分は保存する。
+ */
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { getSupabaseServiceClient } from '../supabase/server';
+import type { Tables } from '../supabase/database.types';
+import { runWithModelFallback } from '../ai/model-router';
+import {
+  buildFocusSessionStats,
+  capturePhase,
+  sessionEnd,
+  type FocusSessionAssessment,
+  type FocusSessionReport,
+  type SessionCapture,
+} from './report';
+import { plannedDurationMs, timerPlanOf, type FocusSessionPlan, type FocusTimerPlan } from './timer';
+
+export type FocusSessionRow = Tables<'focus_sessions'>;
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Supabaseの1リクエストあたりの上限行数
+const PAGE_SIZE = 1000;
+// 評価に渡すキャプチャ要約の上限（長いセッションは等間隔に間引く）
+const MAX_ASSESSED_CAPTURES = 200;
+
+const FocusSessionAssessmentSchema = z.object({
+  alignmentPercent: z.number().min(0).max(100).describe('Share of the focus time spent on the declared intention (0-100)'),
+  verdict: z.string().describe('One or two sentences comparing what was declared with what the captures show'),
+  onTask: z.array(z.string()).describe('Activities that served the intention'),
+  offTask: z.array(z.string()).describe('Activities unrelated to the intention'),
+  suggestion: z.string().describe('One concrete suggestion for the next session'),
+});
+
+export async function getActiveFocusSession(userId: string): Promise<FocusSessionRow | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('focus_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load focus session: ${error.message}`);
+  return (data as FocusSessionRow | null) ?? null;
+}
+
+/**
+ * セッションを開始する（実行中のセッションがあれば先に終了してレポートを作る）
+ */
+export async function startFocusSession(userId: string, plan: FocusSessionPlan): Promise<FocusSessionRow> {
+  const running = await getActiveFocusSession(userId);
+  if (running) await endFocusSession(userId, running.id);
+
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('focus_sessions')
+    .insert({
+      user_id: userId,
+      intention: plan.intention,
+      focus_minutes: plan.focusMinutes,
+      break_minutes: plan.breakMinutes,
+      rounds: plan.rounds,
+    })
+    .select('*')
+    .single();
+  if (error || !data) throw new Error(`Failed to start focus session: ${error?.message}`);
+  return data as FocusSessionRow;
+}
+
+/**
+ * キャプチャに付けるセッションIDを検証する
+ * 本人のセッションで、撮影時刻がセッション中のものだけを返す（オフラインで遅れて届いたキャプチャも対象）
+ * 終了されずに残ったセッションも、予定のラウンドが終わった後のキャプチャにはタグを付けない
+ */
+export async function resolveCaptureFocusSession(userId: string, value: unknown, capturedAt: Date): Promise<string | null> {
+  if (typeof value !== 'string' || !SESSION_ID_PATTERN.test(value)) return null;
+  const supabase = getSupabaseServiceClient();
+  const { data } = await supabase
+    .from('focus_sessions')
+    .select('id, started_at, ended_at, focus_minutes, break_minutes, rounds')
+    .eq('id', value)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (!data) return null;
+  const at = capturedAt.getTime();
+  const started = new Date(data.started_at).getTime();
+  const ended = data.ended_at ? new Date(data.ended_at).getTime() : Infinity;
+  const plannedEnd = started + plannedDurationMs(timerPlanOf(data));
+  return at >= started && at <= ended && at < plannedEnd ? data.id : null;
+}
+
+/**
+ * セッションのキャプチャを時刻順にすべて読み込む
+ */
+async function loadSessionCaptures(userId: string, sessionId: string): Promise<SessionCapture[]> {
+  const supabase = getSupabaseServiceClient();
+  const captures: SessionCapture[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('action_logs')
+      .select('started_at, ended_at, summary, details')
+      .eq('user_id', userId)
+      .eq('type', 'screen_capture_analyze')
+      .eq('details->>focus_session_id', sessionId)
+      .order('started_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load session captures: ${error.message}`);
+
+    for (const row of data ?? []) {
+      const details = (row.details ?? {}) as Record<string, unknown>;
+      captures.push({
+        started_at: row.started_at,
+        ended_at: row.ended_at,
+        summary: row.summary,
+        application: typeof details.application === 'string' ? details.application : null,
+        activity_category: typeof details.activity_category === 'string' ? details.activity_category : null,
+      });
+    }
+    if ((data ?? []).length < PAGE_SIZE) break;
+  }
+
+  return captures;
+}
+
+/**
+ * 宣言した作業とフォーカス時間中のキャプチャを比較する（休憩中のキャプチャは渡さない）
+ */
+async function assessFocusSession(
+  userId: string,
+  intention: string,
+  plan: FocusTimerPlan,
+  startedAt: Date,
+  captures: SessionCapture[]
+): Promise<{ assessment: FocusSessionAssessment; modelId: string }> {
+  const focused = captures.filter((capture) => capturePhase(plan, startedAt, capture) === 'focus');
+  const step = Math.ceil(focused.length / MAX_ASSESSED_CAPTURES);
+  const lines = focused
+    .filter((_, index) => index % step === 0)
+    .map((capture) => {
+      const minute = Math.floor((new Date(capture.started_at).getTime() - startedAt.getTime()) / 60000);
+      const context = [capture.application, capture.activity_category].filter(Boolean).join(', ');
+      return `[+${minute} min]${context ? ` (${context})` : ''} ${capture.summary ?? '(no summary)'}`;
+    })
+    .join('\n');
+
+  const { result, modelId } = await runWithModelFallback('FAST_ANALYSIS', (model) => generateObject({
+    model,
+    messages: [
+      {
+        role: 'user',
+        content: `The user started a focus session and declared this intention:
+"${intention}"
+
+Plan: ${plan.rounds} rounds of ${plan.focusMinutes} min focus with ${plan.breakMinutes} min breaks.
+
+Screen captures taken during the focus phases (minutes since the session started):
+${lines}
+
+Compare what the user said they would do with what the captures show. Estimate the share of focus time spent on the intention, list what served it and what did not, and give one suggestion for the next session.
+
+Respond in English.`
+      }
+    ],
+    schema: FocusSessionAssessmentSchema,
+    temperature: 0.2,
+  }), { userId });
+
+  return { assessment: result.object, modelId };
+}
+
+/**
+ * セッションを終了してレポートを保存する（終了済みならそのまま返す、本人のものでなければnull）
+ * 予定のラウンドより後に終了された場合、ended_atは予定の終了時刻になる
+ */
+export async function endFocusSession(
+  userId: string,
+  sessionId: string,
+  stoppedAt: Date = new Date()
+): Promise<FocusSessionRow | null> {
+  if (!SESSION_ID_PATTERN.test(sessionId)) return null;
+  const supabase = getSupabaseServiceClient();
+  const { data: existing, error: loadError } = await supabase
+    .from('focus_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (loadError) throw new Error(`Failed to load focus session: ${loadError.message}`);
+  if (!existing) return null;
+  const session = existing as FocusSessionRow;
+  if (session.status !== 'active') return session;
+
+  const plan = timerPlanOf(session);
+  const startedAt = new Date(session.started_at);
+  const endedAt = sessionEnd(plan, startedAt, stoppedAt);
+  const captures = await loadSessionCaptures(userId, session.id);
+  const stats = buildFocusSessionStats(plan, startedAt, endedAt, captures);
+
+  let report: FocusSessionReport = { ...stats, assessment: null, assessmentError: null, modelId: null };
+  if (stats.focusSeconds === 0) {
+    report.assessmentError = 'No screen captures during the focus time';
+  } else {
+    try {
+      const { assessment, modelId } = await assessFocusSession(userId, session.intention, plan, startedAt, captures);
+      report = { ...report, assessment, modelId };
+    } catch (error) {
+      console.warn('⚠️ Focus session assessment failed:', error);
+      report.assessmentError = error instanceof Error ? error.message : 'Assessment failed';
+    }
+  }
+
+  // 同時に終了された場合は先に保存された方を返す
+  const { data, error } = await supabase
+    .from('focus_sessions')
+    .update({ status: 'completed', ended_at: endedAt.toISOString(), report })
+    .eq('id', session.id)
+    .eq('status', 'active')
+    .select('*')
+    .maybeSingle();
+  if (error) throw new Error(`Failed to save focus session report: ${error.message}`);
+  if (!data) return endFocusSession(userId, session.id, stoppedAt);
+
+  console.log(`🍅 Focus session ${session.id} ended (${stats.captures} captures)`);
+  return data as FocusSessionRow;
+}
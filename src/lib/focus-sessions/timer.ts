@@ -0,0 +1,79 @@
+/**
+ * Focus sessions (Pomodoro): the declared plan and its timer.
+ * Pure helpers only — safe to import from client components; storage and reports live in sessions.ts.
+ *
+ * The phase is derived from started_at alone (focus, break, focus, … with no break after the last
+ * round), so every tab and device shows the same timer and the server can tell which captures
+ * were taken during a break.
+ */
+import { z } from 'zod';
+
+export const FocusSessionPlanSchema = z.object({
+  intention: z.string().trim().min(1).max(200), // What the user declared they will work on
+  focusMinutes: z.number().int().min(5).max(120),
+  breakMinutes: z.number().int().min(1).max(60),
+  rounds: z.number().int().min(1).max(12),
+});
+
+export type FocusSessionPlan = z.infer<typeof FocusSessionPlanSchema>;
+export type FocusTimerPlan = Omit<FocusSessionPlan, 'intention'>;
+
+export const DEFAULT_FOCUS_TIMER_PLAN: FocusTimerPlan = { focusMinutes: 25, breakMinutes: 5, rounds: 4 };
+
+export type FocusPhase = 'focus' | 'break' | 'done';
+
+export interface FocusTimerState {
+  phase: FocusPhase;
+  round: number; // 1-based; the last round once done
+  remainingMs: number; // Left in the current phase (0 once done)
+  elapsedMs: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Focus rounds plus the breaks between them
+export function plannedDurationMs(plan: FocusTimerPlan): number {
+  return (plan.rounds * plan.focusMinutes + (plan.rounds - 1) * plan.breakMinutes) * MINUTE_MS;
+}
+
+export function focusTimerState(plan: FocusTimerPlan, startedAt: number, now: number = Date.now()): FocusTimerState {
+  const elapsedMs = Math.max(0, now - startedAt);
+  if (elapsedMs >= plannedDurationMs(plan)) {
+    return { phase: 'done', round: plan.rounds, remainingMs: 0, elapsedMs };
+  }
+  const focusMs = plan.focusMinutes * MINUTE_MS;
+  const cycleMs = focusMs + plan.breakMinutes * MINUTE_MS;
+  const round = Math.floor(elapsedMs / cycleMs) + 1;
+  const offset = elapsedMs % cycleMs;
+  return offset < focusMs
+    ? { phase: 'focus', round, remainingMs: focusMs - offset, elapsedMs }
+    : { phase: 'break', round, remainingMs: cycleMs - offset, elapsedMs };
+}
+
+/**
+ * Focus rounds finished by `elapsedMs` (a round counts once its focus part is over)
+ */
+export function completedRounds(plan: FocusTimerPlan, elapsedMs: number): number {
+  const cycleMs = (plan.focusMinutes + plan.breakMinutes) * MINUTE_MS;
+  const full = Math.floor(elapsedMs / cycleMs);
+  const inRound = elapsedMs - full * cycleMs >= plan.focusMinutes * MINUTE_MS ? 1 : 0;
+  return Math.min(full + inRound, plan.rounds);
+}
+
+// Share of the current phase that has passed (0-100)
+export function phaseProgress(plan: FocusTimerPlan, state: FocusTimerState): number {
+  if (state.phase === 'done') return 100;
+  const phaseMs = (state.phase === 'focus' ? plan.focusMinutes : plan.breakMinutes) * MINUTE_MS;
+  return Math.round((1 - state.remainingMs / phaseMs) * 100);
+}
+
+// mm:ss
+export function formatTimer(ms: number): string {
+  const seconds = Math.ceil(Math.max(0, ms) / 1000);
+  return `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// The timer columns of a focus_sessions row
+export function timerPlanOf(session: { focus_minutes: number; break_minutes: number; rounds: number }): FocusTimerPlan {
+  return { focusMinutes: session.focus_minutes, breakMinutes: session.break_minutes, rounds: session.rounds };
+}
@@ -0,0 +1,179 @@
+/**
+ * Preference-aware notification delivery.
+ * Every push to a user should go through notifyUser so that category filters,
+ * quiet hours, the hourly limit and digest mode are applied consistently.
+ */
+import { getSupabaseServiceClient } from '@/lib/supabase/server';
+import { sendPushToUser, type PushPayload } from './push';
+import {
+  isWithinQuietHours,
+  parseNotificationPreferences,
+  type NotificationCategory,
+  type NotificationPreferences,
+} from './preferences';
+
+type NotificationEventCategory = NotificationCategory | 'digest';
+export type NotificationStatus = 'sent' | 'queued' | 'digested' | 'suppressed';
+
+export interface NotifyResult {
+  status: NotificationStatus;
+  reason?: 'category_disabled' | 'quiet_hours' | 'rate_limited' | 'no_devices';
+}
+
+// Digest body lists at most this many queued notifications
+const DIGEST_PREVIEW_COUNT = 3;
+
+/**
+ * ユーザーの通知設定を取得する（未設定ならデフォルト）
+ */
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('notification_preferences')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('⚠️ 通知設定の取得に失敗、デフォルトを使用:', error.message);
+  }
+  return parseNotificationPreferences(data?.notification_preferences);
+}
+
+async function recordEvent(
+  userId: string,
+  category: NotificationEventCategory,
+  payload: PushPayload,
+  result: NotifyResult
+): Promise<void> {
+  const supabase = getSupabaseServiceClient();
+  const { error } = await supabase.from('notification_events').insert({
+    user_id: userId,
+    category,
+    title: payload.title,
+    body: payload.body,
+    status: result.status,
+    reason: result.reason ?? null,
+  });
+  if (error) {
+    console.warn('⚠️ notification_events insert failed:', error.message);
+  }
+}
+
+async function countSentSince(userId: string, since: Date): Promise<number> {
+  const supabase = getSupabaseServiceClient();
+  const { count, error } = await supabase
+    .from('notification_events')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('status', 'sent')
+    .gte('created_at', since.toISOString());
+  if (error) {
+    console.warn('⚠️ notification_events count failed:', error.message);
+    return 0;
+  }
+  return count ?? 0;
+}
+
+/**
+ * Deliver (or queue / suppress) a notification according to the user's preferences
+ */
+export async function notifyUser(
+  userId: string,
+  category: NotificationCategory,
+  payload: PushPayload
+): Promise<NotifyResult> {
+  const prefs = await getNotificationPreferences(userId);
+  let result: NotifyResult;
+
+  if (!prefs.categories[category]) {
+    result = { status: 'suppressed', reason: 'category_disabled' };
+  } else if (prefs.digest.enabled) {
+    result = { status: 'queued' };
+  } else if (isWithinQuietHours(prefs)) {
+    result = { status: 'suppressed', reason: 'quiet_hours' };
+  } else if (prefs.maxPerHour > 0 && await countSentSince(userId, new Date(Date.now() - 60 * 60 * 1000)) >= prefs.maxPerHour) {
+    result = { status: 'suppressed', reason: 'rate_limited' };
+  } else {
+    const push = await sendPushToUser(userId, payload);
+    result = push.sent > 0 ? { status: 'sent' } : { status: 'suppressed', reason: 'no_devices' };
+  }
+
+  await recordEvent(userId, category, payload, result);
+  if (result.status !== 'sent') {
+    console.log(`🔕 Notification ${result.status} for ${userId} (${category}${result.reason ? `, ${result.reason}` : ''})`);
+  }
+  return result;
+}
+
+function buildDigestPayload(events: { title: string; body: string }[]): PushPayload {
+  const lines = events.slice(0, DIGEST_PREVIEW_COUNT).map((e) => `• ${e.title}: ${e.body.slice(0, 80)}`);
+  const rest = events.length - DIGEST_PREVIEW_COUNT;
+  if (rest > 0) lines.push(`…and ${rest} more`);
+  return { title: `📬 ${events.length} updates`, body: lines.join('\n') };
+}
+
+/**
+ * Send one batched push for the user's queued notifications if the digest interval has elapsed
+ */
+export async function sendDigestForUser(userId: string, now: Date = new Date()): Promise<boolean> {
+  const supabase = getSupabaseServiceClient();
+  const prefs = await getNotificationPreferences(userId);
+  if (isWithinQuietHours(prefs, now)) return false;
+
+  const { data: lastDigest } = await supabase
+    .from('notification_events')
+    .select('created_at')
+    .eq('user_id', userId)
+    .eq('category', 'digest')
+    .eq('status', 'sent')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const lastAt = lastDigest?.created_at ? new Date(lastDigest.created_at).getTime() : 0;
+  if (now.getTime() - lastAt < prefs.digest.intervalMinutes * 60 * 1000) return false;
+
+  const { data: queued, error } = await supabase
+    .from('notification_events')
+    .select('id, title, body')
+    .eq('user_id', userId)
+    .eq('status', 'queued')
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(error.message);
+  if (!queued || queued.length === 0) return false;
+
+  const payload = buildDigestPayload(queued);
+  const push = await sendPushToUser(userId, payload);
+  if (push.sent === 0) return false;
+
+  await supabase
+    .from('notification_events')
+    .update({ status: 'digested' })
+    .in('id', queued.map((e) => e.id));
+  await recordEvent(userId, 'digest', payload, { status: 'sent' });
+  console.log(`📬 Digest of ${queued.length} notifications sent to ${userId}`);
+  return true;
+}
+
+/**
+ * Flush digests for every user that has queued notifications
+ */
+export async function sendDueDigests(now: Date = new Date()): Promise<number> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('notification_events')
+    .select('user_id')
+    .eq('status', 'queued');
+  if (error) throw new Error(error.message);
+
+  const userIds = Array.from(new Set((data ?? []).map((r) => r.user_id as string)));
+  let sent = 0;
+  for (const userId of userIds) {
+    try {
+      if (await sendDigestForUser(userId, now)) sent++;
+    } catch (err) {
+      console.error(`❌ Digest failed for ${userId}:`, err);
+    }
+  }
+  return sent;
+}
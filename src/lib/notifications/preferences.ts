@@ -0,0 +1,101 @@
+/**
+ * Notification preferences (stored in profiles.notification_preferences)
+ * Pure helpers only — safe to import from client components.
+ */
+import { z } from 'zod';
+
+export const NOTIFICATION_CATEGORIES = ['advice', 'screen_summary', 'recording', 'alert'] as const;
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  advice: '生産性アドバイス',
+  screen_summary: 'スクリーン要約',
+  recording: '録画の開始・停止',
+  alert: '集中アラート',
+};
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const NotificationPreferencesSchema = z.object({
+  quietHours: z.object({
+    enabled: z.boolean(),
+    start: z.string().regex(TIME_OF_DAY), // "HH:MM" in timeZone
+    end: z.string().regex(TIME_OF_DAY),
+    timeZone: z.string(),
+  }),
+  maxPerHour: z.number().int().min(0).max(60), // 0 = unlimited
+  categories: z.object({
+    advice: z.boolean(),
+    screen_summary: z.boolean(),
+    recording: z.boolean(),
+    alert: z.boolean(),
+  }),
+  digest: z.object({
+    enabled: z.boolean(),
+    intervalMinutes: z.number().int().min(15).max(24 * 60),
+  }),
+});
+
+export type NotificationPreferences = z.infer<typeof NotificationPreferencesSchema>;
+
+// Screen summaries arrive every ~10 seconds while recording, so they are opt-in
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  quietHours: { enabled: false, start: '22:00', end: '08:00', timeZone: 'UTC' },
+  maxPerHour: 6,
+  categories: { advice: true, screen_summary: false, recording: true, alert: true },
+  digest: { enabled: false, intervalMinutes: 60 },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Read stored preferences, filling missing or invalid fields with defaults
+ */
+export function parseNotificationPreferences(value: unknown): NotificationPreferences {
+  if (!isRecord(value)) return DEFAULT_NOTIFICATION_PREFERENCES;
+  const d = DEFAULT_NOTIFICATION_PREFERENCES;
+  const merged = {
+    quietHours: { ...d.quietHours, ...(isRecord(value.quietHours) ? value.quietHours : {}) },
+    maxPerHour: value.maxPerHour ?? d.maxPerHour,
+    categories: { ...d.categories, ...(isRecord(value.categories) ? value.categories : {}) },
+    digest: { ...d.digest, ...(isRecord(value.digest) ? value.digest : {}) },
+  };
+  const parsed = NotificationPreferencesSchema.safeParse(merged);
+  return parsed.success ? parsed.data : d;
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+// Minutes since local midnight in the given IANA time zone
+function localMinutes(date: Date, timeZone: string): number {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+    const hour = Number(parts.find((p) => p.type === 'hour')?.value ?? 0);
+    const minute = Number(parts.find((p) => p.type === 'minute')?.value ?? 0);
+    return hour * 60 + minute;
+  } catch {
+    return date.getUTCHours() * 60 + date.getUTCMinutes();
+  }
+}
+
+/**
+ * Whether the time falls inside the quiet window (the window may wrap midnight)
+ */
+export function isWithinQuietHours(prefs: NotificationPreferences, date: Date = new Date()): boolean {
+  const { enabled, start, end, timeZone } = prefs.quietHours;
+  if (!enabled || start === end) return false;
+  const now = localMinutes(date, timeZone);
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+  return from < to ? now >= from && now < to : now >= from || now < to;
+}
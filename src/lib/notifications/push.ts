@@ -0,0 +1,82 @@
+import webPush, { WebPushError } from 'web-push';
+import {
+  getUserSubscriptions,
+  markSubscriptionsDelivered,
+  removeSubscription,
+  toWebPushSubscription,
+} from './subscriptions';
+
+const VAPID_PUBLIC = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || '';
+const VAPID_PRIVATE = process.env.VAPID_PRIVATE_KEY || '';
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT || 'mailto:example@example.com';
+
+let vapidConfigured = false;
+
+export function isPushConfigured(): boolean {
+  if (!VAPID_PUBLIC || !VAPID_PRIVATE) return false;
+  if (!vapidConfigured) {
+    webPush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC, VAPID_PRIVATE);
+    vapidConfigured = true;
+  }
+  return true;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url?: string;
+}
+
+export interface PushSendResult {
+  sent: number;
+  failed: number;
+  pruned: number;
+}
+
+// Push services answer 404/410 once an endpoint has been unsubscribed or expired
+function isGoneError(error: unknown): boolean {
+  return error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410);
+}
+
+/**
+ * Send a push notification to every device registered by the user.
+ * Endpoints that are gone (404/410) are deleted from push_subscriptions.
+ */
+export async function sendPushToUser(userId: string, payload: PushPayload): Promise<PushSendResult> {
+  const result: PushSendResult = { sent: 0, failed: 0, pruned: 0 };
+
+  if (!isPushConfigured()) {
+    console.warn('⚠️ VAPID keys not configured, skipping push');
+    return result;
+  }
+
+  const rows = await getUserSubscriptions(userId);
+  const delivered: string[] = [];
+  const body = JSON.stringify(payload);
+
+  await Promise.all(rows.map(async (row) => {
+    const subscription = toWebPushSubscription(row);
+    if (!subscription) {
+      await removeSubscription(row.endpoint);
+      result.pruned++;
+      return;
+    }
+    try {
+      await webPush.sendNotification(subscription, body);
+      delivered.push(row.id);
+      result.sent++;
+    } catch (error) {
+      if (isGoneError(error)) {
+        await removeSubscription(row.endpoint);
+        result.pruned++;
+      } else {
+        console.error('通知送信エラー:', error);
+        result.failed++;
+      }
+    }
+  }));
+
+  await markSubscriptionsDelivered(delivered);
+  console.log(`📱 Push to ${userId}: sent=${result.sent} failed=${result.failed} pruned=${result.pruned}`);
+  return result;
+}
@@ -1,22 +1,130 @@
 /**
- * Shared subscription store
- * WARNING: Demo-only in-memory store. Replace with DB in production.
+ * Per-user push subscription store (push_subscriptions table)
+ * A user may have several rows — one per browser/device endpoint.
  */
+import type { PushSubscription as WebPushSubscription } from 'web-push';
+import { getSupabaseServiceClient } from '@/lib/supabase/server';
+import type { Database, Json } from '@/lib/supabase/database.types';
 
-export const subscriptions: unknown[] = [];
+export type PushSubscriptionRow = Database['public']['Tables']['push_subscriptions']['Row'];
 
-export function addSubscription(subscription: unknown): void {
-  subscriptions.push(subscription);
+// Shape produced by PushSubscription.toJSON() in the browser
+export interface PushSubscriptionInput {
+  endpoint: string;
+  keys?: { p256dh?: string; auth?: string } | null;
 }
 
-export function getSubscriptions(): unknown[] {
-  return subscriptions;
+export function isPushSubscriptionInput(value: unknown): value is PushSubscriptionInput {
+  return !!value && typeof value === 'object' && typeof (value as { endpoint?: unknown }).endpoint === 'string';
 }
 
-export function getSubscriptionCount(): number {
-  return subscriptions.length;
+/**
+ * サブスクリプションを保存する（同じendpointは最新のユーザーに付け替える）
+ */
+export async function saveSubscription(
+  userId: string,
+  subscription: PushSubscriptionInput,
+  userAgent?: string | null
+): Promise<PushSubscriptionRow> {
+  const supabase = getSupabaseServiceClient();
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('push_subscriptions')
+    .upsert(
+      {
+        user_id: userId,
+        endpoint: subscription.endpoint,
+        keys: (subscription.keys ?? null) as Json,
+        user_agent: userAgent ?? null,
+        updated_at: now,
+      },
+      { onConflict: 'endpoint' }
+    )
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('❌ サブスクリプション保存エラー:', error);
+    throw new Error(`Failed to save push subscription: ${error.message}`);
+  }
+
+  return data as PushSubscriptionRow;
+}
+
+/**
+ * ユーザーの全デバイスのサブスクリプションを取得する
+ */
+export async function getUserSubscriptions(userId: string): Promise<PushSubscriptionRow[]> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('push_subscriptions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    console.error('❌ サブスクリプション取得エラー:', error);
+    return [];
+  }
+
+  return (data || []) as PushSubscriptionRow[];
+}
+
+/**
+ * サブスクリプションを削除する（userIdを渡した場合は所有者のものだけ）
+ */
+export async function removeSubscription(endpoint: string, userId?: string): Promise<void> {
+  const supabase = getSupabaseServiceClient();
+
+  let query = supabase.from('push_subscriptions').delete().eq('endpoint', endpoint);
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+
+  const { error } = await query;
+  if (error) {
+    console.error('❌ サブスクリプション削除エラー:', error);
+  }
+}
+
+/**
+ * 送信成功したサブスクリプションの最終成功日時を更新する
+ */
+export async function markSubscriptionsDelivered(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const supabase = getSupabaseServiceClient();
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .update({ last_success_at: new Date().toISOString() })
+    .in('id', ids);
+  if (error) {
+    console.warn('⚠️ last_success_at update failed:', error.message);
+  }
+}
+
+/**
+ * ユーザーのサブスクリプション数を取得する
+ */
+export async function getSubscriptionCount(userId: string): Promise<number> {
+  const supabase = getSupabaseServiceClient();
+
+  const { count, error } = await supabase
+    .from('push_subscriptions')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('❌ サブスクリプション数取得エラー:', error);
+    return 0;
+  }
+
+  return count ?? 0;
 }
 
-export function clearSubscriptions(): void {
-  subscriptions.splice(0, subscriptions.length);
+export function toWebPushSubscription(row: PushSubscriptionRow): WebPushSubscription | null {
+  const keys = (row.keys ?? {}) as { p256dh?: string; auth?: string };
+  if (!keys.p256dh || !keys.auth) return null;
+  return { endpoint: row.endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } };
 }
@@ -0,0 +1,65 @@
+/**
+ * Recommendation lifecycle shared by the analyzer (server) and the advice UI (client)
+ */
+
+export const RECOMMENDATION_STATUSES = ['new', 'accepted', 'dismissed', 'snoozed', 'done'] as const;
+export type RecommendationStatus = typeof RECOMMENDATION_STATUSES[number];
+
+// Mirrors ProductivityAnalysisSchema.recommendations[].category / priority
+export const RECOMMENDATION_CATEGORIES = ['shortcut', 'tool', 'workflow', 'automation', 'habit'] as const;
+export type RecommendationCategory = typeof RECOMMENDATION_CATEGORIES[number];
+
+export const RECOMMENDATION_PRIORITIES = ['critical', 'high', 'medium', 'low'] as const;
+export type RecommendationPriority = typeof RECOMMENDATION_PRIORITIES[number];
+
+// Statuses that still need the user's attention; a snoozed one rejoins them as new when its snooze ends
+export const ACTIVE_RECOMMENDATION_STATUSES: RecommendationStatus[] = ['new', 'accepted'];
+
+// Verdicts written by the follow-up adoption evaluator
+export const ADOPTION_VERDICTS = ['adopted', 'partially_adopted', 'not_adopted', 'insufficient_data'] as const;
+export type AdoptionVerdict = typeof ADOPTION_VERDICTS[number];
+
+export const DEFAULT_SNOOZE_HOURS = 24;
+
+export const MAX_RATING = 5;
+
+/**
+ * A snoozed recommendation whose snooze has expired is shown as new again
+ */
+export function getEffectiveStatus(
+  rec: { status: string; snoozed_until: string | null },
+  now: Date = new Date()
+): RecommendationStatus {
+  const status = (RECOMMENDATION_STATUSES as readonly string[]).includes(rec.status)
+    ? (rec.status as RecommendationStatus)
+    : 'new';
+  if (status === 'snoozed' && (!rec.snoozed_until || new Date(rec.snoozed_until) <= now)) {
+    return 'new';
+  }
+  return status;
+}
+
+/**
+ * PostgREST `or` filter for rows whose effective status is one of `statuses`, so a list of new
+ * advice includes expired snoozes and leaves out the ones still snoozed
+ */
+export function effectiveStatusFilter(statuses: RecommendationStatus[], now: Date = new Date()): string {
+  const at = now.toISOString();
+  const conditions: string[] = [];
+  const plain = statuses.filter((status) => status !== 'snoozed');
+  if (plain.length > 0) conditions.push(`status.in.(${plain.join(',')})`);
+  if (statuses.includes('new')) {
+    conditions.push(`and(status.eq.snoozed,or(snoozed_until.is.null,snoozed_until.lte.${at}))`);
+  }
+  if (statuses.includes('snoozed')) conditions.push(`and(status.eq.snoozed,snoozed_until.gt.${at})`);
+  return conditions.join(',');
+}
+
+/**
+ * Pick the recommendation that best represents an analysis (highest priority first)
+ */
+export function pickTopRecommendation<T extends { priority: RecommendationPriority }>(items: T[]): T | undefined {
+  return [...items].sort(
+    (a, b) => RECOMMENDATION_PRIORITIES.indexOf(a.priority) - RECOMMENDATION_PRIORITIES.indexOf(b.priority)
+  )[0];
+}
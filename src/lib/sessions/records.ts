@@ -0,0 +1,110 @@
+/**
+ * Capture sessions as kept by SessionContext and synced to action_logs (type 'session').
+ * Pure helpers only — safe to import from client components; storage lives in store.ts.
+ *
+ * The session row has the session's id, so captures taken during it point at it with parent_id.
+ * Its details hold the agent log and tips; summary is written when the session stops.
+ */
+import { z } from 'zod';
+import type { FocusSessionPlan } from '@/lib/focus-sessions/timer';
+
+export type AgentLogItem = {
+  id: string;
+  ts: number;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+};
+
+export type AgentTip = {
+  id: string;
+  ts: number;
+  title: string;
+  detail?: string;
+};
+
+export type SessionRecord = {
+  id: string; // UUID, also the id of the action_logs row
+  userId?: string; // Owner once synced; sessions from before sign-in are adopted by the first user
+  startedAt: number;
+  stoppedAt?: number;
+  log: AgentLogItem[];
+  tips: AgentTip[];
+  focus?: FocusSessionPlan; // Set for focus sessions; their id is also the focus_sessions row id
+  summary?: string | null; // Written by the server when the session stops
+};
+
+export const SESSION_LOG_TYPE = 'session';
+
+// Only the latest entries are synced
+export const MAX_SYNCED_LOG_ITEMS = 200;
+export const MAX_SYNCED_TIPS = 50;
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isSessionId(value: unknown): value is string {
+  return typeof value === 'string' && SESSION_ID_PATTERN.test(value);
+}
+
+const AgentLogItemSchema = z.object({
+  id: z.string().max(100),
+  ts: z.number(),
+  level: z.enum(['info', 'warn', 'error']),
+  message: z.string().max(2000),
+});
+
+const AgentTipSchema = z.object({
+  id: z.string().max(100),
+  ts: z.number(),
+  title: z.string().max(500),
+  detail: z.string().max(2000).optional(),
+});
+
+// Body of PUT /api/sessions/[sessionId]
+export const SessionSyncSchema = z.object({
+  startedAt: z.number(),
+  stoppedAt: z.number().nullable(),
+  log: z.array(AgentLogItemSchema).max(MAX_SYNCED_LOG_ITEMS),
+  tips: z.array(AgentTipSchema).max(MAX_SYNCED_TIPS),
+  intention: z.string().max(200).nullable(), // Focus sessions only
+});
+
+export type SessionSync = z.infer<typeof SessionSyncSchema>;
+
+export function toSessionSync(session: SessionRecord): SessionSync {
+  return {
+    startedAt: session.startedAt,
+    stoppedAt: session.stoppedAt ?? null,
+    log: session.log.slice(-MAX_SYNCED_LOG_ITEMS),
+    tips: session.tips.slice(-MAX_SYNCED_TIPS),
+    intention: session.focus?.intention ?? null,
+  };
+}
+
+// The columns of a session row needed to rebuild the record
+export interface SessionLogRow {
+  id: string;
+  user_id: string;
+  started_at: string;
+  ended_at: string | null;
+  summary: string | null;
+  details: unknown;
+}
+
+/**
+ * Record for a session row (focus plans are not stored on the row; a running focus session is
+ * resumed from focus_sessions instead)
+ */
+export function sessionFromLogRow(row: SessionLogRow): SessionRecord {
+  const details = (row.details && typeof row.details === 'object' && !Array.isArray(row.details)
+    ? row.details
+    : {}) as { log?: unknown; tips?: unknown };
+  return {
+    id: row.id,
+    userId: row.user_id,
+    startedAt: new Date(row.started_at).getTime(),
+    stoppedAt: row.ended_at ? new Date(row.ended_at).getTime() : undefined,
+    log: Array.isArray(details.log) ? (details.log as AgentLogItem[]) : [],
+    tips: Array.isArray(details.tips) ? (details.tips as AgentTip[]) : [],
+    summary: row.summary,
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * キャプチャセッションの保存（action_logsのtype='session'の行）
+ *
+ * SessionContextのセッションをクライアントから同期し、セッション中のキャプチャはparent_idでこの行を指す。
+ * セッションが終了したときに子のキャプチャから要約を作る（フォーカスセッションはレポートの評価を使う）。
+ * 終了後に届いた・解析されたキャプチャは、定期タスク（refreshStaleSessionSummaries）が要約に反映する。
+ */
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { getSupabaseServiceClient } from '../supabase/server';
+import type { Json } from '../supabase/database.types';
+import { runWithModelFallback } from '../ai/model-router';
+import { parseFocusSessionReport } from '../focus-sessions/report';
+import {
+  SESSION_LOG_TYPE,
+  isSessionId,
+  sessionFromLogRow,
+  type SessionLogRow,
+  type SessionRecord,
+  type SessionSync,
+} from './records';
+
+// 要約に渡すキャプチャの上限（新しい順に読み、時刻順に並べ直す）
+const MAX_SUMMARIZED_CAPTURES = 200;
+const SESSION_CAPTURE_TYPES = ['screen_capture_analyze', 'screen_capture_recording'];
+const SESSION_COLUMNS = 'id, user_id, type, started_at, ended_at, summary, details';
+
+const SessionSummarySchema = z.object({
+  summary: z.string().describe('One or two sentences describing what the user worked on during the session'),
+});
+
+type StoredSessionRow = SessionLogRow & { type: string };
+
+function detailsOf(row: { details: unknown }): Record<string, unknown> {
+  return row.details && typeof row.details === 'object' && !Array.isArray(row.details)
+    ? (row.details as Record<string, unknown>)
+    : {};
+}
+
+async function loadSessionRow(id: string): Promise<StoredSessionRow | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('action_logs')
+    .select(SESSION_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load session: ${error.message}`);
+  return (data as StoredSessionRow | null) ?? null;
+}
+
+/**
+ * 終了したセッションの要約を作る
+ * フォーカスセッションはレポートの評価、それ以外は子のキャプチャの要約をモデル（FAST_ANALYSIS）でまとめる。
+ * モデルが使えない場合（予算超過など）はアプリ別の件数にする。
+ */
+async function summarizeSession(userId: string, sessionId: string): Promise<string> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data: focus } = await supabase
+    .from('focus_sessions')
+    .select('report')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  const verdict = focus ? parseFocusSessionReport(focus.report)?.assessment?.verdict : null;
+  if (verdict) return verdict;
+
+  const { data, error } = await supabase
+    .from('action_logs')
+    .select('started_at, summary, details')
+    .eq('user_id', userId)
+    .eq('parent_id', sessionId)
+    .in('type', SESSION_CAPTURE_TYPES)
+    .order('started_at', { ascending: false })
+    .limit(MAX_SUMMARIZED_CAPTURES);
+  if (error) throw new Error(`Failed to load session captures: ${error.message}`);
+
+  const captures = (data ?? []).slice().reverse();
+  if (captures.length === 0) return 'No captures during this session.';
+
+  const applications = new Map<string, number>();
+  for (const capture of captures) {
+    const application = detailsOf(capture).application;
+    if (typeof application === 'string' && application) {
+      applications.set(application, (applications.get(application) ?? 0) + 1);
+    }
+  }
+  const topApplications = Array.from(applications.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([application]) => application);
+  const fallback = `${captures.length} capture${captures.length === 1 ? '' : 's'}`
+    + (topApplications.length > 0 ? `, mostly in ${topApplications.join(', ')}.` : '.');
+
+  const lines = captures
+    .filter((capture) => capture.summary)
+    .map((capture) => `[${new Date(capture.started_at).toISOString()}] ${capture.summary}`)
+    .join('\n');
+  if (!lines) return fallback;
+
+  try {
+    const { result } = await runWithModelFallback('FAST_ANALYSIS', (model) => generateObject({
+      model,
+      messages: [
+        {
+          role: 'user',
+          content: `Summaries of screen captures taken during one work session, in time order:
+${lines}
+
+Describe what the user worked on during the session in one or two sentences.
+
+Respond in English.`
+        }
+      ],
+      schema: SessionSummarySchema,
+      temperature: 0.2,
+    }), { userId });
+    return result.object.summary;
+  } catch (error) {
+    console.warn('⚠️ Session summary failed, using capture counts:', error);
+    return fallback;
+  }
+}
+
+/**
+ * クライアントのセッションを保存する（他のユーザーの行やsession以外の行と同じIDならnull）
+ * 終了した時点で要約を作る（再開して終了し直した場合は作り直す）。フォーカスの意図が送られなければ保存済みの値を残す。
+ */
+export async function saveSession(userId: string, id: string, input: SessionSync): Promise<SessionRecord | null> {
+  if (!isSessionId(id)) return null;
+  const existing = await loadSessionRow(id);
+  if (existing && (existing.user_id !== userId || existing.type !== SESSION_LOG_TYPE)) return null;
+
+  const previous = existing ? detailsOf(existing) : {};
+  const intention = input.intention ?? (typeof previous.intention === 'string' ? previous.intention : null);
+  const endedAt = input.stoppedAt ? new Date(input.stoppedAt).toISOString() : null;
+  const ending = !!endedAt && !existing?.ended_at;
+  const summarizedAt = new Date().toISOString(); // Before the captures are read, so later arrivals count as newer
+  const summary = ending ? await summarizeSession(userId, id) : existing?.summary ?? null;
+
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('action_logs')
+    .upsert({
+      id,
+      user_id: userId,
+      type: SESSION_LOG_TYPE,
+      started_at: new Date(input.startedAt).toISOString(),
+      ended_at: endedAt,
+      summary,
+      ...(ending ? { generated_at: summarizedAt } : {}),
+      details: { ...previous, log: input.log, tips: input.tips, ...(intention ? { intention } : {}) } as Json,
+      tags: intention ? ['session', 'focus'] : ['session'],
+    })
+    .select(SESSION_COLUMNS)
+    .single();
+  if (error || !data) throw new Error(`Failed to save session: ${error?.message}`);
+
+  if (ending) console.log(`🗂️ Session ${id} ended: ${summary}`);
+  return sessionFromLogRow(data as StoredSessionRow);
+}
+
+/**
+ * キャプチャのparent_idにするセッションIDを検証する
+ * 本人のセッションで、撮影時刻がセッション中のものだけを返す。クライアントの同期より先にキャプチャが
+ * 届いた場合は撮影時刻を開始時刻として行を作る（同期で正しい開始時刻に更新される）。
+ */
+export async function resolveCaptureSession(userId: string, value: unknown, capturedAt: Date): Promise<string | null> {
+  if (!isSessionId(value)) return null;
+  const supabase = getSupabaseServiceClient();
+  let row = await loadSessionRow(value);
+  if (!row) {
+    const { error } = await supabase
+      .from('action_logs')
+      .upsert(
+        { id: value, user_id: userId, type: SESSION_LOG_TYPE, started_at: capturedAt.toISOString(), tags: ['session'] },
+        { onConflict: 'id', ignoreDuplicates: true }
+      );
+    if (error) {
+      console.warn('⚠️ Failed to create session for capture:', error);
+      return null;
+    }
+    row = await loadSessionRow(value);
+  }
+  if (!row || row.user_id !== userId || row.type !== SESSION_LOG_TYPE) return null;
+  const at = capturedAt.getTime();
+  const started = new Date(row.started_at).getTime();
+  const ended = row.ended_at ? new Date(row.ended_at).getTime() : Infinity;
+  return at >= started && at <= ended ? row.id : null;
+}
+
+/**
+ * 要約の作成後にキャプチャが作られた、または解析されたか（要約がまだなければtrue）
+ */
+async function hasCapturesChangedSince(sessionId: string, since: string | null): Promise<boolean> {
+  if (!since) return true;
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('action_logs')
+    .select('id')
+    .eq('parent_id', sessionId)
+    .in('type', SESSION_CAPTURE_TYPES)
+    .or(`created_at.gt.${since},generated_at.gt.${since}`)
+    .limit(1);
+  if (error) throw new Error(`Failed to check session captures: ${error.message}`);
+  return (data ?? []).length > 0;
+}
+
+/**
+ * sinceより後に終了したセッションのうち、要約の作成後にキャプチャが届いた・解析されたものの要約を作り直す
+ * オフラインでキューに溜まったキャプチャは終了後に届くため（定期タスクから呼ばれる、作り直した件数を返す）
+ */
+export async function refreshStaleSessionSummaries(since: Date): Promise<number> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('action_logs')
+    .select('id, user_id, generated_at')
+    .eq('type', SESSION_LOG_TYPE)
+    .gte('ended_at', since.toISOString());
+  if (error) throw new Error(`Failed to load ended sessions: ${error.message}`);
+
+  let refreshed = 0;
+  for (const session of (data ?? []) as Array<{ id: string; user_id: string; generated_at: string | null }>) {
+    try {
+      if (!(await hasCapturesChangedSince(session.id, session.generated_at))) continue;
+      // 作り直している間に届いたキャプチャを次回拾えるよう、読み込む前の時刻にする
+      const generatedAt = new Date().toISOString();
+      const summary = await summarizeSession(session.user_id, session.id);
+      const { error: updateError } = await supabase
+        .from('action_logs')
+        .update({ summary, generated_at: generatedAt })
+        .eq('id', session.id);
+      if (updateError) throw new Error(updateError.message);
+      console.log(`🗂️ Session ${session.id} summary refreshed: ${summary}`);
+      refreshed++;
+    } catch (error) {
+      console.warn(`⚠️ Session ${session.id} summary refresh failed:`, error);
+    }
+  }
+  return refreshed;
+}
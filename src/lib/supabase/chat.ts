@@ -0,0 +1,136 @@
+import { getSupabaseServiceClient } from '@/lib/supabase/server';
+import type { Database, Json } from '@/lib/supabase/database.types';
+
+export type ChatConversationRow = Database['public']['Tables']['chat_conversations']['Row'];
+export type ChatMessageRow = Database['public']['Tables']['chat_messages']['Row'];
+export type ChatRole = 'user' | 'assistant';
+
+// action_logs row (and its screenshots) that an assistant answer was based on
+export interface ChatCitation {
+  actionLogId: string;
+  type: string;
+  summary: string | null;
+  startedAt: string;
+  screenshotPaths: string[]; // Storage paths in the private captures bucket; viewers request signed URLs
+}
+
+/**
+ * 会話を作成する（タイトルは最初のメッセージから生成）
+ */
+export async function createConversation(userId: string, firstMessage: string): Promise<ChatConversationRow> {
+  const supabase = getSupabaseServiceClient();
+  const title = firstMessage.trim().slice(0, 80) || 'New conversation';
+
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .insert({ user_id: userId, title })
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('❌ 会話作成エラー:', error);
+    throw new Error(`Failed to create conversation: ${error.message}`);
+  }
+
+  return data as ChatConversationRow;
+}
+
+/**
+ * ユーザーの会話を取得する（所有者でない場合はnull）
+ */
+export async function getConversation(conversationId: string, userId: string): Promise<ChatConversationRow | null> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .select('*')
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ 会話取得エラー:', error);
+    return null;
+  }
+
+  return data as ChatConversationRow | null;
+}
+
+/**
+ * ユーザーの会話一覧を新しい順に取得する
+ */
+export async function listConversations(userId: string, limit: number = 30): Promise<ChatConversationRow[]> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('❌ 会話一覧取得エラー:', error);
+    return [];
+  }
+
+  return (data || []) as ChatConversationRow[];
+}
+
+/**
+ * 会話のメッセージを古い順に取得する
+ */
+export async function getConversationMessages(conversationId: string, userId: string): Promise<ChatMessageRow[]> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('❌ メッセージ取得エラー:', error);
+    return [];
+  }
+
+  return (data || []) as ChatMessageRow[];
+}
+
+/**
+ * メッセージを保存し、会話の更新日時を進める
+ */
+export async function appendChatMessage(params: {
+  conversationId: string;
+  userId: string;
+  role: ChatRole;
+  content: string;
+  citations?: ChatCitation[];
+}): Promise<ChatMessageRow> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert({
+      conversation_id: params.conversationId,
+      user_id: params.userId,
+      role: params.role,
+      content: params.content,
+      citations: (params.citations ?? null) as unknown as Json,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('❌ メッセージ保存エラー:', error);
+    throw new Error(`Failed to save chat message: ${error.message}`);
+  }
+
+  await supabase
+    .from('chat_conversations')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', params.conversationId);
+
+  return data as ChatMessageRow;
+}
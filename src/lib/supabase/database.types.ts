@@ -20,6 +20,7 @@ export type Database = {
           details: Json | null
           embedding: string | null
           ended_at: string | null
+          generated_at: string | null
           id: string
           parent_id: string | null
           source_log_ids: string[] | null
@@ -34,6 +35,7 @@ export type Database = {
           details?: Json | null
           embedding?: string | null
           ended_at?: string | null
+          generated_at?: string | null
           id?: string
           parent_id?: string | null
           source_log_ids?: string[] | null
@@ -48,6 +50,7 @@ export type Database = {
           details?: Json | null
           embedding?: string | null
           ended_at?: string | null
+          generated_at?: string | null
           id?: string
           parent_id?: string | null
           source_log_ids?: string[] | null
@@ -67,6 +70,248 @@ export type Database = {
           },
         ]
       }
+      alert_events: {
+        Row: {
+          body: string
+          created_at: string | null
+          id: string
+          notification_reason: string | null
+          notification_status: string | null
+          rule_id: string
+          rule_kind: string
+          rule_name: string
+          title: string
+          user_id: string
+          value: number
+          window_end: string
+          window_start: string
+        }
+        Insert: {
+          body: string
+          created_at?: string | null
+          id?: string
+          notification_reason?: string | null
+          notification_status?: string | null
+          rule_id: string
+          rule_kind: string
+          rule_name: string
+          title: string
+          user_id: string
+          value: number
+          window_end: string
+          window_start: string
+        }
+        Update: {
+          body?: string
+          created_at?: string | null
+          id?: string
+          notification_reason?: string | null
+          notification_status?: string | null
+          rule_id?: string
+          rule_kind?: string
+          rule_name?: string
+          title?: string
+          user_id?: string
+          value?: number
+          window_end?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      api_tokens: {
+        Row: {
+          created_at: string | null
+          expires_at: string | null
+          id: string
+          last_used_at: string | null
+          name: string
+          revoked_at: string | null
+          scopes: string[]
+          token_hash: string
+          token_prefix: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name: string
+          revoked_at?: string | null
+          scopes?: string[]
+          token_hash: string
+          token_prefix: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          revoked_at?: string | null
+          scopes?: string[]
+          token_hash?: string
+          token_prefix?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      chat_conversations: {
+        Row: {
+          created_at: string | null
+          id: string
+          title: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          title?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          title?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      chat_messages: {
+        Row: {
+          citations: Json | null
+          content: string
+          conversation_id: string
+          created_at: string | null
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          citations?: Json | null
+          content: string
+          conversation_id: string
+          created_at?: string | null
+          id?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          citations?: Json | null
+          content?: string
+          conversation_id?: string
+          created_at?: string | null
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "chat_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      focus_metrics: {
+        Row: {
+          computed_at: string | null
+          context_switches: number
+          deep_work_seconds: number
+          focus_blocks: number
+          fragmentation_score: number
+          id: string
+          interval: string
+          longest_focus_application: string | null
+          longest_focus_seconds: number
+          switches_per_hour: number
+          tracked_seconds: number
+          user_id: string
+          window_end: string
+          window_start: string
+        }
+        Insert: {
+          computed_at?: string | null
+          context_switches?: number
+          deep_work_seconds?: number
+          focus_blocks?: number
+          fragmentation_score?: number
+          id?: string
+          interval: string
+          longest_focus_application?: string | null
+          longest_focus_seconds?: number
+          switches_per_hour?: number
+          tracked_seconds?: number
+          user_id: string
+          window_end: string
+          window_start: string
+        }
+        Update: {
+          computed_at?: string | null
+          context_switches?: number
+          deep_work_seconds?: number
+          focus_blocks?: number
+          fragmentation_score?: number
+          id?: string
+          interval?: string
+          longest_focus_application?: string | null
+          longest_focus_seconds?: number
+          switches_per_hour?: number
+          tracked_seconds?: number
+          user_id?: string
+          window_end?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      focus_sessions: {
+        Row: {
+          break_minutes: number
+          created_at: string | null
+          ended_at: string | null
+          focus_minutes: number
+          id: string
+          intention: string
+          report: Json | null
+          rounds: number
+          started_at: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          break_minutes?: number
+          created_at?: string | null
+          ended_at?: string | null
+          focus_minutes?: number
+          id?: string
+          intention: string
+          report?: Json | null
+          rounds?: number
+          started_at?: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          break_minutes?: number
+          created_at?: string | null
+          ended_at?: string | null
+          focus_minutes?: number
+          id?: string
+          intention?: string
+          report?: Json | null
+          rounds?: number
+          started_at?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       images: {
         Row: {
           action_log_id: string | null
@@ -114,47 +359,273 @@ export type Database = {
           },
         ]
       }
+      llm_usage: {
+        Row: {
+          cost_usd: number
+          created_at: string | null
+          id: string
+          input_tokens: number
+          model: string
+          output_tokens: number
+          total_tokens: number
+          use_case: string
+          user_id: string | null
+        }
+        Insert: {
+          cost_usd?: number
+          created_at?: string | null
+          id?: string
+          input_tokens?: number
+          model: string
+          output_tokens?: number
+          total_tokens?: number
+          use_case: string
+          user_id?: string | null
+        }
+        Update: {
+          cost_usd?: number
+          created_at?: string | null
+          id?: string
+          input_tokens?: number
+          model?: string
+          output_tokens?: number
+          total_tokens?: number
+          use_case?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      notification_events: {
+        Row: {
+          body: string
+          category: string
+          created_at: string | null
+          id: string
+          reason: string | null
+          status: string
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          category: string
+          created_at?: string | null
+          id?: string
+          reason?: string | null
+          status: string
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          category?: string
+          created_at?: string | null
+          id?: string
+          reason?: string | null
+          status?: string
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      productivity_analyses: {
+        Row: {
+          action_log_id: string | null
+          analysis: Json
+          created_at: string | null
+          id: string
+          main_activity: string | null
+          model: string | null
+          productivity_score: number | null
+          recommendation_id: string | null
+          total_time: string | null
+          user_id: string
+          video_id: string | null
+          video_path: string | null
+        }
+        Insert: {
+          action_log_id?: string | null
+          analysis: Json
+          created_at?: string | null
+          id?: string
+          main_activity?: string | null
+          model?: string | null
+          productivity_score?: number | null
+          recommendation_id?: string | null
+          total_time?: string | null
+          user_id: string
+          video_id?: string | null
+          video_path?: string | null
+        }
+        Update: {
+          action_log_id?: string | null
+          analysis?: Json
+          created_at?: string | null
+          id?: string
+          main_activity?: string | null
+          model?: string | null
+          productivity_score?: number | null
+          recommendation_id?: string | null
+          total_time?: string | null
+          user_id?: string
+          video_id?: string | null
+          video_path?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "productivity_analyses_action_log_id_fkey"
+            columns: ["action_log_id"]
+            isOneToOne: false
+            referencedRelation: "action_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "productivity_analyses_recommendation_id_fkey"
+            columns: ["recommendation_id"]
+            isOneToOne: false
+            referencedRelation: "recommendations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "productivity_analyses_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
+          alert_rules: Json | null
           avatar_url: string | null
           created_at: string | null
           display_name: string | null
           id: string
+          llm_budget: Json | null
+          model_preferences: Json | null
+          notification_preferences: Json | null
+          redaction_settings: Json | null
           role: string | null
         }
         Insert: {
+          alert_rules?: Json | null
           avatar_url?: string | null
           created_at?: string | null
           display_name?: string | null
           id: string
+          llm_budget?: Json | null
+          model_preferences?: Json | null
+          notification_preferences?: Json | null
+          redaction_settings?: Json | null
           role?: string | null
         }
         Update: {
+          alert_rules?: Json | null
           avatar_url?: string | null
           created_at?: string | null
           display_name?: string | null
           id?: string
+          llm_budget?: Json | null
+          model_preferences?: Json | null
+          notification_preferences?: Json | null
+          redaction_settings?: Json | null
           role?: string | null
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          created_at: string | null
+          endpoint: string
+          id: string
+          keys: Json | null
+          last_success_at: string | null
+          updated_at: string | null
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          endpoint: string
+          id?: string
+          keys?: Json | null
+          last_success_at?: string | null
+          updated_at?: string | null
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          endpoint?: string
+          id?: string
+          keys?: Json | null
+          last_success_at?: string | null
+          updated_at?: string | null
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       recommendations: {
         Row: {
+          adoption_attempts: number
+          adoption_confidence: number | null
+          adoption_evaluated_at: string | null
+          adoption_evidence: string | null
+          adoption_log_ids: string[] | null
+          adoption_verdict: string | null
+          category: string | null
+          comment: string | null
           content: string | null
           created_at: string | null
           id: string
+          priority: string | null
+          rating: number | null
+          snoozed_until: string | null
+          status: string
+          title: string | null
+          updated_at: string | null
           user_id: string
         }
         Insert: {
+          adoption_attempts?: number
+          adoption_confidence?: number | null
+          adoption_evaluated_at?: string | null
+          adoption_evidence?: string | null
+          adoption_log_ids?: string[] | null
+          adoption_verdict?: string | null
+          category?: string | null
+          comment?: string | null
           content?: string | null
           created_at?: string | null
           id?: string
+          priority?: string | null
+          rating?: number | null
+          snoozed_until?: string | null
+          status?: string
+          title?: string | null
+          updated_at?: string | null
           user_id: string
         }
         Update: {
+          adoption_attempts?: number
+          adoption_confidence?: number | null
+          adoption_evaluated_at?: string | null
+          adoption_evidence?: string | null
+          adoption_log_ids?: string[] | null
+          adoption_verdict?: string | null
+          category?: string | null
+          comment?: string | null
           content?: string | null
           created_at?: string | null
           id?: string
+          priority?: string | null
+          rating?: number | null
+          snoozed_until?: string | null
+          status?: string
+          title?: string | null
+          updated_at?: string | null
           user_id?: string
         }
         Relationships: []
@@ -236,11 +707,122 @@ export type Database = {
           },
         ]
       }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string | null
+          delivered_at: string | null
+          endpoint_id: string
+          event: string
+          id: string
+          last_error: string | null
+          next_attempt_at: string | null
+          payload: Json
+          response_body: string | null
+          response_status: number | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string | null
+          delivered_at?: string | null
+          endpoint_id: string
+          event: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string | null
+          payload: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string | null
+          delivered_at?: string | null
+          endpoint_id?: string
+          event?: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string | null
+          payload?: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          enabled: boolean
+          events: string[]
+          id: string
+          secret: string
+          updated_at: string | null
+          url: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          enabled?: boolean
+          events?: string[]
+          id?: string
+          secret: string
+          updated_at?: string | null
+          url: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          enabled?: boolean
+          events?: string[]
+          id?: string
+          secret?: string
+          updated_at?: string | null
+          url?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      action_log_time_rollups: {
+        Args: {
+          end_time: string
+          sample_seconds?: number
+          series_unit?: string
+          start_time: string
+          time_zone_name?: string
+          user_id_filter: string
+        }
+        Returns: {
+          activity_category: string
+          application: string
+          bucket_start: string
+          captures: number
+          hour_of_day: number
+          rollup: string
+          seconds: number
+        }[]
+      }
       binary_quantize: {
         Args: { "": string } | { "": unknown }
         Returns: unknown
@@ -313,6 +895,42 @@ export type Database = {
         Args: { "": string } | { "": unknown } | { "": unknown }
         Returns: unknown
       }
+      llm_usage_totals: {
+        Args: {
+          day_start: string
+          month_start: string
+          user_id_filter: string
+        }
+        Returns: {
+          daily_tokens: number
+          daily_usd: number
+          monthly_tokens: number
+          monthly_usd: number
+        }[]
+      }
+      search_action_logs_semantic: {
+        Args: {
+          end_time?: string | null
+          match_count?: number
+          match_threshold?: number
+          query_embedding: string
+          start_time?: string | null
+          tags_filter?: string[] | null
+          type_filter?: string[] | null
+          user_id_filter: string
+        }
+        Returns: {
+          details: Json
+          ended_at: string
+          id: string
+          parent_id: string
+          similarity: number
+          started_at: string
+          summary: string
+          tags: string[]
+          type: string
+        }[]
+      }
       search_log_summary_semantic: {
         Args: {
           match_count?: number
@@ -377,6 +995,12 @@ export type Database = {
         Args: { "": unknown[] }
         Returns: number
       }
+      users_with_captures_since: {
+        Args: { since: string }
+        Returns: {
+          user_id: string
+        }[]
+      }
       vector_avg: {
         Args: { "": number[] }
         Returns: string
@@ -0,0 +1,87 @@
+import { getSupabaseServiceClient } from '@/lib/supabase/server';
+import type { Database, Json } from '@/lib/supabase/database.types';
+import type { ProductivityAnalysisResult } from '@/lib/ai/productivity-analyzer';
+import { emitWebhookEvent } from '@/lib/webhooks/deliver';
+
+export type ProductivityAnalysisRow = Database['public']['Tables']['productivity_analyses']['Row'];
+
+/**
+ * 録画の構造化解析結果を保存する（videos / action_logs / recommendations と紐付け）
+ */
+export async function saveProductivityAnalysis(params: {
+  userId: string;
+  analysis: ProductivityAnalysisResult;
+  videoId?: string | null;
+  videoPath?: string | null;
+  actionLogId?: string | null;
+  recommendationId?: string | null;
+  model?: string | null;
+}): Promise<ProductivityAnalysisRow> {
+  const supabase = getSupabaseServiceClient();
+  const { analysis } = params;
+
+  const { data, error } = await supabase
+    .from('productivity_analyses')
+    .insert({
+      user_id: params.userId,
+      analysis: analysis as unknown as Json,
+      video_id: params.videoId ?? null,
+      video_path: params.videoPath ?? null,
+      action_log_id: params.actionLogId ?? null,
+      recommendation_id: params.recommendationId ?? null,
+      productivity_score: Math.round(analysis.summary.productivityScore),
+      main_activity: analysis.summary.mainActivity,
+      total_time: analysis.summary.totalTime,
+      model: params.model ?? null,
+      created_at: new Date().toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('❌ 解析結果保存エラー:', error);
+    throw new Error(`Failed to save productivity analysis: ${error.message}`);
+  }
+
+  // 録画のaction_logにも要約と解析IDを反映
+  if (params.actionLogId) {
+    const { data: log } = await supabase
+      .from('action_logs')
+      .select('details')
+      .eq('id', params.actionLogId)
+      .maybeSingle();
+    const details = (log?.details && typeof log.details === 'object' ? log.details : {}) as Record<string, unknown>;
+    const { error: logError } = await supabase
+      .from('action_logs')
+      .update({
+        summary: analysis.summary.mainActivity,
+        details: {
+          ...details,
+          analysis_id: data.id,
+          productivity_score: analysis.summary.productivityScore,
+        } as Json,
+      })
+      .eq('id', params.actionLogId);
+    if (logError) {
+      console.warn('⚠️ action_logs update failed:', logError.message);
+    }
+  }
+
+  await emitWebhookEvent(
+    params.userId,
+    'analysis.completed',
+    `🎬 ${analysis.summary.mainActivity} (score ${Math.round(analysis.summary.productivityScore)}/100)`,
+    {
+      analysis_id: data.id,
+      action_log_id: params.actionLogId ?? null,
+      recommendation_id: params.recommendationId ?? null,
+      video_path: params.videoPath ?? null,
+      productivity_score: analysis.summary.productivityScore,
+      main_activity: analysis.summary.mainActivity,
+      total_time: analysis.summary.totalTime,
+      key_insights: analysis.summary.keyInsights,
+    }
+  );
+
+  return data as ProductivityAnalysisRow;
+}
@@ -1,14 +1,9 @@
 import { getSupabaseServiceClient } from '@/lib/supabase/server';
-// Database型は現在使用していないためコメントアウト
-// import { Database } from '@/lib/supabase/database.types';
+import { Database } from '@/lib/supabase/database.types';
+import type { RecommendationCategory, RecommendationPriority } from '@/lib/recommendations/lifecycle';
+import { emitWebhookEvent } from '@/lib/webhooks/deliver';
 
-// 新しいテーブル構造に合わせた型定義
-type RecommendationInsert = {
-  id?: string;
-  content: string;
-  user_id: string;
-  created_at?: string | null;
-};
+type RecommendationInsert = Database['public']['Tables']['recommendations']['Insert'];
 
 /**
  * Supabaseのrecommendationsテーブルにユーザーアドバイスを保存する
@@ -16,6 +11,9 @@ type RecommendationInsert = {
 export async function saveUserAdviceRecommendation(params: {
   userAdvice: string;
   userId: string;
+  title?: string | null;
+  category?: RecommendationCategory | null;
+  priority?: RecommendationPriority | null;
 }): Promise<{ success: boolean; id?: string; error?: string }> {
   try {
     const supabase = getSupabaseServiceClient();
@@ -23,6 +21,10 @@ export async function saveUserAdviceRecommendation(params: {
     const recommendationData: RecommendationInsert = {
       content: params.userAdvice, // ユーザーアドバイスの内容をcontentに保存
       user_id: params.userId,
+      title: params.title ?? null,
+      category: params.category ?? null, // アナライザーの分類をそのまま保存
+      priority: params.priority ?? null,
+      status: 'new',
       created_at: new Date().toISOString(),
     };
     
@@ -38,6 +40,18 @@ export async function saveUserAdviceRecommendation(params: {
     }
     
     console.log('✅ レコメンドを保存しました:', data.id);
+    await emitWebhookEvent(
+      params.userId,
+      'recommendation.created',
+      `💡 ${params.title ? `${params.title}: ` : ''}${params.userAdvice}`,
+      {
+        recommendation_id: data.id,
+        title: recommendationData.title,
+        content: params.userAdvice,
+        category: recommendationData.category,
+        priority: recommendationData.priority,
+      }
+    );
     return { success: true, id: data.id };
     
   } catch (error) {
@@ -50,13 +64,7 @@ export async function saveUserAdviceRecommendation(params: {
 /**
  * ユーザーの最新のレコメンドを取得する
  */
-// 新しいテーブル構造に合わせた型定義
-type RecommendationRow = {
-  id: string;
-  content: string | null;
-  user_id: string;
-  created_at: string | null;
-};
+type RecommendationRow = Database['public']['Tables']['recommendations']['Row'];
 
 export async function getLatestRecommendations(
   userId: string,
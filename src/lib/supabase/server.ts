@@ -1,4 +1,4 @@
-import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient, type User } from '@supabase/supabase-js';
 
 const globalForSupabase = globalThis as unknown as { __supabaseServerClient?: SupabaseClient };
 
@@ -28,3 +28,23 @@ export function getSupabaseServiceClient(): SupabaseClient {
 	}
 	return globalForSupabase.__supabaseServerClient;
 }
+
+/**
+ * Replace the cached service client (tests pass an in-memory stand-in; null resets it).
+ */
+export function setSupabaseServiceClient(client: SupabaseClient | null): void {
+	globalForSupabase.__supabaseServerClient = client ?? undefined;
+}
+
+/**
+ * Resolve the Supabase user from the `Authorization: Bearer <access_token>` header.
+ * Returns null when the header is missing or the token is invalid/expired.
+ */
+export async function getUserFromRequest(request: Request): Promise<User | null> {
+	const header = request.headers.get('authorization') || '';
+	const match = header.match(/^Bearer\s+(.+)$/i);
+	if (!match) return null;
+	const { data, error } = await getSupabaseServiceClient().auth.getUser(match[1]);
+	if (error || !data.user) return null;
+	return data.user;
+}
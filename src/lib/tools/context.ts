@@ -0,0 +1,57 @@
+/**
+ * Per-request context shared with tools via `experimental_context`
+ */
+
+import type { ToolCallOptions } from 'ai';
+import { getSupabaseServiceClient } from '../supabase/server';
+import { createSignedCaptureUrls } from '../capture/storage';
+
+export interface ToolContext {
+  userId: string;
+}
+
+/**
+ * Get the calling user's ID from the tool call options
+ * Tools run with the service role key, so every query must be scoped to this user
+ */
+export function getToolUserId(options?: ToolCallOptions): string | null {
+  const context = options?.experimental_context as Partial<ToolContext> | undefined;
+  return typeof context?.userId === 'string' && context.userId ? context.userId : null;
+}
+
+export interface ScreenshotReference {
+  imageId: string;
+  storagePath: string;
+  url: string | null; // Short-lived signed URL (null if signing failed)
+  capturedAt: string;
+}
+
+/**
+ * Look up screenshots linked to the given action_logs rows
+ */
+export async function getScreenshotReferences(actionLogIds: string[]): Promise<Map<string, ScreenshotReference[]>> {
+  const byLog = new Map<string, ScreenshotReference[]>();
+  if (actionLogIds.length === 0) return byLog;
+
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('images')
+    .select('id, action_log_id, storage_path, captured_at')
+    .in('action_log_id', actionLogIds);
+
+  if (error) {
+    console.warn('Failed to load screenshots for logs:', error);
+    return byLog;
+  }
+
+  const rows = (data ?? []) as Array<{ id: string; action_log_id: string | null; storage_path: string; captured_at: string }>;
+  const urls = await createSignedCaptureUrls(rows.map((image) => image.storage_path));
+  for (const image of rows) {
+    if (!image.action_log_id) continue;
+    byLog.set(image.action_log_id, [
+      ...(byLog.get(image.action_log_id) ?? []),
+      { imageId: image.id, storagePath: image.storage_path, url: urls.get(image.storage_path) ?? null, capturedAt: image.captured_at },
+    ]);
+  }
+  return byLog;
+}
@@ -11,6 +11,7 @@ import { searchProductHunt } from './search-products';
 export { retrieveSessionLogs } from './retrieve-logs';
 export { searchLogs } from './search-logs';
 export { searchProductHunt } from './search-products';
+export type { ToolContext } from './context';
 
 // Export all tools as a collection for use with generateText
 export const productivityTools = {
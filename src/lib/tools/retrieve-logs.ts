@@ -1,62 +1,96 @@
 /**
- * Tool for retrieving session logs from Supabase
+ * Tool for retrieving the calling user's action logs from Supabase
  */
 
 import { z } from 'zod';
-import { createClient } from '@supabase/supabase-js';
+import type { ToolCallOptions } from 'ai';
+import { getSupabaseServiceClient } from '../supabase/server';
+import { getScreenshotReferences, getToolUserId } from './context';
 
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+// Parameters schema
+const retrieveSessionLogsParams = z.object({
+  sessionId: z.string().optional().describe('Parent log ID (a session, or a summary window) to list the child logs of'),
+  types: z.array(z.string()).optional().describe('Log types to include: screen_capture_analyze, screen_capture_recording, summary_10min, summary_1hour, summary_24hour, summary_1week, session (a capture session; its captures have it as parent)'),
+  tags: z.array(z.string()).optional().describe('Only include logs having any of these tags (e.g. application or category names)'),
+  timeRange: z.object({
+    start: z.string().optional().describe('ISO 8601 start time (inclusive)'),
+    end: z.string().optional().describe('ISO 8601 end time (exclusive)'),
+  }).optional().describe('Optional time range filter on started_at'),
+  limit: z.number().optional().default(100).describe('Maximum number of logs to retrieve'),
+});
 
-// Tool definition
-export const retrieveSessionLogs = {
-  description: 'Retrieve session logs from the database',
-  parameters: z.object({
-    sessionId: z.string().optional().describe('Specific session ID to retrieve'),
-    limit: z.number().optional().default(100).describe('Maximum number of logs to retrieve'),
-  }),
-  execute: async ({ sessionId, limit }: { sessionId?: string; limit?: number }) => {
-    try {
-      console.log('Retrieving session logs from Supabase:', { sessionId, limit });
-      
-      // Build the query
-      let query = supabase
-        .from('session_logs')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .limit(limit || 100);
-      
-      // Add session filter if provided
-      if (sessionId) {
-        query = query.eq('session_id', sessionId);
-      }
-      
-      const { data, error } = await query;
-      
-      if (error) {
-        console.error('Error retrieving logs:', error);
-        return {
-          success: false,
-          logs: [],
-          message: `Error retrieving logs: ${error.message}`
-        };
-      }
-      
-      return {
-        success: true,
-        logs: data || [],
-        message: `Retrieved ${data?.length || 0} logs`
-      };
-    } catch (error) {
-      console.error('Error in retrieveSessionLogs:', error);
+// Core function
+const retrieveSessionLogsCore = async (
+  { sessionId, types, tags, timeRange, limit = 100 }: z.infer<typeof retrieveSessionLogsParams>,
+  options?: ToolCallOptions
+) => {
+  try {
+    const userId = getToolUserId(options);
+    if (!userId) {
+      return { success: false, logs: [], message: 'No user context: logs can only be retrieved for a signed-in user' };
+    }
+    console.log('Retrieving action logs from Supabase:', { userId, sessionId, types, tags, timeRange, limit });
+
+    const supabase = getSupabaseServiceClient();
+
+    // Build the query
+    let query = supabase
+      .from('action_logs')
+      .select('id, type, summary, details, tags, started_at, ended_at, parent_id')
+      .eq('user_id', userId)
+      .order('started_at', { ascending: false })
+      .limit(Math.min(limit, 500));
+
+    // Add filters if provided
+    if (sessionId) {
+      query = query.eq('parent_id', sessionId);
+    }
+    if (types && types.length > 0) {
+      query = query.in('type', types);
+    }
+    if (tags && tags.length > 0) {
+      query = query.overlaps('tags', tags);
+    }
+    if (timeRange?.start) {
+      query = query.gte('started_at', new Date(timeRange.start).toISOString());
+    }
+    if (timeRange?.end) {
+      query = query.lt('started_at', new Date(timeRange.end).toISOString());
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error retrieving logs:', error);
       return {
         success: false,
         logs: [],
-        message: `Failed to retrieve logs: ${error}`
+        message: `Error retrieving logs: ${error.message}`
       };
     }
-  },
-};
\ No newline at end of file
+
+    const rows = data || [];
+    const screenshots = await getScreenshotReferences(rows.map((row: { id: string }) => row.id));
+    const logs = rows.map((row: { id: string }) => ({ ...row, screenshots: screenshots.get(row.id) ?? [] }));
+
+    return {
+      success: true,
+      logs,
+      message: `Retrieved ${logs.length} logs`
+    };
+  } catch (error) {
+    console.error('Error in retrieveSessionLogs:', error);
+    return {
+      success: false,
+      logs: [],
+      message: `Failed to retrieve logs: ${error}`
+    };
+  }
+};
+
+// Export as tool for AI SDK
+export const retrieveSessionLogs = {
+  description: 'Retrieve the user\'s action logs (screen capture summaries, recordings and 10min/1hour/1day/1week summaries) filtered by type, tags, parent log and time range, newest first. Each log includes references to its screenshots.',
+  inputSchema: retrieveSessionLogsParams,
+  execute: retrieveSessionLogsCore,
+};
@@ -1,84 +1,147 @@
 /**
- * Tool for searching logs using Supabase RAG/Vector search
+ * Tool for searching the calling user's action logs using Supabase vector search
  */
 
 import { z } from 'zod';
-import { createClient } from '@supabase/supabase-js';
+import type { ToolCallOptions } from 'ai';
+import { getSupabaseServiceClient } from '../supabase/server';
+import { generateSearchEmbedding } from '../ai/embedding';
+import { getScreenshotReferences, getToolUserId } from './context';
 
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+// Parameters schema (also the request body of POST /api/v1/search)
+export const searchLogsParams = z.object({
+  query: z.string().describe('Natural language search query for semantic search'),
+  types: z.array(z.string()).optional().describe('Log types to include: screen_capture_analyze, screen_capture_recording, summary_10min, summary_1hour, summary_24hour, summary_1week'),
+  tags: z.array(z.string()).optional().describe('Only include logs having any of these tags'),
+  timeRange: z.object({
+    start: z.string().optional().describe('ISO 8601 start time (inclusive)'),
+    end: z.string().optional().describe('ISO 8601 end time (exclusive)'),
+  }).optional().describe('Optional time range filter on started_at'),
+  limit: z.number().optional().default(20).describe('Maximum number of results'),
+});
 
-// Tool definition
-export const searchLogs = {
-  description: 'Search through session logs using vector/semantic search',
-  parameters: z.object({
-    query: z.string().describe('Search query for semantic search'),
-    timeRange: z.object({
-      start: z.number().optional(),
-      end: z.number().optional(),
-    }).optional().describe('Optional time range filter'),
-  }),
-  execute: async ({ query, timeRange }: { query: string; timeRange?: { start?: number; end?: number } }) => {
-    try {
-      console.log('Searching logs with Supabase RAG:', { query, timeRange });
-      
-      // First, get embedding for the search query
-      // This would typically call OpenAI embeddings API
-      // For now, we'll use text search as fallback
-      
-      // Option 1: Vector search (if embeddings are set up)
-      // const embedding = await getEmbedding(query); // You'd implement this
-      // const { data, error } = await supabase.rpc('search_logs_by_embedding', {
-      //   query_embedding: embedding,
-      //   match_threshold: 0.75,
-      //   match_count: 10
-      // });
-      
-      // Option 2: Full text search (fallback)
-      let searchQuery = supabase
-        .from('session_logs')
-        .select('*')
-        .textSearch('message', query)
-        .order('created_at', { ascending: false })
-        .limit(20);
-      
-      // Apply time range filter if provided
-      if (timeRange?.start) {
-        searchQuery = searchQuery.gte('created_at', new Date(timeRange.start).toISOString());
-      }
-      if (timeRange?.end) {
-        searchQuery = searchQuery.lte('created_at', new Date(timeRange.end).toISOString());
-      }
-      
-      const { data, error } = await searchQuery;
-      
-      if (error) {
-        console.error('Error searching logs:', error);
-        return {
-          success: false,
-          results: [],
-          count: 0,
-          message: `Error searching logs: ${error.message}`
-        };
-      }
-      
-      return {
-        success: true,
-        results: data || [],
-        count: data?.length || 0,
-        message: `Found ${data?.length || 0} matching logs for: ${query}`
-      };
-    } catch (error) {
-      console.error('Error in searchLogs:', error);
-      return {
-        success: false,
-        results: [],
-        count: 0,
-        message: `Failed to search logs: ${error}`
-      };
+export type SearchLogsParams = z.infer<typeof searchLogsParams>;
+
+export type LogSearchRow = {
+  id: string;
+  type: string;
+  summary: string | null;
+  details: unknown;
+  tags: string[] | null;
+  started_at: string;
+  ended_at: string | null;
+  parent_id: string | null;
+  similarity: number;
+};
+
+/**
+ * Semantic search via the search_action_logs_semantic RPC
+ */
+async function semanticSearch(userId: string, params: SearchLogsParams): Promise<LogSearchRow[]> {
+  const supabase = getSupabaseServiceClient();
+  const queryEmbedding = await generateSearchEmbedding(params.query, userId);
+
+  const { data, error } = await supabase.rpc('search_action_logs_semantic', {
+    query_embedding: queryEmbedding,
+    user_id_filter: userId,
+    match_threshold: 0.3,
+    match_count: params.limit ?? 20,
+    type_filter: params.types && params.types.length > 0 ? params.types : null,
+    tags_filter: params.tags && params.tags.length > 0 ? params.tags : null,
+    start_time: params.timeRange?.start ? new Date(params.timeRange.start).toISOString() : null,
+    end_time: params.timeRange?.end ? new Date(params.timeRange.end).toISOString() : null,
+  });
+
+  if (error) throw error;
+  return (data || []) as LogSearchRow[];
+}
+
+/**
+ * Text search fallback on summary (used when embeddings are unavailable)
+ */
+async function textSearch(userId: string, params: SearchLogsParams): Promise<LogSearchRow[]> {
+  const supabase = getSupabaseServiceClient();
+  const terms = params.query.split(/\s+/).filter((term) => term.length > 2).slice(0, 5);
+
+  let query = supabase
+    .from('action_logs')
+    .select('id, type, summary, details, tags, started_at, ended_at, parent_id')
+    .eq('user_id', userId)
+    .order('started_at', { ascending: false })
+    .limit(params.limit ?? 20);
+
+  if (terms.length > 0) {
+    query = query.or(terms.map((term) => `summary.ilike.%${term.replace(/[,()%]/g, '')}%`).join(','));
+  }
+  if (params.types && params.types.length > 0) {
+    query = query.in('type', params.types);
+  }
+  if (params.tags && params.tags.length > 0) {
+    query = query.overlaps('tags', params.tags);
+  }
+  if (params.timeRange?.start) {
+    query = query.gte('started_at', new Date(params.timeRange.start).toISOString());
+  }
+  if (params.timeRange?.end) {
+    query = query.lt('started_at', new Date(params.timeRange.end).toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map((row: Omit<LogSearchRow, 'similarity'>) => ({ ...row, similarity: 0 }));
+}
+
+/**
+ * Semantic search, falling back to text search when it fails or finds nothing
+ */
+export async function searchActionLogs(
+  userId: string,
+  params: SearchLogsParams
+): Promise<{ rows: LogSearchRow[]; searchMethod: 'semantic' | 'text' }> {
+  try {
+    const rows = await semanticSearch(userId, params);
+    if (rows.length > 0) return { rows, searchMethod: 'semantic' };
+  } catch (semanticError) {
+    console.error('Semantic log search failed, falling back to text search:', semanticError);
+  }
+  return { rows: await textSearch(userId, params), searchMethod: 'text' };
+}
+
+// Core function
+const searchLogsCore = async (params: SearchLogsParams, options?: ToolCallOptions) => {
+  try {
+    const userId = getToolUserId(options);
+    if (!userId) {
+      return { success: false, results: [], count: 0, message: 'No user context: logs can only be searched for a signed-in user' };
     }
-  },
-};
\ No newline at end of file
+    console.log('Searching action logs:', { userId, query: params.query, types: params.types, tags: params.tags, timeRange: params.timeRange });
+
+    const { rows, searchMethod } = await searchActionLogs(userId, params);
+
+    const screenshots = await getScreenshotReferences(rows.map((row) => row.id));
+    const results = rows.map((row) => ({ ...row, screenshots: screenshots.get(row.id) ?? [] }));
+
+    return {
+      success: true,
+      results,
+      count: results.length,
+      searchMethod,
+      message: `Found ${results.length} matching logs for: ${params.query}`
+    };
+  } catch (error) {
+    console.error('Error in searchLogs:', error);
+    return {
+      success: false,
+      results: [],
+      count: 0,
+      message: `Failed to search logs: ${error}`
+    };
+  }
+};
+
+// Export as tool for AI SDK
+export const searchLogs = {
+  description: 'Search the user\'s action logs by meaning (semantic/vector search with text fallback), optionally filtered by type, tags and time range. Each result includes a similarity score and references to its screenshots.',
+  inputSchema: searchLogsParams,
+  execute: searchLogsCore,
+};
@@ -0,0 +1,140 @@
+/**
+ * LLM usage ledger (llm_usage) and per-user budget checks
+ */
+import type { LanguageModelUsage } from 'ai';
+import { getSupabaseServiceClient } from '../supabase/server';
+import { getModelCostPer1K, UNKNOWN_MODEL_COST_PER_1K, type ModelUseCase } from '../ai/lm-models';
+import { isMockProviderEnabled, MOCK_PROVIDER } from '../ai/mock-models';
+import {
+  evaluateBudget,
+  parseLlmBudget,
+  startOfUtcDay,
+  startOfUtcMonth,
+  type BudgetStatus,
+  type UsageTotals,
+} from './budget';
+
+// Router use cases plus the calls that bypass the router
+export type UsageKind = ModelUseCase | 'EMBEDDING' | 'REALTIME';
+
+export interface ModelUsageInput {
+  userId?: string | null;
+  useCase: UsageKind;
+  modelId: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+// Budget checks run before every model call, so totals are cached briefly per user
+const BUDGET_CACHE_TTL_MS = 60 * 1000;
+const budgetCache = new Map<string, { status: BudgetStatus; expiresAt: number }>();
+
+export function computeCost(modelId: string, totalTokens: number): number {
+  if (modelId.startsWith(`${MOCK_PROVIDER}:`)) return 0;
+  const costPer1K = getModelCostPer1K(modelId);
+  if (costPer1K === undefined) {
+    console.warn(`⚠️ No price for model "${modelId}", charging ${UNKNOWN_MODEL_COST_PER_1K} per 1K tokens`);
+  }
+  return (totalTokens / 1000) * (costPer1K ?? UNKNOWN_MODEL_COST_PER_1K);
+}
+
+/**
+ * 1回のモデル呼び出しを記録する（失敗しても呼び出し元は止めない）
+ */
+export async function recordModelUsage(input: ModelUsageInput): Promise<void> {
+  // Only user-attributed calls are billed against budgets; anonymous calls (CLI debugging) are not stored
+  if (!input.userId) return;
+  const inputTokens = input.inputTokens ?? 0;
+  const outputTokens = input.outputTokens ?? 0;
+  const totalTokens = input.totalTokens ?? inputTokens + outputTokens;
+  // Mock calls are stored as "mock:<id>" so they cost nothing and never mix with real usage
+  const modelId = isMockProviderEnabled() ? `${MOCK_PROVIDER}:${input.modelId}` : input.modelId;
+  const cost = computeCost(modelId, totalTokens);
+
+  try {
+    const supabase = getSupabaseServiceClient();
+    const { error } = await supabase.from('llm_usage').insert({
+      user_id: input.userId ?? null,
+      use_case: input.useCase,
+      model: modelId,
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      total_tokens: totalTokens,
+      cost_usd: cost,
+    });
+    if (error) throw new Error(error.message);
+    if (input.userId) budgetCache.delete(input.userId);
+  } catch (error) {
+    console.warn('⚠️ Failed to record model usage:', error);
+  }
+}
+
+/**
+ * Record the usage reported by an AI SDK generate/stream call
+ */
+export async function recordLanguageModelUsage(
+  userId: string | null | undefined,
+  useCase: UsageKind,
+  modelId: string,
+  usage: LanguageModelUsage | undefined
+): Promise<void> {
+  if (!usage) return;
+  await recordModelUsage({
+    userId,
+    useCase,
+    modelId,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    totalTokens: usage.totalTokens,
+  });
+}
+
+/**
+ * 今日・今月（UTC）の利用額とトークン数を集計する（集計はSQL側、llm_usage_totals）
+ */
+export async function getUsageTotals(userId: string, now: Date = new Date()): Promise<UsageTotals> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase.rpc('llm_usage_totals', {
+    user_id_filter: userId,
+    day_start: startOfUtcDay(now).toISOString(),
+    month_start: startOfUtcMonth(now).toISOString(),
+  });
+  if (error) throw new Error(error.message);
+
+  const row = (data ?? [])[0];
+  return {
+    dailyUsd: Number(row?.daily_usd) || 0,
+    monthlyUsd: Number(row?.monthly_usd) || 0,
+    dailyTokens: Number(row?.daily_tokens) || 0,
+    monthlyTokens: Number(row?.monthly_tokens) || 0,
+  };
+}
+
+/**
+ * ユーザーの予算状況（ok / degraded / paused）を返す
+ */
+export async function getBudgetStatus(userId: string, now: Date = new Date()): Promise<BudgetStatus> {
+  const cached = budgetCache.get(userId);
+  if (cached && cached.expiresAt > now.getTime()) return cached.status;
+
+  let status: BudgetStatus = { state: 'ok' };
+  try {
+    const supabase = getSupabaseServiceClient();
+    const { data } = await supabase
+      .from('profiles')
+      .select('llm_budget')
+      .eq('id', userId)
+      .maybeSingle();
+    const budget = parseLlmBudget(data?.llm_budget);
+    if (budget.dailyUsd !== null || budget.monthlyUsd !== null) {
+      status = evaluateBudget(budget, await getUsageTotals(userId, now));
+    }
+  } catch (error) {
+    // Accounting problems must not stop analysis
+    console.warn('⚠️ Failed to check LLM budget:', error);
+  }
+
+  budgetCache.set(userId, { status, expiresAt: now.getTime() + BUDGET_CACHE_TTL_MS });
+  return status;
+}
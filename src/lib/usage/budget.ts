@@ -0,0 +1,68 @@
+/**
+ * LLM spending budget (stored in profiles.llm_budget)
+ * Pure helpers only — safe to import from client components.
+ */
+import { z } from 'zod';
+
+// degrade: switch to FASTEST_ANALYSIS models, pause: stop model calls until the period resets
+export const BUDGET_ACTIONS = ['degrade', 'pause'] as const;
+export type BudgetAction = typeof BUDGET_ACTIONS[number];
+
+export const LlmBudgetSchema = z.object({
+  dailyUsd: z.number().min(0).nullable(), // null = no limit
+  monthlyUsd: z.number().min(0).nullable(),
+  onExceeded: z.enum(BUDGET_ACTIONS),
+});
+
+export type LlmBudget = z.infer<typeof LlmBudgetSchema>;
+
+export const DEFAULT_LLM_BUDGET: LlmBudget = {
+  dailyUsd: null,
+  monthlyUsd: null,
+  onExceeded: 'degrade',
+};
+
+export type BudgetState = 'ok' | 'degraded' | 'paused';
+
+export interface UsageTotals {
+  dailyUsd: number;
+  monthlyUsd: number;
+  dailyTokens: number;
+  monthlyTokens: number;
+}
+
+export interface BudgetStatus {
+  state: BudgetState;
+  reason?: string;
+}
+
+/**
+ * Read a stored budget, falling back to "no limit" when missing or invalid
+ */
+export function parseLlmBudget(value: unknown): LlmBudget {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_LLM_BUDGET;
+  const parsed = LlmBudgetSchema.safeParse({ ...DEFAULT_LLM_BUDGET, ...value });
+  return parsed.success ? parsed.data : DEFAULT_LLM_BUDGET;
+}
+
+/**
+ * Compare spending against the budget (periods are UTC calendar day / month)
+ */
+export function evaluateBudget(budget: LlmBudget, totals: UsageTotals): BudgetStatus {
+  let reason: string | undefined;
+  if (budget.dailyUsd !== null && totals.dailyUsd >= budget.dailyUsd) {
+    reason = `daily budget $${budget.dailyUsd.toFixed(2)} reached ($${totals.dailyUsd.toFixed(2)})`;
+  } else if (budget.monthlyUsd !== null && totals.monthlyUsd >= budget.monthlyUsd) {
+    reason = `monthly budget $${budget.monthlyUsd.toFixed(2)} reached ($${totals.monthlyUsd.toFixed(2)})`;
+  }
+  if (!reason) return { state: 'ok' };
+  return { state: budget.onExceeded === 'pause' ? 'paused' : 'degraded', reason };
+}
+
+export function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export function startOfUtcMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
@@ -0,0 +1,26 @@
+/**
+ * Browser-side reporting for Realtime API sessions (the socket bypasses our server)
+ */
+
+export interface RealtimeUsage {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens?: number;
+}
+
+// Authorization header for /api/realtime/session, which requires a signed-in user and checks their budget
+export function realtimeAuthHeaders(accessToken: string | undefined): HeadersInit {
+  return accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
+}
+
+/**
+ * Forward the usage from a `response.done` event to /api/usage (fire and forget)
+ */
+export function reportRealtimeUsage(accessToken: string | undefined, usage: RealtimeUsage | undefined): void {
+  if (!accessToken || !usage) return;
+  fetch('/api/usage', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify({ usage }),
+  }).catch((error) => console.warn('Failed to report realtime usage:', error));
+}
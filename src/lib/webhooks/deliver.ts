@@ -0,0 +1,261 @@
+/**
+ * Webhookの送信（署名・リトライ・配信ログ）
+ *
+ * イベントごとに購読中のエンドポイントへwebhook_deliveriesの行を作り、その場で1回目を送る。
+ * 失敗した配信はバックオフ後にretryDueWebhookDeliveries（定期タスク）が再送する。
+ */
+import { createHmac, randomUUID } from 'crypto';
+import { lookup } from 'dns/promises';
+import { request as httpsRequest } from 'https';
+import { isIP, type LookupFunction } from 'net';
+import { getSupabaseServiceClient } from '../supabase/server';
+import type { Json } from '../supabase/database.types';
+import {
+  isPrivateAddress,
+  isRetryableStatus,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  validateWebhookUrl,
+  webhookRetryDelay,
+  type WebhookEvent,
+  type WebhookPayload,
+} from './events';
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const RESPONSE_BODY_LIMIT = 1000;
+const RETRY_BATCH_SIZE = 50;
+// Longer than a whole batch of sends; a run that dies mid-batch leaves its rows to be retried after this
+const RETRY_CLAIM_MS = 10 * 60 * 1000;
+
+interface DeliveryRow {
+  id: string;
+  endpoint_id: string;
+  event: string;
+  payload: WebhookPayload;
+  attempts: number;
+}
+
+interface EndpointTarget {
+  id: string;
+  url: string;
+  secret: string;
+  enabled: boolean;
+}
+
+/**
+ * 署名ヘッダーの値: t=<unix秒>,v1=<HMAC-SHA256(secret, "<t>.<body>")>
+ * 受信側は同じ計算で検証し、古いtを拒否することでリプレイを防げる
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+interface ResolvedAddress {
+  address: string;
+  family: number;
+}
+
+/**
+ * 送信先ホストを名前解決し、公開アドレスだけを返す
+ * 登録時のURL検証はホスト名しか見ないため、プライベートアドレスに解決される名前はここで拒否する
+ */
+async function resolvePublicAddress(hostname: string): Promise<ResolvedAddress> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true, verbatim: true });
+  if (addresses.length === 0) throw new Error(`Could not resolve ${host}`);
+  if (addresses.some((entry) => isPrivateAddress(entry.address))) {
+    throw new Error(`${host} resolves to a non-public address`);
+  }
+  return addresses[0];
+}
+
+/**
+ * 解決済みのアドレスに固定してPOSTする（接続時に再度名前解決させない、DNS rebinding対策）
+ * TLSの検証とHostヘッダーは元のホスト名のまま
+ */
+function postPinned(
+  url: URL,
+  address: ResolvedAddress,
+  headers: Record<string, string>,
+  body: string
+): Promise<{ status: number; text: string }> {
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) callback(null, [address]);
+    else callback(null, address.address, address.family);
+  };
+  return new Promise((resolve, reject) => {
+    const req = httpsRequest(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: pinnedLookup,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    }, (res) => {
+      // Redirects are not followed (a redirect could point anywhere); only the start of the body is kept
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => {
+        if (text.length < RESPONSE_BODY_LIMIT) text += chunk;
+      });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, text: text.slice(0, RESPONSE_BODY_LIMIT) }));
+      res.on('error', reject);
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+async function send(target: EndpointTarget, delivery: DeliveryRow): Promise<{ status: number | null; body: string | null; error: string | null }> {
+  const body = JSON.stringify(delivery.payload);
+  try {
+    // Endpoints saved before a validation change are checked again before anything is sent
+    const urlError = validateWebhookUrl(target.url);
+    if (urlError) throw new Error(urlError);
+    const url = new URL(target.url);
+    const address = await resolvePublicAddress(url.hostname);
+    const res = await postPinned(url, address, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'watchful-webhooks/1',
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(target.secret, body),
+      [WEBHOOK_EVENT_HEADER]: delivery.event,
+      [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+    }, body);
+    const ok = res.status >= 200 && res.status < 300;
+    return { status: res.status, body: res.text || null, error: ok ? null : `HTTP ${res.status}` };
+  } catch (error) {
+    return { status: null, body: null, error: error instanceof Error ? error.message : 'Request failed' };
+  }
+}
+
+/**
+ * 1回送信し、結果に応じて配信行を更新する
+ */
+async function attemptDelivery(target: EndpointTarget, delivery: DeliveryRow): Promise<void> {
+  const supabase = getSupabaseServiceClient();
+  const attempts = delivery.attempts + 1;
+
+  if (!target.enabled) {
+    await supabase
+      .from('webhook_deliveries')
+      .update({ status: 'failed', attempts, last_error: 'Endpoint disabled', next_attempt_at: null })
+      .eq('id', delivery.id);
+    return;
+  }
+
+  const result = await send(target, delivery);
+  const succeeded = result.status !== null && result.status >= 200 && result.status < 300;
+  const retryable = !succeeded && (result.status === null || isRetryableStatus(result.status));
+  const delay = retryable ? webhookRetryDelay(attempts) : null;
+
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: succeeded ? 'succeeded' : delay !== null ? 'pending' : 'failed',
+      attempts,
+      response_status: result.status,
+      response_body: result.body,
+      last_error: result.error,
+      delivered_at: succeeded ? new Date().toISOString() : null,
+      next_attempt_at: delay !== null ? new Date(Date.now() + delay).toISOString() : null,
+    })
+    .eq('id', delivery.id);
+  if (error) console.warn('⚠️ webhook_deliveries update failed:', error.message);
+
+  if (!succeeded) {
+    console.warn(`⚠️ Webhook ${delivery.event} → ${target.url} failed (attempt ${attempts}): ${result.error}`);
+  }
+}
+
+/**
+ * イベントを購読中の全エンドポイントへ送る
+ * 送信失敗は配信ログとリトライで扱うため、呼び出し元の保存処理には影響させない
+ */
+export async function emitWebhookEvent(
+  userId: string,
+  event: WebhookEvent,
+  text: string,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const supabase = getSupabaseServiceClient();
+    const { data: endpoints, error } = await supabase
+      .from('webhook_endpoints')
+      .select('id, url, secret, enabled')
+      .eq('user_id', userId)
+      .eq('enabled', true)
+      .contains('events', [event]);
+    if (error) throw new Error(error.message);
+    if (!endpoints || endpoints.length === 0) return;
+
+    const createdAt = new Date().toISOString();
+    await Promise.all((endpoints as EndpointTarget[]).map(async (endpoint) => {
+      // The payload carries its own delivery id, so the id is chosen here
+      const id = randomUUID();
+      const payload: WebhookPayload = { id, event, created_at: createdAt, text, data };
+      const { error: insertError } = await supabase.from('webhook_deliveries').insert({
+        id,
+        endpoint_id: endpoint.id,
+        user_id: userId,
+        event,
+        payload: payload as unknown as Json,
+        status: 'pending',
+        // Keeps the retry task off this row while the first attempt below is in flight
+        next_attempt_at: new Date(Date.now() + (webhookRetryDelay(1) ?? 0)).toISOString(),
+      });
+      if (insertError) {
+        console.warn('⚠️ webhook_deliveries insert failed:', insertError.message);
+        return;
+      }
+      await attemptDelivery(endpoint, { id, endpoint_id: endpoint.id, event, payload, attempts: 0 });
+    }));
+  } catch (error) {
+    console.warn(`⚠️ Webhook event ${event} could not be queued:`, error);
+  }
+}
+
+/**
+ * バックオフ期間が過ぎた未完了の配信を再送する（定期タスクから呼ばれる）
+ * 送る前にnext_attempt_atを先へ進めて行を確保し、重なって動いた実行が同じ行を送らないようにする
+ */
+export async function retryDueWebhookDeliveries(now: Date = new Date()): Promise<number> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('id, endpoint_id, event, payload, attempts')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now.toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(RETRY_BATCH_SIZE);
+  if (error) throw new Error(`Failed to load due webhook deliveries: ${error.message}`);
+  const due = (data ?? []) as DeliveryRow[];
+  if (due.length === 0) return 0;
+
+  // Only rows still due when the update runs are claimed; another run's claim has already moved them on
+  const { data: claimed, error: claimError } = await supabase
+    .from('webhook_deliveries')
+    .update({ next_attempt_at: new Date(now.getTime() + RETRY_CLAIM_MS).toISOString() })
+    .in('id', due.map((row) => row.id))
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now.toISOString())
+    .select('id');
+  if (claimError) throw new Error(`Failed to claim due webhook deliveries: ${claimError.message}`);
+  const claimedIds = new Set(((claimed ?? []) as Array<{ id: string }>).map((row) => row.id));
+  const rows = due.filter((row) => claimedIds.has(row.id));
+  if (rows.length === 0) return 0;
+
+  const { data: endpoints, error: endpointError } = await supabase
+    .from('webhook_endpoints')
+    .select('id, url, secret, enabled')
+    .in('id', Array.from(new Set(rows.map((row) => row.endpoint_id))));
+  if (endpointError) throw new Error(`Failed to load webhook endpoints: ${endpointError.message}`);
+  const targets = new Map(((endpoints ?? []) as EndpointTarget[]).map((endpoint) => [endpoint.id, endpoint]));
+
+  for (const row of rows) {
+    const target = targets.get(row.endpoint_id);
+    if (target) await attemptDelivery(target, row);
+  }
+  return rows.length;
+}
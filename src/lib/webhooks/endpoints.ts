@@ -0,0 +1,130 @@
+/**
+ * Webhookエンドポイントの登録・更新・削除と配信ログの参照（いずれも本人の行のみ）
+ */
+import { randomBytes } from 'crypto';
+import { getSupabaseServiceClient } from '../supabase/server';
+import type { WebhookEvent } from './events';
+
+// The secret is only returned by createWebhookEndpoint
+export interface WebhookEndpointSummary {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  enabled: boolean;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface WebhookDeliverySummary {
+  id: string;
+  event: string;
+  status: string;
+  attempts: number;
+  response_status: number | null;
+  response_body: string | null;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  delivered_at: string | null;
+  created_at: string | null;
+}
+
+const ENDPOINT_COLUMNS = 'id, url, description, events, enabled, created_at, updated_at';
+const DELIVERY_COLUMNS =
+  'id, event, status, attempts, response_status, response_body, last_error, next_attempt_at, delivered_at, created_at';
+
+export async function listWebhookEndpoints(userId: string): Promise<WebhookEndpointSummary[]> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select(ENDPOINT_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Failed to list webhook endpoints: ${error.message}`);
+  return (data ?? []) as WebhookEndpointSummary[];
+}
+
+/**
+ * エンドポイントを登録し、署名用シークレットを返す（平文で返すのはこの時だけ）
+ */
+export async function createWebhookEndpoint(params: {
+  userId: string;
+  url: string;
+  description?: string | null;
+  events: WebhookEvent[];
+}): Promise<WebhookEndpointSummary & { secret: string }> {
+  const secret = `whsec_${randomBytes(24).toString('base64url')}`;
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .insert({
+      user_id: params.userId,
+      url: params.url,
+      description: params.description?.trim() || null,
+      events: Array.from(new Set(params.events)),
+      secret,
+    })
+    .select(ENDPOINT_COLUMNS)
+    .single();
+  if (error || !data) throw new Error(`Failed to create webhook endpoint: ${error?.message ?? 'no row returned'}`);
+  return { ...(data as WebhookEndpointSummary), secret };
+}
+
+/**
+ * 本人のエンドポイントを更新する（見つからなければnull）
+ */
+export async function updateWebhookEndpoint(
+  userId: string,
+  endpointId: string,
+  patch: { url?: string; description?: string | null; events?: WebhookEvent[]; enabled?: boolean }
+): Promise<WebhookEndpointSummary | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .update({
+      ...patch,
+      ...(patch.events ? { events: Array.from(new Set(patch.events)) } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', endpointId)
+    .eq('user_id', userId)
+    .select(ENDPOINT_COLUMNS)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to update webhook endpoint: ${error.message}`);
+  return (data as WebhookEndpointSummary | null) ?? null;
+}
+
+/**
+ * 本人のエンドポイントを削除する（配信ログも連鎖削除）
+ */
+export async function deleteWebhookEndpoint(userId: string, endpointId: string): Promise<boolean> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', endpointId)
+    .eq('user_id', userId)
+    .select('id');
+  if (error) throw new Error(`Failed to delete webhook endpoint: ${error.message}`);
+  return (data ?? []).length > 0;
+}
+
+/**
+ * エンドポイントの配信ログ（新しい順）
+ */
+export async function listWebhookDeliveries(
+  userId: string,
+  endpointId: string,
+  limit: number = 50
+): Promise<WebhookDeliverySummary[]> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select(DELIVERY_COLUMNS)
+    .eq('endpoint_id', endpointId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`Failed to list webhook deliveries: ${error.message}`);
+  return (data ?? []) as WebhookDeliverySummary[];
+}
@@ -0,0 +1,169 @@
+/**
+ * Outbound webhook events, payload shape and delivery policy.
+ * Pure helpers only — safe to import from client components; sending lives in deliver.ts.
+ */
+import type { TimeInterval } from '@/lib/ai/time-interval-summarizer';
+
+export const WEBHOOK_EVENTS = [
+  'summary.10min',
+  'summary.1hour',
+  'summary.1day',
+  'summary.1week',
+  'recommendation.created',
+  'analysis.completed',
+] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  'summary.10min': '10-minute activity summary',
+  'summary.1hour': 'Hourly activity summary',
+  'summary.1day': 'Daily activity summary',
+  'summary.1week': 'Weekly activity summary',
+  'recommendation.created': 'New recommendation',
+  'analysis.completed': 'Recording analysis completed',
+};
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+// Headers sent with every delivery
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Webhook-Delivery';
+
+// Wait before attempt 2, 3, …; after the last one the delivery is marked failed
+export const WEBHOOK_RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  12 * 60 * 60 * 1000,
+];
+export const WEBHOOK_MAX_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MS.length + 1;
+
+/**
+ * Body of every delivery. `text` is a one-line rendering, so Slack-compatible
+ * incoming webhooks can take the payload as is.
+ */
+export interface WebhookPayload {
+  id: string; // Delivery id, also in the X-Webhook-Delivery header (receivers can de-duplicate on it)
+  event: WebhookEvent;
+  created_at: string;
+  text: string;
+  data: Record<string, unknown>;
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+export function summaryEvent(interval: TimeInterval): WebhookEvent {
+  return `summary.${interval}`;
+}
+
+/**
+ * Delay before the next attempt, or null when attempts are exhausted
+ */
+export function webhookRetryDelay(attempts: number): number | null {
+  return attempts >= 1 && attempts < WEBHOOK_MAX_ATTEMPTS ? WEBHOOK_RETRY_DELAYS_MS[attempts - 1] : null;
+}
+
+// 2xx is delivered; 4xx other than timeouts / rate limits will not get better by retrying
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function parseIpv4(value: string): number[] | null {
+  const octets = value.split('.');
+  if (octets.length !== 4 || octets.some((o) => !/^\d{1,3}$/.test(o) || Number(o) > 255)) return null;
+  return octets.map(Number);
+}
+
+// Eight 16-bit groups, or null when the value is not an IPv6 literal (an IPv4 tail such as ::ffff:1.2.3.4 is allowed)
+function parseIpv6(value: string): number[] | null {
+  if (!value.includes(':')) return null;
+  let text = value.toLowerCase();
+  const tail: number[] = [];
+  const lastColon = text.lastIndexOf(':');
+  if (text.slice(lastColon + 1).includes('.')) {
+    const v4 = parseIpv4(text.slice(lastColon + 1));
+    if (!v4) return null;
+    tail.push((v4[0] << 8) | v4[1], (v4[2] << 8) | v4[3]);
+    text = text.slice(0, lastColon + 1) + '0';
+  }
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const parse = (part: string) => (part ? part.split(':') : []);
+  const head = parse(halves[0]);
+  const rest = halves.length === 2 ? parse(halves[1]) : [];
+  if (tail.length > 0) (rest.length > 0 ? rest : head).pop();
+  const fill = 8 - tail.length - head.length - rest.length;
+  if (halves.length === 2 ? fill < 1 : fill !== 0) return null;
+  const groups = [...head, ...Array<string>(halves.length === 2 ? fill : 0).fill('0'), ...rest];
+  if (groups.some((g) => !/^[0-9a-f]{1,4}$/.test(g))) return null;
+  return [...groups.map((g) => parseInt(g, 16)), ...tail];
+}
+
+function isPrivateIpv4([a, b, c]: number[]): boolean {
+  return a === 0 || a === 10 || a === 127 || a >= 224 // this network, private, loopback, multicast and reserved
+    || (a === 100 && b >= 64 && b <= 127) // carrier-grade NAT
+    || (a === 169 && b === 254) // link-local (cloud metadata)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 192 && b === 0 && (c === 0 || c === 2)) // IETF protocol assignments, documentation
+    || (a === 198 && (b === 18 || b === 19)) // benchmarking
+    || (a === 198 && b === 51 && c === 100)
+    || (a === 203 && b === 0 && c === 113);
+}
+
+/**
+ * Whether an IP literal (IPv4 or IPv6) is not a public unicast address.
+ * IPv6 forms that embed an IPv4 address (mapped, compatible, NAT64, 6to4) are judged by that address.
+ * Anything that does not parse counts as private.
+ */
+export function isPrivateAddress(value: string): boolean {
+  const address = value.replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+  const v4 = parseIpv4(address);
+  if (v4) return isPrivateIpv4(v4);
+  const g = parseIpv6(address);
+  if (!g) return true;
+  const embedded = (hi: number, lo: number) => isPrivateIpv4([hi >> 8, hi & 0xff, lo >> 8, lo & 0xff]);
+  if (g.slice(0, 5).every((x) => x === 0) && (g[5] === 0xffff || g[5] === 0)) {
+    // ::ffff:a.b.c.d (mapped), ::a.b.c.d (compatible), :: and ::1
+    return g[5] === 0 && g[6] === 0 ? true : embedded(g[6], g[7]);
+  }
+  if (g[0] === 0x64 && g[1] === 0xff9b) return embedded(g[6], g[7]); // NAT64
+  if (g[0] === 0x2002) return embedded(g[1], g[2]); // 6to4
+  return (g[0] & 0xfe00) === 0xfc00 // unique-local
+    || (g[0] & 0xffc0) === 0xfe80 // link-local
+    || (g[0] & 0xffc0) === 0xfec0 // site-local
+    || (g[0] & 0xff00) === 0xff00 // multicast
+    || (g[0] === 0x2001 && (g[1] === 0 || g[1] === 0xdb8)) // Teredo, documentation
+    || (g[0] === 0x100 && g[1] === 0 && g[2] === 0 && g[3] === 0); // discard
+}
+
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true;
+  }
+  // Names are checked again after DNS resolution when a delivery is sent
+  return host.includes(':') || parseIpv4(host) ? isPrivateAddress(host) : false;
+}
+
+/**
+ * Error message for an endpoint URL the server must not call, or null when it is acceptable
+ * (https only, no loopback or private-network hosts; deliver.ts also checks what the name resolves to)
+ */
+export function validateWebhookUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Invalid URL';
+  }
+  if (url.protocol !== 'https:') return 'Webhook URLs must use https';
+  if (url.username || url.password) return 'Webhook URLs must not contain credentials';
+  if (isPrivateHost(url.hostname)) return 'Webhook URLs must point to a public host';
+  return null;
+}
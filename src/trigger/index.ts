@@ -1,9 +1,17 @@
 import { defineConfig, schedules } from "@trigger.dev/sdk/v3";
 import { createClient } from "@supabase/supabase-js";
 import type { Database, Json } from "@/lib/supabase/database.types";
-import { openai } from "@ai-sdk/openai";
-import { generateText } from "ai";
-import { generateActionLogEmbedding } from "@/lib/ai/embedding";
+import {
+	backfillIntervalSummaries,
+	getSourceActionLogType,
+	type TimeInterval,
+} from "@/lib/ai/time-interval-summarizer";
+import { sendDueDigests } from "@/lib/notifications/notify";
+import { evaluateDueRecommendations } from "@/lib/ai/advice-adoption-evaluator";
+import { retryDueWebhookDeliveries } from "@/lib/webhooks/deliver";
+import { FOCUS_METRIC_INTERVALS } from "@/lib/analytics/focus-metrics";
+import { fillMissingFocusMetrics, listUsersWithCapturesSince } from "@/lib/analytics/focus-metrics-store";
+import { refreshStaleSessionSummaries } from "@/lib/sessions/store";
 
 const supabase = createClient<Database>(
 	process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -47,81 +55,31 @@ export const compressEvery10m = schedules.task({
 	},
 });
 
-// LogSummaryRowInsert type removed - using action_logs instead
-
-async function summarizeUserRecentLogs(userId: string, sinceISO: string): Promise<void> {
-	const { data, error } = await supabase
-		.from("action_logs")
-		.select("id, summary, type, created_at")
-		.eq("user_id", userId)
-		.gte("created_at", sinceISO)
-		.order("created_at", { ascending: true });
-	if (error) throw new Error(error.message);
-	const logs = (data ?? []) as Array<Pick<Database["public"]["Tables"]["action_logs"]["Row"], "id" | "summary" | "type" | "created_at">>;
-	const withSummary = logs.filter((l) => !!l.summary);
-	if (withSummary.length === 0) return;
-
-	const bulletLines = withSummary.map((l) => {
-		const time = new Date(l.created_at ?? Date.now()).toISOString().slice(11, 16);
-		return `- [${time}] ${l.type}: ${l.summary}`;
-	});
-	const prompt = [
-		"The following are newly recorded user logs from the past 10 minutes.",
-		"Please summarize in English, focusing only on important points with a maximum of 5 items, removing duplicates and minor details.",
-		"Keep sentences short and as specific as possible. End with a one-line overall summary.",
-		"",
-		bulletLines.join("\n"),
-	].join("\n");
-
-	const { text } = await generateText({
-		model: openai("gpt-4o-mini"),
-		prompt,
-		temperature: 0.3,
-	});
-
-	const structured: Json = {
-		windowMinutes: 10,
-		logCount: withSummary.length,
-		firstId: withSummary[0].id,
-		lastId: withSummary[withSummary.length - 1].id,
-	} as unknown as Json;
-	const tags = ["cron", "10min", "auto-summary"];
-
-	let embedding: string | null = null;
-	try {
-		embedding = await generateActionLogEmbedding(text, structured as unknown as Record<string, unknown>, tags);
-	} catch {
-		embedding = null;
-	}
-
-	// Also persist to action_logs as a summary window for later grouping
-	await supabase
-		.from("action_logs")
-		.insert({
-			user_id: userId,
-			type: "summary_10min",
-			summary: text,
-			details: structured,
-			tags,
-			started_at: sinceISO,
-			ended_at: new Date().toISOString(),
-			embedding,
-		});
-
-	// Summary data is now stored in action_logs table as summary_10min type
-	// No separate log_summary table insertion needed
-}
-
-async function summarizeRecentLogsForAllUsers(): Promise<void> {
-	const since = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+// Interval summaries: aligned windows (10min → 1hour → 1day → 1week), each tier built from the tier below.
+// Every run re-checks a lookback range and fills windows that are still missing, so a missed cron run
+// is picked up by the next one and re-runs never duplicate an existing window.
+const LOOKBACK_MS: Record<TimeInterval, number> = {
+	"10min": 60 * 60 * 1000,
+	"1hour": 6 * 60 * 60 * 1000,
+	"1day": 3 * 24 * 60 * 60 * 1000,
+	"1week": 2 * 7 * 24 * 60 * 60 * 1000,
+};
+
+async function fillMissingSummariesForAllUsers(interval: TimeInterval): Promise<void> {
+	const rangeEnd = new Date();
+	const rangeStart = new Date(rangeEnd.getTime() - LOOKBACK_MS[interval]);
 	const { data, error } = await supabase
 		.from("action_logs")
 		.select("user_id")
-		.gte("created_at", since);
+		.eq("type", getSourceActionLogType(interval))
+		.gte("started_at", rangeStart.toISOString());
 	if (error) throw new Error(error.message);
 	const userIds = Array.from(new Set((data ?? []).map((r) => (r as { user_id: string }).user_id).filter(Boolean)));
 	for (const uid of userIds) {
-		await summarizeUserRecentLogs(uid, since);
+		const results = await backfillIntervalSummaries({ userId: uid, interval, rangeStart, rangeEnd });
+		for (const result of results.filter((r) => !r.success)) {
+			console.warn(`${interval} summary failed for ${uid}: ${result.error}`);
+		}
 	}
 }
 
@@ -129,7 +87,98 @@ export const summarizeEvery10m = schedules.task({
 	id: "summarize-recent-logs",
 	cron: "*/10 * * * *",
 	run: async () => {
-		await summarizeRecentLogsForAllUsers();
+		await fillMissingSummariesForAllUsers("10min");
+	},
+});
+
+export const summarizeEvery1h = schedules.task({
+	id: "summarize-1hour",
+	cron: "5 * * * *",
+	run: async () => {
+		await fillMissingSummariesForAllUsers("1hour");
+	},
+});
+
+export const summarizeEvery1d = schedules.task({
+	id: "summarize-1day",
+	cron: "15 0 * * *",
+	run: async () => {
+		await fillMissingSummariesForAllUsers("1day");
+	},
+});
+
+export const summarizeEvery1w = schedules.task({
+	id: "summarize-1week",
+	cron: "30 0 * * 1",
+	run: async () => {
+		await fillMissingSummariesForAllUsers("1week");
+	},
+});
+
+// Focus metrics come straight from the captures (no model call), so windows without a summary get them too.
+// Windows whose captures arrived or were analysed after the metrics were computed are computed again.
+export const updateFocusMetrics = schedules.task({
+	id: "compute-focus-metrics",
+	cron: "10 * * * *",
+	run: async () => {
+		const rangeEnd = new Date();
+		let saved = 0;
+		for (const interval of FOCUS_METRIC_INTERVALS) {
+			const rangeStart = new Date(rangeEnd.getTime() - LOOKBACK_MS[interval]);
+			for (const uid of await listUsersWithCapturesSince(rangeStart)) {
+				try {
+					saved += await fillMissingFocusMetrics({ userId: uid, interval, rangeStart, rangeEnd });
+				} catch (error) {
+					console.warn(`${interval} focus metrics failed for ${uid}:`, error);
+				}
+			}
+		}
+		return { saved };
+	},
+});
+
+// Session summaries are written when a session ends; captures queued offline arrive (and are analysed)
+// later, so recently ended sessions whose captures changed since are summarized again
+const SESSION_SUMMARY_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+export const refreshSessionSummaries = schedules.task({
+	id: "refresh-session-summaries",
+	cron: "*/15 * * * *",
+	run: async () => {
+		const refreshed = await refreshStaleSessionSummaries(new Date(Date.now() - SESSION_SUMMARY_LOOKBACK_MS));
+		return { refreshed };
+	},
+});
+
+// Batched pushes for users in digest mode (each user's own interval is checked inside)
+export const sendNotificationDigests = schedules.task({
+	id: "send-notification-digests",
+	cron: "*/15 * * * *",
+	run: async () => {
+		const sent = await sendDueDigests();
+		return { sent };
+	},
+});
+
+// Follow-up check of advice given a few days ago against later activity
+export const evaluateAdviceAdoption = schedules.task({
+	id: "evaluate-advice-adoption",
+	cron: "45 1 * * *",
+	run: async () => {
+		const results = await evaluateDueRecommendations();
+		return { evaluated: results.length };
+	},
+});
+
+// Webhook deliveries whose backoff has elapsed (the first attempt is made when the event happens).
+// A batch can outlast the minute, so runs are queued one at a time; rows are also claimed before sending.
+export const retryWebhookDeliveries = schedules.task({
+	id: "retry-webhook-deliveries",
+	cron: "* * * * *",
+	queue: { concurrencyLimit: 1 },
+	run: async () => {
+		const attempted = await retryDueWebhookDeliveries();
+		return { attempted };
 	},
 });
 
@@ -0,0 +1,16 @@
+-- Allow weekly rollups (summary_1week) in action_logs.type
+alter table public.action_logs drop constraint if exists action_logs_type_check;
+alter table public.action_logs add constraint action_logs_type_check check (
+  type in (
+    'screen_capture_analyze',
+    'screen_capture_recording',
+    'summary_10min',
+    'summary_1hour',
+    'summary_24hour',
+    'summary_1week'
+  )
+);
+
+-- Rollups navigate the hierarchy in both directions (parent_id up, source_log_ids down)
+create index if not exists action_logs_parent_id_idx on public.action_logs (parent_id);
+create index if not exists action_logs_user_type_started_idx on public.action_logs (user_id, type, started_at);
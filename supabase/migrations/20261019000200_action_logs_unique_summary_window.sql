@@ -0,0 +1,13 @@
+-- One interval summary per user / type / window.
+-- Remove existing duplicates first, keeping the earliest row of each window.
+delete from public.action_logs a
+using public.action_logs b
+where a.type like 'summary\_%'
+  and a.user_id = b.user_id
+  and a.type = b.type
+  and a.started_at = b.started_at
+  and (a.created_at, a.id) > (b.created_at, b.id);
+
+create unique index if not exists action_logs_summary_window_key
+  on public.action_logs (user_id, type, started_at)
+  where type like 'summary\_%';
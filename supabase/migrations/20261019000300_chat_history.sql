@@ -0,0 +1,31 @@
+-- Conversation history for the /chat page
+create table if not exists public.chat_conversations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists public.chat_messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references public.chat_conversations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  citations jsonb,
+  created_at timestamptz default now()
+);
+
+create index if not exists chat_conversations_user_updated_idx on public.chat_conversations (user_id, updated_at desc);
+create index if not exists chat_messages_conversation_created_idx on public.chat_messages (conversation_id, created_at);
+
+alter table public.chat_conversations enable row level security;
+alter table public.chat_messages enable row level security;
+
+create policy "Users can read own conversations" on public.chat_conversations
+  for select using (auth.uid() = user_id);
+create policy "Users can delete own conversations" on public.chat_conversations
+  for delete using (auth.uid() = user_id);
+create policy "Users can read own chat messages" on public.chat_messages
+  for select using (auth.uid() = user_id);
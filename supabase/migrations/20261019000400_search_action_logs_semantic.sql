@@ -0,0 +1,46 @@
+-- Semantic search over action_logs for a single user (replaces the log_summary based search)
+create or replace function public.search_action_logs_semantic(
+  query_embedding vector(1536),
+  user_id_filter uuid,
+  match_threshold float default 0.3,
+  match_count int default 20,
+  type_filter text[] default null,
+  tags_filter text[] default null,
+  start_time timestamptz default null,
+  end_time timestamptz default null
+)
+returns table (
+  id uuid,
+  type text,
+  summary text,
+  details jsonb,
+  tags text[],
+  started_at timestamptz,
+  ended_at timestamptz,
+  parent_id uuid,
+  similarity float
+)
+language sql
+stable
+as $$
+  select
+    a.id,
+    a.type,
+    a.summary,
+    a.details,
+    a.tags,
+    a.started_at,
+    a.ended_at,
+    a.parent_id,
+    1 - (a.embedding <=> query_embedding) as similarity
+  from public.action_logs a
+  where a.user_id = user_id_filter
+    and a.embedding is not null
+    and (type_filter is null or a.type = any (type_filter))
+    and (tags_filter is null or a.tags && tags_filter)
+    and (start_time is null or a.started_at >= start_time)
+    and (end_time is null or a.started_at < end_time)
+    and 1 - (a.embedding <=> query_embedding) > match_threshold
+  order by a.embedding <=> query_embedding
+  limit match_count;
+$$;
@@ -0,0 +1,25 @@
+-- Per-user Web Push subscriptions (one row per browser/device endpoint)
+create table if not exists public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  endpoint text not null unique,
+  keys jsonb,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+alter table public.push_subscriptions add column if not exists user_agent text;
+alter table public.push_subscriptions add column if not exists last_success_at timestamptz;
+
+-- Anonymous subscriptions from the old broadcast flow cannot be targeted; drop them
+delete from public.push_subscriptions where user_id is null;
+alter table public.push_subscriptions alter column user_id set not null;
+
+create index if not exists push_subscriptions_user_idx on public.push_subscriptions (user_id);
+
+alter table public.push_subscriptions enable row level security;
+
+create policy "Users can read own push subscriptions" on public.push_subscriptions
+  for select using (auth.uid() = user_id);
+create policy "Users can delete own push subscriptions" on public.push_subscriptions
+  for delete using (auth.uid() = user_id);
@@ -0,0 +1,22 @@
+-- Per-user notification settings (quiet hours, rate limit, categories, digest)
+alter table public.profiles add column if not exists notification_preferences jsonb;
+
+-- Every notification decision, used for rate limiting and digest batching
+create table if not exists public.notification_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  category text not null check (category in ('advice', 'screen_summary', 'recording', 'digest')),
+  title text not null,
+  body text not null,
+  status text not null check (status in ('sent', 'queued', 'digested', 'suppressed')),
+  reason text,
+  created_at timestamptz default now()
+);
+
+create index if not exists notification_events_user_status_created_idx
+  on public.notification_events (user_id, status, created_at desc);
+
+alter table public.notification_events enable row level security;
+
+create policy "Users can read own notification events" on public.notification_events
+  for select using (auth.uid() = user_id);
@@ -0,0 +1,26 @@
+-- Recommendation lifecycle: status, user feedback and analyzer metadata
+alter table public.recommendations
+  add column if not exists status text not null default 'new',
+  add column if not exists snoozed_until timestamptz,
+  add column if not exists rating smallint,
+  add column if not exists comment text,
+  add column if not exists category text,
+  add column if not exists priority text,
+  add column if not exists title text,
+  add column if not exists updated_at timestamptz default now();
+
+alter table public.recommendations drop constraint if exists recommendations_status_check;
+alter table public.recommendations add constraint recommendations_status_check
+  check (status in ('new', 'accepted', 'dismissed', 'snoozed', 'done'));
+
+alter table public.recommendations drop constraint if exists recommendations_rating_check;
+alter table public.recommendations add constraint recommendations_rating_check
+  check (rating is null or rating between 1 and 5);
+
+create index if not exists recommendations_user_status_created_idx
+  on public.recommendations (user_id, status, created_at desc);
+
+-- Status and feedback are edited from the browser client
+drop policy if exists "Users can update own recommendations" on public.recommendations;
+create policy "Users can update own recommendations" on public.recommendations
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,27 @@
+-- Full structured result of each recording analysis (ProductivityAnalysisSchema)
+create table if not exists public.productivity_analyses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  video_path text,
+  analysis jsonb not null,
+  created_at timestamptz default now()
+);
+
+alter table public.productivity_analyses
+  add column if not exists video_id uuid references public.videos (id) on delete set null,
+  add column if not exists action_log_id uuid references public.action_logs (id) on delete set null,
+  add column if not exists recommendation_id uuid references public.recommendations (id) on delete set null,
+  add column if not exists productivity_score smallint,
+  add column if not exists main_activity text,
+  add column if not exists total_time text,
+  add column if not exists model text;
+
+create index if not exists productivity_analyses_user_created_idx
+  on public.productivity_analyses (user_id, created_at desc);
+create index if not exists productivity_analyses_video_idx on public.productivity_analyses (video_id);
+
+alter table public.productivity_analyses enable row level security;
+
+drop policy if exists "Users can read own productivity analyses" on public.productivity_analyses;
+create policy "Users can read own productivity analyses" on public.productivity_analyses
+  for select using (auth.uid() = user_id);
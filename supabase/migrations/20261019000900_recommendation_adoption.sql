@@ -0,0 +1,15 @@
+-- Follow-up verification: did the user actually adopt the advice?
+alter table public.recommendations
+  add column if not exists adoption_verdict text,
+  add column if not exists adoption_confidence real,
+  add column if not exists adoption_evidence text,
+  add column if not exists adoption_log_ids uuid[],
+  add column if not exists adoption_evaluated_at timestamptz;
+
+alter table public.recommendations drop constraint if exists recommendations_adoption_verdict_check;
+alter table public.recommendations add constraint recommendations_adoption_verdict_check
+  check (adoption_verdict is null or adoption_verdict in ('adopted', 'partially_adopted', 'not_adopted', 'insufficient_data'));
+
+create index if not exists recommendations_adoption_pending_idx
+  on public.recommendations (created_at)
+  where adoption_evaluated_at is null;
@@ -0,0 +1,2 @@
+-- Per-user model overrides keyed by use case (e.g. {"FAST_ANALYSIS": "gemini-2.5-flash"})
+alter table public.profiles add column if not exists model_preferences jsonb;
@@ -0,0 +1,23 @@
+-- One row per model call (chat/vision/video, embeddings, realtime sessions) for cost attribution
+create table if not exists public.llm_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  use_case text not null,
+  model text not null,
+  input_tokens integer not null default 0,
+  output_tokens integer not null default 0,
+  total_tokens integer not null default 0,
+  cost_usd numeric(12, 6) not null default 0,
+  created_at timestamptz default now()
+);
+
+create index if not exists llm_usage_user_created_idx
+  on public.llm_usage (user_id, created_at desc);
+
+alter table public.llm_usage enable row level security;
+
+create policy "Users can read own llm usage" on public.llm_usage
+  for select using (auth.uid() = user_id);
+
+-- Per-user daily/monthly spending limits and what to do when they are exceeded
+alter table public.profiles add column if not exists llm_budget jsonb;
@@ -0,0 +1,3 @@
+-- Client-side screenshot redaction (blurred regions, blocklisted apps/tabs, OCR text masking)
+-- Applied in the browser before upload; stored here so the settings follow the user across devices
+alter table public.profiles add column if not exists redaction_settings jsonb;
@@ -0,0 +1,9 @@
+-- Captures are no longer world-readable. New objects are stored under "<user id>/…" and viewed
+-- through short-lived signed URLs minted by /api/capture/signed-urls (service role, ownership checked).
+-- Existing objects keep their unprefixed paths; ownership for those is resolved from images/videos.
+insert into storage.buckets (id, name, public)
+values ('captures', 'captures', false)
+on conflict (id) do update set public = false;
+
+-- No storage.objects policies for this bucket on purpose: browsers never read it directly
+drop policy if exists "Public read captures" on storage.objects;
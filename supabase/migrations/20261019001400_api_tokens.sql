@@ -0,0 +1,22 @@
+-- Personal API tokens for non-browser clients (capture agents, scripts).
+-- Only a SHA-256 hash is stored; the token itself is shown once when it is created.
+create table if not exists public.api_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  token_hash text not null unique,
+  token_prefix text not null, -- First characters, to tell tokens apart in the UI
+  scopes text[] not null default '{}',
+  created_at timestamptz default now(),
+  last_used_at timestamptz,
+  expires_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists api_tokens_user_idx on public.api_tokens (user_id, created_at desc);
+
+alter table public.api_tokens enable row level security;
+
+-- Tokens are minted and verified with the service role; users may only list their own
+create policy "Users can read own api tokens" on public.api_tokens
+  for select using (auth.uid() = user_id);
@@ -0,0 +1,46 @@
+-- Outbound webhooks: user-registered endpoints and a log of every delivery attempt.
+-- Endpoints are managed through the API routes with the service role; users may read their own rows.
+create table if not exists public.webhook_endpoints (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  url text not null,
+  description text,
+  events text[] not null default '{}',
+  secret text not null, -- HMAC-SHA256 signing key, shown to the user once
+  enabled boolean not null default true,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create index if not exists webhook_endpoints_user_idx on public.webhook_endpoints (user_id, created_at desc);
+
+create table if not exists public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  endpoint_id uuid not null references public.webhook_endpoints (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  event text not null,
+  payload jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'succeeded', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz default now(),
+  response_status integer,
+  response_body text,
+  last_error text,
+  delivered_at timestamptz,
+  created_at timestamptz default now()
+);
+
+create index if not exists webhook_deliveries_endpoint_created_idx
+  on public.webhook_deliveries (endpoint_id, created_at desc);
+-- Retry worker: pending deliveries whose backoff has elapsed
+create index if not exists webhook_deliveries_pending_idx
+  on public.webhook_deliveries (next_attempt_at) where status = 'pending';
+
+alter table public.webhook_endpoints enable row level security;
+alter table public.webhook_deliveries enable row level security;
+
+create policy "Users can read own webhook endpoints" on public.webhook_endpoints
+  for select using (auth.uid() = user_id);
+
+create policy "Users can read own webhook deliveries" on public.webhook_deliveries
+  for select using (auth.uid() = user_id);
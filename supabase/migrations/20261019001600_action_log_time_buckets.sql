@@ -0,0 +1,46 @@
+-- Time spent per hour / application / activity category, estimated from screen_capture_analyze rows.
+-- A capture covers the time until it was last seen (ended_at, extended on repeated frames) plus one
+-- capture interval, capped at the next capture so gaps (idle, capture stopped) are not counted.
+-- Each capture is attributed to the hour it started in.
+create or replace function public.action_log_time_buckets(
+  user_id_filter uuid,
+  start_time timestamptz,
+  end_time timestamptz,
+  sample_seconds int default 10
+)
+returns table (
+  bucket_start timestamptz,
+  application text,
+  activity_category text,
+  seconds float,
+  captures bigint
+)
+language sql
+stable
+as $$
+  with captures as (
+    select
+      a.started_at,
+      greatest(coalesce(a.ended_at, a.started_at), a.started_at) as last_seen_at,
+      coalesce(nullif(a.details->>'application', ''), 'Unknown') as application,
+      coalesce(nullif(a.details->>'activity_category', ''), 'other') as activity_category,
+      lead(a.started_at) over (order by a.started_at) as next_started_at
+    from public.action_logs a
+    where a.user_id = user_id_filter
+      and a.type = 'screen_capture_analyze'
+      and a.started_at >= start_time
+      and a.started_at < end_time
+  )
+  select
+    date_trunc('hour', c.started_at) as bucket_start,
+    c.application,
+    c.activity_category,
+    sum(extract(epoch from (
+      least(c.last_seen_at + make_interval(secs => sample_seconds), coalesce(c.next_started_at, 'infinity'::timestamptz))
+      - c.started_at
+    )))::float as seconds,
+    count(*) as captures
+  from captures c
+  group by 1, 2, 3
+  order by 1;
+$$;
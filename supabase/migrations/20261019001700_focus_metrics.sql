@@ -0,0 +1,36 @@
+-- Deterministic focus / context-switch metrics per interval window (computed from screen_capture_analyze rows)
+create table if not exists public.focus_metrics (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  interval text not null check (interval in ('1hour', '1day', '1week')),
+  window_start timestamptz not null,
+  window_end timestamptz not null,
+  tracked_seconds integer not null default 0,
+  focus_blocks integer not null default 0,
+  context_switches integer not null default 0,
+  switches_per_hour real not null default 0,
+  longest_focus_seconds integer not null default 0,
+  longest_focus_application text,
+  deep_work_seconds integer not null default 0,
+  fragmentation_score smallint not null default 0,
+  computed_at timestamptz default now(),
+  unique (user_id, interval, window_start)
+);
+
+alter table public.focus_metrics enable row level security;
+
+create policy "Users can read own focus metrics" on public.focus_metrics
+  for select using (auth.uid() = user_id);
+
+-- Users with screen captures since a point in time (the scheduled task computes metrics only for them)
+create or replace function public.users_with_captures_since(since timestamptz)
+returns table (user_id uuid)
+language sql
+stable
+as $$
+  select distinct a.user_id
+  from public.action_logs a
+  where a.type = 'screen_capture_analyze'
+    and a.started_at >= since
+    and a.user_id is not null;
+$$;
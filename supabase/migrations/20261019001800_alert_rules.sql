@@ -0,0 +1,32 @@
+-- Per-user distraction alert rules (evaluated on each new screen capture, without a model call)
+alter table public.profiles add column if not exists alert_rules jsonb;
+
+-- Alerts are pushed through notifyUser under their own category
+alter table public.notification_events drop constraint if exists notification_events_category_check;
+alter table public.notification_events add constraint notification_events_category_check
+  check (category in ('advice', 'screen_summary', 'recording', 'alert', 'digest'));
+
+-- Every time a rule fired, with the value that crossed the threshold and what happened to the push
+create table if not exists public.alert_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  rule_id text not null,
+  rule_name text not null,
+  rule_kind text not null,
+  value real not null,
+  title text not null,
+  body text not null,
+  window_start timestamptz not null,
+  window_end timestamptz not null,
+  notification_status text,
+  notification_reason text,
+  created_at timestamptz default now()
+);
+
+create index if not exists alert_events_user_rule_created_idx
+  on public.alert_events (user_id, rule_id, created_at desc);
+
+alter table public.alert_events enable row level security;
+
+create policy "Users can read own alert events" on public.alert_events
+  for select using (auth.uid() = user_id);
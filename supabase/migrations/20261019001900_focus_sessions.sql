@@ -0,0 +1,31 @@
+-- Focus sessions (Pomodoro): a declared intention, the timer plan, and the end-of-session report
+create table if not exists public.focus_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  intention text not null,
+  focus_minutes smallint not null default 25,
+  break_minutes smallint not null default 5,
+  rounds smallint not null default 4,
+  status text not null default 'active' check (status in ('active', 'completed')),
+  started_at timestamptz not null default now(),
+  ended_at timestamptz,
+  report jsonb,
+  created_at timestamptz default now()
+);
+
+create index if not exists focus_sessions_user_started_idx
+  on public.focus_sessions (user_id, started_at desc);
+
+-- At most one running session per user
+create unique index if not exists focus_sessions_one_active_idx
+  on public.focus_sessions (user_id) where status = 'active';
+
+alter table public.focus_sessions enable row level security;
+
+create policy "Users can read own focus sessions" on public.focus_sessions
+  for select using (auth.uid() = user_id);
+
+-- Captures taken during a session carry details.focus_session_id; the report loads them by it
+create index if not exists action_logs_focus_session_idx
+  on public.action_logs ((details ->> 'focus_session_id'))
+  where details ? 'focus_session_id';
@@ -0,0 +1,14 @@
+-- Capture sessions are stored as action_logs rows of type 'session' (id = the client's session id).
+-- Captures taken during a session point at it with parent_id; details holds the session's log and tips.
+alter table public.action_logs drop constraint if exists action_logs_type_check;
+alter table public.action_logs add constraint action_logs_type_check check (
+  type in (
+    'screen_capture_analyze',
+    'screen_capture_recording',
+    'summary_10min',
+    'summary_1hour',
+    'summary_24hour',
+    'summary_1week',
+    'session'
+  )
+);
@@ -0,0 +1,25 @@
+-- Today's and this month's spend for budget checks, summed in SQL
+-- (selecting the rows would stop at PostgREST's row limit and undercount busy users)
+create or replace function public.llm_usage_totals(
+  user_id_filter uuid,
+  day_start timestamptz,
+  month_start timestamptz
+)
+returns table (
+  daily_usd float,
+  monthly_usd float,
+  daily_tokens bigint,
+  monthly_tokens bigint
+)
+language sql
+stable
+as $$
+  select
+    coalesce(sum(u.cost_usd) filter (where u.created_at >= day_start), 0)::float as daily_usd,
+    coalesce(sum(u.cost_usd), 0)::float as monthly_usd,
+    coalesce(sum(u.total_tokens) filter (where u.created_at >= day_start), 0)::bigint as daily_tokens,
+    coalesce(sum(u.total_tokens), 0)::bigint as monthly_tokens
+  from public.llm_usage u
+  where u.user_id = user_id_filter
+    and u.created_at >= month_start;
+$$;
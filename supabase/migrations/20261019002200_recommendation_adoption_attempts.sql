@@ -0,0 +1,7 @@
+-- Count adoption evaluations so insufficient_data verdicts stop being retried
+alter table public.recommendations
+  add column if not exists adoption_attempts smallint not null default 0;
+
+update public.recommendations
+  set adoption_attempts = 1
+  where adoption_evaluated_at is not null and adoption_attempts = 0;
@@ -0,0 +1,80 @@
+-- Replaces action_log_time_buckets: one row per (hour, application, category) passed the API's
+-- 1000-row limit over a month, and the rows for the latest days were dropped. The dashboard's
+-- roll-ups are now grouped here, so the row count no longer grows with every hour of the range:
+--   'series'       minutes per bar and category; local hours (series_unit 'hour') or local days
+--   'hour_of_day'  per local hour of day, 0–23
+--   'category'     per activity category
+--   'application'  per application, largest first and returned last
+-- Captures are timed as before: until they were last seen (ended_at, extended on repeated frames)
+-- plus one capture interval, capped at the next capture so gaps are not counted.
+drop function if exists public.action_log_time_buckets(uuid, timestamptz, timestamptz, int);
+
+create or replace function public.action_log_time_rollups(
+  user_id_filter uuid,
+  start_time timestamptz,
+  end_time timestamptz,
+  time_zone_name text default 'UTC',
+  series_unit text default 'day',
+  sample_seconds int default 10
+)
+returns table (
+  rollup text,
+  bucket_start timestamptz,
+  hour_of_day int,
+  application text,
+  activity_category text,
+  seconds float,
+  captures bigint
+)
+language sql
+stable
+as $$
+  with captures as (
+    select
+      a.started_at,
+      greatest(coalesce(a.ended_at, a.started_at), a.started_at) as last_seen_at,
+      coalesce(nullif(a.details->>'application', ''), 'Unknown') as application,
+      coalesce(nullif(a.details->>'activity_category', ''), 'other') as activity_category,
+      lead(a.started_at) over (order by a.started_at) as next_started_at
+    from public.action_logs a
+    where a.user_id = user_id_filter
+      and a.type = 'screen_capture_analyze'
+      and a.started_at >= start_time
+      and a.started_at < end_time
+  ),
+  timed as (
+    select
+      date_trunc(
+        case when series_unit = 'hour' then 'hour' else 'day' end,
+        c.started_at at time zone time_zone_name
+      ) at time zone time_zone_name as bucket_start,
+      extract(hour from c.started_at at time zone time_zone_name)::int as hour_of_day,
+      c.application,
+      c.activity_category,
+      extract(epoch from (
+        least(c.last_seen_at + make_interval(secs => sample_seconds), coalesce(c.next_started_at, 'infinity'::timestamptz))
+        - c.started_at
+      ))::float as seconds
+    from captures c
+  ),
+  rollups as (
+    select
+      case
+        when grouping(t.bucket_start) = 0 then 'series'
+        when grouping(t.hour_of_day) = 0 then 'hour_of_day'
+        when grouping(t.application) = 0 then 'application'
+        else 'category'
+      end as rollup,
+      t.bucket_start,
+      t.hour_of_day,
+      t.application,
+      t.activity_category,
+      sum(t.seconds)::float as seconds,
+      count(*) as captures
+    from timed t
+    group by grouping sets ((t.bucket_start, t.activity_category), (t.hour_of_day), (t.activity_category), (t.application))
+  )
+  select r.rollup, r.bucket_start, r.hour_of_day, r.application, r.activity_category, r.seconds, r.captures
+  from rollups r
+  order by r.rollup = 'application', r.bucket_start, r.hour_of_day, r.seconds desc;
+$$;
@@ -0,0 +1,21 @@
+-- The browser may only change the lifecycle and feedback columns of its own recommendations.
+-- Row-level security cannot limit columns, so the update privilege is granted per column instead;
+-- content and the adoption_* verdicts stay writable by the service role only.
+revoke update on public.recommendations from anon, authenticated;
+grant update (status, snoozed_until, rating, comment) on public.recommendations to authenticated;
+
+-- updated_at is kept here rather than sent by the client
+create or replace function public.set_recommendation_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists recommendations_set_updated_at on public.recommendations;
+create trigger recommendations_set_updated_at
+  before update on public.recommendations
+  for each row execute function public.set_recommendation_updated_at();
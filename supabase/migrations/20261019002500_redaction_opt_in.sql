@@ -0,0 +1,10 @@
+-- Redaction became opt-in, because no recordings are made while it is on. Profiles saved with the
+-- untouched old defaults never chose it, so they are switched off; customised settings are kept.
+update public.profiles
+  set redaction_settings = jsonb_set(redaction_settings, '{enabled}', 'false'::jsonb)
+  where redaction_settings = '{
+    "enabled": true,
+    "regions": [],
+    "blocklist": ["password", "パスワード", "bank", "銀行", "1password", "bitwarden"],
+    "ocr": { "enabled": false, "patterns": ["email", "card", "apiKey"], "customPatterns": [] }
+  }'::jsonb;
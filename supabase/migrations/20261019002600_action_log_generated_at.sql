@@ -0,0 +1,12 @@
+-- When a row's summary was last written: captures when their analysis is saved (or a repeated frame
+-- extends them), interval summaries each time they are generated. findMissingWindows compares these
+-- to find summaries that are older than their sources. created_at stays the insert time, so captures
+-- saved before their analysis and regenerated summaries no longer need it rewritten; /api/v1
+-- returns created_at as is.
+alter table public.action_logs
+  add column if not exists generated_at timestamptz;
+
+update public.action_logs
+  set generated_at = created_at
+  where generated_at is null
+    and summary is not null;
@@ -0,0 +1,8 @@
+-- Session summaries are written when the session ends, so that is when they were generated. The
+-- generated_at backfill used created_at, which for a session is when it started; without this every
+-- recently ended session would look older than its captures and be summarized again.
+update public.action_logs
+  set generated_at = ended_at
+  where type = 'session'
+    and ended_at is not null
+    and summary is not null;
@@ -0,0 +1,148 @@
+/**
+ * Capture → 10min summary → 1hour rollup → recommendation, end to end with the mock provider
+ * and an in-memory Supabase, so it runs offline without credentials.
+ */
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { after, before, describe, it } from 'node:test';
+import { clearMockFixtures, MOCK_PROVIDER, setMockFixtures } from '../src/lib/ai/mock-models';
+import { analyzeAndSaveScreenCapture } from '../src/lib/ai/screen-capture-interpreter';
+import { findMissingWindows, generateIntervalSummary } from '../src/lib/ai/time-interval-summarizer';
+import { analyzeFrames } from '../src/lib/ai/productivity-analyzer';
+import { setSupabaseServiceClient } from '../src/lib/supabase/server';
+import { FIXTURE_ADVICE, PIXEL_PNG } from './helpers/fixtures';
+import { MemorySupabase } from './helpers/memory-supabase';
+
+const USER_ID = randomUUID();
+const WINDOW_START = new Date(Date.UTC(2000, 0, 1, 9, 0, 0));
+const MINUTE_MS = 60 * 1000;
+const CAPTURE_COUNT = 5;
+
+describe('AI pipeline', () => {
+  const db = new MemorySupabase();
+
+  before(() => {
+    process.env.AI_PROVIDER = MOCK_PROVIDER;
+    setMockFixtures([{ match: 'Please analyze the following screenshots', object: { userAdvice: FIXTURE_ADVICE } }]);
+    setSupabaseServiceClient(db.asClient());
+  });
+
+  after(() => {
+    clearMockFixtures();
+    setSupabaseServiceClient(null);
+  });
+
+  it(`analyzes and saves ${CAPTURE_COUNT} captures`, async () => {
+    for (let i = 0; i < CAPTURE_COUNT; i++) {
+      const actionLogId = randomUUID();
+      const result = await analyzeAndSaveScreenCapture({
+        image: PIXEL_PNG,
+        timestamp: WINDOW_START.getTime() + (i + 1) * MINUTE_MS,
+        userId: USER_ID,
+        actionLogId,
+      });
+      assert.equal(result.success, true, result.error);
+      assert.equal(result.actionLogId, actionLogId, result.error);
+    }
+
+    const captures = db.rows('action_logs').filter((row) => row.type === 'screen_capture_analyze');
+    assert.equal(captures.length, CAPTURE_COUNT);
+    assert.ok(captures.every((row) => row.user_id === USER_ID && row.summary && row.embedding));
+    // Last seen when captured, not when the analysis finished
+    assert.ok(captures.every((row) => row.ended_at === row.started_at));
+  });
+
+  it('summarizes the captures into the 10min window', async () => {
+    const result = await generateIntervalSummary({
+      userId: USER_ID,
+      interval: '10min',
+      endTime: new Date(WINDOW_START.getTime() + 10 * MINUTE_MS),
+    });
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.sourceCount, CAPTURE_COUNT);
+
+    const summary = db.rows('action_logs').find((row) => row.id === result.actionLogId);
+    assert.equal(summary?.type, 'summary_10min');
+    assert.equal(summary?.started_at, WINDOW_START.toISOString());
+    assert.equal((summary?.source_log_ids as string[]).length, CAPTURE_COUNT);
+  });
+
+  it('rolls the 10min summary up into the hour', async () => {
+    const result = await generateIntervalSummary({
+      userId: USER_ID,
+      interval: '1hour',
+      endTime: new Date(WINDOW_START.getTime() + 60 * MINUTE_MS),
+    });
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.sourceCount, 1);
+
+    const rollup = db.rows('action_logs').find((row) => row.id === result.actionLogId);
+    assert.equal(rollup?.type, 'summary_1hour');
+    assert.ok(rollup?.embedding, 'rollup should be embedded');
+  });
+
+  it('re-queues a summarized window when a capture is analysed after its summary', async () => {
+    const range = { start: WINDOW_START, end: new Date(WINDOW_START.getTime() + 60 * MINUTE_MS) };
+    assert.deepEqual(await findMissingWindows(USER_ID, '10min', range.start, range.end), []);
+
+    // Inserted before its analysis, like the screenshot route does, and still pending
+    const actionLogId = randomUUID();
+    const startedAt = new Date(WINDOW_START.getTime() + 8 * MINUTE_MS);
+    const { error } = await db.from('action_logs').insert({
+      id: actionLogId,
+      user_id: USER_ID,
+      type: 'screen_capture_analyze',
+      started_at: startedAt.toISOString(),
+      details: { repeat_count: 1 },
+    });
+    assert.equal(error, null);
+    assert.deepEqual(await findMissingWindows(USER_ID, '10min', range.start, range.end), []);
+
+    const late = await analyzeAndSaveScreenCapture({
+      image: PIXEL_PNG,
+      timestamp: startedAt.getTime(),
+      userId: USER_ID,
+      actionLogId,
+    });
+    assert.equal(late.success, true, late.error);
+    const capture = db.rows('action_logs').find((row) => row.id === actionLogId)!;
+    // Later than the summary even if the clock has not ticked since it was written
+    capture.generated_at = new Date(Date.now() + MINUTE_MS).toISOString();
+
+    const windows = await findMissingWindows(USER_ID, '10min', range.start, range.end);
+    assert.deepEqual(windows.map((w) => w.start.toISOString()), [WINDOW_START.toISOString()]);
+  });
+
+  it('keeps created_at when a summary is regenerated', async () => {
+    const before = db.rows('action_logs').find((row) => row.type === 'summary_10min')!;
+    const createdAt = before.created_at;
+    const result = await generateIntervalSummary({
+      userId: USER_ID,
+      interval: '10min',
+      endTime: new Date(WINDOW_START.getTime() + 10 * MINUTE_MS),
+      overwrite: true,
+    });
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.actionLogId, before.id);
+    assert.equal(result.sourceCount, CAPTURE_COUNT + 1);
+    assert.equal(before.created_at, createdAt);
+    assert.ok(before.generated_at, 'regenerated summary should record when it was generated');
+  });
+
+  it('saves the recording analysis advice as a recommendation', async () => {
+    const result = await analyzeFrames([PIXEL_PNG.toString('base64')], USER_ID);
+    assert.equal(result.success, true, result.error);
+    assert.ok(result.recommendationId, 'recommendation should be saved');
+
+    const recommendation = db.rows('recommendations').find((row) => row.id === result.recommendationId);
+    assert.equal(recommendation?.user_id, USER_ID);
+    assert.equal(recommendation?.content, FIXTURE_ADVICE);
+    assert.equal(recommendation?.status, 'new');
+  });
+
+  it('records the mock calls as usage at zero cost', () => {
+    const usage = db.rows('llm_usage').filter((row) => row.user_id === USER_ID);
+    assert.ok(usage.length > 0);
+    assert.ok(usage.every((row) => String(row.model).startsWith(`${MOCK_PROVIDER}:`) && Number(row.cost_usd) === 0));
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Focus blocks and metrics from ordered captures, and the scheduled fill that recomputes windows
+ * whose captures changed after their metrics were computed.
+ */
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { after, before, describe, it } from 'node:test';
+import {
+  buildFocusBlocks,
+  computeFocusMetrics,
+  DEEP_WORK_MIN_SECONDS,
+  IDLE_GAP_SECONDS,
+  type FocusCapture,
+} from '../src/lib/analytics/focus-metrics';
+import { fillMissingFocusMetrics } from '../src/lib/analytics/focus-metrics-store';
+import { CAPTURE_SAMPLE_SECONDS } from '../src/lib/analytics/time-breakdown';
+import { setSupabaseServiceClient } from '../src/lib/supabase/server';
+import { MemorySupabase } from './helpers/memory-supabase';
+
+const START = new Date(Date.UTC(2000, 0, 1, 9, 0, 0));
+const MINUTE_MS = 60 * 1000;
+const SAMPLE_SECONDS = 60;
+
+// One capture per minute from `fromMinute`, each seen for a minute
+function run(application: string, category: string, fromMinute: number, minutes: number): FocusCapture[] {
+  return Array.from({ length: minutes }, (_, i) => {
+    const at = new Date(START.getTime() + (fromMinute + i) * MINUTE_MS).toISOString();
+    return { started_at: at, ended_at: at, application, activity_category: category };
+  });
+}
+
+describe('buildFocusBlocks', () => {
+  it('counts an application change as a switch', () => {
+    const { blocks, contextSwitches } = buildFocusBlocks([...run('Editor', 'coding', 0, 5), ...run('Browser', 'browsing', 5, 5)], SAMPLE_SECONDS);
+    assert.deepEqual(blocks.map((b) => [b.application, b.seconds]), [['Editor', 300], ['Browser', 300]]);
+    assert.equal(contextSwitches, 1);
+  });
+
+  it('ends a block at an idle gap without counting a switch', () => {
+    const gapMinutes = IDLE_GAP_SECONDS / 60 + 2;
+    const { blocks, contextSwitches } = buildFocusBlocks(
+      [...run('Editor', 'coding', 0, 5), ...run('Editor', 'coding', 5 + gapMinutes, 5)],
+      SAMPLE_SECONDS
+    );
+    assert.equal(blocks.length, 2);
+    assert.equal(contextSwitches, 0);
+  });
+
+  it('treats a return after an idle gap to another application as a break, not a switch', () => {
+    const gapMinutes = IDLE_GAP_SECONDS / 60 + 2;
+    const { contextSwitches } = buildFocusBlocks(
+      [...run('Editor', 'coding', 0, 5), ...run('Browser', 'browsing', 5 + gapMinutes, 5)],
+      SAMPLE_SECONDS
+    );
+    assert.equal(contextSwitches, 0);
+  });
+});
+
+describe('computeFocusMetrics', () => {
+  it('scores one unbroken block as unfragmented', () => {
+    const metrics = computeFocusMetrics(run('Editor', 'coding', 0, 10), SAMPLE_SECONDS);
+    assert.equal(metrics.focus_blocks, 1);
+    assert.equal(metrics.fragmentation_score, 0);
+  });
+
+  it('uses 1 - Herfindahl of block lengths for fragmentation', () => {
+    // Four equal blocks: 1 - 4 * (1/4)^2 = 0.75
+    const captures = [
+      ...run('Editor', 'coding', 0, 5),
+      ...run('Browser', 'browsing', 5, 5),
+      ...run('Editor', 'coding', 10, 5),
+      ...run('Browser', 'browsing', 15, 5),
+    ];
+    const metrics = computeFocusMetrics(captures, SAMPLE_SECONDS);
+    assert.equal(metrics.fragmentation_score, 75);
+    assert.equal(metrics.context_switches, 3);
+    assert.equal(metrics.switches_per_hour, 9);
+    assert.equal(metrics.tracked_seconds, 20 * 60);
+  });
+
+  it('counts only long blocks in deep-work categories as deep work', () => {
+    const deepMinutes = DEEP_WORK_MIN_SECONDS / 60;
+    const captures = [
+      ...run('Editor', 'coding', 0, deepMinutes),
+      ...run('Browser', 'browsing', deepMinutes, deepMinutes),
+      ...run('Docs', 'docs', 2 * deepMinutes, deepMinutes - 1),
+    ];
+    const metrics = computeFocusMetrics(captures, SAMPLE_SECONDS);
+    assert.equal(metrics.deep_work_seconds, DEEP_WORK_MIN_SECONDS);
+    assert.equal(metrics.longest_focus_application, 'Editor');
+  });
+});
+
+describe('fillMissingFocusMetrics', () => {
+  const db = new MemorySupabase();
+  const userId = randomUUID();
+  const range = { start: START, end: new Date(START.getTime() + 2 * 60 * MINUTE_MS) };
+
+  function addCapture(minute: number, createdAt: Date): void {
+    const at = new Date(START.getTime() + minute * MINUTE_MS).toISOString();
+    db.rows('action_logs').push({
+      id: randomUUID(),
+      user_id: userId,
+      type: 'screen_capture_analyze',
+      started_at: at,
+      ended_at: at,
+      created_at: createdAt.toISOString(),
+      generated_at: createdAt.toISOString(),
+      details: { application: 'Editor', activity_category: 'coding' },
+    });
+  }
+
+  function fill(): Promise<number> {
+    return fillMissingFocusMetrics({ userId, interval: '1hour', rangeStart: range.start, rangeEnd: range.end });
+  }
+
+  before(() => {
+    setSupabaseServiceClient(db.asClient());
+  });
+
+  after(() => {
+    setSupabaseServiceClient(null);
+  });
+
+  it('computes windows without metrics and leaves up-to-date ones alone', async () => {
+    const past = new Date(Date.now() - 60 * MINUTE_MS);
+    addCapture(5, past);
+    addCapture(65, past);
+    assert.equal(await fill(), 2);
+    assert.equal(await fill(), 0);
+  });
+
+  it('recomputes a window when a capture arrives after its metrics were computed', async () => {
+    addCapture(6, new Date(Date.now() + MINUTE_MS));
+    assert.equal(await fill(), 1);
+
+    // The first capture now runs until the late one, which covers one capture interval
+    const row = db.rows('focus_metrics').find((r) => r.window_start === START.toISOString());
+    assert.equal(row?.tracked_seconds, 60 + CAPTURE_SAMPLE_SECONDS);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Focus session reports stop at the planned rounds, so a session nobody ended does not keep counting.
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildFocusSessionStats, sessionEnd, type SessionCapture } from '../src/lib/focus-sessions/report';
+import type { FocusTimerPlan } from '../src/lib/focus-sessions/timer';
+
+const STARTED_AT = new Date(Date.UTC(2000, 0, 1, 9, 0, 0));
+const MINUTE_MS = 60 * 1000;
+const SAMPLE_SECONDS = 60;
+// 25 min focus, 5 min break, 25 min focus: over after 55 min
+const PLAN: FocusTimerPlan = { focusMinutes: 25, breakMinutes: 5, rounds: 2 };
+
+function capture(minute: number, lastSeenMinute: number = minute): SessionCapture {
+  return {
+    started_at: new Date(STARTED_AT.getTime() + minute * MINUTE_MS).toISOString(),
+    ended_at: new Date(STARTED_AT.getTime() + lastSeenMinute * MINUTE_MS).toISOString(),
+    summary: null,
+    application: 'Editor',
+    activity_category: 'coding',
+  };
+}
+
+describe('buildFocusSessionStats', () => {
+  it('splits focus and break time', () => {
+    const stats = buildFocusSessionStats(PLAN, STARTED_AT, new Date(STARTED_AT.getTime() + 55 * MINUTE_MS), [
+      capture(0),
+      capture(26),
+      capture(30),
+    ], SAMPLE_SECONDS);
+    assert.equal(stats.captures, 3);
+    assert.equal(stats.focusSeconds, 2 * SAMPLE_SECONDS);
+    assert.equal(stats.breakSeconds, SAMPLE_SECONDS);
+    assert.equal(stats.completedRounds, 2);
+  });
+
+  it('ignores everything after the planned rounds when the session was ended late', () => {
+    const endedLate = new Date(STARTED_AT.getTime() + 5 * 60 * MINUTE_MS);
+    const stats = buildFocusSessionStats(PLAN, STARTED_AT, endedLate, [
+      capture(50, 120), // Seen until long after the plan ended
+      capture(60),
+      capture(180),
+    ], SAMPLE_SECONDS);
+    assert.equal(stats.captures, 1);
+    assert.equal(stats.elapsedMinutes, 55);
+    assert.equal(stats.focusSeconds, 5 * 60);
+    assert.equal(stats.breakSeconds, 0);
+  });
+});
+
+describe('sessionEnd', () => {
+  it('is the earlier of the stop time and the end of the planned rounds', () => {
+    const early = new Date(STARTED_AT.getTime() + 10 * MINUTE_MS);
+    assert.equal(sessionEnd(PLAN, STARTED_AT, early).getTime(), early.getTime());
+    const late = new Date(STARTED_AT.getTime() + 10 * 60 * MINUTE_MS);
+    assert.equal(sessionEnd(PLAN, STARTED_AT, late).getTime(), STARTED_AT.getTime() + 55 * MINUTE_MS);
+  });
+});
@@ -0,0 +1,8 @@
+// 1x1 transparent PNG
+export const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+// Returned as the recording analysis' advice by the mock provider
+export const FIXTURE_ADVICE = 'Use Cmd+Shift+T to reopen the tab you just closed instead of searching history.';
@@ -0,0 +1,341 @@
+/**
+ * In-memory stand-in for the Supabase service client, for tests that run without a database.
+ *
+ * Covers the PostgREST query builder calls the server code makes: select / insert / update /
+ * upsert / delete, the comparison filters (including `details->>field` paths and `.or()` strings),
+ * order, limit, range, single / maybeSingle and exact counts. Rows get an id and created_at like the
+ * table defaults. RPCs are answered by the handlers passed in; anything else returns an error.
+ */
+import { randomUUID } from 'node:crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type Row = Record<string, unknown>;
+type Predicate = (row: Row) => boolean;
+type RpcHandler = (args: Record<string, unknown>, db: MemorySupabase) => unknown;
+
+interface QueryError {
+  message: string;
+  code?: string;
+}
+
+interface QueryResult {
+  data: unknown;
+  error: QueryError | null;
+  count?: number | null;
+}
+
+// `details->>application` reads a JSON field as text
+function readColumn(row: Row, column: string): unknown {
+  const [name, field] = column.split('->>');
+  const value = row[name.trim()];
+  if (field === undefined) return value;
+  if (!value || typeof value !== 'object') return null;
+  const nested = (value as Row)[field.trim()];
+  return nested === undefined || nested === null ? null : String(nested);
+}
+
+// Timestamps compare as instants, numbers as numbers, anything else as text
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) - Number(b);
+  const left = String(a);
+  const right = String(b);
+  const leftTime = Date.parse(left);
+  const rightTime = Date.parse(right);
+  if (/^\d{4}-\d{2}-\d{2}/.test(left) && !Number.isNaN(leftTime) && !Number.isNaN(rightTime)) {
+    return leftTime - rightTime;
+  }
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function likePattern(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
+
+// Right-hand side of an "is" condition
+function parseIsValue(value: string): unknown {
+  return value === 'null' ? null : value === 'true' ? true : value === 'false' ? false : value;
+}
+
+function operator(column: string, op: string, value: unknown): Predicate {
+  return (row) => {
+    const actual = readColumn(row, column);
+    switch (op) {
+      case 'eq':
+        return actual !== null && actual !== undefined && compare(actual, value) === 0;
+      case 'neq':
+        return actual !== null && actual !== undefined && compare(actual, value) !== 0;
+      case 'gt':
+        return actual !== null && actual !== undefined && compare(actual, value) > 0;
+      case 'gte':
+        return actual !== null && actual !== undefined && compare(actual, value) >= 0;
+      case 'lt':
+        return actual !== null && actual !== undefined && compare(actual, value) < 0;
+      case 'lte':
+        return actual !== null && actual !== undefined && compare(actual, value) <= 0;
+      case 'is':
+        return (actual ?? null) === value;
+      case 'like':
+        return typeof actual === 'string' && likePattern(String(value)).test(actual);
+      case 'in':
+        return (value as unknown[]).some((item) => actual !== null && actual !== undefined && compare(actual, item) === 0);
+      case 'cs':
+        return Array.isArray(actual) && (value as unknown[]).every((item) => actual.includes(item));
+      default:
+        throw new Error(`Unsupported filter operator: ${op}`);
+    }
+  };
+}
+
+// Splits "a,and(b,c),d" at the top-level commas
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) parts.push(current);
+  return parts.map((part) => part.trim());
+}
+
+// PostgREST logic trees: "col.op.value" conditions joined by or(...) / and(...)
+function parseLogic(expression: string): Predicate {
+  const group = expression.match(/^(and|or)\((.*)\)$/);
+  if (group) {
+    const children = splitTopLevel(group[2]).map(parseLogic);
+    return group[1] === 'and'
+      ? (row) => children.every((child) => child(row))
+      : (row) => children.some((child) => child(row));
+  }
+  const [column, op, ...rest] = expression.split('.');
+  const value = rest.join('.');
+  if (op === 'is') return operator(column, op, parseIsValue(value));
+  if (op === 'in') return operator(column, op, value.replace(/^\(|\)$/g, '').split(','));
+  return operator(column, op, value);
+}
+
+function project(row: Row, columns: string): Row {
+  if (columns.trim() === '*') return { ...row };
+  const picked: Row = {};
+  for (const column of columns.split(',').map((c) => c.trim()).filter(Boolean)) {
+    picked[column] = row[column] ?? null;
+  }
+  return picked;
+}
+
+class MemoryQuery implements PromiseLike<QueryResult> {
+  private action: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+  private payload: Row[] = [];
+  private conflictColumns = ['id'];
+  private ignoreDuplicates = false;
+  private columns: string | null = null;
+  private countRows = false;
+  private headOnly = false;
+  private filters: Predicate[] = [];
+  private ordering: Array<{ column: string; ascending: boolean }> = [];
+  private maxRows: number | null = null;
+  private offset = 0;
+  private expect: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private readonly db: MemorySupabase, private readonly table: string) {}
+
+  select(columns: string = '*', options: { count?: 'exact'; head?: boolean } = {}): this {
+    this.columns = columns;
+    this.countRows = options.count === 'exact';
+    this.headOnly = !!options.head;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.payload = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.action = 'upsert';
+    this.payload = Array.isArray(values) ? values : [values];
+    if (options.onConflict) this.conflictColumns = options.onConflict.split(',').map((c) => c.trim());
+    this.ignoreDuplicates = !!options.ignoreDuplicates;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.action = 'update';
+    this.payload = [values];
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this { return this.where(operator(column, 'eq', value)); }
+  neq(column: string, value: unknown): this { return this.where(operator(column, 'neq', value)); }
+  gt(column: string, value: unknown): this { return this.where(operator(column, 'gt', value)); }
+  gte(column: string, value: unknown): this { return this.where(operator(column, 'gte', value)); }
+  lt(column: string, value: unknown): this { return this.where(operator(column, 'lt', value)); }
+  lte(column: string, value: unknown): this { return this.where(operator(column, 'lte', value)); }
+  like(column: string, pattern: string): this { return this.where(operator(column, 'like', pattern)); }
+  in(column: string, values: unknown[]): this { return this.where(operator(column, 'in', values)); }
+  is(column: string, value: unknown): this { return this.where(operator(column, 'is', value)); }
+  contains(column: string, values: unknown[]): this { return this.where(operator(column, 'cs', values)); }
+
+  not(column: string, op: string, value: unknown): this {
+    const predicate = operator(column, op, value);
+    return this.where((row) => !predicate(row));
+  }
+
+  or(expression: string): this {
+    return this.where(parseLogic(`or(${expression})`));
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.offset = from;
+    this.maxRows = to - from + 1;
+    return this;
+  }
+
+  single(): this {
+    this.expect = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.expect = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private where(predicate: Predicate): this {
+    this.filters.push(predicate);
+    return this;
+  }
+
+  private matches(row: Row): boolean {
+    return this.filters.every((predicate) => predicate(row));
+  }
+
+  private execute(): QueryResult {
+    const rows = this.db.rows(this.table);
+    let affected: Row[];
+
+    switch (this.action) {
+      case 'insert':
+        affected = this.payload.map((values) => this.db.withDefaults(values));
+        if (affected.some((row) => rows.some((existing) => existing.id === row.id))) {
+          return { data: null, error: { message: `duplicate key value violates unique constraint "${this.table}_pkey"`, code: '23505' } };
+        }
+        rows.push(...affected);
+        break;
+      case 'upsert':
+        affected = [];
+        for (const values of this.payload) {
+          const existing = rows.find((row) => this.conflictColumns.every((column) => row[column] === values[column]));
+          if (existing && this.ignoreDuplicates) continue;
+          if (existing) {
+            Object.assign(existing, values);
+            affected.push(existing);
+          } else {
+            const row = this.db.withDefaults(values);
+            rows.push(row);
+            affected.push(row);
+          }
+        }
+        break;
+      case 'update':
+        affected = rows.filter((row) => this.matches(row));
+        for (const row of affected) Object.assign(row, this.payload[0]);
+        break;
+      case 'delete':
+        affected = rows.filter((row) => this.matches(row));
+        this.db.replaceRows(this.table, rows.filter((row) => !affected.includes(row)));
+        break;
+      default:
+        affected = rows.filter((row) => this.matches(row));
+    }
+
+    if (this.action !== 'select' && this.columns === null) return { data: null, error: null };
+
+    let result = affected.slice();
+    for (const { column, ascending } of this.ordering.slice().reverse()) {
+      result.sort((a, b) => {
+        const left = readColumn(a, column);
+        const right = readColumn(b, column);
+        if (left === right) return 0;
+        if (left === null || left === undefined) return 1;
+        if (right === null || right === undefined) return -1;
+        return ascending ? compare(left, right) : compare(right, left);
+      });
+    }
+    const count = result.length;
+    result = result.slice(this.offset, this.maxRows === null ? undefined : this.offset + this.maxRows);
+    const data = result.map((row) => project(row, this.columns ?? '*'));
+
+    if (this.headOnly) return { data: null, error: null, count };
+    if (this.expect === 'many') return { data, error: null, count: this.countRows ? count : null };
+    if (data.length > 1 || (this.expect === 'single' && data.length === 0)) {
+      return { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' } };
+    }
+    return { data: data[0] ?? null, error: null };
+  }
+}
+
+export class MemorySupabase {
+  private readonly tables = new Map<string, Row[]>();
+
+  constructor(private readonly rpcHandlers: Record<string, RpcHandler> = {}) {}
+
+  from(table: string): MemoryQuery {
+    return new MemoryQuery(this, table);
+  }
+
+  async rpc(name: string, args: Record<string, unknown> = {}): Promise<QueryResult> {
+    const handler = this.rpcHandlers[name];
+    if (!handler) return { data: null, error: { message: `Could not find the function public.${name}` } };
+    return { data: await handler(args, this), error: null };
+  }
+
+  // The live rows of a table (mutations through the client are visible here)
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) this.tables.set(table, []);
+    return this.tables.get(table)!;
+  }
+
+  replaceRows(table: string, rows: Row[]): void {
+    this.tables.set(table, rows);
+  }
+
+  withDefaults(values: Row): Row {
+    return { id: randomUUID(), created_at: new Date().toISOString(), ...values };
+  }
+
+  asClient(): SupabaseClient {
+    return this as unknown as SupabaseClient;
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * The mock provider (AI_PROVIDER=mock) gives schema-shaped, deterministic answers offline.
+ */
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { clearMockFixtures, MOCK_PROVIDER, setMockFixtures } from '../src/lib/ai/mock-models';
+import { analyzeScreenCapture, ACTIVITY_CATEGORIES } from '../src/lib/ai/screen-capture-interpreter';
+import { analyzeFrames } from '../src/lib/ai/productivity-analyzer';
+import { generateEmbedding } from '../src/lib/ai/embedding';
+import { FIXTURE_ADVICE, PIXEL_PNG } from './helpers/fixtures';
+
+function parseVector(value: string): number[] {
+  return JSON.parse(value) as number[];
+}
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+describe('mock AI provider', () => {
+  before(() => {
+    process.env.AI_PROVIDER = MOCK_PROVIDER;
+    setMockFixtures([{ match: 'Please analyze the following screenshots', object: { userAdvice: FIXTURE_ADVICE } }]);
+  });
+
+  after(() => {
+    clearMockFixtures();
+  });
+
+  it('returns a deterministic screen analysis that matches the schema', async () => {
+    const input = { image: PIXEL_PNG, timestamp: Date.UTC(2000, 0, 1, 9) };
+    const first = await analyzeScreenCapture(input);
+    const second = await analyzeScreenCapture(input);
+    assert.equal(first.success, true, first.error);
+    assert.ok(first.analysis?.description);
+    assert.ok(ACTIVITY_CATEGORIES.includes(first.analysis!.context!.activityCategory));
+    assert.deepEqual(second.analysis, first.analysis);
+  });
+
+  it('merges registered fixtures into the recording analysis', async () => {
+    const result = await analyzeFrames([PIXEL_PNG.toString('base64')]);
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.analysis?.userAdvice, FIXTURE_ADVICE);
+    assert.ok((result.analysis?.summary.productivityScore ?? 0) >= 1);
+  });
+
+  it('embeds deterministically, closer for texts sharing words', async () => {
+    const a = parseVector(await generateEmbedding('Editing the capture client in VS Code'));
+    const again = parseVector(await generateEmbedding('Editing the capture client in VS Code'));
+    const near = parseVector(await generateEmbedding('Editing capture client code in VS Code'));
+    const far = parseVector(await generateEmbedding('Lunch break, watching a cooking video'));
+    assert.equal(a.length, 1536);
+    assert.deepEqual(again, a);
+    assert.ok(cosine(a, near) > cosine(a, far));
+  });
+});
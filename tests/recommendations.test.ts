@@ -0,0 +1,50 @@
+/**
+ * Status filters for the advice lists: they match the effective status, so snoozed advice stays
+ * out of the active views until its snooze ends.
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  ACTIVE_RECOMMENDATION_STATUSES,
+  effectiveStatusFilter,
+  getEffectiveStatus,
+  type RecommendationStatus,
+} from '../src/lib/recommendations/lifecycle';
+import { MemorySupabase } from './helpers/memory-supabase';
+
+const NOW = new Date(Date.UTC(2000, 0, 1, 9, 0, 0));
+const HOUR_MS = 60 * 60 * 1000;
+
+const ROWS = [
+  { id: 'new', status: 'new', snoozed_until: null },
+  { id: 'accepted', status: 'accepted', snoozed_until: null },
+  { id: 'snoozed', status: 'snoozed', snoozed_until: new Date(NOW.getTime() + HOUR_MS).toISOString() },
+  { id: 'snooze-ended', status: 'snoozed', snoozed_until: new Date(NOW.getTime() - HOUR_MS).toISOString() },
+  { id: 'snoozed-without-end', status: 'snoozed', snoozed_until: null },
+  { id: 'done', status: 'done', snoozed_until: null },
+  { id: 'dismissed', status: 'dismissed', snoozed_until: null },
+];
+
+async function matching(statuses: RecommendationStatus[]): Promise<string[]> {
+  const db = new MemorySupabase();
+  db.rows('recommendations').push(...ROWS.map((row) => ({ ...row })));
+  const { data } = await db.from('recommendations').select('id').or(effectiveStatusFilter(statuses, NOW));
+  return (data as Array<{ id: string }>).map((row) => row.id);
+}
+
+describe('effectiveStatusFilter', () => {
+  it('keeps advice that is still snoozed out of the active list and brings expired snoozes back', async () => {
+    assert.deepEqual(await matching(ACTIVE_RECOMMENDATION_STATUSES), ['new', 'accepted', 'snooze-ended', 'snoozed-without-end']);
+  });
+
+  it('lists only advice that is still snoozed under snoozed', async () => {
+    assert.deepEqual(await matching(['snoozed']), ['snoozed']);
+  });
+
+  it('selects the same rows as getEffectiveStatus for every status', async () => {
+    for (const status of ['new', 'accepted', 'snoozed', 'done', 'dismissed'] as const) {
+      const expected = ROWS.filter((row) => getEffectiveStatus(row, NOW) === status).map((row) => row.id);
+      assert.deepEqual(await matching([status]), expected, status);
+    }
+  });
+});
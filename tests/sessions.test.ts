@@ -0,0 +1,79 @@
+/**
+ * Capture session summaries: written when the session ends and refreshed when captures arrive later.
+ */
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { after, before, describe, it } from 'node:test';
+import { clearMockFixtures, MOCK_PROVIDER, setMockFixtures } from '../src/lib/ai/mock-models';
+import { refreshStaleSessionSummaries, saveSession } from '../src/lib/sessions/store';
+import { setSupabaseServiceClient } from '../src/lib/supabase/server';
+import { MemorySupabase } from './helpers/memory-supabase';
+
+const USER_ID = randomUUID();
+const SESSION_ID = randomUUID();
+const MINUTE_MS = 60 * 1000;
+const STARTED_AT = Date.now() - 60 * MINUTE_MS;
+const STOPPED_AT = Date.now() - 30 * MINUTE_MS;
+
+describe('session summaries', () => {
+  const db = new MemorySupabase();
+
+  function addCapture(minute: number, summary: string, createdAt: Date): void {
+    db.rows('action_logs').push({
+      id: randomUUID(),
+      user_id: USER_ID,
+      type: 'screen_capture_analyze',
+      parent_id: SESSION_ID,
+      started_at: new Date(STARTED_AT + minute * MINUTE_MS).toISOString(),
+      summary,
+      details: { application: 'Editor' },
+      created_at: createdAt.toISOString(),
+      generated_at: createdAt.toISOString(),
+    });
+  }
+
+  function summarizeAs(summary: string): void {
+    setMockFixtures([{ match: 'taken during one work session', object: { summary } }]);
+  }
+
+  function session() {
+    return db.rows('action_logs').find((row) => row.id === SESSION_ID)!;
+  }
+
+  before(() => {
+    process.env.AI_PROVIDER = MOCK_PROVIDER;
+    summarizeAs('Worked on the parser.');
+    setSupabaseServiceClient(db.asClient());
+  });
+
+  after(() => {
+    clearMockFixtures();
+    setSupabaseServiceClient(null);
+  });
+
+  it('summarizes the session when it ends', async () => {
+    addCapture(5, 'Writing the parser', new Date(STARTED_AT + 5 * MINUTE_MS));
+    const saved = await saveSession(USER_ID, SESSION_ID, { startedAt: STARTED_AT, stoppedAt: STOPPED_AT, log: [], tips: [], intention: null });
+    assert.ok(saved);
+    assert.equal(session().summary, 'Worked on the parser.');
+    assert.ok(session().generated_at);
+  });
+
+  it('leaves the summary alone while no capture has changed', async () => {
+    summarizeAs('Should not be used.');
+    assert.equal(await refreshStaleSessionSummaries(new Date(STARTED_AT)), 0);
+    assert.equal(session().summary, 'Worked on the parser.');
+  });
+
+  it('summarizes again when a queued capture arrives after the session ended', async () => {
+    addCapture(20, 'Testing the parser', new Date(Date.now() + MINUTE_MS));
+    summarizeAs('Wrote and tested the parser.');
+    assert.equal(await refreshStaleSessionSummaries(new Date(STARTED_AT)), 1);
+    assert.equal(session().summary, 'Wrote and tested the parser.');
+  });
+
+  it('only looks at sessions that ended after the lookback start', async () => {
+    addCapture(25, 'Reviewing', new Date(Date.now() + 2 * MINUTE_MS));
+    assert.equal(await refreshStaleSessionSummaries(new Date(STOPPED_AT + MINUTE_MS)), 0);
+  });
+});
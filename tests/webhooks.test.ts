@@ -0,0 +1,59 @@
+/**
+ * Webhook retries against an in-memory Supabase: overlapping runs must not send a delivery twice.
+ */
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { after, before, describe, it } from 'node:test';
+import { retryDueWebhookDeliveries } from '../src/lib/webhooks/deliver';
+import { setSupabaseServiceClient } from '../src/lib/supabase/server';
+import { MemorySupabase } from './helpers/memory-supabase';
+
+const NOW = new Date(Date.UTC(2000, 0, 1, 9, 0, 0));
+const DUE_COUNT = 3;
+
+describe('retryDueWebhookDeliveries', () => {
+  const db = new MemorySupabase();
+  const endpointId = randomUUID();
+
+  before(() => {
+    setSupabaseServiceClient(db.asClient());
+    // A disabled endpoint fails the attempt without a network call, which still counts as one attempt
+    db.rows('webhook_endpoints').push({ id: endpointId, url: 'https://example.com/hook', secret: 'secret', enabled: false });
+    for (let i = 0; i < DUE_COUNT; i++) {
+      db.rows('webhook_deliveries').push({
+        id: randomUUID(),
+        endpoint_id: endpointId,
+        event: 'summary.10min',
+        payload: {},
+        attempts: 1,
+        status: 'pending',
+        next_attempt_at: new Date(NOW.getTime() - 1000).toISOString(),
+      });
+    }
+  });
+
+  after(() => {
+    setSupabaseServiceClient(null);
+  });
+
+  it('attempts each due delivery once when runs overlap', async () => {
+    const attempted = await Promise.all([retryDueWebhookDeliveries(NOW), retryDueWebhookDeliveries(NOW)]);
+    assert.equal(attempted[0] + attempted[1], DUE_COUNT);
+
+    const deliveries = db.rows('webhook_deliveries');
+    assert.ok(deliveries.every((row) => row.attempts === 2 && row.status === 'failed'));
+  });
+
+  it('leaves deliveries that are not due yet alone', async () => {
+    db.rows('webhook_deliveries').push({
+      id: randomUUID(),
+      endpoint_id: endpointId,
+      event: 'summary.10min',
+      payload: {},
+      attempts: 1,
+      status: 'pending',
+      next_attempt_at: new Date(NOW.getTime() + 60 * 1000).toISOString(),
+    });
+    assert.equal(await retryDueWebhookDeliveries(NOW), 0);
+  });
+});